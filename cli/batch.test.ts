@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../src/constants';
+import { DEFAULT_RETRY_POLICY } from '../src/lib/retry';
+import { isValidSeed } from '../src/lib/seed';
+import { RequestFileError, completedJobs, createBatchJobs, parseRequestFile } from './batch';
+
+const lines = (...requests: unknown[]) => requests.map(request => JSON.stringify(request)).join('\n');
+
+describe('parseRequestFile', () => {
+  it('fills in defaults and skips blank lines', () => {
+    const requests = parseRequestFile(`${lines({ prompt: ' a castle ' })}\n\n${lines({
+      id: 'fox',
+      prompt: 'a fox',
+      provider: 'openai',
+      aspectRatio: '16:9',
+      stylePreset: 'Anime',
+      seed: 7,
+      count: 2
+    })}\n`);
+
+    expect(requests).toEqual([
+      {
+        id: 'line-1',
+        line: 1,
+        prompt: 'a castle',
+        negativePrompt: '',
+        provider: 'huggingface',
+        model: '',
+        settings: { ...DEFAULT_SETTINGS, seed: undefined },
+        count: 1
+      },
+      expect.objectContaining({
+        id: 'fox',
+        line: 3,
+        provider: 'openai',
+        settings: expect.objectContaining({ aspectRatio: '16:9', stylePreset: 'anime', seed: 7 }),
+        count: 2
+      })
+    ]);
+  });
+
+  it.each([
+    ['{"prompt": ', 'Line 1: Not valid JSON.'],
+    ['["a castle"]', 'Line 1: Each line must be a JSON object.'],
+    ['{"negativePrompt": "blurry"}', 'Line 1: "prompt" is required.'],
+    ['{"prompt": "a castle", "colour": "red"}', 'Line 1: Unknown field "colour".'],
+    ['{"prompt": "a castle", "provider": "midjourney"}', 'Line 1: Unknown provider "midjourney".'],
+    ['{"prompt": "a castle", "steps": 0}', 'Line 1: "steps" must be a whole number between 1 and 150.'],
+    ['{"prompt": "a castle", "id": "../etc"}', 'Line 1: "id" may only contain letters, digits, ".", "_" and "-".'],
+    [lines({ id: 'a', prompt: 'x' }, { id: 'a', prompt: 'y' }), 'Line 2: Duplicate id "a" (also on line 1).'],
+    [lines({ id: 'a', prompt: 'x', count: 2 }, { id: 'a-1', prompt: 'y' }), 'Line 2: Job id "a-1" is also used by line 1.'],
+    [lines({ id: 'a-2', prompt: 'x' }, { id: 'a', prompt: 'y', count: 2 }), 'Line 2: Job id "a-2" is also used by line 1.']
+  ])('rejects %s', (text, message) => {
+    expect(() => parseRequestFile(text)).toThrow(RequestFileError);
+    expect(() => parseRequestFile(text)).toThrow(message);
+  });
+});
+
+describe('createBatchJobs', () => {
+  it('creates a job per image with counting seeds', () => {
+    const requests = parseRequestFile(lines({ id: 'fox', prompt: 'a fox', seed: 7, count: 3 }, { id: 'owl', prompt: 'an owl' }));
+
+    const jobs = createBatchJobs(requests, DEFAULT_RETRY_POLICY);
+
+    expect(jobs.map(job => [job.id, job.input.settings.seed])).toEqual([
+      ['fox-1', 7], ['fox-2', 8], ['fox-3', 9], ['owl', expect.any(Number)]
+    ]);
+    expect(jobs[0].input).toMatchObject({ prompt: 'a fox', providerId: 'huggingface', mode: 'text-to-image' });
+  });
+
+  it('gives images without a seed the same seed on every run', () => {
+    const requests = parseRequestFile(lines({ id: 'owl', prompt: 'an owl', count: 2 }));
+    const seeds = () => createBatchJobs(requests, DEFAULT_RETRY_POLICY).map(job => job.input.settings.seed);
+
+    expect(seeds()).toEqual(seeds());
+    expect(seeds()[0]).not.toBe(seeds()[1]);
+    expect(seeds().every(isValidSeed)).toBe(true);
+  });
+});
+
+describe('completedJobs', () => {
+  it('keeps the latest successful result of each job', () => {
+    const results = [
+      lines({ id: 'fox', status: 'failed' }, { id: 'fox', status: 'success', file: 'fox.png' }),
+      lines({ id: 'owl', status: 'success', file: 'owl.png' }, { id: 'owl', status: 'failed' }),
+      '{"id": "cat", "sta'
+    ].join('\n');
+
+    expect(completedJobs(results)).toEqual(new Map([['fox', 'fox.png']]));
+  });
+});
@@ -0,0 +1,242 @@
+import { createHash } from 'node:crypto';
+import type { AspectRatio, ImageQuality, ImageSettings } from '../src/types';
+import { DEFAULT_SETTINGS, MAX_IMAGES_PER_PROMPT } from '../src/constants';
+import { DEFAULT_PROVIDER_ID, isProviderId, type ProviderErrorCode, type ProviderId } from '../src/lib/providers';
+import { ASPECT_RATIOS } from '../src/lib/resolution';
+import { MAX_SEED, isValidSeed } from '../src/lib/seed';
+import { BUILT_IN_STYLE_PRESETS } from '../src/lib/stylePresets';
+import { offsetSeed, type GenerationInput } from '../src/lib/generationClient';
+import type { RetryPolicy } from '../src/lib/retry';
+
+// Request files are JSONL: one JSON object per line, for example
+//
+//   {"id": "hero", "prompt": "a castle at dawn", "aspectRatio": "16:9", "count": 2}
+//
+// Only "prompt" is required. Blank lines are skipped.
+
+export interface BatchRequest {
+  // Names the output files and identifies the request when resuming;
+  // defaults to the line number
+  id: string;
+  line: number;
+  prompt: string;
+  negativePrompt: string;
+  provider: ProviderId;
+  model: string;
+  // Seed left out means a different one for every image
+  settings: Omit<ImageSettings, 'seed'> & { seed?: number };
+  count: number;
+}
+
+// One image of a request
+export interface BatchJob {
+  // `<request id>` or `<request id>-<n>` for requests with several images
+  id: string;
+  request: BatchRequest;
+  input: GenerationInput;
+}
+
+export type ResultStatus = 'success' | 'failed';
+
+// A line of results.jsonl
+export interface BatchResult {
+  id: string;
+  requestId: string;
+  line: number;
+  status: ResultStatus;
+  // Image path relative to the output directory
+  file?: string;
+  prompt: string;
+  provider: ProviderId;
+  model: string;
+  seed: number;
+  width: number;
+  height: number;
+  startedAt: string;
+  durationMs: number;
+  attempts: number;
+  // Estimated price in US dollars
+  cost: number;
+  error?: { code: ProviderErrorCode; message: string };
+}
+
+export class RequestFileError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'RequestFileError';
+    this.line = line;
+  }
+}
+
+const FIELDS = [
+  'id', 'prompt', 'negativePrompt', 'provider', 'model', 'aspectRatio',
+  'quality', 'stylePreset', 'steps', 'guidance', 'seed', 'count'
+];
+const ID_PATTERN = /^[\w.-]{1,100}$/;
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new Error(`"${field}" must be a string.`);
+  return value;
+};
+
+const optionalNumber = (value: unknown, field: string, min: number, max: number, integer: boolean): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || (integer && !Number.isInteger(value)) || value < min || value > max) {
+    throw new Error(`"${field}" must be ${integer ? 'a whole number' : 'a number'} between ${min} and ${max}.`);
+  }
+  return value;
+};
+
+// Style presets can be given by id or name
+const findPreset = (value: string) => {
+  const name = value.trim().toLowerCase();
+  const preset = BUILT_IN_STYLE_PRESETS.find(p => p.id === name || p.name.toLowerCase() === name);
+  if (!preset) {
+    throw new Error(`Unknown style preset "${value}". Use one of: ${BUILT_IN_STYLE_PRESETS.map(p => p.id).join(', ')}.`);
+  }
+  return preset;
+};
+
+const parseFields = (data: Record<string, unknown>, line: number): BatchRequest => {
+  const unknownField = Object.keys(data).find(key => !FIELDS.includes(key));
+  if (unknownField) throw new Error(`Unknown field "${unknownField}".`);
+
+  const prompt = optionalString(data.prompt, 'prompt')?.trim();
+  if (!prompt) throw new Error('"prompt" is required.');
+
+  const id = optionalString(data.id, 'id') ?? `line-${line}`;
+  if (!ID_PATTERN.test(id)) throw new Error('"id" may only contain letters, digits, ".", "_" and "-".');
+
+  const provider = data.provider ?? DEFAULT_PROVIDER_ID;
+  if (!isProviderId(provider)) throw new Error(`Unknown provider "${String(provider)}".`);
+
+  const aspectRatio = data.aspectRatio ?? DEFAULT_SETTINGS.aspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio as AspectRatio)) {
+    throw new Error(`"aspectRatio" must be one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  const quality = data.quality ?? DEFAULT_SETTINGS.quality;
+  if (quality !== 'standard' && quality !== 'hd') throw new Error('"quality" must be "standard" or "hd".');
+
+  const seed = data.seed;
+  if (seed !== undefined && (typeof seed !== 'number' || !isValidSeed(seed))) {
+    throw new Error(`"seed" must be a whole number between 0 and ${MAX_SEED}.`);
+  }
+
+  return {
+    id,
+    line,
+    prompt,
+    negativePrompt: optionalString(data.negativePrompt, 'negativePrompt')?.trim() ?? '',
+    provider,
+    model: optionalString(data.model, 'model')?.trim() ?? '',
+    settings: {
+      ...DEFAULT_SETTINGS,
+      aspectRatio: aspectRatio as AspectRatio,
+      quality: quality as ImageQuality,
+      stylePreset: findPreset(optionalString(data.stylePreset, 'stylePreset') ?? DEFAULT_SETTINGS.stylePreset).id,
+      steps: optionalNumber(data.steps, 'steps', 1, 150, true) ?? DEFAULT_SETTINGS.steps,
+      guidance: optionalNumber(data.guidance, 'guidance', 0, 30, false) ?? DEFAULT_SETTINGS.guidance,
+      seed
+    },
+    count: optionalNumber(data.count, 'count', 1, MAX_IMAGES_PER_PROMPT, true) ?? 1
+  };
+};
+
+// Ids of a request's jobs: its own id, or `<id>-<n>` when it has several images
+const jobIdsOf = (request: BatchRequest): string[] =>
+  request.count === 1 ? [request.id] : Array.from({ length: request.count }, (_, index) => `${request.id}-${index + 1}`);
+
+// Parses a whole request file, reporting the first problem with its line number
+export const parseRequestFile = (text: string): BatchRequest[] => {
+  const requests: BatchRequest[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new RequestFileError('Not valid JSON.', line);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new RequestFileError('Each line must be a JSON object.', line);
+    }
+    try {
+      requests.push(parseFields(data as Record<string, unknown>, line));
+    } catch (err) {
+      throw new RequestFileError(err instanceof Error ? err.message : String(err), line);
+    }
+  });
+
+  const seen = new Map<string, number>();
+  for (const request of requests) {
+    const earlier = seen.get(request.id);
+    if (earlier !== undefined) throw new RequestFileError(`Duplicate id "${request.id}" (also on line ${earlier}).`, request.line);
+    seen.set(request.id, request.line);
+  }
+  // Results are matched to jobs by id, so "a" with a count of 2 can't sit
+  // next to a request called "a-1"
+  const jobLines = new Map<string, number>();
+  for (const request of requests) {
+    for (const id of jobIdsOf(request)) {
+      const earlier = jobLines.get(id);
+      if (earlier !== undefined) throw new RequestFileError(`Job id "${id}" is also used by line ${earlier}.`, request.line);
+      jobLines.set(id, request.line);
+    }
+  }
+  return requests;
+};
+
+// Seed for an image of a request without one. It is picked from the job and
+// what it asks for rather than at random, so a dry run shows the seeds the
+// real run will use and --resume retries a failed image with its seed.
+const jobSeed = (request: BatchRequest, id: string): number =>
+  createHash('sha256')
+    .update(JSON.stringify([id, request.prompt, request.negativePrompt, request.provider, request.model, request.settings]))
+    .digest()
+    .readUInt32BE(0);
+
+// Expands requests into one job per image. As in the app, a fixed seed
+// counts up for each image; a missing one differs per image.
+export const createBatchJobs = (requests: BatchRequest[], retryPolicy: RetryPolicy): BatchJob[] =>
+  requests.flatMap(request => jobIdsOf(request).map((id, index) => ({
+    id,
+    request,
+    input: {
+      prompt: request.prompt,
+      negativePrompt: request.negativePrompt,
+      settings: {
+        ...request.settings,
+        seed: request.settings.seed === undefined ? jobSeed(request, id) : offsetSeed(request.settings.seed, index)
+      },
+      stylePreset: findPreset(request.settings.stylePreset),
+      providerId: request.provider,
+      model: request.model,
+      retryPolicy,
+      mode: 'text-to-image' as const
+    }
+  })));
+
+// Image files of jobs that already succeeded according to a previous
+// results file, by job id. Later lines win, so a job that failed and then
+// succeeded counts as done.
+export const completedJobs = (resultsText: string): Map<string, string> => {
+  const latest = new Map<string, Partial<BatchResult>>();
+  for (const raw of resultsText.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    try {
+      const result = JSON.parse(raw) as Partial<BatchResult>;
+      if (typeof result.id === 'string') latest.set(result.id, result);
+    } catch {
+      // A line cut short by an interrupted run
+    }
+  }
+  const completed = new Map<string, string>();
+  for (const [id, result] of latest) {
+    if (result.status === 'success' && typeof result.file === 'string') completed.set(id, result.file);
+  }
+  return completed;
+};
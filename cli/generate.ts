@@ -0,0 +1,99 @@
+import { parseArgs } from 'node:util';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { MAX_RETRIES } from '../src/constants';
+import { DEFAULT_RETRY_POLICY } from '../src/lib/retry';
+import { formatCost } from '../src/lib/usage';
+import { loadEnvFiles } from '../server/env';
+import { RequestFileError } from './batch';
+import { RESULTS_FILE, runBatch } from './runBatch';
+
+// Generates every image of a JSONL request file without the browser:
+//
+//   npm run generate -- requests.jsonl --out ./outputs
+//
+// Exits with 1 when any image failed or the run was cancelled and 2 when the arguments or the request
+// file are invalid.
+
+const ROOT_DIR = resolve(fileURLToPath(import.meta.url), '../..');
+
+const USAGE = `Usage: npm run generate -- <requests.jsonl> [options]
+
+Options:
+  --out <dir>      Where images and ${RESULTS_FILE} go (default: ./outputs)
+  --resume         Skip images that succeeded in an earlier run into --out
+  --dry-run        Check the request file and show what would be generated
+  --retries <n>    Retries per image for temporary failures (default: ${DEFAULT_RETRY_POLICY.maxRetries})
+  -h, --help       Show this help`;
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const main = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', default: 'outputs' },
+        resume: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        retries: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    return fail(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(USAGE);
+
+  const retries = values.retries === undefined ? DEFAULT_RETRY_POLICY.maxRetries : Number(values.retries);
+  if (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES) {
+    fail(`--retries must be a whole number between 0 and ${MAX_RETRIES}.`);
+  }
+
+  loadEnvFiles(ROOT_DIR);
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('\nCancelling; results so far are kept. Run again with --resume to continue.');
+    controller.abort();
+  });
+
+  try {
+    const summary = await runBatch({
+      requestsPath: resolve(positionals[0]),
+      outDir: resolve(values.out),
+      env: process.env,
+      dryRun: values['dry-run'],
+      resume: values.resume,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, maxRetries: retries },
+      signal: controller.signal
+    });
+    if (values['dry-run']) return;
+
+    console.log(
+      `\nDone: ${summary.succeeded} generated, ${summary.failed} failed` +
+      `${summary.skipped ? `, ${summary.skipped} skipped` : ''} (estimated ${formatCost(summary.cost)}).`
+    );
+    if (summary.failed > 0 || summary.cancelled) {
+      console.log(`Failed images are listed in ${RESULTS_FILE}; run again with --resume to retry them.`);
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    if (err instanceof RequestFileError) fail(`${positionals[0]}: ${err.message}`);
+    if (err instanceof Error && 'code' in err && err.code === 'ENOENT') fail(`Cannot read ${positionals[0]}.`);
+    throw err;
+  }
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,102 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { imageResponse, mockFetch } from '../src/test/fetchMocks';
+import { RESULTS_FILE, runBatch, type BatchOptions } from './runBatch';
+import type { BatchResult } from './batch';
+
+let dir: string;
+
+const REQUESTS = [
+  { id: 'castle', prompt: 'a castle at dawn', provider: 'mock', steps: 1, seed: 5, count: 2 },
+  { id: 'fox', prompt: 'a fox', provider: 'huggingface' }
+].map(request => JSON.stringify(request)).join('\n');
+
+const run = (options: Partial<BatchOptions> = {}) => runBatch({
+  requestsPath: join(dir, 'requests.jsonl'),
+  outDir: join(dir, 'out'),
+  env: {},
+  retryPolicy: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  log: () => {},
+  ...options
+});
+
+const readResults = async (): Promise<BatchResult[]> =>
+  (await readFile(join(dir, 'out', RESULTS_FILE), 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+
+describe('runBatch', () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dreamcanvas-batch-'));
+    await writeFile(join(dir, 'requests.jsonl'), REQUESTS);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes images and a result for every job, moving on after failures', async () => {
+    const fetchMock = mockFetch(imageResponse());
+
+    const summary = await run();
+
+    expect(summary).toMatchObject({ total: 3, skipped: 0, succeeded: 2, failed: 1, cancelled: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect((await readdir(join(dir, 'out'))).sort()).toEqual(['castle-1.svg', 'castle-2.svg', RESULTS_FILE]);
+
+    const results = await readResults();
+    expect(results.map(result => [result.id, result.status, result.seed])).toEqual([
+      ['castle-1', 'success', 5], ['castle-2', 'success', 6], ['fox', 'failed', expect.any(Number)]
+    ]);
+    expect(results[0]).toMatchObject({ requestId: 'castle', line: 1, file: 'castle-1.svg', attempts: 1, width: 512, height: 512 });
+    expect(results[2].error).toEqual({ code: 'auth', message: expect.stringContaining('HUGGINGFACE_API_TOKEN') });
+  });
+
+  it('only retries failed jobs when resuming', async () => {
+    await run();
+    const fetchMock = mockFetch(imageResponse());
+
+    const summary = await run({ resume: true, env: { HUGGINGFACE_API_TOKEN: 'hf_test' } });
+
+    expect(summary).toMatchObject({ total: 3, skipped: 2, succeeded: 1, failed: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(existsSync(join(dir, 'out', 'fox.png'))).toBe(true);
+    expect((await readResults()).map(result => [result.id, result.status])).toEqual([
+      ['castle-1', 'success'], ['castle-2', 'success'], ['fox', 'failed'], ['fox', 'success']
+    ]);
+  });
+
+  it('plans without generating or writing anything on a dry run', async () => {
+    const log = vi.fn();
+
+    const summary = await run({ dryRun: true, log });
+
+    expect(summary).toMatchObject({ total: 3, succeeded: 0, failed: 0 });
+    expect(existsSync(join(dir, 'out'))).toBe(false);
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^castle-1: Mock .* seed 5/));
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Hugging Face API token is not configured'));
+    expect(log).toHaveBeenLastCalledWith('3 of 3 images to generate, estimated $0.00.');
+  });
+
+  it('records the size the provider sends back and the seeds the dry run showed', async () => {
+    await writeFile(join(dir, 'requests.jsonl'), JSON.stringify({ id: 'kite', prompt: 'a kite', provider: 'openai', aspectRatio: '16:9' }));
+    const log = vi.fn();
+
+    await run({ dryRun: true, log });
+    await run();
+
+    const [result] = await readResults();
+    expect(result).toMatchObject({ status: 'failed', width: 1792, height: 1024 });
+    expect(log).toHaveBeenCalledWith(expect.stringContaining(`1792x1024 seed ${result.seed} `));
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const summary = await run({ signal: controller.signal });
+
+    expect(summary).toMatchObject({ succeeded: 0, failed: 0, cancelled: true });
+  });
+});
@@ -0,0 +1,167 @@
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PROVIDERS, ProviderError } from '../src/lib/providers';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from '../src/lib/retry';
+import { IMAGE_EXTENSIONS, sniffImageType } from '../src/lib/imageFormat';
+import { PARAMETERS_KEY, formatGenerationParameters, isPng, writePngText } from '../src/lib/pngMetadata';
+import { formatCost, type UsageRecord } from '../src/lib/usage';
+import { formatDuration } from '../src/lib/progress';
+import {
+  createDirectTransport,
+  estimateGenerationCost,
+  generateImage,
+  getGenerationSize,
+  type GenerationResult
+} from '../src/lib/generationClient';
+import { getMissingTokenMessage, getServerProviderConfig, type ServerEnv } from '../server/config';
+import { completedJobs, createBatchJobs, parseRequestFile, type BatchJob, type BatchResult } from './batch';
+
+export const RESULTS_FILE = 'results.jsonl';
+
+export interface BatchOptions {
+  requestsPath: string;
+  outDir: string;
+  // Provider tokens and URLs, as for the server
+  env: ServerEnv;
+  // Validate and print the plan without generating anything
+  dryRun?: boolean;
+  // Skip jobs that succeeded in an earlier run into the same directory
+  resume?: boolean;
+  retryPolicy?: RetryPolicy;
+  signal?: AbortSignal;
+  log?: (message: string) => void;
+}
+
+export interface BatchSummary {
+  total: number;
+  skipped: number;
+  succeeded: number;
+  failed: number;
+  // True when the run stopped before every job was tried
+  cancelled: boolean;
+  cost: number;
+}
+
+const describeJob = (job: BatchJob): string => {
+  const provider = PROVIDERS[job.input.providerId];
+  const { width, height } = getGenerationSize(job.input);
+  return `${provider.name} ${job.input.model || provider.defaultModel} ${width}x${height} seed ${job.input.settings.seed}`;
+};
+
+// Image bytes with the generation parameters embedded, as app downloads have
+const imageFile = async (result: GenerationResult): Promise<{ bytes: Uint8Array; extension: string }> => {
+  const bytes = new Uint8Array(await result.blob.arrayBuffer());
+  const type = sniffImageType(bytes) ?? result.blob.type;
+  const extension = IMAGE_EXTENSIONS[type] ?? 'bin';
+  if (!isPng(bytes)) return { bytes, extension };
+  return { bytes: writePngText(bytes, { [PARAMETERS_KEY]: formatGenerationParameters(result) }), extension };
+};
+
+// Files of jobs that succeeded before and whose image is still there
+const findCompleted = async (outDir: string): Promise<Map<string, string>> => {
+  const resultsPath = join(outDir, RESULTS_FILE);
+  if (!existsSync(resultsPath)) return new Map();
+  const completed = completedJobs(await readFile(resultsPath, 'utf8'));
+  for (const [id, file] of completed) {
+    if (!existsSync(join(outDir, file))) completed.delete(id);
+  }
+  return completed;
+};
+
+// Runs every job of a request file in order, one at a time, writing the
+// images and a results line per job to `outDir`. Failed jobs are recorded
+// and the batch moves on; only cancelling stops it early.
+export const runBatch = async ({
+  requestsPath,
+  outDir,
+  env,
+  dryRun = false,
+  resume = false,
+  retryPolicy = DEFAULT_RETRY_POLICY,
+  signal,
+  log = console.log
+}: BatchOptions): Promise<BatchSummary> => {
+  const requests = parseRequestFile(await readFile(requestsPath, 'utf8'));
+  const jobs = createBatchJobs(requests, retryPolicy);
+  const completed = resume ? await findCompleted(outDir) : new Map<string, string>();
+  const pending = jobs.filter(job => !completed.has(job.id));
+  const summary: BatchSummary = { total: jobs.length, skipped: jobs.length - pending.length, succeeded: 0, failed: 0, cancelled: false, cost: 0 };
+
+  if (dryRun) {
+    for (const job of jobs) {
+      const status = completed.has(job.id) ? 'done, skipped' : `~${formatCost(estimateGenerationCost(job.input))}`;
+      log(`${job.id}: ${describeJob(job)} (${status})`);
+    }
+    for (const providerId of new Set(pending.map(job => job.input.providerId))) {
+      const missingToken = getMissingTokenMessage(PROVIDERS[providerId], env);
+      if (missingToken) log(`Warning: ${missingToken.split('\n')[0]}`);
+    }
+    summary.cost = pending.reduce((total, job) => total + estimateGenerationCost(job.input), 0);
+    log(`${pending.length} of ${jobs.length} images to generate, estimated ${formatCost(summary.cost)}.`);
+    return summary;
+  }
+
+  await mkdir(outDir, { recursive: true });
+  const resultsPath = join(outDir, RESULTS_FILE);
+  if (!resume) await writeFile(resultsPath, '');
+  const transport = createDirectTransport((provider, model) => getServerProviderConfig(provider, model, env));
+
+  for (const [index, job] of pending.entries()) {
+    if (signal?.aborted) {
+      summary.cancelled = true;
+      break;
+    }
+    const provider = PROVIDERS[job.input.providerId];
+    const { width, height } = getGenerationSize(job.input);
+    const startedAt = Date.now();
+    let usage: UsageRecord | undefined;
+    const base: BatchResult = {
+      id: job.id,
+      requestId: job.request.id,
+      line: job.request.line,
+      status: 'failed',
+      prompt: job.input.prompt,
+      provider: provider.id,
+      model: job.input.model || provider.defaultModel,
+      seed: job.input.settings.seed,
+      width,
+      height,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: 0,
+      attempts: 0,
+      cost: 0
+    };
+
+    let result: BatchResult;
+    try {
+      const missingToken = getMissingTokenMessage(provider, env);
+      if (missingToken) throw new ProviderError('auth', missingToken);
+
+      const image = await generateImage(job.input, transport, { signal, onUsage: record => { usage = record; } });
+      const { bytes, extension } = await imageFile(image);
+      const file = `${job.id}.${extension}`;
+      await writeFile(join(outDir, file), bytes);
+      result = { ...base, status: 'success', file, model: image.model, width: image.width, height: image.height };
+    } catch (err) {
+      const error = err instanceof ProviderError ? err : new ProviderError('unknown', err instanceof Error ? err.message : String(err));
+      result = { ...base, error: { code: error.code, message: error.message } };
+      if (error.code === 'cancelled') summary.cancelled = true;
+    }
+    result.durationMs = usage?.durationMs ?? Date.now() - startedAt;
+    result.attempts = usage?.attempts ?? 0;
+    result.cost = usage?.cost ?? 0;
+
+    await appendFile(resultsPath, JSON.stringify(result) + '\n');
+    summary.cost += result.cost;
+    if (result.status === 'success') {
+      summary.succeeded++;
+      log(`[${index + 1}/${pending.length}] ${job.id}: saved ${result.file} (${formatDuration(result.durationMs)})`);
+    } else {
+      summary.failed++;
+      log(`[${index + 1}/${pending.length}] ${job.id}: failed, ${result.error!.message.split('\n')[0]}`);
+    }
+    if (summary.cancelled) break;
+  }
+  return summary;
+};
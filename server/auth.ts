@@ -0,0 +1,31 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// Passwords are stored as `scrypt$<salt>$<hash>`; session tokens only as
+// their SHA-256, so a copy of the database can't be used to sign in.
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+export const createSessionToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string): string => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,200 @@
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AuthResponse, ImageRecord } from '../src/lib/backendTypes';
+import { makeImage } from '../src/test/images';
+import { createBackendHandler } from './backendHandler';
+import { openStore, type Store } from './store';
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+type Send = (method: string, path: string, body?: unknown, token?: string) => Promise<TestResponse>;
+
+const PNG_BYTES = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('rest of the png')]);
+const PNG_DATA_URL = `data:image/png;base64,${PNG_BYTES.toString('base64')}`;
+
+let server: Server | undefined;
+let store: Store;
+let send: Send;
+
+const startServer = async (): Promise<Send> => {
+  const handler = createBackendHandler({ store });
+  server = createServer((req, res) => handler(req, res, () => {
+    res.statusCode = 404;
+    res.end('next');
+  }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return (method, path, body, token) =>
+    new Promise((resolve, reject) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (token) headers.Authorization = `Bearer ${token}`;
+      const req = request({ port, method, path: `/api/backend${path}`, headers }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }));
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+};
+
+const json = (response: TestResponse) => JSON.parse(response.body.toString('utf8'));
+
+const signup = async (name: string): Promise<AuthResponse> => {
+  const response = await send('POST', '/signup', { email: `${name.toLowerCase()}@example.com`, name, password: 'correct horse' });
+  expect(response.status).toBe(200);
+  return json(response);
+};
+
+describe('backend handler', () => {
+  beforeEach(async () => {
+    store = openStore(':memory:');
+    send = await startServer();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+    store.close();
+  });
+
+  it('signs up with a personal workspace and keeps the session', async () => {
+    const ada = await signup('Ada');
+    expect(ada.user).toMatchObject({ email: 'ada@example.com', name: 'Ada' });
+    expect(ada.workspaces).toEqual([{ id: expect.any(String), name: "Ada's workspace", role: 'owner' }]);
+
+    expect(json(await send('GET', '/session', undefined, ada.token))).toEqual({ user: ada.user, workspaces: ada.workspaces });
+    expect(json(await send('GET', '/session'))).toEqual({ user: null, workspaces: [] });
+
+    await send('POST', '/logout', undefined, ada.token);
+    expect(json(await send('GET', '/session', undefined, ada.token)).user).toBeNull();
+  });
+
+  it('logs in with the right password only', async () => {
+    await signup('Ada');
+    const wrong = await send('POST', '/login', { email: 'ada@example.com', password: 'battery staple' });
+    expect(wrong.status).toBe(401);
+    expect(json(wrong).error.code).toBe('unauthorized');
+
+    const right = await send('POST', '/login', { email: ' ADA@example.com', password: 'correct horse' });
+    expect(right.status).toBe(200);
+    expect(json(right).user.name).toBe('Ada');
+  });
+
+  it('rejects duplicate emails and short passwords', async () => {
+    await signup('Ada');
+    expect((await send('POST', '/signup', { email: 'ada@example.com', name: 'Ada 2', password: 'long enough' })).status).toBe(409);
+    expect((await send('POST', '/signup', { email: 'bob@example.com', name: 'Bob', password: 'short' })).status).toBe(400);
+  });
+
+  it('creates one account when the same email signs up twice at once', async () => {
+    const body = { email: 'ada@example.com', name: 'Ada', password: 'correct horse' };
+    const responses = await Promise.all([send('POST', '/signup', body), send('POST', '/signup', body)]);
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(json(responses.find(response => response.status === 409)!).error.code).toBe('conflict');
+    const ada = json(responses.find(response => response.status === 200)!) as AuthResponse;
+    expect(ada.workspaces).toHaveLength(1);
+  });
+
+  it('never stores passwords or tokens in plain text', async () => {
+    const ada = await signup('Ada');
+    const found = store.findUserByEmail('ada@example.com')!;
+    expect(found.passwordHash).toMatch(/^scrypt\$/);
+    expect(found.passwordHash).not.toContain('correct horse');
+    expect(store.findSessionUser(ada.token, Date.now())).toBeUndefined();
+  });
+
+  it('deletes expired sessions when someone signs in', async () => {
+    const ada = await signup('Ada');
+    store.createSession('expired', ada.user.id, Date.now() - 1);
+    expect(store.findSessionUser('expired', 0)).toEqual(ada.user);
+
+    await send('POST', '/login', { email: 'ada@example.com', password: 'correct horse' });
+    expect(store.findSessionUser('expired', 0)).toBeUndefined();
+    expect(json(await send('GET', '/session', undefined, ada.token)).user).toEqual(ada.user);
+  });
+
+  it('shares images, owners and comments with workspace members', async () => {
+    const ada = await signup('Ada');
+    const bob = await signup('Bob');
+    const workspaceId = ada.workspaces[0].id;
+    const images = `/workspaces/${workspaceId}/images`;
+
+    // Bob can't see the workspace until Ada adds him
+    expect((await send('GET', images, undefined, bob.token)).status).toBe(404);
+    const members = await send('POST', `/workspaces/${workspaceId}/members`, { email: 'bob@example.com' }, ada.token);
+    expect(json(members).map((member: { user: { name: string }; role: string }) => [member.user.name, member.role]))
+      .toEqual([['Ada', 'owner'], ['Bob', 'member']]);
+
+    expect((await send('POST', images, { image: makeImage({ id: 'a', timestamp: 1 }), data: PNG_DATA_URL }, ada.token)).status).toBe(200);
+    expect((await send('POST', images, { image: makeImage({ id: 'b', timestamp: 2 }), data: PNG_DATA_URL }, bob.token)).status).toBe(200);
+    expect((await send('POST', images, { image: makeImage({ id: 'b', timestamp: 2 }), data: PNG_DATA_URL }, bob.token)).status).toBe(409);
+
+    const comment = await send('POST', `${images}/a/comments`, { body: ' Love the fog ' }, bob.token);
+    expect(json(comment)).toMatchObject({ author: { name: 'Bob' }, body: 'Love the fog' });
+
+    const all = json(await send('GET', images, undefined, bob.token));
+    expect(all.map((entry: { image: ImageRecord; owner: { name: string }; commentCount: number }) =>
+      [entry.image.id, entry.owner.name, entry.commentCount])).toEqual([['b', 'Bob', 0], ['a', 'Ada', 1]]);
+    const mine = json(await send('GET', `${images}?owner=me`, undefined, bob.token));
+    expect(mine.map((entry: { image: ImageRecord }) => entry.image.id)).toEqual(['b']);
+
+    const file = await send('GET', `${images}/a/file`, undefined, bob.token);
+    expect(file.headers['content-type']).toBe('image/png');
+    expect(file.headers['x-content-type-options']).toBe('nosniff');
+    expect(file.body).toEqual(PNG_BYTES);
+  });
+
+  it('only lets owners delete images and add members', async () => {
+    const ada = await signup('Ada');
+    const bob = await signup('Bob');
+    const workspaceId = ada.workspaces[0].id;
+    await send('POST', `/workspaces/${workspaceId}/members`, { email: 'bob@example.com' }, ada.token);
+    await send('POST', `/workspaces/${workspaceId}/images`, { image: makeImage({ id: 'a' }), data: PNG_DATA_URL }, ada.token);
+
+    expect((await send('DELETE', `/workspaces/${workspaceId}/images/a`, undefined, bob.token)).status).toBe(403);
+    expect((await send('POST', `/workspaces/${workspaceId}/members`, { email: 'ada@example.com' }, bob.token)).status).toBe(403);
+
+    await send('POST', `/workspaces/${workspaceId}/images/a/comments`, { body: 'Nice' }, bob.token);
+    expect((await send('DELETE', `/workspaces/${workspaceId}/images/a`, undefined, ada.token)).status).toBe(200);
+    expect((await send('GET', `/workspaces/${workspaceId}/images/a/comments`, undefined, bob.token)).status).toBe(404);
+  });
+
+  it('requires a session for workspaces', async () => {
+    const response = await send('POST', '/workspaces', { name: 'Team' });
+    expect(response.status).toBe(401);
+    expect(json(response).error.code).toBe('unauthorized');
+  });
+
+  it('validates uploads', async () => {
+    const ada = await signup('Ada');
+    const images = `/workspaces/${ada.workspaces[0].id}/images`;
+    expect((await send('POST', images, { image: makeImage({ id: 'a' }), data: 'data:text/plain;base64,aGk=' }, ada.token)).status).toBe(400);
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>').toString('base64');
+    expect((await send('POST', images, { image: makeImage({ id: 'a' }), data: `data:image/svg+xml;base64,${svg}` }, ada.token)).status).toBe(400);
+    const mislabelled = await send('POST', images, { image: makeImage({ id: 'a' }), data: `data:image/png;base64,${svg}` }, ada.token);
+    expect(mislabelled.status).toBe(400);
+    expect(json(mislabelled).error.message).toBe('Image data does not match its type.');
+    expect((await send('POST', images, { image: { id: 'a' }, data: PNG_DATA_URL }, ada.token)).status).toBe(400);
+    expect((await send('POST', images, 'not json', ada.token)).status).toBe(400);
+  });
+
+  it('passes other paths on', async () => {
+    const response = await new Promise<string>((resolve, reject) => {
+      const { port } = server!.address() as AddressInfo;
+      request({ port, path: '/api/generate' }, res => {
+        res.setEncoding('utf8');
+        let body = '';
+        res.on('data', (chunk: string) => { body += chunk; });
+        res.on('end', () => resolve(body));
+      }).on('error', reject).end();
+    });
+    expect(response).toBe('next');
+  });
+});
@@ -0,0 +1,308 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { sniffImageType } from '../src/lib/imageFormat';
+import { ProviderError } from '../src/lib/providers';
+import {
+  BACKEND_API_PATH,
+  BackendError,
+  MAX_COMMENT_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  type AuthResponse,
+  type BackendErrorBody,
+  type BackendUser,
+  type ImageRecord,
+  type LoginBody,
+  type SessionResponse,
+  type SignupBody,
+  type UploadImageBody
+} from '../src/lib/backendTypes';
+import { SESSION_TTL_MS, createSessionToken, hashPassword, hashSessionToken, verifyPassword } from './auth';
+import { getClientKey, readBody, type Middleware } from './generateHandler';
+import { createRateLimiter } from './rateLimiter';
+import type { Store } from './store';
+
+export interface BackendHandlerOptions {
+  store: Store;
+  // Sign-up and login attempts allowed per client each minute
+  authRateLimit?: number;
+  trustProxy?: boolean;
+}
+
+const MAX_NAME_LENGTH = 100;
+// Raster formats only: an SVG can carry scripts, and files are served back as uploaded
+const DATA_URL_PATTERN = /^data:(image\/(?:png|jpeg|webp));base64,([A-Za-z0-9+/=]+)$/;
+
+const STATUS_BY_CODE: Record<BackendError['code'], number> = {
+  'bad-request': 400,
+  unauthorized: 401,
+  forbidden: 403,
+  'not-found': 404,
+  conflict: 409,
+  'rate-limited': 429,
+  unknown: 500
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: BackendError) => {
+  sendJson(res, error.status ?? STATUS_BY_CODE[error.code], {
+    error: { code: error.code, message: error.message }
+  } satisfies BackendErrorBody);
+};
+
+const readJson = async <T>(req: IncomingMessage): Promise<Partial<T>> => {
+  let text: string;
+  try {
+    text = await readBody(req);
+  } catch (err) {
+    // readBody fails with a ProviderError when the body is too large
+    throw new BackendError('bad-request', err instanceof ProviderError ? err.message : 'Could not read the request.', 413);
+  }
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body === 'object') return body as Partial<T>;
+  } catch {
+    // Reported below
+  }
+  throw new BackendError('bad-request', 'Request body must be a JSON object.');
+};
+
+const readText = (value: unknown, label: string, maxLength: number): string => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw new BackendError('bad-request', `${label} is required.`);
+  if (text.length > maxLength) throw new BackendError('bad-request', `${label} is too long.`);
+  return text;
+};
+
+const readEmail = (value: unknown): string => {
+  const email = readText(value, 'Email', 254).toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new BackendError('bad-request', 'Enter a valid email address.');
+  return email;
+};
+
+// Checks the parts of the record the server and other clients rely on
+const readImageRecord = (value: unknown): ImageRecord => {
+  const image = value as Partial<ImageRecord> | undefined;
+  if (
+    !image ||
+    typeof image.id !== 'string' || !image.id || image.id.length > 100 || image.id.includes('/') ||
+    typeof image.prompt !== 'string' ||
+    !Number.isFinite(image.timestamp) ||
+    !Number.isFinite(image.width) ||
+    !Number.isFinite(image.height) ||
+    !image.settings || typeof image.settings !== 'object'
+  ) {
+    throw new BackendError('bad-request', 'Image record is incomplete.');
+  }
+  // Never store a page-session object URL from the uploading browser
+  const record = { ...image } as ImageRecord & { url?: string };
+  delete record.url;
+  return record;
+};
+
+const bearerToken = (req: IncomingMessage): string | undefined => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() || undefined : undefined;
+};
+
+// Connect-style middleware for the accounts and workspaces API under
+// /api/backend. Like the generation proxy, it runs in Vite's servers and in
+// `server/index.ts`, but only when a database is configured.
+export const createBackendHandler = (options: BackendHandlerOptions): Middleware => {
+  const { store } = options;
+  const authLimiter = createRateLimiter(options.authRateLimit ?? 10, 60_000);
+
+  const sessionOf = (user: BackendUser): SessionResponse => ({ user, workspaces: store.listWorkspaces(user.id) });
+
+  const startSession = (user: BackendUser): AuthResponse => {
+    const token = createSessionToken();
+    store.deleteExpiredSessions(Date.now());
+    store.createSession(hashSessionToken(token), user.id, Date.now() + SESSION_TTL_MS);
+    return { ...sessionOf(user), user, token };
+  };
+
+  const requireUser = (req: IncomingMessage): BackendUser => {
+    const token = bearerToken(req);
+    const user = token && store.findSessionUser(hashSessionToken(token), Date.now());
+    if (!user) throw new BackendError('unauthorized', 'Please sign in again.');
+    return user;
+  };
+
+  const requireMember = (workspaceId: string, user: BackendUser) => {
+    const role = store.getRole(workspaceId, user.id);
+    // Workspaces the user isn't in are reported as missing, not forbidden
+    if (!role) throw new BackendError('not-found', 'Workspace not found.');
+    return role;
+  };
+
+  const checkAuthRateLimit = (req: IncomingMessage) => {
+    if (!authLimiter.check(getClientKey(req, options.trustProxy ?? false)).allowed) {
+      throw new BackendError('rate-limited', 'Too many attempts. Please wait a minute and try again.');
+    }
+  };
+
+  const signup = async (req: IncomingMessage) => {
+    checkAuthRateLimit(req);
+    const body = await readJson<SignupBody>(req);
+    const email = readEmail(body.email);
+    const name = readText(body.name, 'Name', MAX_NAME_LENGTH);
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      throw new BackendError('bad-request', `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    const conflict = () => new BackendError('conflict', 'An account with this email already exists.');
+    if (store.findUserByEmail(email)) throw conflict();
+
+    // Another signup with the same email can finish while the password hashes
+    const user = store.createUser(email, name, await hashPassword(body.password), `${name}'s workspace`);
+    if (!user) throw conflict();
+    return startSession(user);
+  };
+
+  const login = async (req: IncomingMessage) => {
+    checkAuthRateLimit(req);
+    const body = await readJson<LoginBody>(req);
+    const found = typeof body.email === 'string' ? store.findUserByEmail(body.email.trim().toLowerCase()) : undefined;
+    if (!found || typeof body.password !== 'string' || !(await verifyPassword(body.password, found.passwordHash))) {
+      throw new BackendError('unauthorized', 'Email or password is incorrect.');
+    }
+    return startSession({ id: found.id, email: found.email, name: found.name });
+  };
+
+  const uploadImage = async (req: IncomingMessage, workspaceId: string, user: BackendUser) => {
+    const body = await readJson<UploadImageBody>(req);
+    const image = readImageRecord(body.image);
+    const match = typeof body.data === 'string' ? DATA_URL_PATTERN.exec(body.data) : null;
+    if (!match) throw new BackendError('bad-request', 'Image data must be a base64 PNG, JPEG or WebP data URL.');
+    const data = Buffer.from(match[2], 'base64');
+    if (sniffImageType(data) !== match[1]) throw new BackendError('bad-request', 'Image data does not match its type.');
+
+    if (!store.saveImage(workspaceId, user.id, image, data, match[1])) {
+      throw new BackendError('conflict', 'This image is already in the workspace.');
+    }
+    return { image, owner: { id: user.id, name: user.name }, commentCount: 0 };
+  };
+
+  // Returns the JSON response body; image files are sent directly
+  const route = async (req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams): Promise<unknown> => {
+    const method = req.method ?? 'GET';
+    let segments: string[];
+    try {
+      segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      throw new BackendError('not-found', 'Unknown API endpoint.');
+    }
+    const methodNotAllowed = () => new BackendError('bad-request', `${method} is not supported here.`, 405);
+
+    if (segments.length === 1) {
+      switch (segments[0]) {
+        case 'session': {
+          const token = bearerToken(req);
+          const user = token && store.findSessionUser(hashSessionToken(token), Date.now());
+          return user ? sessionOf(user) : { user: null, workspaces: [] } satisfies SessionResponse;
+        }
+        case 'signup':
+          if (method !== 'POST') throw methodNotAllowed();
+          return signup(req);
+        case 'login':
+          if (method !== 'POST') throw methodNotAllowed();
+          return login(req);
+        case 'logout': {
+          if (method !== 'POST') throw methodNotAllowed();
+          const token = bearerToken(req);
+          if (token) store.deleteSession(hashSessionToken(token));
+          return {};
+        }
+        case 'workspaces': {
+          if (method !== 'POST') throw methodNotAllowed();
+          const user = requireUser(req);
+          const body = await readJson<{ name: string }>(req);
+          return store.createWorkspace(readText(body.name, 'Workspace name', MAX_NAME_LENGTH), user.id);
+        }
+      }
+    }
+
+    if (segments[0] !== 'workspaces' || segments.length < 3) {
+      throw new BackendError('not-found', 'Unknown API endpoint.');
+    }
+    const [, workspaceId, collection, imageId, action] = segments;
+    const user = requireUser(req);
+    const role = requireMember(workspaceId, user);
+
+    if (collection === 'members' && segments.length === 3) {
+      if (method === 'GET') return store.listMembers(workspaceId);
+      if (method !== 'POST') throw methodNotAllowed();
+      if (role !== 'owner') throw new BackendError('forbidden', 'Only workspace owners can add members.');
+      const body = await readJson<{ email: string }>(req);
+      const member = store.findUserByEmail(readEmail(body.email));
+      if (!member) throw new BackendError('not-found', 'There is no account with that email. Ask them to sign up first.');
+      if (store.getRole(workspaceId, member.id)) throw new BackendError('conflict', `${member.name} is already a member.`);
+      store.addMember(workspaceId, member.id, 'member');
+      return store.listMembers(workspaceId);
+    }
+
+    if (collection !== 'images') throw new BackendError('not-found', 'Unknown API endpoint.');
+
+    if (segments.length === 3) {
+      if (method === 'GET') return store.listImages(workspaceId, query.get('owner') === 'me' ? user.id : undefined);
+      if (method !== 'POST') throw methodNotAllowed();
+      return uploadImage(req, workspaceId, user);
+    }
+
+    const ownerId = store.getImageOwner(workspaceId, imageId);
+    if (!ownerId || segments.length > 5) throw new BackendError('not-found', 'Image not found.');
+
+    if (segments.length === 4) {
+      if (method !== 'DELETE') throw methodNotAllowed();
+      if (ownerId !== user.id && role !== 'owner') {
+        throw new BackendError('forbidden', 'Only the image owner or a workspace owner can delete it.');
+      }
+      store.deleteImage(workspaceId, imageId);
+      return {};
+    }
+
+    if (action === 'file') {
+      if (method !== 'GET') throw methodNotAllowed();
+      const file = store.getImageFile(workspaceId, imageId)!;
+      res.statusCode = 200;
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      res.end(file.data);
+      return undefined;
+    }
+    if (action === 'comments') {
+      if (method === 'GET') return store.listComments(workspaceId, imageId);
+      if (method !== 'POST') throw methodNotAllowed();
+      const body = await readJson<{ body: string }>(req);
+      return store.addComment(workspaceId, imageId, user.id, readText(body.body, 'Comment', MAX_COMMENT_LENGTH));
+    }
+    throw new BackendError('not-found', 'Unknown API endpoint.');
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams) => {
+    try {
+      const result = await route(req, res, path, query);
+      if (!res.writableEnded) sendJson(res, 200, result);
+    } catch (err) {
+      if (err instanceof BackendError) {
+        sendError(res, err);
+        return;
+      }
+      console.error('Backend error:', err);
+      if (!res.headersSent) sendError(res, new BackendError('unknown', 'Internal server error.'));
+    }
+  };
+
+  return (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== BACKEND_API_PATH && !url.pathname.startsWith(`${BACKEND_API_PATH}/`)) {
+      next();
+      return;
+    }
+    void handle(req, res, url.pathname.slice(BACKEND_API_PATH.length), url.searchParams);
+  };
+};
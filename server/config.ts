@@ -0,0 +1,72 @@
+import type { ImageProvider, ProviderConfig, ProviderId } from '../src/lib/providers';
+
+export type ServerEnv = Record<string, string | undefined>;
+
+// Server-side provider settings. None of these use the VITE_ prefix, so Vite
+// never inlines them into the client bundle.
+interface ProviderEnvVars {
+  label: string;
+  token?: string;
+  tokenUrl?: string;
+  baseUrl?: string;
+}
+
+const PROVIDER_ENV_VARS: Record<ProviderId, ProviderEnvVars> = {
+  huggingface: {
+    label: 'Hugging Face',
+    token: 'HUGGINGFACE_API_TOKEN',
+    tokenUrl: 'https://huggingface.co/settings/tokens'
+  },
+  openai: {
+    label: 'OpenAI',
+    token: 'OPENAI_API_KEY',
+    tokenUrl: 'https://platform.openai.com/api-keys',
+    baseUrl: 'OPENAI_BASE_URL'
+  },
+  automatic1111: {
+    label: 'Local server',
+    token: 'LOCAL_SD_TOKEN',
+    baseUrl: 'LOCAL_SD_URL'
+  },
+  mock: {
+    label: 'Mock'
+  }
+};
+
+const PLACEHOLDER_TOKENS = ['YOUR_HUGGINGFACE_API_TOKEN_HERE', 'YOUR_OPENAI_API_KEY_HERE'];
+
+const readToken = (env: ServerEnv, name?: string): string | undefined => {
+  const token = name ? env[name] : undefined;
+  return token && !PLACEHOLDER_TOKENS.includes(token) ? token : undefined;
+};
+
+export const getServerProviderConfig = (provider: ImageProvider, model: string, env: ServerEnv): ProviderConfig => {
+  const vars = PROVIDER_ENV_VARS[provider.id];
+  return {
+    apiToken: readToken(env, vars.token),
+    baseUrl: (vars.baseUrl && env[vars.baseUrl]) || provider.defaultBaseUrl,
+    model: model.trim() || provider.defaultModel
+  };
+};
+
+// Setup instructions returned when a provider needs a token the server doesn't have
+export const getMissingTokenMessage = (provider: ImageProvider, env: ServerEnv): string | null => {
+  const vars = PROVIDER_ENV_VARS[provider.id];
+  if (!provider.requiresToken || readToken(env, vars.token)) return null;
+
+  const legacyVariable = `VITE_${vars.token}`;
+  if (readToken(env, legacyVariable)) {
+    return (
+      `${vars.label} API token is set as ${legacyVariable}, which Vite exposes to the browser.\n` +
+      `Rename it to ${vars.token} in your .env file and restart the server.`
+    );
+  }
+
+  return (
+    `${vars.label} API token is not configured. Please:\n` +
+    `1. Get your API token from ${vars.tokenUrl}\n` +
+    '2. Create a .env file in your project root\n' +
+    `3. Add: ${vars.token}=your_token_here\n` +
+    '4. Restart the server'
+  );
+};
@@ -0,0 +1,19 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+// Loads KEY=value pairs from .env files into process.env without
+// overriding variables that are already set, mirroring Vite's behaviour.
+export const loadEnvFiles = (dir: string, files = ['.env', '.env.local']): void => {
+  for (const file of files) {
+    const path = resolve(dir, file);
+    if (!existsSync(path)) continue;
+
+    for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+      const match = line.match(/^\s*([\w.-]+)\s*=\s*(.*)?\s*$/);
+      if (!match || line.trim().startsWith('#')) continue;
+      const [, key, rawValue = ''] = match;
+      const value = rawValue.trim().replace(/^(['"])(.*)\1$/, '$2');
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+  }
+};
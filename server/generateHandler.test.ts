@@ -0,0 +1,172 @@
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from '../src/constants';
+import { imageResponse, jsonResponse, mockFetch } from '../src/test/fetchMocks';
+import { createGenerateHandler, type GenerateHandlerOptions } from './generateHandler';
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+const validBody = {
+  provider: 'huggingface',
+  model: '',
+  request: { prompt: 'a quiet harbour', negativePrompt: '', settings: DEFAULT_SETTINGS }
+};
+
+let server: Server | undefined;
+
+// Starts the handler on a free port. Requests use node:http so the stubbed
+// fetch only sees the handler's upstream calls.
+const startServer = async (options: GenerateHandlerOptions) => {
+  const handler = createGenerateHandler(options);
+  server = createServer((req, res) => handler(req, res, () => {
+    res.statusCode = 404;
+    res.end();
+  }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return (body: unknown, method = 'POST', path = '/api/generate', headers: Record<string, string> = {}): Promise<TestResponse> =>
+    new Promise((resolve, reject) => {
+      const req = request({ port, method, path, headers: { 'Content-Type': 'application/json', ...headers } }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }));
+      });
+      req.on('error', reject);
+      req.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+};
+
+const errorOf = (response: TestResponse) => JSON.parse(response.body.toString('utf8')).error;
+
+describe('generate handler', () => {
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('explains how to set a missing token', async () => {
+    const post = await startServer({ env: {} });
+    const response = await post(validBody);
+    expect(response.status).toBe(500);
+    expect(errorOf(response)).toMatchObject({ code: 'auth' });
+    expect(errorOf(response).message).toMatch(/HUGGINGFACE_API_TOKEN=your_token_here/);
+  });
+
+  it('forwards the image from the provider', async () => {
+    const fetchMock = mockFetch(imageResponse([1, 2, 3]));
+    const post = await startServer({ env: { HUGGINGFACE_API_TOKEN: 'hf_secret' } });
+    const response = await post(validBody);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    expect([...response.body]).toEqual([1, 2, 3]);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer hf_secret' });
+  });
+
+  it('passes provider errors through with their status', async () => {
+    mockFetch(jsonResponse({ error: 'Model is loading', estimated_time: 30 }, 503));
+    const post = await startServer({ env: { HUGGINGFACE_API_TOKEN: 'hf_secret' } });
+    const response = await post(validBody);
+
+    expect(response.status).toBe(503);
+    expect(response.headers['retry-after']).toBe('30');
+    expect(errorOf(response)).toMatchObject({ code: 'model-loading', retryAfterMs: 30000 });
+  });
+
+  it('rejects invalid requests', async () => {
+    const post = await startServer({ env: {} });
+    expect((await post('not json')).status).toBe(400);
+    expect(errorOf(await post({ ...validBody, provider: 'nope' })).message).toBe('Unknown provider.');
+    for (const body of ['null', '[]', '"a prompt"']) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+      expect(errorOf(response).message).toBe('Request body must be a JSON object.');
+    }
+    expect((await post({ ...validBody, request: 'a prompt' })).status).toBe(400);
+    expect((await post(validBody, 'GET')).status).toBe(405);
+  });
+
+  it('rejects settings no provider accepts', async () => {
+    const post = await startServer({ env: {} });
+    for (const settings of [{ quality: 'ultra' }, { aspectRatio: '5:4' }, { seed: -1 }, { seed: 1.5 }, { seed: '42' }]) {
+      const response = await post({ ...validBody, request: { ...validBody.request, settings: { ...DEFAULT_SETTINGS, ...settings } } });
+      expect(response.status).toBe(400);
+      expect(errorOf(response).code).toBe('bad-request');
+    }
+  });
+
+  it('only sends model ids to the Hugging Face URL', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    const post = await startServer({ env: { HUGGINGFACE_API_TOKEN: 'hf_secret' } });
+
+    for (const model of ['../../api/whoami', 'org/name?wait_for_model=false', 'org/name/../other']) {
+      const response = await post({ ...validBody, model });
+      expect(response.status).toBe(400);
+      expect(errorOf(response).code).toBe('bad-request');
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    expect((await post({ ...validBody, model: 'stabilityai/sd-turbo_v1.5' })).status).toBe(200);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api-inference.huggingface.co/models/stabilityai/sd-turbo_v1.5');
+  });
+
+  it('rate limits each client', async () => {
+    mockFetch(imageResponse());
+    const post = await startServer({ env: { HUGGINGFACE_API_TOKEN: 'hf_secret' }, rateLimit: 1 });
+
+    expect((await post(validBody)).status).toBe(200);
+    const limited = await post(validBody);
+    expect(limited.status).toBe(429);
+    expect(errorOf(limited).code).toBe('rate-limited');
+  });
+
+  it('reports progress only to the client running the generation', async () => {
+    let finish!: (response: Response) => void;
+    const fetchMock = vi.fn<typeof fetch>(async (url) => String(url).includes('/progress')
+      ? jsonResponse({ progress: 0.5, eta_relative: 3, current_image: 'aGk=' }, 200)
+      : new Promise<Response>(resolve => { finish = resolve; }));
+    vi.stubGlobal('fetch', fetchMock);
+    const get = await startServer({ env: { LOCAL_SD_URL: 'http://gpu:7860/' }, trustProxy: true });
+    const progressPath = '/api/progress?provider=automatic1111&generation=job-1';
+    const alice = { 'X-Forwarded-For': '10.0.0.1' };
+
+    expect((await get(undefined, 'GET', progressPath, alice)).status).toBe(204);
+    const generating = get({ ...validBody, provider: 'automatic1111', generationId: 'job-1' }, 'POST', '/api/generate', alice);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+
+    const response = await get(undefined, 'GET', progressPath, alice);
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body.toString('utf8'))).toEqual({
+      fraction: 0.5,
+      remainingMs: 3000,
+      preview: 'data:image/png;base64,aGk='
+    });
+    expect(fetchMock.mock.calls[1][0]).toBe('http://gpu:7860/sdapi/v1/progress?skip_current_image=false');
+
+    expect((await get(undefined, 'GET', progressPath, { 'X-Forwarded-For': '10.0.0.2' })).status).toBe(204);
+    expect((await get(undefined, 'GET', '/api/progress?provider=automatic1111&generation=job-2', alice)).status).toBe(204);
+    expect((await get(undefined, 'GET', '/api/progress?provider=huggingface&generation=job-1', alice)).status).toBe(204);
+    expect((await get(undefined, 'GET', '/api/progress?provider=nope', alice)).status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    finish(jsonResponse({ images: ['aGk='] }, 200));
+    expect((await generating).status).toBe(200);
+    expect((await get(undefined, 'GET', progressPath, alice)).status).toBe(204);
+  });
+
+  it('rate limits progress requests', async () => {
+    const get = await startServer({ env: {}, progressRateLimit: 1 });
+
+    expect((await get(undefined, 'GET', '/api/progress?provider=automatic1111&generation=job-1')).status).toBe(204);
+    const limited = await get(undefined, 'GET', '/api/progress?provider=automatic1111&generation=job-1');
+    expect(limited.status).toBe(429);
+    expect(errorOf(limited).code).toBe('rate-limited');
+  });
+});
@@ -0,0 +1,272 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  PROVIDERS,
+  PROXY_GENERATE_PATH,
+  PROXY_PROGRESS_PATH,
+  ProviderError,
+  createGenerationRequest,
+  isProviderId,
+  requestImage,
+  requestProgress,
+  supportsMode,
+  type ProviderId,
+  type ProxyErrorBody,
+  type ProxyGenerateBody
+} from '../src/lib/providers';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '../src/lib/resolution';
+import { isValidSeed } from '../src/lib/seed';
+import { getMissingTokenMessage, getServerProviderConfig, type ServerEnv } from './config';
+import { createRateLimiter } from './rateLimiter';
+
+export interface GenerateHandlerOptions {
+  env: ServerEnv;
+  // Requests allowed per client in each rate limit window
+  rateLimit?: number;
+  rateLimitWindowMs?: number;
+  // Progress requests allowed per client in each window; browsers poll once
+  // a second while generating
+  progressRateLimit?: number;
+  // Read the client address from X-Forwarded-For (only behind a trusted proxy)
+  trustProxy?: boolean;
+}
+
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Large enough for a source image and mask sent as data URLs
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const MAX_PROMPT_LENGTH = 2000;
+const GENERATION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const sendError = (res: ServerResponse, status: number, error: ProxyErrorBody['error']) => {
+  if (error.retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error } satisfies ProxyErrorBody));
+};
+
+export const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProviderError('bad-request', 'Request body is too large.', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Returns an error message, or null when the body is usable
+const validateBody = (body: Partial<ProxyGenerateBody> | null): string | null => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Request body must be a JSON object.';
+  if (!isProviderId(body.provider)) return 'Unknown provider.';
+  if (typeof body.model !== 'string') return 'Model must be a string.';
+  if (body.generationId !== undefined && (typeof body.generationId !== 'string' || !GENERATION_ID_PATTERN.test(body.generationId))) {
+    return 'Generation id must be up to 64 letters, digits, "-" or "_".';
+  }
+
+  const request = body.request;
+  if (!request || typeof request !== 'object' || typeof request.prompt !== 'string' || !request.prompt.trim()) {
+    return 'Please enter a prompt to generate an image';
+  }
+  if (request.prompt.length > MAX_PROMPT_LENGTH) return 'Prompt is too long.';
+  if (typeof request.negativePrompt !== 'string') return 'Negative prompt must be a string.';
+
+  const settings = request.settings;
+  if (!settings || typeof settings !== 'object') return 'Missing generation settings.';
+  if (!Number.isFinite(settings.steps) || settings.steps < 1 || settings.steps > 150) return 'Steps must be between 1 and 150.';
+  if (!Number.isFinite(settings.guidance) || settings.guidance < 0 || settings.guidance > 30) return 'Guidance must be between 0 and 30.';
+  if (!IMAGE_QUALITIES.includes(settings.quality)) return 'Quality must be standard or hd.';
+  if (!ASPECT_RATIOS.includes(settings.aspectRatio)) return 'Unsupported aspect ratio.';
+  // Clients roll a seed before sending, so an unknown seed (-1) is an error too
+  if (!isValidSeed(settings.seed)) return 'Seed must be a whole number between 0 and 4294967295.';
+
+  const source = request.source;
+  if (source !== undefined) {
+    if (!source || typeof source.image !== 'string' || !source.image.startsWith('data:image/')) {
+      return 'Source image must be an image data URL.';
+    }
+    if (source.mask !== undefined && (typeof source.mask !== 'string' || !source.mask.startsWith('data:image/'))) {
+      return 'Mask must be an image data URL.';
+    }
+    if (!Number.isFinite(settings.strength) || settings.strength < 0 || settings.strength > 1) {
+      return 'Strength must be between 0 and 1.';
+    }
+    const provider = PROVIDERS[body.provider];
+    if (!supportsMode(provider, source.mask ? 'inpaint' : 'image-to-image')) {
+      return `${provider.name} does not support ${source.mask ? 'inpainting' : 'image-to-image'}.`;
+    }
+  }
+  return null;
+};
+
+export const getClientKey = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Connect-style middleware for POST /api/generate. Works in Vite's dev and
+// preview servers as well as the standalone server in `server/index.ts`.
+export const createGenerateHandler = (options: GenerateHandlerOptions): Middleware => {
+  const windowMs = options.rateLimitWindowMs ?? 60_000;
+  const limiter = createRateLimiter(options.rateLimit ?? 10, windowMs);
+  const progressLimiter = createRateLimiter(options.progressRateLimit ?? 120, windowMs);
+  // Generations in flight, by client and the id the client gave them
+  const running = new Map<string, { client: string; provider: ProviderId }>();
+  const runningKey = (client: string, generationId: string) => `${client} ${generationId}`;
+
+  const sendRateLimited = (res: ServerResponse, retryAfterMs: number) => sendError(res, 429, {
+    code: 'rate-limited',
+    message: 'Too many requests. Please wait a moment and try again.',
+    retryAfterMs
+  });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendError(res, 405, { code: 'bad-request', message: 'Use POST to generate images.' });
+      return;
+    }
+
+    const client = getClientKey(req, options.trustProxy ?? false);
+    const limit = limiter.check(client);
+    if (!limit.allowed) {
+      sendRateLimited(res, limit.retryAfterMs);
+      return;
+    }
+
+    let body: Partial<ProxyGenerateBody> | null;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (err) {
+      const status = err instanceof ProviderError && err.status ? err.status : 400;
+      sendError(res, status, { code: 'bad-request', message: err instanceof ProviderError ? err.message : 'Request body must be JSON.' });
+      return;
+    }
+
+    const validationError = validateBody(body);
+    if (validationError) {
+      sendError(res, 400, { code: 'bad-request', message: validationError });
+      return;
+    }
+    const { provider: providerId, model, request, generationId } = body as ProxyGenerateBody;
+    const provider = PROVIDERS[providerId];
+
+    const missingTokenMessage = getMissingTokenMessage(provider, options.env);
+    if (missingTokenMessage) {
+      sendError(res, 500, { code: 'auth', message: missingTokenMessage });
+      return;
+    }
+
+    const key = generationId === undefined ? undefined : runningKey(client, generationId);
+    if (key !== undefined) {
+      if (running.has(key)) {
+        sendError(res, 409, { code: 'bad-request', message: 'A generation with this id is already running.' });
+        return;
+      }
+      running.set(key, { client, provider: providerId });
+    }
+
+    // Stop the upstream request if the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const blob = await requestImage(
+        provider,
+        createGenerationRequest(request.prompt, request.negativePrompt, request.settings, request.source),
+        getServerProviderConfig(provider, model, options.env),
+        controller.signal
+      );
+      res.statusCode = 200;
+      res.setHeader('Content-Type', blob.type || 'application/octet-stream');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(Buffer.from(await blob.arrayBuffer()));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const providerError = err instanceof ProviderError
+        ? err
+        : new ProviderError('unknown', 'Failed to generate image. Please try again.');
+      if (!(err instanceof ProviderError)) console.error('Unexpected generation error:', err);
+
+      sendError(res, providerError.status && providerError.status >= 400 ? providerError.status : 502, {
+        code: providerError.code,
+        message: providerError.message,
+        retryAfterMs: providerError.retryAfterMs
+      });
+    } finally {
+      if (key !== undefined) running.delete(key);
+    }
+  };
+
+  // GET /api/progress?provider=<id>&generation=<id>. Providers report on
+  // whatever they are running, so this only answers while the caller's own
+  // generation is the only one in flight on that provider.
+  const handleProgress = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendError(res, 405, { code: 'bad-request', message: 'Use GET to read progress.' });
+      return;
+    }
+    const client = getClientKey(req, options.trustProxy ?? false);
+    const limit = progressLimiter.check(client);
+    if (!limit.allowed) {
+      sendRateLimited(res, limit.retryAfterMs);
+      return;
+    }
+    const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+    const providerId = params.get('provider');
+    if (!isProviderId(providerId)) {
+      sendError(res, 400, { code: 'bad-request', message: 'Unknown provider.' });
+      return;
+    }
+
+    const generation = running.get(runningKey(client, params.get('generation') ?? ''));
+    const owned = generation?.provider === providerId &&
+      [...running.values()].every(other => other.provider !== providerId || other.client === client);
+    const provider = PROVIDERS[providerId];
+    const progress = !owned || getMissingTokenMessage(provider, options.env)
+      ? null
+      : await requestProgress(provider, getServerProviderConfig(provider, '', options.env));
+    res.setHeader('Cache-Control', 'no-store');
+    if (!progress) {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(progress));
+  };
+
+  return (req, res, next) => {
+    const path = req.url?.split('?')[0];
+    if (path === PROXY_PROGRESS_PATH) {
+      handleProgress(req, res).catch(err => {
+        console.error('Progress proxy error:', err);
+        if (!res.headersSent) sendError(res, 500, { code: 'unknown', message: 'Internal server error.' });
+      });
+      return;
+    }
+    if (path !== PROXY_GENERATE_PATH) {
+      next();
+      return;
+    }
+    handle(req, res).catch(err => {
+      console.error('Generation proxy error:', err);
+      if (!res.headersSent) sendError(res, 500, { code: 'unknown', message: 'Internal server error.' });
+    });
+  };
+};
@@ -0,0 +1,44 @@
+import { createServer } from 'node:http';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createBackendHandler } from './backendHandler';
+import { loadEnvFiles } from './env';
+import { createGenerateHandler, type Middleware } from './generateHandler';
+import { createStaticHandler } from './staticHandler';
+
+// Production server: serves the built app from dist/, the generation proxy and,
+// with DATABASE_PATH set, the accounts and workspaces API.
+// Run `npm run build` first, then `npm start`.
+
+const ROOT_DIR = resolve(fileURLToPath(import.meta.url), '../..');
+const DIST_DIR = join(ROOT_DIR, 'dist');
+
+loadEnvFiles(ROOT_DIR);
+
+const generate = createGenerateHandler({
+  env: process.env,
+  rateLimit: Number(process.env.RATE_LIMIT_PER_MINUTE) || undefined,
+  trustProxy: process.env.TRUST_PROXY === 'true'
+});
+
+// Without a database the app stays in local-only mode, and the store with
+// its optional native SQLite module is never loaded
+const openBackend = async (path: string): Promise<Middleware> => {
+  const { openStore } = await import('./store');
+  return createBackendHandler({ store: openStore(path), trustProxy: process.env.TRUST_PROXY === 'true' });
+};
+
+const backend: Middleware = process.env.DATABASE_PATH
+  ? await openBackend(process.env.DATABASE_PATH)
+  : (_req, _res, next) => next();
+
+const serveStatic = createStaticHandler(DIST_DIR);
+
+const server = createServer((req, res) => {
+  generate(req, res, () => backend(req, res, () => serveStatic(req, res)));
+});
+
+const port = Number(process.env.PORT) || 3000;
+server.listen(port, () => {
+  console.log(`DreamCanvas AI running at http://localhost:${port}`);
+});
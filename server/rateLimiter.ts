@@ -0,0 +1,38 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+// Sliding-window limiter kept in memory; good enough for a single proxy process
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    check: (key) => {
+      const now = Date.now();
+      const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+
+      // Drop idle clients so the map doesn't grow forever
+      if (hits.size > 1000) {
+        for (const [client, times] of hits) {
+          if (times.every(time => now - time >= windowMs)) hits.delete(client);
+        }
+      }
+
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    }
+  };
+};
@@ -0,0 +1,59 @@
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createStaticHandler } from './staticHandler';
+
+let rootDir: string;
+let server: Server | undefined;
+
+// Requests go out with the path exactly as written, without normalizing it
+const get = (path: string): Promise<{ status: number; body: string }> => {
+  const { port } = server!.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = request({ port, path }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+};
+
+describe('static handler', () => {
+  beforeEach(async () => {
+    rootDir = mkdtempSync(join(tmpdir(), 'dreamcanvas-static-'));
+    mkdirSync(join(rootDir, 'dist'));
+    writeFileSync(join(rootDir, 'dist', 'index.html'), '<p>app</p>');
+    writeFileSync(join(rootDir, 'dist', 'app.js'), 'console.log(1)');
+    mkdirSync(join(rootDir, 'dist-ssr'));
+    writeFileSync(join(rootDir, 'dist-ssr', 'secret.txt'), 'secret');
+    server = createServer(createStaticHandler(join(rootDir, 'dist')));
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('serves built files and falls back to index.html for client routes', async () => {
+    expect(await get('/app.js')).toEqual({ status: 200, body: 'console.log(1)' });
+    expect(await get('/gallery/abc')).toEqual({ status: 200, body: '<p>app</p>' });
+  });
+
+  it('rejects malformed escapes instead of crashing', async () => {
+    expect((await get('/%E0%A4%A')).status).toBe(400);
+    expect((await get('/app.js')).status).toBe(200);
+  });
+
+  it('never serves files from sibling directories', async () => {
+    const response = await get('/%2e%2e/dist-ssr/secret.txt');
+    expect(response.body).not.toContain('secret');
+    expect(response.body).toBe('<p>app</p>');
+  });
+});
@@ -0,0 +1,44 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { extname, join, normalize, sep } from 'node:path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json'
+};
+
+// Serves the built app from `distDir`, falling back to index.html for client
+// routes. Nothing outside `distDir` is ever read.
+export const createStaticHandler = (distDir: string) => (req: IncomingMessage, res: ServerResponse): void => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(req.url?.split('?')[0] ?? '/');
+  } catch {
+    res.statusCode = 400;
+    res.end('Bad request');
+    return;
+  }
+
+  let filePath = normalize(join(distDir, urlPath));
+  // A plain prefix check would also let through siblings like dist-ssr/
+  const inside = filePath === distDir || filePath.startsWith(distDir + sep);
+  if (!inside || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = join(distDir, 'index.html');
+  }
+  if (!existsSync(filePath)) {
+    res.statusCode = 404;
+    res.end('Not found. Run `npm run build` first.');
+    return;
+  }
+
+  res.setHeader('Content-Type', CONTENT_TYPES[extname(filePath)] ?? 'application/octet-stream');
+  createReadStream(filePath).pipe(res);
+};
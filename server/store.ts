@@ -0,0 +1,276 @@
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import type {
+  BackendUser,
+  ImageComment,
+  ImageRecord,
+  Workspace,
+  WorkspaceImage,
+  WorkspaceMember,
+  WorkspaceRole
+} from '../src/lib/backendTypes';
+
+// SQLite storage for the accounts and workspaces backend. Every method is
+// synchronous; better-sqlite3 is fast enough that a single small team never
+// notices, and it keeps multi-statement changes simple.
+
+export interface Store {
+  // Creates the user together with their first workspace; undefined when the
+  // email is already taken
+  createUser: (email: string, name: string, passwordHash: string, workspaceName: string) => BackendUser | undefined;
+  findUserByEmail: (email: string) => (BackendUser & { passwordHash: string }) | undefined;
+  createSession: (tokenHash: string, userId: string, expiresAt: number) => void;
+  // The session's user, unless it has expired
+  findSessionUser: (tokenHash: string, now: number) => BackendUser | undefined;
+  deleteSession: (tokenHash: string) => void;
+  deleteExpiredSessions: (now: number) => void;
+  createWorkspace: (name: string, ownerId: string) => Workspace;
+  listWorkspaces: (userId: string) => Workspace[];
+  getRole: (workspaceId: string, userId: string) => WorkspaceRole | undefined;
+  listMembers: (workspaceId: string) => WorkspaceMember[];
+  addMember: (workspaceId: string, userId: string, role: WorkspaceRole) => void;
+  // False when the workspace already has an image with this id
+  saveImage: (workspaceId: string, ownerId: string, image: ImageRecord, data: Buffer, contentType: string) => boolean;
+  // Newest first, optionally only one owner's
+  listImages: (workspaceId: string, ownerId?: string) => WorkspaceImage[];
+  getImageOwner: (workspaceId: string, imageId: string) => string | undefined;
+  getImageFile: (workspaceId: string, imageId: string) => { data: Buffer; contentType: string } | undefined;
+  deleteImage: (workspaceId: string, imageId: string) => void;
+  // Oldest first
+  listComments: (workspaceId: string, imageId: string) => ImageComment[];
+  addComment: (workspaceId: string, imageId: string, authorId: string, body: string) => ImageComment;
+  close: () => void;
+}
+
+// Applied in order; `PRAGMA user_version` records how many have run
+const MIGRATIONS = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE workspaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE memberships (
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'member')),
+    PRIMARY KEY (workspace_id, user_id)
+  );
+  CREATE TABLE images (
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    owner_id TEXT NOT NULL REFERENCES users(id),
+    timestamp INTEGER NOT NULL,
+    record TEXT NOT NULL,
+    data BLOB NOT NULL,
+    content_type TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, id)
+  );
+  CREATE TABLE comments (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL,
+    image_id TEXT NOT NULL,
+    author_id TEXT NOT NULL REFERENCES users(id),
+    body TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    FOREIGN KEY (workspace_id, image_id) REFERENCES images(workspace_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX comments_by_image ON comments (workspace_id, image_id, timestamp);
+  `
+];
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+}
+
+interface ImageRow {
+  record: string;
+  owner_id: string;
+  owner_name: string;
+  comment_count: number;
+}
+
+interface CommentRow {
+  id: string;
+  author_id: string;
+  author_name: string;
+  body: string;
+  timestamp: number;
+}
+
+const migrate = (db: Database.Database) => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+};
+
+// Opens (and creates or upgrades) the database at `path`; ':memory:' works for tests
+export const openStore = (path: string): Store => {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  const toUser = (row: UserRow): BackendUser => ({ id: row.id, email: row.email, name: row.name });
+
+  const createWorkspace = (name: string, ownerId: string): Workspace => {
+    const workspace: Workspace = { id: randomUUID(), name, role: 'owner' };
+    db.transaction(() => {
+      db.prepare('INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)').run(workspace.id, name, Date.now());
+      db.prepare('INSERT INTO memberships (workspace_id, user_id, role) VALUES (?, ?, ?)').run(workspace.id, ownerId, 'owner');
+    })();
+    return workspace;
+  };
+
+  return {
+    createUser: (email, name, passwordHash, workspaceName) => {
+      const user: BackendUser = { id: randomUUID(), email, name };
+      try {
+        db.transaction(() => {
+          db.prepare('INSERT INTO users (id, email, name, password_hash, created_at) VALUES (?, ?, ?, ?, ?)')
+            .run(user.id, email, name, passwordHash, Date.now());
+          createWorkspace(workspaceName, user.id);
+        })();
+      } catch (error) {
+        if (error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') return undefined;
+        throw error;
+      }
+      return user;
+    },
+
+    findUserByEmail: (email) => {
+      const row = db.prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+      return row && { ...toUser(row), passwordHash: row.password_hash };
+    },
+
+    createSession: (tokenHash, userId, expiresAt) => {
+      db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(tokenHash, userId, expiresAt);
+    },
+
+    findSessionUser: (tokenHash, now) => {
+      const row = db.prepare(`
+        SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+        WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+      `).get(tokenHash, now) as UserRow | undefined;
+      return row && toUser(row);
+    },
+
+    deleteSession: (tokenHash) => {
+      db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+    },
+
+    deleteExpiredSessions: (now) => {
+      db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+    },
+
+    createWorkspace,
+
+    listWorkspaces: (userId) =>
+      db.prepare(`
+        SELECT workspaces.id, workspaces.name, memberships.role FROM memberships
+        JOIN workspaces ON workspaces.id = memberships.workspace_id
+        WHERE memberships.user_id = ? ORDER BY workspaces.created_at
+      `).all(userId) as Workspace[],
+
+    getRole: (workspaceId, userId) => {
+      const row = db.prepare('SELECT role FROM memberships WHERE workspace_id = ? AND user_id = ?')
+        .get(workspaceId, userId) as { role: WorkspaceRole } | undefined;
+      return row?.role;
+    },
+
+    listMembers: (workspaceId) => {
+      const rows = db.prepare(`
+        SELECT users.*, memberships.role FROM memberships JOIN users ON users.id = memberships.user_id
+        WHERE memberships.workspace_id = ? ORDER BY memberships.role DESC, users.name
+      `).all(workspaceId) as (UserRow & { role: WorkspaceRole })[];
+      return rows.map(row => ({ user: toUser(row), role: row.role }));
+    },
+
+    addMember: (workspaceId, userId, role) => {
+      db.prepare('INSERT INTO memberships (workspace_id, user_id, role) VALUES (?, ?, ?)').run(workspaceId, userId, role);
+    },
+
+    saveImage: (workspaceId, ownerId, image, data, contentType) => {
+      const result = db.prepare(`
+        INSERT OR IGNORE INTO images (workspace_id, id, owner_id, timestamp, record, data, content_type)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(workspaceId, image.id, ownerId, image.timestamp, JSON.stringify(image), data, contentType);
+      return result.changes > 0;
+    },
+
+    listImages: (workspaceId, ownerId) => {
+      const rows = db.prepare(`
+        SELECT images.record, images.owner_id, users.name AS owner_name,
+          (SELECT COUNT(*) FROM comments WHERE comments.workspace_id = images.workspace_id AND comments.image_id = images.id) AS comment_count
+        FROM images JOIN users ON users.id = images.owner_id
+        WHERE images.workspace_id = ? AND (? IS NULL OR images.owner_id = ?)
+        ORDER BY images.timestamp DESC
+      `).all(workspaceId, ownerId ?? null, ownerId ?? null) as ImageRow[];
+      return rows.map(row => ({
+        image: JSON.parse(row.record) as ImageRecord,
+        owner: { id: row.owner_id, name: row.owner_name },
+        commentCount: row.comment_count
+      }));
+    },
+
+    getImageOwner: (workspaceId, imageId) => {
+      const row = db.prepare('SELECT owner_id FROM images WHERE workspace_id = ? AND id = ?')
+        .get(workspaceId, imageId) as { owner_id: string } | undefined;
+      return row?.owner_id;
+    },
+
+    getImageFile: (workspaceId, imageId) => {
+      const row = db.prepare('SELECT data, content_type FROM images WHERE workspace_id = ? AND id = ?')
+        .get(workspaceId, imageId) as { data: Buffer; content_type: string } | undefined;
+      return row && { data: row.data, contentType: row.content_type };
+    },
+
+    deleteImage: (workspaceId, imageId) => {
+      db.prepare('DELETE FROM images WHERE workspace_id = ? AND id = ?').run(workspaceId, imageId);
+    },
+
+    listComments: (workspaceId, imageId) => {
+      const rows = db.prepare(`
+        SELECT comments.id, comments.author_id, users.name AS author_name, comments.body, comments.timestamp
+        FROM comments JOIN users ON users.id = comments.author_id
+        WHERE comments.workspace_id = ? AND comments.image_id = ?
+        ORDER BY comments.timestamp, comments.rowid
+      `).all(workspaceId, imageId) as CommentRow[];
+      return rows.map(row => ({
+        id: row.id,
+        author: { id: row.author_id, name: row.author_name },
+        body: row.body,
+        timestamp: row.timestamp
+      }));
+    },
+
+    addComment: (workspaceId, imageId, authorId, body) => {
+      const comment = { id: randomUUID(), body, timestamp: Date.now() };
+      db.prepare('INSERT INTO comments (id, workspace_id, image_id, author_id, body, timestamp) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(comment.id, workspaceId, imageId, authorId, body, comment.timestamp);
+      const author = db.prepare('SELECT name FROM users WHERE id = ?').get(authorId) as { name: string };
+      return { ...comment, author: { id: authorId, name: author.name } };
+    },
+
+    close: () => db.close()
+  };
+};
@@ -0,0 +1,430 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import * as imageStore from './lib/imageStore';
+import { clearUsage } from './lib/usage';
+import { loadOutbox } from './lib/outbox';
+import { imageResponse, jsonResponse, mockFetch } from './test/fetchMocks';
+import { axeViolations } from './test/axe';
+import { makeImage } from './test/images';
+
+const generate = async (prompt: string) => {
+  const user = userEvent.setup();
+  await user.type(screen.getByLabelText('Prompt'), prompt);
+  await user.click(screen.getByRole('button', { name: /Generate Image/ }));
+};
+
+const gallerySection = () => document.getElementById('gallery')!;
+
+const openPage = (path: string) => window.history.replaceState(null, '', path);
+
+const storedImage = (id: string, prompt: string, timestamp = 1): imageStore.StoredImage =>
+  makeImage({ id, prompt, timestamp, blob: new Blob([id], { type: 'image/png' }) });
+
+const saveGalleryImage = (id: string, prompt: string, timestamp: number) =>
+  imageStore.saveImage(storedImage(id, prompt, timestamp));
+
+describe('App', () => {
+  beforeEach(() => {
+    openPage('/studio');
+  });
+
+  afterEach(async () => {
+    await imageStore.clearImages();
+    await clearUsage();
+    vi.restoreAllMocks();
+  });
+
+  it('asks for a prompt before generating', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    render(<App />);
+
+    await userEvent.setup().click(screen.getByRole('button', { name: /Generate Image/ }));
+
+    expect(screen.getByText('Please enter a prompt to generate an image')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('shows the generated image in the results and the gallery', async () => {
+    mockFetch(imageResponse());
+    render(<App />);
+
+    await generate('a cabin in the snow');
+    expect(await screen.findByAltText('a cabin in the snow')).toBeInTheDocument();
+    await userEvent.setup().click(screen.getByRole('link', { name: 'Gallery' }));
+
+    expect(window.location.pathname).toBe('/gallery');
+    expect(within(gallerySection()).getByAltText('a cabin in the snow')).toBeInTheDocument();
+  });
+
+  it('keeps generated images after a reload', async () => {
+    mockFetch(imageResponse());
+    const { unmount } = render(<App />);
+    await generate('a paper boat');
+    await screen.findAllByAltText('a paper boat');
+    unmount();
+
+    openPage('/gallery');
+    render(<App />);
+
+    expect(await within(gallerySection()).findByAltText('a paper boat')).toBeInTheDocument();
+  });
+
+  it.each([
+    [401, 'auth', 'Invalid API token. Please check your Hugging Face API token.'],
+    [400, 'bad-request', 'Bad request. Please check your prompt and try again.'],
+    [500, 'auth', 'Hugging Face API token is not configured.']
+  ])('shows the server error for a %i response', async (status, code, message) => {
+    mockFetch(jsonResponse({ error: { code, message } }, status));
+    render(<App />);
+
+    await generate('a broken robot');
+
+    expect(await screen.findByText(message)).toBeInTheDocument();
+    expect(screen.queryByAltText('a broken robot')).not.toBeInTheDocument();
+  });
+
+  it('searches the gallery and deletes the selected images', async () => {
+    mockFetch(imageResponse());
+    vi.stubGlobal('confirm', vi.fn(() => true));
+    await saveGalleryImage('castle', 'a castle at dawn', 1);
+    await saveGalleryImage('cat', 'a sleeping cat', 2);
+    await saveGalleryImage('ruin', 'a castle ruin', 3);
+    const user = userEvent.setup();
+    openPage('/gallery');
+    render(<App />);
+    const gallery = within(await waitFor(() => {
+      expect(within(gallerySection()).getAllByRole('img')).toHaveLength(3);
+      return gallerySection();
+    }));
+
+    await user.type(gallery.getByLabelText('Search gallery'), 'castle');
+    expect(gallery.queryByAltText('a sleeping cat')).not.toBeInTheDocument();
+
+    await user.click(gallery.getByRole('button', { name: 'Select' }));
+    await user.click(gallery.getByRole('button', { name: /Select all 2/ }));
+    await user.click(gallery.getByRole('button', { name: 'Delete' }));
+    await user.clear(gallery.getByLabelText('Search gallery'));
+
+    expect(gallery.getByAltText('a sleeping cat')).toBeInTheDocument();
+    expect(gallery.queryByAltText('a castle at dawn')).not.toBeInTheDocument();
+    await waitFor(async () => expect((await imageStore.loadImages()).map(img => img.id)).toEqual(['cat']));
+  });
+
+  it('asks before deleting an image from its card', async () => {
+    const confirm = vi.fn(() => false);
+    vi.stubGlobal('confirm', confirm);
+    await saveGalleryImage('castle', 'a castle at dawn', 1);
+    const user = userEvent.setup();
+    openPage('/gallery');
+    render(<App />);
+    const gallery = within(gallerySection());
+
+    await user.click(await gallery.findByRole('button', { name: 'Delete' }));
+    expect(confirm).toHaveBeenCalledWith("Delete this image? This can't be undone.");
+    expect(gallery.getByAltText('a castle at dawn')).toBeInTheDocument();
+
+    confirm.mockReturnValue(true);
+    await user.click(gallery.getByRole('button', { name: 'Delete' }));
+    expect(gallery.queryByAltText('a castle at dawn')).not.toBeInTheDocument();
+    await waitFor(async () => expect(await imageStore.loadImages()).toEqual([]));
+  });
+
+  it('runs a parameter sweep and lays the results out by axis value', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText('Prompt'), 'a red kite');
+    await user.click(screen.getByLabelText('Parameter sweep (XY grid)'));
+    await user.clear(screen.getByLabelText('X axis values'));
+    await user.type(screen.getByLabelText('X axis values'), '20, 40');
+    await user.click(screen.getByRole('button', { name: /Generate Sweep/ }));
+
+    const grid = within(screen.getByRole('table'));
+    await waitFor(() => expect(grid.getAllByAltText('a red kite')).toHaveLength(2));
+    expect(grid.getAllByRole('columnheader').map(header => header.textContent)).toEqual(['20', '40']);
+    const steps = fetchMock.mock.calls
+      .filter(([, init]) => init?.method === 'POST')
+      .map(([, init]) => JSON.parse(init?.body as string).request.settings.steps);
+    expect(steps.sort()).toEqual([20, 40]);
+  });
+
+  it('stops generating once a hard budget limit is reached', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    localStorage.setItem('usageBudgets', JSON.stringify([
+      { id: 'daily', provider: 'all', period: 'day', unit: 'images', soft: null, hard: 1 }
+    ]));
+    render(<App />);
+
+    await generate('a red kite');
+    await screen.findAllByAltText('a red kite');
+    await generate(' over the hills');
+
+    expect(screen.getByText('Daily image limit of 1 image reached (1 image used, 1 image requested).')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves generations to the outbox while offline and sends them on reconnect', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    render(<App />);
+    expect(screen.getByText(/You're offline/)).toBeInTheDocument();
+
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText('Prompt'), 'a quiet harbour');
+    await user.click(screen.getByRole('button', { name: /Save to Outbox/ }));
+
+    expect(await screen.findByText('Outbox (1)')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+    await waitFor(async () => expect(await loadOutbox()).toHaveLength(1));
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+
+    expect(await screen.findByAltText('a quiet harbour')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText(/Outbox/)).not.toBeInTheDocument();
+    await waitFor(async () => expect(await loadOutbox()).toEqual([]));
+  });
+
+  it('blocks prompts the content filter catches', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    render(<App />);
+
+    await generate('a gory battlefield');
+
+    expect(screen.getByLabelText('Prompt')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getAllByText(/Blocked by the content filter: "gory" \(Violence\)/)).toHaveLength(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('blurs flagged gallery images until they are revealed', async () => {
+    await imageStore.saveImage({ ...storedImage('flagged', 'a beach party'), flagged: true, flagLabel: 'nsfw' });
+    const user = userEvent.setup();
+    openPage('/gallery');
+    render(<App />);
+    const gallery = within(gallerySection());
+
+    const image = await gallery.findByAltText('a beach party');
+    expect(image).toHaveClass('blur-xl');
+    expect(gallery.getByText('Flagged by the image filter (nsfw)')).toBeInTheDocument();
+
+    await user.click(gallery.getByRole('button', { name: 'Show image' }));
+    expect(gallery.getByAltText('a beach party')).not.toHaveClass('blur-xl');
+  });
+
+  it('opens the studio from the landing page', async () => {
+    openPage('/');
+    render(<App />);
+
+    await userEvent.setup().click(screen.getByRole('link', { name: 'Get Started' }));
+
+    expect(window.location.pathname).toBe('/studio');
+    expect(screen.getByLabelText('Prompt')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Studio' })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('fills in the studio from a shared link', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    openPage('/studio?prompt=a+red+kite&negative=blurry&preset=anime&aspect=16%3A9&steps=40&guidance=9&seed=42');
+    render(<App />);
+
+    expect(screen.getByLabelText('Prompt')).toHaveValue('a red kite');
+    expect(screen.getByLabelText('Negative Prompt (Optional)')).toHaveValue('blurry');
+    expect(screen.getByLabelText('Style Preset')).toHaveValue('anime');
+    await userEvent.setup().click(screen.getByRole('button', { name: /Generate Image/ }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const { request } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+    expect(request.settings).toMatchObject({ stylePreset: 'anime', aspectRatio: '16:9', steps: 40, guidance: 9, seed: 42 });
+  });
+
+  it('keeps the studio URL in step with the form', async () => {
+    render(<App />);
+
+    await userEvent.setup().type(screen.getByLabelText('Prompt'), 'a lighthouse');
+
+    await waitFor(() => expect(window.location.search).toBe('?prompt=a+lighthouse'));
+  });
+
+  it('gives every gallery image a detail page', async () => {
+    vi.stubGlobal('confirm', vi.fn(() => true));
+    await saveGalleryImage('castle', 'a castle at dawn', 1);
+    const user = userEvent.setup();
+    openPage('/gallery');
+    render(<App />);
+
+    await user.click(await within(gallerySection()).findByRole('link', { name: 'Details' }));
+    expect(window.location.pathname).toBe('/gallery/castle');
+    expect(screen.getByRole('heading', { name: 'Image Details' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Open in Studio/ }));
+    expect(window.location.pathname).toBe('/studio');
+    expect(screen.getByLabelText('Prompt')).toHaveValue('a castle at dawn');
+
+    openPage('/gallery/castle');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    await user.click(await screen.findByRole('button', { name: /Delete/ }));
+    expect(window.location.pathname).toBe('/gallery');
+    await waitFor(async () => expect(await imageStore.loadImages()).toEqual([]));
+  });
+
+  it('says when an image is not in this gallery', async () => {
+    openPage('/gallery/missing');
+    render(<App />);
+
+    expect(await screen.findByText('Image not found')).toBeInTheDocument();
+  });
+
+  it('shares new images with the workspace and shows its gallery with comments', async () => {
+    localStorage.setItem('backendToken', 'session-token');
+    const workspace = { id: 'team', name: 'Team', role: 'member' };
+    const shared = { image: { ...storedImage('harbour', 'a harbour at night'), blob: undefined }, owner: { id: 'bob', name: 'Bob' }, commentCount: 0 };
+    // Answers by URL, since the gallery loads the list, files and comments in parallel
+    const fetchMock = vi.fn<typeof fetch>(async (input, init) => {
+      const url = String(input);
+      if (url.endsWith('/api/generate')) return imageResponse();
+      if (url.endsWith('/api/backend/session')) {
+        return jsonResponse({ user: { id: 'ada', email: 'ada@example.com', name: 'Ada' }, workspaces: [workspace] }, 200);
+      }
+      if (url.endsWith('/file')) return imageResponse();
+      if (url.endsWith('/comments')) {
+        return init?.method === 'POST'
+          ? jsonResponse({ id: 'c1', author: { id: 'ada', name: 'Ada' }, body: 'Lovely light', timestamp: 2 }, 200)
+          : jsonResponse([], 200);
+      }
+      return jsonResponse(init?.method === 'POST' ? shared : [shared], 200);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+    render(<App />);
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledWith(expect.stringMatching(/\/api\/backend\/session$/), expect.anything()));
+    await generate('a harbour at night');
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringMatching(/\/api\/backend\/workspaces\/team\/images$/),
+      expect.objectContaining({ method: 'POST' })
+    ));
+
+    await user.click(screen.getByRole('link', { name: 'Gallery' }));
+    await user.click(screen.getByRole('button', { name: 'Workspace' }));
+    await user.click(await screen.findByRole('button', { name: /a harbour at night/ }));
+    expect(screen.getAllByText(/Bob/).length).toBeGreaterThan(0);
+
+    await user.type(await screen.findByLabelText('Add a comment'), 'Lovely light');
+    await user.click(screen.getByRole('button', { name: 'Post comment' }));
+    expect(await screen.findByText('Lovely light', { selector: 'p' })).toBeInTheDocument();
+    localStorage.removeItem('backendToken');
+  });
+
+  it('completes prompt terms and warns when the prompt is too long for CLIP', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    const prompt = screen.getByLabelText('Prompt');
+
+    await user.type(prompt, 'a castle, golden h');
+    expect(screen.getByRole('option', { name: /golden hour/ })).toHaveAttribute('aria-selected', 'true');
+    await user.keyboard('{Enter}');
+    expect(prompt).toHaveValue('a castle, golden hour');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    // Counted with the real CLIP tokenizer once it has loaded
+    expect(await screen.findByText('5 / 75 tokens')).toBeInTheDocument();
+
+    await user.paste(`, ${Array.from({ length: 80 }, (_, i) => `tower${i}`).join(' ')}`);
+    expect(screen.getByText(/drops everything past 75 tokens/)).toBeInTheDocument();
+    // "tower" and each digit are tokens, so the cut falls inside "tower26"
+    expect(screen.getByText(/^26 tower27 /, { selector: 'mark' })).toBeInTheDocument();
+  });
+
+  describe('accessibility', () => {
+    it.each([
+      ['the landing page', '/'],
+      ['the settings page', '/settings'],
+      ['a missing page', '/nowhere']
+    ])('has no axe violations on %s', async (_name, path) => {
+      openPage(path);
+      const { container } = render(<App />);
+      await screen.findByRole('main');
+
+      expect(await axeViolations(container)).toEqual([]);
+    });
+
+    it('has no axe violations in the studio with every panel open', async () => {
+      const user = userEvent.setup();
+      const { container } = render(<App />);
+
+      await user.click(screen.getByRole('button', { name: /Prompt Library/ }));
+      await user.click(screen.getByRole('button', { name: /Advanced Settings/ }));
+      await user.click(screen.getByRole('button', { name: /Manage Presets/ }));
+      await user.click(screen.getByRole('radio', { name: 'Image to Image' }));
+
+      expect(await axeViolations(container)).toEqual([]);
+    });
+
+    it('has no axe violations in the gallery and on image pages', async () => {
+      await saveGalleryImage('castle', 'a castle at dawn', 1);
+      openPage('/gallery');
+      const { container } = render(<App />);
+      await within(gallerySection()).findByAltText('a castle at dawn');
+
+      expect(await axeViolations(container)).toEqual([]);
+
+      await userEvent.setup().click(within(gallerySection()).getByRole('link', { name: 'Details' }));
+      await screen.findByRole('heading', { name: 'Image Details' });
+      expect(await axeViolations(container)).toEqual([]);
+    });
+
+    it('picks the aspect ratio and quality with the arrow keys', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+      const aspectRatio = screen.getByRole('radiogroup', { name: 'Aspect Ratio' });
+
+      await user.click(within(aspectRatio).getByRole('radio', { name: '1:1' }));
+      await user.keyboard('{ArrowRight}{ArrowRight}');
+      expect(within(aspectRatio).getByRole('radio', { name: '9:16' })).toHaveAttribute('aria-checked', 'true');
+      expect(within(aspectRatio).getByRole('radio', { name: '9:16' })).toHaveFocus();
+      expect(within(aspectRatio).getAllByRole('radio').filter(radio => radio.tabIndex === 0)).toHaveLength(1);
+
+      await user.click(screen.getByRole('button', { name: /Advanced Settings/ }));
+      const quality = screen.getByRole('radiogroup', { name: /Quality/ });
+      await user.click(within(quality).getByRole('radio', { name: 'Standard' }));
+      await user.keyboard('{ArrowLeft}');
+      expect(within(quality).getByRole('radio', { name: 'HD' })).toHaveAttribute('aria-checked', 'true');
+      expect(quality).toHaveAccessibleName(/Quality: HD/);
+    });
+
+    it('announces the queue in a live region', async () => {
+      mockFetch(imageResponse());
+      render(<App />);
+
+      await generate('a quiet harbor');
+
+      await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Generation finished: 1 image ready'));
+    });
+
+    it('keeps the focus in the open mobile menu and closes it with Escape', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+      const toggle = screen.getByRole('button', { name: 'Toggle menu' });
+
+      await user.click(toggle);
+      expect(toggle).toHaveAttribute('aria-expanded', 'true');
+      const menu = document.getElementById('mobile-menu')!;
+      const items = [toggle, ...within(menu).getAllByRole('link'), within(menu).getByRole('button', { name: /Mode/ })];
+      for (const item of items.slice(1)) {
+        await user.tab();
+        expect(item).toHaveFocus();
+      }
+      await user.tab();
+      expect(toggle).toHaveFocus();
+      await user.tab({ shift: true });
+      expect(items[items.length - 1]).toHaveFocus();
+
+      await user.keyboard('{Escape}');
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      expect(toggle).toHaveFocus();
+    });
+  });
+});
@@ -1,738 +1,1040 @@
-import React, { useState, useEffect } from 'react';
+import { useReducer, useState, useEffect } from 'react';
 import { 
   Wand2, 
-  Image as ImageIcon, 
   Loader2, 
-  Download, 
   RefreshCw, 
-  Moon, 
-  Sun, 
   Sliders, 
-  X,
   ChevronDown,
-  ImagePlus,
-  Clock,
-  Trash2,
-  ChevronRight,
-  Menu,
-  ExternalLink
+  BookOpen,
+  Braces,
+  Palette,
+  Inbox
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { GeneratedImage, GenerationMode, ImageEdits, SourceImage, StylePreset } from './types';
+import { DEFAULT_SETTINGS, MAX_IMAGES_PER_PROMPT } from './constants';
+import { ASPECT_RATIOS, getResolutionFromAspectRatio } from './lib/resolution';
+import { UNKNOWN_SEED, isValidSeed, randomSeed } from './lib/seed';
+import { PROVIDERS, DEFAULT_PROVIDER_ID, isProviderId, supportsMode, type ProviderId } from './lib/providers';
+import { offsetSeed, type GenerationInput } from './lib/generationClient';
+import { DEFAULT_RETRY_POLICY } from './lib/retry';
+import { describeQueueStatus, estimateGenerationMs } from './lib/progress';
+import { initialSettingsState, settingsReducer } from './lib/settingsReducer';
+import { useNow } from './hooks/useNow';
+import { useLocation } from './hooks/useLocation';
+import { usePageNavigation } from './hooks/usePageNavigation';
+import { useStudioLink } from './hooks/useStudioLink';
+import { useTheme } from './hooks/useTheme';
+import { useGallery } from './hooks/useGallery';
+import { useStudioQueue } from './hooks/useStudioQueue';
+import { useSweep, type SweepAxes } from './hooks/useSweep';
+import { useBackend } from './hooks/useBackend';
+import { usePromptLibrary } from './hooks/usePromptLibrary';
+import { expandVariables, extractVariables, fillTemplate, parseVariableValues } from './lib/templates';
+import { navigate } from './lib/router';
+import { parseRoute, studioSetupOf, type StudioSetup } from './lib/routes';
+import Header from './components/Header';
+import Hero from './components/Hero';
+import Features from './components/Features';
+import Footer from './components/Footer';
+import Link from './components/Link';
+import CopyLinkButton from './components/CopyLinkButton';
+import ImageDetail from './components/ImageDetail';
+import PromptLibrary from './components/PromptLibrary';
+import PromptEditor from './components/PromptEditor';
+import RadioGroup from './components/RadioGroup';
+import StylePresetManager from './components/StylePresetManager';
+import AdvancedSettings from './components/AdvancedSettings';
+import ResultsPanel from './components/ResultsPanel';
+import Gallery from './components/Gallery';
+import { useStylePresets } from './hooks/useStylePresets';
+import { applyStylePreset, findStylePreset } from './lib/stylePresets';
+import { describeViolations } from './lib/contentFilter';
+import { useContentFilter } from './hooks/useContentFilter';
+import ContentFilterSettings from './components/ContentFilterSettings';
+import { downloadImage } from './lib/download';
+import { isDownloadFormat, type DownloadFormat } from './lib/imageFormat';
+import { readGenerationParameters } from './lib/pngMetadata';
+import { blobToDataUrl, urlToDataUrl } from './lib/dataUrl';
+import SourceImagePanel from './components/SourceImagePanel';
+import ImageEditor from './components/ImageEditor';
+import { DEFAULT_EDITS, saveEditedVersion } from './lib/imageEdits';
+import SweepSettings from './components/SweepSettings';
+import SweepGrid from './components/SweepGrid';
+import CompareView from './components/CompareView';
+import UsageDashboard from './components/UsageDashboard';
+import OutboxPanel from './components/OutboxPanel';
+import AccountPanel from './components/AccountPanel';
+import GalleryViews, { type GalleryView } from './components/GalleryViews';
+import { uploadWorkspaceImage } from './lib/backend';
+import type { StoredImage } from './lib/imageStore';
 import './App.css';
 
-// Types
-type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4' | '3:2' | '2:3';
-type StylePreset = 'photographic' | 'digital-art' | 'anime' | 'cinematic' | 'fantasy' | 'neon-punk' | 'abstract';
-type ImageQuality = 'standard' | 'hd';
-
-interface GeneratedImage {
-  id: string;
-  url: string;
-  prompt: string;
-  timestamp: number;
-  aspectRatio: AspectRatio;
-}
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
 
-interface ImageSettings {
-  aspectRatio: AspectRatio;
-  stylePreset: StylePreset;
-  quality: ImageQuality;
-  steps: number;
-  guidance: number;
-}
+const GENERATION_MODES: { id: GenerationMode; label: string }[] = [
+  { id: 'text-to-image', label: 'Text to Image' },
+  { id: 'image-to-image', label: 'Image to Image' },
+  { id: 'inpaint', label: 'Inpaint' }
+];
 
 function App() {
-  // Theme state
-  const [darkMode, setDarkMode] = useState<boolean>(true);
+  const { darkMode, toggleTheme } = useTheme();
+  const location = useLocation();
+  const route = parseRoute(location.pathname);
   
   // Form state
   const [prompt, setPrompt] = useState<string>('');
   const [negativePrompt, setNegativePrompt] = useState<string>('');
   const [showAdvancedSettings, setShowAdvancedSettings] = useState<boolean>(false);
+
+  // Prompt library state
+  const promptLibrary = usePromptLibrary();
+  const [showPromptLibrary, setShowPromptLibrary] = useState<boolean>(false);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const templateVariables = extractVariables(prompt, negativePrompt);
+  const templateValues: Record<string, string[]> = Object.fromEntries(
+    templateVariables.map(name => [name, parseVariableValues(variableValues[name] ?? '')])
+  );
   
-  // Mobile menu state
-  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState<boolean>(false);
-  
-  // Image generation state
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  
-  // Gallery state
-  const [recentImages, setRecentImages] = useState<GeneratedImage[]>([]);
+
+  // Content filter state; flagged images stay blurred until revealed
+  const contentFilter = useContentFilter();
+  const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+  const promptViolations = contentFilter.filter.check(prompt);
+  const isHidden = (image: GeneratedImage) =>
+    contentFilter.config.blurFlagged && image.flagged === true && !revealedIds.has(image.id);
+  const revealImage = (id: string) => setRevealedIds(prev => new Set(prev).add(id));
+
+  // Batch state
+  const [imagesPerPrompt, setImagesPerPrompt] = useState<number>(1);
+  const [promptPerLine, setPromptPerLine] = useState<boolean>(false);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [comparing, setComparing] = useState<[GeneratedImage, GeneratedImage] | null>(null);
+  const [maxRetries, setMaxRetries] = useState<number>(() => {
+    const savedRetries = parseInt(localStorage.getItem('maxRetries') ?? '');
+    return Number.isNaN(savedRetries) ? DEFAULT_RETRY_POLICY.maxRetries : savedRetries;
+  });
+
+  // Account on the optional backend; signed in, new images are also shared
+  // with the active workspace
+  const account = useBackend(route.page === 'settings');
+  const [galleryView, setGalleryView] = useState<GalleryView>('local');
+  const sharedWorkspace = account.status === 'signed-in' && account.token && account.user && account.workspace
+    ? { token: account.token, user: account.user, workspace: account.workspace }
+    : null;
+  const shareImage = (stored: StoredImage) => {
+    if (!sharedWorkspace) return;
+    const { blob, ...image } = stored;
+    uploadWorkspaceImage(sharedWorkspace.token, sharedWorkspace.workspace.id, image, blob)
+      .catch(err => console.error('Error sharing image with the workspace:', err));
+  };
+
+  // Gallery and generation queue; each finished job is added to the gallery
+  const gallery = useGallery();
+  const galleryIds = new Set(gallery.images.map(img => img.id));
+  const { queue, jobs, isLoading, usage, online, outbox, savesToOutbox, checkBudgets, submit } = useStudioQueue({
+    onGenerated: (stored) => {
+      shareImage(stored);
+      return gallery.addImage(stored);
+    },
+    concurrency,
+    estimateMs: (input) =>
+      estimateGenerationMs(gallery.images, input.providerId, input.model.trim() || PROVIDERS[input.providerId].defaultModel)
+  });
+  const now = useNow(jobs.some(job => job.progress !== undefined));
+
   
   // Settings state
-  const [settings, setSettings] = useState<ImageSettings>({
-    aspectRatio: '1:1',
-    stylePreset: 'photographic',
-    quality: 'standard',
-    steps: 30,
-    guidance: 7.5
+  const [{ settings, seedLocked }, dispatch] = useReducer(settingsReducer, initialSettingsState);
+
+  // Style preset state
+  const stylePresets = useStylePresets();
+  const [showPresetManager, setShowPresetManager] = useState<boolean>(false);
+  const stylePreset = findStylePreset(stylePresets.presets, settings.stylePreset);
+  const sweep = useSweep(stylePresets.presets);
+
+  // Provider state
+  const [providerId, setProviderId] = useState<ProviderId>(() => {
+    const savedProvider = localStorage.getItem('provider');
+    return isProviderId(savedProvider) ? savedProvider : DEFAULT_PROVIDER_ID;
+  });
+  const [model, setModel] = useState<string>(() => localStorage.getItem('model') ?? '');
+  const provider = PROVIDERS[providerId];
+
+  const [downloadFormat, setDownloadFormat] = useState<DownloadFormat>(() => {
+    const savedFormat = localStorage.getItem('downloadFormat');
+    return isDownloadFormat(savedFormat) ? savedFormat : 'original';
   });
 
-  // Load saved images and theme preference from localStorage on mount
+  // Generation mode state; the source image is kept as a data URL so it can
+  // be sent to the proxy as-is
+  const [mode, setMode] = useState<GenerationMode>('text-to-image');
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [sourceImageId, setSourceImageId] = useState<string | undefined>();
+  const resolution = getResolutionFromAspectRatio(settings.aspectRatio, settings.quality);
+
+  // Image open in the editor, with the edits to start from
+  const [editing, setEditing] = useState<{ image: GeneratedImage; edits: ImageEdits } | null>(null);
+
+  // Update localStorage when provider or retry limit changes
   useEffect(() => {
-    const savedImages = localStorage.getItem('recentImages');
-    if (savedImages) {
-      setRecentImages(JSON.parse(savedImages));
-    }
-    
-    const savedTheme = localStorage.getItem('darkMode');
-    if (savedTheme !== null) {
-      setDarkMode(savedTheme === 'true');
-    }
-  }, []);
+    localStorage.setItem('provider', providerId);
+    localStorage.setItem('model', model);
+  }, [providerId, model]);
 
-  // Update localStorage when images or theme changes
   useEffect(() => {
-    localStorage.setItem('recentImages', JSON.stringify(recentImages));
-  }, [recentImages]);
+    localStorage.setItem('maxRetries', String(maxRetries));
+  }, [maxRetries]);
 
   useEffect(() => {
-    localStorage.setItem('darkMode', String(darkMode));
-    document.documentElement.classList.toggle('dark', darkMode);
-  }, [darkMode]);
+    localStorage.setItem('downloadFormat', downloadFormat);
+  }, [downloadFormat]);
 
-  const toggleTheme = () => {
-    setDarkMode(!darkMode);
+  usePageNavigation(location, route.page);
+
+  // Studio links fill in the form
+  const openStudioSetup = (setup: StudioSetup) => {
+    const knownPreset = stylePresets.presets.some(preset => preset.id === setup.stylePreset);
+    setPrompt(setup.prompt);
+    setNegativePrompt(setup.negativePrompt);
+    dispatch({
+      type: 'restore',
+      settings: {
+        aspectRatio: setup.aspectRatio,
+        stylePreset: knownPreset ? setup.stylePreset : DEFAULT_SETTINGS.stylePreset,
+        steps: setup.steps,
+        guidance: setup.guidance,
+        // Links without a seed roll a new one for every generation
+        seed: setup.seed ?? UNKNOWN_SEED
+      }
+    });
   };
+  const studioSearch = useStudioLink(
+    route.page === 'studio',
+    location.search,
+    studioSetupOf(prompt, negativePrompt, settings, seedLocked),
+    openStudioSetup
+  );
 
-  const getResolutionFromAspectRatio = (ratio: AspectRatio): { width: number, height: number } => {
-    // Base size to maintain reasonable file sizes
-    const baseSize = 768;
-    
-    switch (ratio) {
-      case '1:1': return { width: baseSize, height: baseSize };
-      case '16:9': return { width: Math.floor(baseSize * 16/9), height: baseSize };
-      case '9:16': return { width: baseSize, height: Math.floor(baseSize * 16/9) };
-      case '4:3': return { width: Math.floor(baseSize * 4/3), height: baseSize };
-      case '3:4': return { width: baseSize, height: Math.floor(baseSize * 4/3) };
-      case '3:2': return { width: Math.floor(baseSize * 3/2), height: baseSize };
-      case '2:3': return { width: baseSize, height: Math.floor(baseSize * 3/2) };
-      default: return { width: baseSize, height: baseSize };
+  const changeProvider = (id: ProviderId) => {
+    setProviderId(id);
+    setModel('');
+    if (!supportsMode(PROVIDERS[id], mode)) setMode('text-to-image');
+  };
+
+  const uploadSourceImage = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file');
+      return;
     }
+    if (file.size > MAX_SOURCE_BYTES) {
+      setError('Source images must be smaller than 10 MB');
+      return;
+    }
+    try {
+      setSource({ image: await blobToDataUrl(file) });
+      setSourceImageId(undefined);
+      setError(null);
+    } catch (err) {
+      console.error('Error reading source image:', err);
+      setError('Could not read that image');
+    }
+  };
+
+  // Start refining a gallery image instead of generating from scratch
+  const pickSourceImage = async (image: GeneratedImage) => {
+    try {
+      setSource({ image: await urlToDataUrl(image.url) });
+      setSourceImageId(image.id);
+      if (mode === 'text-to-image') {
+        if (supportsMode(provider, 'image-to-image')) {
+          setMode('image-to-image');
+        } else {
+          setError(`${provider.name} does not support image-to-image`);
+        }
+      }
+      navigate('/studio');
+    } catch (err) {
+      console.error('Error reading gallery image:', err);
+      setError('Could not load that image');
+    }
+  };
+
+  const clearSource = () => {
+    setSource(null);
+    setSourceImageId(undefined);
   };
 
-  const generateImage = async () => {
-    if (!prompt.trim()) {
+  const generateImage = () => {
+    const prompts = promptPerLine
+      ? prompt.split('\n').map(line => line.trim()).filter(Boolean)
+      : [prompt.trim()].filter(Boolean);
+
+    if (prompts.length === 0) {
       setError('Please enter a prompt to generate an image');
       return;
     }
 
-    // Check if API token is set
-    const apiToken = import.meta.env.VITE_HUGGINGFACE_API_TOKEN;
-    if (!apiToken || apiToken === 'YOUR_HUGGINGFACE_API_TOKEN_HERE') {
-      setError(
-        'Hugging Face API token is not configured. Please:\n' +
-        '1. Get your API token from https://huggingface.co/settings/tokens\n' +
-        '2. Create a .env file in your project root\n' +
-        '3. Add: VITE_HUGGINGFACE_API_TOKEN=your_token_here\n' +
-        '4. Restart the development server'
-      );
+    // Fill in {{variables}}; several values for a variable expand into several prompts
+    const emptyVariable = templateVariables.find(name => templateValues[name].length === 0);
+    if (emptyVariable) {
+      setError(`Please enter a value for {{${emptyVariable}}}`);
       return;
     }
+    const combinations = expandVariables(templateValues);
 
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      // Build the prompt with style preset
-      const fullPrompt = `${prompt}${settings.stylePreset !== 'photographic' ? `, ${settings.stylePreset} style` : ''}`;
-      
-      const response = await fetch(
-        "https://api-inference.huggingface.co/models/CompVis/stable-diffusion-v1-4",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiToken}`,
-          },
-          body: JSON.stringify({
-            inputs: fullPrompt,
-          }),
-        }
-      );
+    if (mode !== 'text-to-image' && !source) {
+      setError('Please upload or pick a source image');
+      return;
+    }
+    if (mode === 'inpaint' && !source?.mask) {
+      setError('Paint over the areas of the image you want to change');
+      return;
+    }
+    // Only inpainting sends the mask
+    const jobSource = source && mode !== 'text-to-image'
+      ? { image: source.image, ...(mode === 'inpaint' && { mask: source.mask }) }
+      : undefined;
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Invalid API token. Please check your Hugging Face API token and ensure it has the necessary permissions.');
-        } else if (response.status === 503) {
-          throw new Error('Model is currently loading. Please try again in a few moments.');
-        } else if (response.status === 400) {
-          throw new Error('Bad request. Please check your prompt and try again.');
-        }
-        throw new Error(`API request failed with status ${response.status}`);
+    const expandedPrompts = prompts.flatMap(jobPrompt =>
+      combinations.map(values => ({
+        prompt: fillTemplate(jobPrompt, values),
+        negativePrompt: fillTemplate(negativePrompt, values)
+      }))
+    );
+
+    // The filter sees prompts the way the provider will, with the style preset applied
+    const findViolation = (jobs: { prompt: string; negativePrompt: string; stylePreset: StylePreset }[]): string | null => {
+      for (const job of jobs) {
+        const violations = contentFilter.filter.check(applyStylePreset(job.prompt, job.negativePrompt, job.stylePreset).prompt);
+        if (violations.length > 0) return describeViolations(violations);
       }
+      return null;
+    };
+    const violation = findViolation(expandedPrompts.map(expanded => ({ ...expanded, stylePreset })));
+    if (violation) {
+      setError(violation);
+      return;
+    }
 
-      const blob = await response.blob();
-      const imageUrl = URL.createObjectURL(blob);
-      setGeneratedImage(imageUrl);
-      
-      // Add to recent images
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        url: imageUrl,
-        prompt,
-        timestamp: Date.now(),
-        aspectRatio: settings.aspectRatio
-      };
-      
-      setRecentImages(prev => [newImage, ...prev.slice(0, 11)]);
-      
-    } catch (err) {
-      console.error('Error generating image:', err);
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('Failed to generate image. Please try again.');
+    // Use the locked seed, or roll a new one and show it in the form.
+    // Batches with a locked seed count up from it so every image differs.
+    const seed = seedLocked && isValidSeed(settings.seed) ? settings.seed : randomSeed();
+
+    const createInput = (expanded: { prompt: string; negativePrompt: string }, jobSeed: number): GenerationInput => ({
+      prompt: expanded.prompt,
+      negativePrompt: expanded.negativePrompt,
+      settings: { ...settings, seed: jobSeed },
+      stylePreset,
+      providerId,
+      model,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, maxRetries },
+      mode,
+      source: jobSource,
+      sourceImageId: jobSource && sourceImageId
+    });
+
+    let inputs: GenerationInput[];
+    let sweepAxes: SweepAxes | null = null;
+    // A sweep varies one or two parameters of a single prompt, all with the same seed
+    if (sweep.config.enabled) {
+      if (expandedPrompts.length !== 1) {
+        setError('Sweeps work on a single prompt; turn off one prompt per line and variables with several values');
+        return;
       }
-    } finally {
-      setIsLoading(false);
+      try {
+        const planned = sweep.plan(createInput(expandedPrompts[0], seed));
+        inputs = planned.inputs;
+        sweepAxes = planned.axes;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid sweep');
+        return;
+      }
+      // Swept style presets add their own text
+      const sweepViolation = findViolation(inputs);
+      if (sweepViolation) {
+        setError(sweepViolation);
+        return;
+      }
+    } else {
+      inputs = expandedPrompts.flatMap(expanded =>
+        Array.from({ length: imagesPerPrompt }, (_, index) =>
+          createInput(expanded, seedLocked ? offsetSeed(seed, index) : index === 0 ? seed : randomSeed())
+        )
+      );
     }
-  };
 
-  const downloadImage = (url: string) => {
-    if (!url) return;
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `dreamcanvas-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    // Budgets are checked for the whole batch before anything is sent
+    const budgetCheck = checkBudgets(inputs);
+    if (budgetCheck.blocked.length > 0) {
+      setError(budgetCheck.blocked.join('\n'));
+      return;
+    }
+    if (budgetCheck.warnings.length > 0 && !window.confirm(`${budgetCheck.warnings.join('\n')}\n\nGenerate anyway?`)) {
+      return;
+    }
+
+    setError(null);
+    promptLibrary.recordPrompt(prompt.trim(), negativePrompt.trim());
+    dispatch({ type: 'update', changes: { seed } });
+    const queued = submit(inputs);
+    if (queued) sweep.setRun(sweepAxes && { ...sweepAxes, jobIds: queued.map(job => job.id) });
   };
 
   const resetForm = () => {
     setPrompt('');
     setNegativePrompt('');
-    setGeneratedImage(null);
+    setVariableValues({});
+    queue.clearFinished();
     setError(null);
-    setSettings({
-      aspectRatio: '1:1',
-      stylePreset: 'photographic',
-      quality: 'standard',
-      steps: 30,
-      guidance: 7.5
-    });
+    dispatch({ type: 'reset' });
     setShowAdvancedSettings(false);
+    setMode('text-to-image');
+    clearSource();
   };
-  
-  const deleteImage = (id: string) => {
-    setRecentImages(prev => prev.filter(img => img.id !== id));
+
+  // Edited versions reopen on their original so edits never stack up
+  const editImage = (image: GeneratedImage) => {
+    const original = image.originalImageId
+      ? gallery.images.find(img => img.id === image.originalImageId)
+      : undefined;
+    setEditing(original
+      ? { image: original, edits: image.edits ?? DEFAULT_EDITS }
+      : { image, edits: DEFAULT_EDITS });
+  };
+
+  const saveEdits = async (edits: ImageEdits) => {
+    if (!editing) return;
+    await gallery.addImage(await saveEditedVersion(editing.image, edits));
+    setEditing(null);
   };
 
-  const clearAllImages = () => {
-    setRecentImages([]);
+  // Load everything an image was generated with back into the form
+  const remixImage = (image: GeneratedImage) => {
+    setPrompt(image.prompt);
+    setNegativePrompt(image.negativePrompt);
+    dispatch({ type: 'restore', settings: image.settings });
+    if (isProviderId(image.provider)) {
+      setProviderId(image.provider);
+      setModel(image.model);
+    }
+    setShowAdvancedSettings(true);
+    setError(null);
+    navigate('/studio');
+  };
+
+  // Gallery cards and the detail page ask the same question
+  const deleteImage = (image: GeneratedImage): boolean => {
+    if (!window.confirm("Delete this image? This can't be undone.")) return false;
+    gallery.deleteImages([image.id]);
+    return true;
+  };
+
+  const saveImageFile = (image: GeneratedImage) => {
+    downloadImage(image, downloadFormat).catch(err => {
+      console.error('Error downloading image:', err);
+      setError(`Could not download the image${err instanceof Error ? `: ${err.message}` : ''}`);
+    });
+  };
+
+  // Fill in the form from the parameters embedded in a PNG, ours or A1111's
+  const loadImageParameters = async (file: File) => {
+    try {
+      const params = await readGenerationParameters(file);
+      if (!params) {
+        setError('That image has no generation parameters');
+        return;
+      }
+      const { stylePreset: presetId, ...restoredSettings } = params.settings;
+      const knownPreset = presetId !== undefined && stylePresets.presets.some(preset => preset.id === presetId);
+      setPrompt(params.prompt);
+      setNegativePrompt(params.negativePrompt);
+      dispatch({ type: 'restore', settings: { ...restoredSettings, ...(knownPreset && { stylePreset: presetId }) } });
+      // Model names only make sense together with the provider that used them
+      if (params.provider && isProviderId(params.provider)) {
+        setProviderId(params.provider);
+        setModel(params.model ?? '');
+      }
+      setShowAdvancedSettings(true);
+      setError(null);
+    } catch (err) {
+      console.error('Error reading image parameters:', err);
+      setError('Could not read that image');
+    }
   };
 
   return (
     <div className={`min-h-screen transition-colors duration-300 ${darkMode ? 'bg-gradient-dual from-gray-900 via-primary-900 to-secondary-900' : 'bg-gradient-dual from-primary-50 via-primary-100 to-secondary-100'}`}>
-      {/* Header */}
-      <header className="relative z-20">
-        <nav className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Wand2 className={`h-8 w-8 ${darkMode ? 'text-primary-400' : 'text-primary-600'}`} />
-              <h1 className="font-display text-xl md:text-2xl font-bold gradient-text">DreamCanvas AI</h1>
-            </div>
+      <Header darkMode={darkMode} onToggleTheme={toggleTheme} pathname={location.pathname} />
+
+      <main className={route.page === 'home' ? undefined : 'container mx-auto px-4 py-4 max-w-6xl'}>
+        {route.page === 'home' && (
+          <>
+            <Hero darkMode={darkMode} />
+            <Features darkMode={darkMode} />
+          </>
+        )}
+
+        {route.page === 'studio' && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-8">
+              <motion.div 
+                className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+                onDragOver={(e) => {
+                  if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  const file = e.dataTransfer.files[0];
+                  if (!file) return;
+                  e.preventDefault();
+                  void loadImageParameters(file);
+                }}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.5 }}
+              >
+                <div className="flex justify-between items-center gap-4 mb-4">
+                  <h2 className="text-xl font-semibold">Create Your Image</h2>
+                  <CopyLinkButton darkMode={darkMode} path={`/studio${studioSearch}`} label="Copy Link" />
+                </div>
             
-            <div className="hidden md:flex items-center gap-8">
-              <a href="#features" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Features</a>
-              <a href="#gallery" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Gallery</a>
-              <a href="#pricing" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Pricing</a>
-              <button onClick={toggleTheme} className={`p-2 rounded-full ${darkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-100 shadow-md'} transition-colors`}>
-                {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
-              </button>
-            </div>
+                <div className="mb-4">
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor="prompt" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      Prompt
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setShowPromptLibrary(!showPromptLibrary)}
+                      className={`flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+                    >
+                      <BookOpen className="h-4 w-4" />
+                      {showPromptLibrary ? 'Hide' : 'Prompt'} Library
+                    </button>
+                  </div>
+                  {showPromptLibrary && (
+                    <PromptLibrary
+                      darkMode={darkMode}
+                      history={promptLibrary.history}
+                      templates={promptLibrary.templates}
+                      currentPrompt={prompt}
+                      onSelect={(selectedPrompt, selectedNegativePrompt) => {
+                        setPrompt(selectedPrompt);
+                        setNegativePrompt(selectedNegativePrompt);
+                      }}
+                      onRemoveHistoryEntry={promptLibrary.removeHistoryEntry}
+                      onClearHistory={promptLibrary.clearHistory}
+                      onSaveTemplate={(name) => promptLibrary.saveTemplate(name, prompt.trim(), negativePrompt.trim())}
+                      onDeleteTemplate={promptLibrary.deleteTemplate}
+                    />
+                  )}
+                  <PromptEditor
+                    id="prompt"
+                    darkMode={darkMode}
+                    rows={4}
+                    className="mt-2"
+                    placeholder="Describe the image you want to generate..."
+                    value={prompt}
+                    onChange={setPrompt}
+                    provider={provider}
+                    prefix={stylePreset.promptPrefix}
+                    suffix={stylePreset.promptSuffix}
+                    invalid={promptViolations.length > 0}
+                    describedBy={promptViolations.length > 0 ? 'prompt-violations' : undefined}
+                  />
+                  {promptViolations.length > 0 && (
+                    <p id="prompt-violations" role="alert" className={`text-xs mt-1 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>
+                      {describeViolations(promptViolations)} Edit the prompt or adjust the{' '}
+                      <Link to="/settings" className="underline">content filter</Link>.
+                    </p>
+                  )}
+                  <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Drop a PNG saved from DreamCanvas or Automatic1111 here to load its prompt and settings.
+                  </p>
+                </div>
             
-            <button 
-              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)} 
-              className="md:hidden p-2"
-              aria-label="Toggle menu"
-            >
-              <Menu className="h-6 w-6" />
-            </button>
-          </div>
+                <div className="mb-4">
+                  <label htmlFor="negativePrompt" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+                    Negative Prompt (Optional)
+                  </label>
+                  <PromptEditor
+                    id="negativePrompt"
+                    darkMode={darkMode}
+                    rows={2}
+                    placeholder="Elements you want to exclude..."
+                    value={negativePrompt}
+                    onChange={setNegativePrompt}
+                    provider={provider}
+                    suffix={stylePreset.negativePrompt.trim() && `, ${stylePreset.negativePrompt.trim()}`}
+                  />
+                  <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
+                    {provider.capabilities.negativePrompt
+                      ? "Specify elements you don't want in the generated image"
+                      : `${provider.name} ignores negative prompts`}
+                  </p>
+                </div>
 
-          {/* Mobile Menu */}
-          <AnimatePresence>
-            {isMobileMenuOpen && (
-              <motion.div
-                initial={{ opacity: 0, y: -20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                className={`absolute top-full left-0 right-0 p-4 ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg rounded-b-lg md:hidden`}
-              >
-                <div className="flex flex-col gap-4">
-                  <a href="#features" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Features</a>
-                  <a href="#gallery" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Gallery</a>
-                  <a href="#pricing" className={`font-medium hover:text-primary-400 transition-colors ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Pricing</a>
-                  <button 
-                    onClick={() => {
-                      toggleTheme();
-                      setIsMobileMenuOpen(false);
-                    }}
-                    className={`flex items-center gap-2 font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}
-                  >
-                    {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
-                    {darkMode ? 'Light Mode' : 'Dark Mode'}
-                  </button>
+                {templateVariables.length > 0 && (
+                  <div className={`mb-4 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <p className={`flex items-center gap-2 text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      <Braces className="h-4 w-4" />
+                      Template Variables
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {templateVariables.map((name) => (
+                        <div key={name}>
+                          <label htmlFor={`variable-${name}`} className={`block text-xs font-medium mb-1 ${darkMode ? 'text-purple-300' : 'text-purple-600'}`}>
+                            {`{{${name}}}`}
+                          </label>
+                          <textarea
+                            id={`variable-${name}`}
+                            rows={2}
+                            value={variableValues[name] ?? ''}
+                            onChange={(e) => setVariableValues({...variableValues, [name]: e.target.value})}
+                            placeholder="One value per line"
+                            className={`w-full px-3 py-1.5 rounded-md text-sm ${
+                              darkMode 
+                                ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400' 
+                                : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+                            }`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-2`}>
+                      Expands to {expandVariables(templateValues).length} prompt(s){promptPerLine && ' per line'}
+                    </p>
+                  </div>
+                )}
+            
+                <div className="mb-4">
+                  <label htmlFor="provider" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+                    Model Provider
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <select
+                      id="provider"
+                      value={providerId}
+                      onChange={(e) => changeProvider(e.target.value as ProviderId)}
+                      className={`w-full px-4 py-2 rounded-lg ${
+                        darkMode 
+                          ? 'bg-gray-700 border border-gray-600 text-white' 
+                          : 'bg-gray-50 border border-gray-200 text-gray-800'
+                      }`}
+                    >
+                      {Object.values(PROVIDERS).map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      aria-label="Model"
+                      value={model}
+                      onChange={(e) => setModel(e.target.value)}
+                      placeholder={provider.defaultModel || 'Server default model'}
+                      className={`w-full px-4 py-2 rounded-lg ${
+                        darkMode 
+                          ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400' 
+                          : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
+                      }`}
+                    />
+                  </div>
+                  <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
+                    {provider.description}
+                  </p>
                 </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </nav>
 
-        {/* Hero Section */}
-        <div className="container mx-auto px-4 py-8 md:py-16 lg:py-24">
-          <div className="grid md:grid-cols-2 gap-8 md:gap-12 items-center">
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.6 }}
-              className="text-center md:text-left"
-            >
-              <h2 className="font-display text-3xl md:text-4xl lg:text-6xl font-bold mb-4 md:mb-6 gradient-text">
-                Creativity, Unleashed.
-              </h2>
-              <p className={`text-base md:text-lg lg:text-xl mb-6 md:mb-8 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                Transform your ideas into stunning visuals with our AI-powered image generation platform. Create unique, high-quality images in seconds.
-              </p>
-              <div className="flex flex-col sm:flex-row gap-4 justify-center md:justify-start">
-                <button className="px-6 py-3 rounded-lg bg-primary-600 hover:bg-primary-700 text-white font-medium transition-colors">
-                  Get Started
-                </button>
-                <button className={`px-6 py-3 rounded-lg ${darkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-white hover:bg-gray-100 text-gray-800 shadow-md'} font-medium transition-colors flex items-center justify-center gap-2`}>
-                  Learn More <ChevronRight className="h-4 w-4" />
-                </button>
-              </div>
-            </motion.div>
+                <div className="mb-4">
+                  <p id="mode-label" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                    Mode
+                  </p>
+                  <RadioGroup
+                    darkMode={darkMode}
+                    labelledBy="mode-label"
+                    options={GENERATION_MODES.map(({ id, label }) => ({
+                      value: id,
+                      label,
+                      disabled: !supportsMode(provider, id),
+                      title: supportsMode(provider, id) ? undefined : `Not supported by ${provider.name}`
+                    }))}
+                    value={mode}
+                    onChange={setMode}
+                    className="grid grid-cols-3 gap-2"
+                  />
+                </div>
 
-            <motion.div
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.6, delay: 0.2 }}
-              className="relative order-first md:order-last"
-            >
-              <div className="absolute inset-0 bg-gradient-radial from-primary-500/30 to-transparent blur-3xl -z-10" />
-              <div className="rounded-2xl overflow-hidden shadow-2xl">
-                <img
-                  src="https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?auto=format&fit=crop&w=1000&q=80"
-                  alt="AI Generated Art Example"
-                  className="w-full h-auto"
-                />
-              </div>
-            </motion.div>
-          </div>
-        </div>
-      </header>
-
-      <main className="container mx-auto px-4 py-4 max-w-6xl">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-8">
-          <motion.div 
-            className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ duration: 0.5 }}
-          >
-            <h2 className="text-xl font-semibold mb-4">Create Your Image</h2>
-            
-            <div className="mb-4">
-              <label htmlFor="prompt" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
-                Prompt
-              </label>
-              <textarea
-                id="prompt"
-                rows={4}
-                className={`w-full px-4 py-2 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
-                  darkMode 
-                    ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400' 
-                    : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
-                }`}
-                placeholder="Describe the image you want to generate..."
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-              />
-            </div>
+                {mode !== 'text-to-image' && (
+                  <SourceImagePanel
+                    darkMode={darkMode}
+                    mode={mode}
+                    source={source}
+                    strength={settings.strength}
+                    onUpload={(file) => void uploadSourceImage(file)}
+                    onClear={clearSource}
+                    onMaskChange={(mask) => setSource(prev => prev && { image: prev.image, ...(mask && { mask }) })}
+                    onStrengthChange={(strength) => dispatch({ type: 'update', changes: { strength } })}
+                  />
+                )}
             
-            <div className="mb-4">
-              <label htmlFor="negativePrompt" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
-                Negative Prompt (Optional)
-              </label>
-              <textarea
-                id="negativePrompt"
-                rows={2}
-                className={`w-full px-4 py-2 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
-                  darkMode 
-                    ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400' 
-                    : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
-                }`}
-                placeholder="Elements you want to exclude..."
-                value={negativePrompt}
-                onChange={(e) => setNegativePrompt(e.target.value)}
-              />
-              <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
-                Specify elements you don't want in the generated image
-              </p>
-            </div>
+                <div className="mb-4">
+                  <p id="aspect-ratio-label" className={`block text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Aspect Ratio
+                  </p>
+                  <RadioGroup
+                    darkMode={darkMode}
+                    labelledBy="aspect-ratio-label"
+                    options={ASPECT_RATIOS.map(ratio => ({ value: ratio, label: ratio }))}
+                    value={settings.aspectRatio}
+                    onChange={(aspectRatio) => dispatch({ type: 'update', changes: { aspectRatio } })}
+                    className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4"
+                  />
+              
+                  <div className="flex justify-between items-center mb-2">
+                    <label htmlFor="stylePreset" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      Style Preset
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setShowPresetManager(!showPresetManager)}
+                      className={`flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+                    >
+                      <Palette className="h-4 w-4" />
+                      {showPresetManager ? 'Done' : 'Manage Presets'}
+                    </button>
+                  </div>
+                  <select
+                    id="stylePreset"
+                    value={stylePreset.id}
+                    onChange={(e) => dispatch({ type: 'applyPreset', preset: findStylePreset(stylePresets.presets, e.target.value) })}
+                    className={`w-full px-4 py-2 rounded-lg mb-4 ${
+                      darkMode 
+                        ? 'bg-gray-700 border border-gray-600 text-white' 
+                        : 'bg-gray-50 border border-gray-200 text-gray-800'
+                    }`}
+                  >
+                    {stylePresets.presets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                  {showPresetManager && (
+                    <StylePresetManager
+                      darkMode={darkMode}
+                      presets={stylePresets.presets}
+                      customPresets={stylePresets.customPresets}
+                      onSave={stylePresets.savePreset}
+                      onDelete={stylePresets.deletePreset}
+                      onImport={stylePresets.importPresets}
+                      onSelect={(preset) => dispatch({ type: 'applyPreset', preset })}
+                    />
+                  )}
+                </div>
             
-            <div className="mb-4">
-              <div className="flex justify-between items-center mb-2">
-                <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                  Aspect Ratio
-                </label>
-              </div>
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
-                {(['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as AspectRatio[]).map((ratio) => (
+                <div className="mb-4">
                   <button
-                    key={ratio}
                     type="button"
-                    onClick={() => setSettings({...settings, aspectRatio: ratio})}
-                    className={`py-2 px-3 rounded-md text-sm font-medium transition-colors ${
-                      settings.aspectRatio === ratio
-                        ? darkMode 
-                          ? 'bg-purple-600 text-white' 
-                          : 'bg-purple-500 text-white'
-                        : darkMode
-                          ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
+                    onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
+                    className={`flex items-center gap-2 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
                   >
-                    {ratio}
+                    <Sliders className="h-4 w-4" />
+                    {showAdvancedSettings ? 'Hide' : 'Show'} Advanced Settings
+                    <ChevronDown className={`h-4 w-4 transition-transform ${showAdvancedSettings ? 'rotate-180' : ''}`} />
                   </button>
-                ))}
-              </div>
-              
-              <div className="flex justify-between items-center mb-2">
-                <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                  Style Preset
-                </label>
-              </div>
-              <select
-                value={settings.stylePreset}
-                onChange={(e) => setSettings({...settings, stylePreset: e.target.value as StylePreset})}
-                className={`w-full px-4 py-2 rounded-lg mb-4 ${
-                  darkMode 
-                    ? 'bg-gray-700 border border-gray-600 text-white' 
-                    : 'bg-gray-50 border border-gray-200 text-gray-800'
-                }`}
-              >
-                <option value="photographic">Photographic</option>
-                <option value="digital-art">Digital Art</option>
-                <option value="anime">Anime</option>
-                <option value="cinematic">Cinematic</option>
-                <option value="fantasy">Fantasy</option>
-                <option value="neon-punk">Neon Punk</option>
-                <option value="abstract">Abstract</option>
-              </select>
-            </div>
-            
-            <div className="mb-6">
-              <button
-                type="button"
-                onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
-                className={`flex items-center gap-2 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
-              >
-                <Sliders className="h-4 w-4" />
-                {showAdvancedSettings ? 'Hide' : 'Show'} Advanced Settings
-                <ChevronDown className={`h-4 w-4 transition-transform ${showAdvancedSettings ? 'rotate-180' : ''}`} />
-              </button>
               
-              <AnimatePresence>
-                {showAdvancedSettings && (
-                  <motion.div
-                    initial={{ height: 0, opacity: 0 }}
-                    animate={{ height: 'auto', opacity: 1 }}
-                    exit={{ height: 0, opacity: 0 }}
-                    transition={{ duration: 0.3 }}
-                    className="overflow-hidden"
-                  >
-                    <div className={`mt-4 p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-                      <div className="mb-4">
-                        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
-                          Quality: {settings.quality === 'standard' ? 'Standard' : 'HD'}
-                        </label>
-                        <div className="flex gap-3">
-                          <button
-                            type="button"
-                            onClick={() => setSettings({...settings, quality: 'standard'})}
-                            className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-colors ${
-                              settings.quality === 'standard'
-                                ? darkMode 
-                                  ? 'bg-purple-600 text-white' 
-                                  : 'bg-purple-500 text-white'
-                                : darkMode
-                                  ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                            }`}
-                          >
-                            Standard
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => setSettings({...settings, quality: 'hd'})}
-                            className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-colors ${
-                              settings.quality === 'hd'
-                                ? darkMode 
-                                  ? 'bg-purple-600 text-white' 
-                                  : 'bg-purple-500 text-white'
-                                : darkMode
-                                  ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                            }`}
-                          >
-                            HD
-                          </button>
-                        </div>
-                      </div>
-                      
-                      <div className="mb-4">
-                        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
-                          Steps: {settings.steps}
-                        </label>
-                        <input
-                          type="range"
-                          min="20"
-                          max="50"
-                          step="5"
-                          value={settings.steps}
-                          onChange={(e) => setSettings({...settings, steps: parseInt(e.target.value)})}
-                          className="w-full"
-                        />
-                        <div className="flex justify-between text-xs mt-1">
-                          <span>Faster</span>
-                          <span>Better Quality</span>
-                        </div>
-                      </div>
-                      
-                      <div>
-                        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
-                          Guidance Scale: {settings.guidance}
-                        </label>
-                        <input
-                          type="range"
-                          min="1"
-                          max="20"
-                          step="0.5"
-                          value={settings.guidance}
-                          onChange={(e) => setSettings({...settings, guidance: parseFloat(e.target.value)})}
-                          className="w-full"
+                  <AnimatePresence>
+                    {showAdvancedSettings && (
+                      <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="overflow-hidden"
+                      >
+                        <AdvancedSettings
+                          darkMode={darkMode}
+                          settings={settings}
+                          seedLocked={seedLocked}
+                          dispatch={dispatch}
+                          capabilities={provider.capabilities}
+                          resolution={resolution}
+                          concurrency={concurrency}
+                          onConcurrencyChange={setConcurrency}
+                          maxRetries={maxRetries}
+                          onMaxRetriesChange={setMaxRetries}
                         />
-                        <div className="flex justify-between text-xs mt-1">
-                          <span>More Creative</span>
-                          <span>More Precise</span>
-                        </div>
-                      </div>
-                    </div>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </div>
-            
-            <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={generateImage}
-                disabled={isLoading}
-                className={`flex-1 font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-70 disabled:cursor-not-allowed ${
-                  darkMode
-                    ? 'bg-purple-600 hover:bg-purple-700 text-white'
-                    : 'bg-purple-500 hover:bg-purple-600 text-white'
-                }`}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Wand2 className="h-5 w-5" />
-                    Generate Image
-                  </>
-                )}
-              </button>
-              
-              <button
-                onClick={resetForm}
-                className={`${
-                  darkMode
-                    ? 'bg-gray-700 hover:bg-gray-600 text-white'
-                    : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
-                } font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors`}
-              >
-                <RefreshCw className="h-5 w-5" />
-              </button>
-            </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 mb-4">
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="imagesPerPrompt" className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      Images per prompt
+                    </label>
+                    <select
+                      id="imagesPerPrompt"
+                      value={imagesPerPrompt}
+                      onChange={(e) => setImagesPerPrompt(parseInt(e.target.value))}
+                      className={`px-3 py-1 rounded-lg ${
+                        darkMode 
+                          ? 'bg-gray-700 border border-gray-600 text-white' 
+                          : 'bg-gray-50 border border-gray-200 text-gray-800'
+                      }`}
+                    >
+                      {Array.from({ length: MAX_IMAGES_PER_PROMPT }, (_, i) => i + 1).map((count) => (
+                        <option key={count} value={count}>{count}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={promptPerLine}
+                      onChange={(e) => setPromptPerLine(e.target.checked)}
+                      className="rounded accent-purple-500"
+                    />
+                    One prompt per line
+                  </label>
+                </div>
             
-            {error && (
-              <motion.div 
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`mt-4 p-3 rounded-lg text-sm whitespace-pre-line ${
-                  darkMode
-                    ? 'bg-red-900/50 border border-red-700 text-red-200'
-                    : 'bg-red-100 border border-red-300 text-red-800'
-                }`}
-              >
-                {error}
-              </motion.div>
-            )}
-          </motion.div>
-          
-          <motion.div 
-            className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg flex flex-col`}
-            initial={{ opacity: 0, x: 20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ duration: 0.5 }}
-          >
-            <h2 className="text-xl font-semibold mb-4">Generated Image</h2>
+                <SweepSettings
+                  darkMode={darkMode}
+                  config={sweep.config}
+                  onChange={sweep.setConfig}
+                  presets={stylePresets.presets}
+                />
             
-            <div className={`flex-1 flex items-center justify-center rounded-lg overflow-hidden ${
-              darkMode ? 'bg-gray-700/50' : 'bg-gray-100'
-            }`}>
-              {isLoading ? (
-                <motion.div 
-                  className="flex flex-col items-center justify-center p-8"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                >
-                  <Loader2 className={`h-12 w-12 ${darkMode ? 'text-purple-400' : 'text-purple-500'} animate-spin mb-4`} />
-                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-center`}>Creating your masterpiece...</p>
-                </motion.div>
-              ) : generatedImage ? (
-                <motion.div 
-                  className="relative w-full h-full flex items-center justify-center p-4"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ duration: 0.5 }}
-                >
-                  <img 
-                    src={generatedImage} 
-                    alt="AI Generated" 
-                    className="max-w-full max-h-[400px] object-contain rounded-lg shadow-lg"
-                  />
+                <div className="flex flex-col sm:flex-row gap-3">
                   <button
-                    onClick={() => downloadImage(generatedImage)}
-                    className={`absolute bottom-8 right-8 p-3 rounded-full transition-colors ${
+                    onClick={generateImage}
+                    className={`flex-1 font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors ${
                       darkMode
-                        ? 'bg-gray-800/80 hover:bg-gray-700'
-                        : 'bg-white/90 hover:bg-gray-100 shadow-md'
+                        ? 'bg-purple-600 hover:bg-purple-700 text-white'
+                        : 'bg-purple-500 hover:bg-purple-600 text-white'
                     }`}
-                    title="Download Image"
                   >
-                    <Download className="h-5 w-5" />
+                    {savesToOutbox(provider) ? (
+                      <>
+                        <Inbox className="h-5 w-5" />
+                        Save to Outbox
+                      </>
+                    ) : isLoading ? (
+                      <>
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                        Add to Queue
+                      </>
+                    ) : (
+                      <>
+                        <Wand2 className="h-5 w-5" />
+                        {sweep.config.enabled ? 'Generate Sweep' : imagesPerPrompt > 1 || promptPerLine ? 'Generate Images' : 'Generate Image'}
+                      </>
+                    )}
+                  </button>
+              
+                  <button
+                    onClick={resetForm}
+                    title="Reset form"
+                    className={`${
+                      darkMode
+                        ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                        : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                    } font-medium py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors`}
+                  >
+                    <RefreshCw className="h-5 w-5" />
                   </button>
-                </motion.div>
-              ) : (
-                <div className="flex flex-col items-center justify-center p-8">
-                  <ImageIcon className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-300'} mb-4`} />
-                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-center`}>Your generated image will appear here</p>
                 </div>
-              )}
+            
+                <OutboxPanel
+                  darkMode={darkMode}
+                  online={online}
+                  entries={outbox.entries}
+                  onRemove={outbox.remove}
+                />
+
+                {error && (
+                  <motion.div 
+                    role="alert"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`mt-4 p-3 rounded-lg text-sm whitespace-pre-line ${
+                      darkMode
+                        ? 'bg-red-900/50 border border-red-700 text-red-200'
+                        : 'bg-red-100 border border-red-300 text-red-800'
+                    }`}
+                  >
+                    {error}
+                  </motion.div>
+                )}
+              </motion.div>
+          
+              <ResultsPanel
+                darkMode={darkMode}
+                jobs={jobs}
+                isLoading={isLoading}
+                galleryIds={galleryIds}
+                now={now}
+                onCancel={queue.cancel}
+                onCancelAll={queue.cancelAll}
+                onClear={queue.clearFinished}
+                onDownload={saveImageFile}
+                onEdit={editImage}
+                isHidden={isHidden}
+                onReveal={revealImage}
+              />
             </div>
-          </motion.div>
-        </div>
         
-        {/* Gallery Section */}
-        <motion.div 
-          className={`mt-8 md:mt-12 ${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: 0.2 }}
-        >
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
-            <h2 className="text-xl font-semibold">Your Gallery</h2>
-            {recentImages.length > 0 && (
-              <button
-                onClick={clearAllImages}
-                className={`text-sm py-1 px-3 rounded ${
-                  darkMode
-                    ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300'
-                    : 'bg-red-100 hover:bg-red-200 text-red-700'
-                } transition-colors`}
-              >
-                Clear All
-              </button>
+            {sweep.run && (
+              <SweepGrid
+                darkMode={darkMode}
+                x={sweep.run.x}
+                y={sweep.run.y}
+                jobIds={sweep.run.jobIds}
+                jobs={jobs}
+                galleryIds={galleryIds}
+                presets={stylePresets.presets}
+                onCompare={(a, b) => setComparing([a, b])}
+                onClose={() => sweep.setRun(null)}
+                isHidden={isHidden}
+                onReveal={revealImage}
+              />
             )}
+          </>
+        )}
+
+        {route.page === 'gallery' && (
+          <GalleryViews
+            darkMode={darkMode}
+            view={galleryView}
+            onViewChange={setGalleryView}
+            shared={sharedWorkspace}
+            onRemix={remixImage}
+          >
+            <Gallery
+              darkMode={darkMode}
+              images={gallery.images}
+              stylePresets={stylePresets.presets}
+              retention={gallery.retention}
+              onRetentionChange={gallery.setRetention}
+              downloadFormat={downloadFormat}
+              onDownloadFormatChange={setDownloadFormat}
+              onRemix={remixImage}
+              onUseAsSource={(image) => void pickSourceImage(image)}
+              onEdit={editImage}
+              onCompare={(a, b) => setComparing([a, b])}
+              onDelete={gallery.deleteImages}
+              onDeleteImage={deleteImage}
+              onClearAll={gallery.clearImages}
+              onDownload={saveImageFile}
+              onFavorite={gallery.setFavorite}
+              onAddTag={gallery.addTag}
+              onRemoveTag={gallery.removeTag}
+              onExport={gallery.exportImages}
+              onImport={gallery.importArchive}
+              isHidden={isHidden}
+              onReveal={revealImage}
+            />
+          </GalleryViews>
+        )}
+
+        {route.page === 'image' && (
+          <ImageDetail
+            darkMode={darkMode}
+            image={gallery.images.find(img => img.id === route.id)}
+            loaded={gallery.loaded}
+            presets={stylePresets.presets}
+            hidden={gallery.images.some(img => img.id === route.id && isHidden(img))}
+            onReveal={() => revealImage(route.id)}
+            onRemix={remixImage}
+            onUseAsSource={(image) => void pickSourceImage(image)}
+            onEdit={editImage}
+            onDownload={saveImageFile}
+            onFavorite={gallery.setFavorite}
+            onDelete={(image) => {
+              if (deleteImage(image)) navigate('/gallery', { replace: true });
+            }}
+          />
+        )}
+
+        {route.page === 'settings' && (
+          <>
+            <motion.div
+              id="content-filter"
+              className={`${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <h2 className="text-xl font-semibold">Content Filter</h2>
+              <ContentFilterSettings
+                darkMode={darkMode}
+                config={contentFilter.config}
+                errors={contentFilter.filter.errors}
+                onChange={contentFilter.setConfig}
+              />
+            </motion.div>
+
+            <AccountPanel
+              darkMode={darkMode}
+              status={account.status}
+              token={account.token}
+              user={account.user}
+              workspaces={account.workspaces}
+              workspace={account.workspace}
+              onSelectWorkspace={account.selectWorkspace}
+              onSignIn={account.signIn}
+              onSignOut={account.signOut}
+              onCreateWorkspace={account.createWorkspace}
+              onRetry={account.retry}
+            />
+
+            <UsageDashboard
+              darkMode={darkMode}
+              records={usage.records}
+              budgets={usage.budgets}
+              onBudgetsChange={usage.setBudgets}
+              onClearHistory={usage.clearHistory}
+            />
+          </>
+        )}
+
+        {route.page === 'not-found' && (
+          <div className={`${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-8 shadow-lg text-center`}>
+            <h2 className="text-xl font-semibold mb-2">Page not found</h2>
+            <p className={`mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>There's nothing at {location.pathname}.</p>
+            <Link to="/studio" className={darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}>
+              Go to the Studio
+            </Link>
           </div>
-          
-          {recentImages.length === 0 ? (
-            <div className={`flex flex-col items-center justify-center py-12 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              <ImagePlus className="h-12 w-12 mb-4 opacity- 50" />
-              <p>Your generated images will appear here</p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-              {recentImages.map((image) => (
-                <motion.div 
-                  key={image.id}
-                  layout
-                  initial={{ opacity: 0, scale: 0.9 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.9 }}
-                  className={`relative group rounded-lg overflow-hidden ${
-                    darkMode ? 'bg-gray-700' : 'bg-gray-100'
-                  } aspect-square`}
-                >
-                  <img 
-                    src={image.url} 
-                    alt={image.prompt} 
-                    className="w-full h-full object-cover"
-                  />
-                  <div className={`absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ${
-                    darkMode ? 'bg-gray-900/70' : 'bg-gray-800/60'
-                  } flex flex-col justify-between p-3`}>
-                    <div className="flex justify-end">
-                      <button
-                        onClick={() => deleteImage(image.id)}
-                        className="p-1.5 rounded-full bg-red-500/80 hover:bg-red-600 text-white"
-                      >
-                        <X className="h-3.5 w-3.5" />
-                      </button>
-                    </div>
-                    <div>
-                      <p className="text-white text-xs line-clamp-2 mb-1">{image.prompt}</p>
-                      <div className="flex justify-between items-center">
-                        <span className="text-gray-300 text-xs flex items-center">
-                          <Clock className="h-3 w-3 mr-1" />
-                          {new Date(image.timestamp).toLocaleDateString()}
-                        </span>
-                        <button
-                          onClick={() => downloadImage(image.url)}
-                          className="p-1.5 rounded-full bg-gray-700/80 hover:bg-gray-600 text-white"
-                        >
-                          <Download className="h-3.5 w-3.5" />
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                </motion.div>
-              ))}
-            </div>
-          )}
-        </motion.div>
+        )}
       </main>
+
+      {comparing && (
+        <CompareView
+          darkMode={darkMode}
+          images={comparing}
+          presets={stylePresets.presets}
+          onClose={() => setComparing(null)}
+        />
+      )}
+
+      {editing && (
+        <ImageEditor
+          darkMode={darkMode}
+          image={editing.image}
+          initialEdits={editing.edits}
+          onSave={saveEdits}
+          onClose={() => setEditing(null)}
+        />
+      )}
       
-      <footer className={`mt-8 md:mt-12 py-6 md:py-8 ${darkMode ? 'bg-gray-800/30' : 'bg-white/80'} rounded-t-xl`}>
-        <div className="container mx-auto px-4">
-          <div className="flex flex-col md:flex-row justify-between items-center gap-4">
-            <div className="flex items-center gap-2">
-              <Wand2 className={`h-6 w-6 ${darkMode ? 'text-primary-400' : 'text-primary-600'}`} />
-              <span className="font-display text-lg font-bold gradient-text">DreamCanvas AI</span>
-            </div>
-            <div className="flex flex-wrap justify-center items-center gap-4 md:gap-6">
-              <a href="#privacy" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Privacy Policy</a>
-              <a href="#terms" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Terms of Service</a>
-              <a href="#contact" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Contact</a>
-            </div>
-            <p className={`text-sm text-center md:text-left ${darkMode ? 'text-gray-500' : 'text-gray-600'}`}>
-              © {new Date().getFullYear()} DreamCanvas AI. All rights reserved.
-            </p>
-          </div>
-        </div>
-      </footer>
+      {/* Queue changes are announced on every page, not just the studio */}
+      <p role="status" className="sr-only">{describeQueueStatus(jobs)}</p>
+
+      <Footer darkMode={darkMode} />
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,256 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { LogOut, Plus, RefreshCw, UserPlus, Users } from 'lucide-react';
+import { motion } from 'framer-motion';
+import * as backend from '../lib/backend';
+import { MIN_PASSWORD_LENGTH, type BackendUser, type LoginBody, type SignupBody, type Workspace, type WorkspaceMember } from '../lib/backendTypes';
+import type { BackendStatus } from '../hooks/useBackend';
+
+interface AccountPanelProps {
+  darkMode: boolean;
+  status: BackendStatus;
+  token: string | null;
+  user: BackendUser | null;
+  workspaces: Workspace[];
+  workspace: Workspace | null;
+  onSelectWorkspace: (id: string) => void;
+  onSignIn: (mode: 'login' | 'signup', body: SignupBody | LoginBody) => Promise<void>;
+  onSignOut: () => void;
+  onCreateWorkspace: (name: string) => Promise<void>;
+  onRetry: () => void;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+
+// Sign-in and workspace management for the optional backend
+function AccountPanel({
+  darkMode,
+  status,
+  token,
+  user,
+  workspaces,
+  workspace,
+  onSelectWorkspace,
+  onSignIn,
+  onSignOut,
+  onCreateWorkspace,
+  onRetry
+}: AccountPanelProps) {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [newWorkspace, setNewWorkspace] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const fieldClass = `w-full px-3 py-2 rounded-lg text-sm ${
+    darkMode ? 'bg-gray-700 border border-gray-600 text-white' : 'bg-white border border-gray-200 text-gray-800'
+  }`;
+  const buttonClass = `flex items-center justify-center gap-2 text-sm font-medium py-2 px-3 rounded-lg transition-colors disabled:opacity-50 ${
+    darkMode ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-purple-500 hover:bg-purple-600 text-white'
+  }`;
+  const linkClass = `flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`;
+
+  useEffect(() => {
+    if (!token || !workspace) return;
+    let cancelled = false;
+    backend.listMembers(token, workspace.id)
+      .then(listed => {
+        if (!cancelled) setMembers(listed);
+      })
+      .catch(err => console.error('Error loading workspace members:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token, workspace]);
+
+  // Runs a server action with the shared busy and error state
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitAccount = (e: FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      await onSignIn(mode, mode === 'signup' ? { email, name, password } : { email, password });
+      setPassword('');
+    });
+  };
+
+  const submitWorkspace = (e: FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      await onCreateWorkspace(newWorkspace);
+      setNewWorkspace('');
+    });
+  };
+
+  const submitMember = (e: FormEvent) => {
+    e.preventDefault();
+    if (!token || !workspace) return;
+    void run(async () => {
+      setMembers(await backend.addMember(token, workspace.id, memberEmail));
+      setMemberEmail('');
+    });
+  };
+
+  return (
+    <motion.div
+      id="account"
+      className={`mt-8 md:mt-12 ${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-2">
+        <Users className="h-5 w-5" />
+        Account and Workspaces
+      </h2>
+
+      {status === 'unknown' && <p className={`text-sm ${mutedText}`}>Looking for a workspace server…</p>}
+
+      {status === 'unavailable' && (
+        <div className={`text-sm ${mutedText}`}>
+          <p className="mb-2">
+            No workspace server is running, so the gallery stays in this browser. Start the app with
+            {' '}<code>DATABASE_PATH</code> set to share images with your team.
+          </p>
+          <button type="button" onClick={onRetry} className={linkClass}>
+            <RefreshCw className="h-4 w-4" />
+            Check again
+          </button>
+        </div>
+      )}
+
+      {status === 'signed-out' && (
+        <form onSubmit={submitAccount} className="max-w-sm space-y-3">
+          <p className={`text-sm ${mutedText}`}>
+            Sign in to share generations with your workspace. Images stay in this browser either way.
+          </p>
+          <label className="block text-sm">
+            Email
+            <input type="email" required autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className={`${fieldClass} mt-1`} />
+          </label>
+          {mode === 'signup' && (
+            <label className="block text-sm">
+              Name
+              <input required autoComplete="name" value={name} onChange={(e) => setName(e.target.value)} className={`${fieldClass} mt-1`} />
+            </label>
+          )}
+          <label className="block text-sm">
+            Password
+            <input
+              type="password"
+              required
+              minLength={mode === 'signup' ? MIN_PASSWORD_LENGTH : undefined}
+              autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`${fieldClass} mt-1`}
+            />
+          </label>
+          <div className="flex items-center gap-4">
+            <button type="submit" disabled={busy} className={buttonClass}>
+              {mode === 'signup' ? 'Create Account' : 'Sign In'}
+            </button>
+            <button type="button" onClick={() => setMode(mode === 'signup' ? 'login' : 'signup')} className={linkClass}>
+              {mode === 'signup' ? 'I have an account' : 'Create an account'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status === 'signed-in' && user && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm">
+              Signed in as <span className="font-medium">{user.name}</span> <span className={mutedText}>({user.email})</span>
+            </p>
+            <button type="button" onClick={onSignOut} className={linkClass}>
+              <LogOut className="h-4 w-4" />
+              Sign Out
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium mb-1" htmlFor="workspace-select">Active workspace</label>
+              <select
+                id="workspace-select"
+                value={workspace?.id ?? ''}
+                onChange={(e) => onSelectWorkspace(e.target.value)}
+                className={fieldClass}
+              >
+                {workspaces.map(w => (
+                  <option key={w.id} value={w.id}>{w.name}{w.role === 'owner' ? ' (owner)' : ''}</option>
+                ))}
+              </select>
+              <p className={`text-xs mt-1 ${mutedText}`}>New images are also shared here.</p>
+
+              <form onSubmit={submitWorkspace} className="flex gap-2 mt-3">
+                <input
+                  required
+                  value={newWorkspace}
+                  onChange={(e) => setNewWorkspace(e.target.value)}
+                  placeholder="New workspace name"
+                  aria-label="New workspace name"
+                  className={fieldClass}
+                />
+                <button type="submit" disabled={busy} className={buttonClass}>
+                  <Plus className="h-4 w-4" />
+                  Create
+                </button>
+              </form>
+            </div>
+
+            {workspace && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Members</h3>
+                <ul className="text-sm space-y-1 mb-3">
+                  {members.map(member => (
+                    <li key={member.user.id}>
+                      {member.user.name} <span className={mutedText}>{member.user.email}{member.role === 'owner' ? ' · owner' : ''}</span>
+                    </li>
+                  ))}
+                </ul>
+                {workspace.role === 'owner' && (
+                  <form onSubmit={submitMember} className="flex gap-2">
+                    <input
+                      type="email"
+                      required
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="teammate@example.com"
+                      aria-label="Member email"
+                      className={fieldClass}
+                    />
+                    <button type="submit" disabled={busy} className={buttonClass}>
+                      <UserPlus className="h-4 w-4" />
+                      Add
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className={`text-sm mt-3 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>
+      )}
+    </motion.div>
+  );
+}
+
+export default AccountPanel;
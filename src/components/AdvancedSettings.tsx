@@ -0,0 +1,189 @@
+import { Dices, Lock, Unlock } from 'lucide-react';
+import type { ImageQuality, ImageSettings } from '../types';
+import type { ProviderCapabilities } from '../lib/providers';
+import type { SettingsAction } from '../lib/settingsReducer';
+import { MAX_CONCURRENCY, MAX_RETRIES } from '../constants';
+import { MAX_SEED, randomSeed } from '../lib/seed';
+import RadioGroup, { type RadioOption } from './RadioGroup';
+
+interface AdvancedSettingsProps {
+  darkMode: boolean;
+  settings: ImageSettings;
+  seedLocked: boolean;
+  dispatch: (action: SettingsAction) => void;
+  capabilities: ProviderCapabilities;
+  resolution: { width: number; height: number };
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  maxRetries: number;
+  onMaxRetriesChange: (maxRetries: number) => void;
+}
+
+const QUALITY_OPTIONS: RadioOption<ImageQuality>[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'hd', label: 'HD' }
+];
+
+function AdvancedSettings({
+  darkMode,
+  settings,
+  seedLocked,
+  dispatch,
+  capabilities,
+  resolution,
+  concurrency,
+  onConcurrencyChange,
+  maxRetries,
+  onMaxRetriesChange
+}: AdvancedSettingsProps) {
+  return (
+    <div className={`mt-4 p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      <div className="mb-4">
+        <p id="quality-label" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Quality: {settings.quality === 'standard' ? 'Standard' : 'HD'} ({resolution.width}×{resolution.height})
+        </p>
+        <RadioGroup
+          darkMode={darkMode}
+          labelledBy="quality-label"
+          options={QUALITY_OPTIONS}
+          value={settings.quality}
+          onChange={(quality) => dispatch({ type: 'update', changes: { quality } })}
+          className="flex gap-3 *:flex-1"
+          onPanel
+        />
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="steps" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Steps: {settings.steps}{!capabilities.steps && ' (not supported by this provider)'}
+        </label>
+        <input
+          id="steps"
+          type="range"
+          min="20"
+          max="50"
+          step="5"
+          value={settings.steps}
+          onChange={(e) => dispatch({ type: 'update', changes: { steps: parseInt(e.target.value) } })}
+          disabled={!capabilities.steps}
+          className="w-full disabled:opacity-50"
+        />
+        <div className="flex justify-between text-xs mt-1">
+          <span>Faster</span>
+          <span>Better Quality</span>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="guidance" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Guidance Scale: {settings.guidance}{!capabilities.guidance && ' (not supported by this provider)'}
+        </label>
+        <input
+          id="guidance"
+          type="range"
+          min="1"
+          max="20"
+          step="0.5"
+          value={settings.guidance}
+          onChange={(e) => dispatch({ type: 'update', changes: { guidance: parseFloat(e.target.value) } })}
+          disabled={!capabilities.guidance}
+          className="w-full disabled:opacity-50"
+        />
+        <div className="flex justify-between text-xs mt-1">
+          <span>More Creative</span>
+          <span>More Precise</span>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label htmlFor="seed" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Seed{!capabilities.seed && ' (not supported by this provider)'}
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="seed"
+            type="number"
+            min="0"
+            max={MAX_SEED}
+            value={settings.seed}
+            onChange={(e) => dispatch({ type: 'setSeed', seed: parseInt(e.target.value) || 0 })}
+            disabled={!capabilities.seed}
+            className={`flex-1 min-w-0 px-3 py-2 rounded-lg disabled:opacity-50 ${
+              darkMode 
+                ? 'bg-gray-600 border border-gray-500 text-white' 
+                : 'bg-white border border-gray-200 text-gray-800'
+            }`}
+          />
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'update', changes: { seed: randomSeed() } })}
+            className={`p-2 rounded-lg transition-colors ${darkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+            title="Random seed"
+          >
+            <Dices className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'toggleSeedLock' })}
+            className={`p-2 rounded-lg transition-colors ${
+              seedLocked
+                ? darkMode 
+                  ? 'bg-purple-600 text-white' 
+                  : 'bg-purple-500 text-white'
+                : darkMode
+                  ? 'bg-gray-600 hover:bg-gray-500'
+                  : 'bg-gray-200 hover:bg-gray-300'
+            }`}
+            title={seedLocked ? 'Unlock seed' : 'Lock seed'}
+          >
+            {seedLocked ? <Lock className="h-5 w-5" /> : <Unlock className="h-5 w-5" />}
+          </button>
+        </div>
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
+          {seedLocked ? 'The same seed is reused for every generation' : 'A new random seed is used for every generation'}
+        </p>
+      </div>
+
+      <div className="mt-4">
+        <label htmlFor="concurrency" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Parallel Requests: {concurrency}
+        </label>
+        <input
+          id="concurrency"
+          type="range"
+          min="1"
+          max={MAX_CONCURRENCY}
+          step="1"
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs mt-1">
+          <span>Gentler on rate limits</span>
+          <span>Faster batches</span>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label htmlFor="maxRetries" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Automatic Retries: {maxRetries === 0 ? 'Off' : maxRetries}
+        </label>
+        <input
+          id="maxRetries"
+          type="range"
+          min="0"
+          max={MAX_RETRIES}
+          step="1"
+          value={maxRetries}
+          onChange={(e) => onMaxRetriesChange(parseInt(e.target.value))}
+          className="w-full"
+        />
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1`}>
+          Retries with increasing delays while the model is loading or rate limited
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default AdvancedSettings;
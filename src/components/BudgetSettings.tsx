@@ -0,0 +1,138 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { PROVIDERS, type ProviderId } from '../lib/providers';
+import {
+  PERIOD_LABELS,
+  budgetUsed,
+  createBudgetId,
+  formatBudgetAmount,
+  type Budget,
+  type BudgetPeriod,
+  type UsageRecord
+} from '../lib/usage';
+
+interface BudgetSettingsProps {
+  darkMode: boolean;
+  budgets: Budget[];
+  records: UsageRecord[];
+  now: number;
+  onChange: (budgets: Budget[]) => void;
+}
+
+// Empty means no limit
+const parseLimit = (value: string): number | null | undefined => {
+  if (value.trim() === '') return null;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+};
+
+function BudgetSettings({ darkMode, budgets, records, now, onChange }: BudgetSettingsProps) {
+  const mutedText = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const fieldClass = `px-2 py-1 rounded-md text-sm ${
+    darkMode
+      ? 'bg-gray-600 border border-gray-500 text-white'
+      : 'bg-white border border-gray-200 text-gray-800'
+  }`;
+
+  const updateBudget = (id: string, changes: Partial<Budget>) =>
+    onChange(budgets.map(budget => (budget.id === id ? { ...budget, ...changes } : budget)));
+
+  const addBudget = () => onChange([
+    ...budgets,
+    { id: createBudgetId(), provider: 'all', period: 'day', unit: 'images', soft: null, hard: null }
+  ]);
+
+  const renderLimitInput = (budget: Budget, kind: 'soft' | 'hard') => (
+    <input
+      type="number"
+      min={0}
+      step={budget.unit === 'cost' ? 0.01 : 1}
+      value={budget[kind] ?? ''}
+      onChange={(e) => {
+        const limit = parseLimit(e.target.value);
+        if (limit !== undefined) updateBudget(budget.id, { [kind]: limit });
+      }}
+      placeholder="No limit"
+      className={`${fieldClass} w-24`}
+    />
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">Budgets</h3>
+      <p className={`${mutedText} mb-2`}>
+        Going over a warning limit asks before generating; going over a blocking limit stops the request.
+        Image limits count successful images, spending limits use estimated prices.
+      </p>
+      <ul className="space-y-2">
+        {budgets.map(budget => {
+          const used = budgetUsed(budget, records, now);
+          const limit = budget.hard ?? budget.soft;
+          return (
+            <li key={budget.id} className={`p-2 rounded-md ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={budget.provider}
+                  onChange={(e) => updateBudget(budget.id, { provider: e.target.value as ProviderId | 'all' })}
+                  aria-label="Provider"
+                  className={fieldClass}
+                >
+                  <option value="all">All providers</option>
+                  {Object.values(PROVIDERS).map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={budget.period}
+                  onChange={(e) => updateBudget(budget.id, { period: e.target.value as BudgetPeriod })}
+                  aria-label="Period"
+                  className={fieldClass}
+                >
+                  {(Object.keys(PERIOD_LABELS) as BudgetPeriod[]).map(period => (
+                    <option key={period} value={period}>{PERIOD_LABELS[period]}</option>
+                  ))}
+                </select>
+                <select
+                  value={budget.unit}
+                  onChange={(e) => updateBudget(budget.id, { unit: e.target.value as Budget['unit'] })}
+                  aria-label="Count"
+                  className={fieldClass}
+                >
+                  <option value="images">Images</option>
+                  <option value="cost">Spending ($)</option>
+                </select>
+                <label className={`flex items-center gap-1 ${mutedText}`}>
+                  Warn above {renderLimitInput(budget, 'soft')}
+                </label>
+                <label className={`flex items-center gap-1 ${mutedText}`}>
+                  Block above {renderLimitInput(budget, 'hard')}
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onChange(budgets.filter(b => b.id !== budget.id))}
+                  aria-label="Remove budget"
+                  className={`ml-auto p-1 rounded ${darkMode ? 'hover:bg-gray-600' : 'hover:bg-gray-200'}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <p className={`${mutedText} mt-1`}>
+                {formatBudgetAmount(budget.unit, used)} used
+                {limit !== null && ` of ${formatBudgetAmount(budget.unit, limit)}`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={addBudget}
+        className={`mt-2 flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+      >
+        <Plus className="h-4 w-4" />
+        Add budget
+      </button>
+    </div>
+  );
+}
+
+export default BudgetSettings;
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import type { GeneratedImage, StylePreset } from '../types';
+import { diffSettings } from '../lib/compare';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface CompareViewProps {
+  darkMode: boolean;
+  images: [GeneratedImage, GeneratedImage];
+  presets: StylePreset[];
+  onClose: () => void;
+}
+
+type CompareLayout = 'swipe' | 'side-by-side';
+
+// Two images either overlaid with a swipe slider or next to each other,
+// followed by a diff of their settings
+function CompareView({ darkMode, images, presets, onClose }: CompareViewProps) {
+  const [layout, setLayout] = useState<CompareLayout>('swipe');
+  const [position, setPosition] = useState<number>(50);
+  const [a, b] = images;
+  const rows = diffSettings(a, b, presets);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, true);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const layoutButtonClass = (active: boolean) => `px-3 py-1 rounded-md text-sm transition-colors ${
+    active
+      ? darkMode
+        ? 'bg-purple-600 text-white'
+        : 'bg-purple-500 text-white'
+      : darkMode
+        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Compare images"
+        className={`w-full max-w-5xl max-h-full overflow-y-auto rounded-xl p-4 md:p-6 shadow-xl ${
+          darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-800'
+        }`}
+      >
+        <div className="flex justify-between items-center gap-4 mb-4">
+          <h2 className="text-xl font-semibold">Compare</h2>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => setLayout('swipe')} aria-pressed={layout === 'swipe'} className={layoutButtonClass(layout === 'swipe')}>
+              Swipe
+            </button>
+            <button type="button" onClick={() => setLayout('side-by-side')} aria-pressed={layout === 'side-by-side'} className={layoutButtonClass(layout === 'side-by-side')}>
+              Side by side
+            </button>
+            <button type="button" onClick={onClose} className={`ml-2 ${mutedText}`} title="Close">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {layout === 'swipe' ? (
+          <div>
+            <div className="relative mx-auto max-w-2xl select-none">
+              <img src={b.url} alt={`B: ${b.prompt}`} className="w-full h-auto rounded-md" draggable={false} />
+              {/* A is drawn on top and clipped to the left of the slider */}
+              <img
+                src={a.url}
+                alt={`A: ${a.prompt}`}
+                className="absolute inset-0 w-full h-full object-cover rounded-md"
+                style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+                draggable={false}
+              />
+              <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+              <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">A</span>
+              <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">B</span>
+            </div>
+            <input
+              type="range"
+              aria-label="Swipe position"
+              min="0"
+              max="100"
+              value={position}
+              onChange={(e) => setPosition(parseInt(e.target.value))}
+              className="block w-full max-w-2xl mx-auto mt-2"
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {[a, b].map((image, index) => (
+              <figure key={image.id}>
+                <img src={image.url} alt={`${index === 0 ? 'A' : 'B'}: ${image.prompt}`} className="w-full h-auto rounded-md" />
+                <figcaption className={`text-xs mt-1 text-center ${mutedText}`}>{index === 0 ? 'A' : 'B'}</figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+
+        <table className="w-full mt-6 text-sm">
+          <thead>
+            <tr className={mutedText}>
+              <th className="text-left font-medium py-1 pr-4">Setting</th>
+              <th className="text-left font-medium py-1 pr-4">A</th>
+              <th className="text-left font-medium py-1">B</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ label, a: valueA, b: valueB, changed }) => (
+              <tr
+                key={label}
+                className={changed ? (darkMode ? 'bg-purple-900/40' : 'bg-purple-50') : ''}
+              >
+                <th scope="row" className="text-left font-medium py-1 pr-4 align-top whitespace-nowrap">{label}</th>
+                <td className="py-1 pr-4 align-top break-words">{valueA}</td>
+                <td className="py-1 align-top break-words">{valueB}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className={`text-xs mt-2 ${mutedText}`}>Highlighted rows differ.</p>
+      </div>
+    </div>
+  );
+}
+
+export default CompareView;
@@ -0,0 +1,106 @@
+import { FILTER_CATEGORIES, type ContentFilterConfig, type FilterCategory } from '../lib/contentFilter';
+import { hasImageClassifier } from '../lib/imageSafety';
+
+interface ContentFilterSettingsProps {
+  darkMode: boolean;
+  config: ContentFilterConfig;
+  // Rule lines that could not be parsed
+  errors: string[];
+  onChange: (config: ContentFilterConfig) => void;
+}
+
+function ContentFilterSettings({ darkMode, config, errors, onChange }: ContentFilterSettingsProps) {
+  const labelClass = `flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const mutedText = `text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const textareaClass = `w-full px-3 py-1.5 rounded-md text-sm font-mono ${
+    darkMode
+      ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400'
+      : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+  }`;
+
+  const toggleCategory = (id: FilterCategory, checked: boolean) => onChange({
+    ...config,
+    categories: checked ? [...config.categories, id] : config.categories.filter(category => category !== id)
+  });
+
+  return (
+    <div className={`mt-4 p-4 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      <label className={`${labelClass} font-medium mb-3`}>
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          className="rounded accent-purple-500"
+        />
+        Check prompts before generating
+      </label>
+
+      <fieldset disabled={!config.enabled} className="disabled:opacity-50">
+        <legend className={`text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Blocked categories</legend>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3">
+          {FILTER_CATEGORIES.map(({ id, label }) => (
+            <label key={id} className={labelClass}>
+              <input
+                type="checkbox"
+                checked={config.categories.includes(id)}
+                onChange={(e) => toggleCategory(id, e.target.checked)}
+                className="rounded accent-purple-500"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="filter-blocklist" className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Blocklist
+            </label>
+            <textarea
+              id="filter-blocklist"
+              rows={3}
+              value={config.blocklist}
+              onChange={(e) => onChange({ ...config, blocklist: e.target.value })}
+              placeholder={'competitor logo\n/\\bconfidential\\b/i'}
+              className={textareaClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-allowlist" className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Allowlist
+            </label>
+            <textarea
+              id="filter-allowlist"
+              rows={3}
+              value={config.allowlist}
+              onChange={(e) => onChange({ ...config, allowlist: e.target.value })}
+              placeholder="naked mole rat"
+              className={textareaClass}
+            />
+          </div>
+        </div>
+        <p className={`${mutedText} mt-1`}>
+          One word or phrase per line, or a /regular expression/. Allowed text is never blocked.
+        </p>
+        {errors.map((error) => (
+          <p key={error} className="text-xs text-red-500 mt-1">{error}</p>
+        ))}
+      </fieldset>
+
+      <label className={`${labelClass} mt-3`}>
+        <input
+          type="checkbox"
+          checked={config.blurFlagged}
+          onChange={(e) => onChange({ ...config, blurFlagged: e.target.checked })}
+          className="rounded accent-purple-500"
+        />
+        Blur images flagged by the image classifier
+      </label>
+      {!hasImageClassifier() && (
+        <p className={`${mutedText} mt-1`}>No image classifier is installed, so images are not checked.</p>
+      )}
+    </div>
+  );
+}
+
+export default ContentFilterSettings;
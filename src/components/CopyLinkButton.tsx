@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { Check, Link2 } from 'lucide-react';
+
+interface CopyLinkButtonProps {
+  darkMode: boolean;
+  // Path and query of the link; the origin is added when copying
+  path: string;
+  label: string;
+}
+
+const COPIED_MS = 2000;
+
+// Copies a link to the clipboard and confirms it for a moment
+function CopyLinkButton({ darkMode, path, label }: CopyLinkButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (status === 'idle') return;
+    const timer = setTimeout(() => setStatus('idle'), COPIED_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      setStatus('copied');
+    } catch (err) {
+      console.error('Error copying link:', err);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => void copy()}
+      className={`flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+    >
+      {status === 'copied' ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+      <span aria-live="polite">
+        {status === 'copied' ? 'Link copied' : status === 'failed' ? 'Could not copy' : label}
+      </span>
+    </button>
+  );
+}
+
+export default CopyLinkButton;
@@ -0,0 +1,71 @@
+import { BarChart3, BookOpen, Grid3x3, Layers, SlidersHorizontal, WifiOff } from 'lucide-react';
+import { motion } from 'framer-motion';
+import Link from './Link';
+
+interface FeaturesProps {
+  darkMode: boolean;
+}
+
+const FEATURES = [
+  {
+    icon: Layers,
+    title: 'Your choice of model',
+    description: 'Generate with Hugging Face, OpenAI-compatible APIs or your own Stable Diffusion server.'
+  },
+  {
+    icon: BookOpen,
+    title: 'Prompt library',
+    description: 'Reuse past prompts and templates with {{variables}} that expand into whole batches.'
+  },
+  {
+    icon: Grid3x3,
+    title: 'Parameter sweeps',
+    description: 'Compare steps, guidance or style presets side by side in an XY grid.'
+  },
+  {
+    icon: SlidersHorizontal,
+    title: 'Refine and edit',
+    description: 'Start from an existing image, inpaint parts of it, crop, adjust and upscale.'
+  },
+  {
+    icon: WifiOff,
+    title: 'Works offline',
+    description: 'Install the app, browse your gallery anywhere and queue generations until you are back online.'
+  },
+  {
+    icon: BarChart3,
+    title: 'Usage and budgets',
+    description: 'See what you generated and spent, with limits per provider.'
+  }
+];
+
+// What the studio offers, below the hero on the landing page
+function Features({ darkMode }: FeaturesProps) {
+  return (
+    <section id="features" className="container mx-auto px-4 py-8 md:py-12 max-w-6xl scroll-mt-4">
+      <h2 className="font-display text-2xl md:text-3xl font-bold text-center mb-8">Everything you need to create</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+        {FEATURES.map(({ icon: Icon, title, description }, index) => (
+          <motion.div
+            key={title}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.1 * index }}
+            className={`${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-5 shadow-lg`}
+          >
+            <Icon className={`h-6 w-6 mb-3 ${darkMode ? 'text-primary-400' : 'text-primary-600'}`} />
+            <h3 className="font-semibold mb-1">{title}</h3>
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{description}</p>
+          </motion.div>
+        ))}
+      </div>
+      <div className="flex justify-center mt-8">
+        <Link to="/studio" className="px-6 py-3 rounded-lg bg-primary-600 hover:bg-primary-700 text-white font-medium transition-colors">
+          Open the Studio
+        </Link>
+      </div>
+    </section>
+  );
+}
+
+export default Features;
@@ -0,0 +1,30 @@
+import { Wand2 } from 'lucide-react';
+
+interface FooterProps {
+  darkMode: boolean;
+}
+
+function Footer({ darkMode }: FooterProps) {
+  return (
+    <footer className={`mt-8 md:mt-12 py-6 md:py-8 ${darkMode ? 'bg-gray-800/30' : 'bg-white/80'} rounded-t-xl`}>
+      <div className="container mx-auto px-4">
+        <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Wand2 className={`h-6 w-6 ${darkMode ? 'text-primary-400' : 'text-primary-600'}`} />
+            <span className="font-display text-lg font-bold gradient-text">DreamCanvas AI</span>
+          </div>
+          <div className="flex flex-wrap justify-center items-center gap-4 md:gap-6">
+            <a href="#privacy" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Privacy Policy</a>
+            <a href="#terms" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Terms of Service</a>
+            <a href="#contact" className={`text-sm ${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-600 hover:text-gray-800'} transition-colors`}>Contact</a>
+          </div>
+          <p className={`text-sm text-center md:text-left ${darkMode ? 'text-gray-500' : 'text-gray-600'}`}>
+            © {new Date().getFullYear()} DreamCanvas AI. All rights reserved.
+          </p>
+        </div>
+      </div>
+    </footer>
+  );
+}
+
+export default Footer;
@@ -0,0 +1,538 @@
+import { useEffect, useRef, useState } from 'react';
+import { CheckSquare, Clock, Columns2, Download, ImagePlus, Maximize2, Repeat, Settings, SlidersHorizontal, Square, Star, Tag, Trash2, Upload, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { GeneratedImage, StylePreset } from '../types';
+import { GALLERY_PAGE_SIZE } from '../constants';
+import {
+  DEFAULT_GALLERY_FILTER,
+  collectTags,
+  filterImages,
+  type GalleryFilter,
+  type GalleryRetention
+} from '../lib/gallery';
+import { downloadBlob } from '../lib/download';
+import { DOWNLOAD_FORMATS, type DownloadFormat } from '../lib/imageFormat';
+import { formatDuration } from '../lib/progress';
+import { imagePath } from '../lib/routes';
+import GalleryFilters from './GalleryFilters';
+import HiddenImageOverlay from './HiddenImageOverlay';
+import Link from './Link';
+
+interface GalleryProps {
+  darkMode: boolean;
+  images: GeneratedImage[];
+  stylePresets: StylePreset[];
+  retention: GalleryRetention;
+  onRetentionChange: (retention: GalleryRetention) => void;
+  downloadFormat: DownloadFormat;
+  onDownloadFormatChange: (format: DownloadFormat) => void;
+  onRemix: (image: GeneratedImage) => void;
+  onUseAsSource: (image: GeneratedImage) => void;
+  onEdit: (image: GeneratedImage) => void;
+  onCompare: (a: GeneratedImage, b: GeneratedImage) => void;
+  onDelete: (ids: string[]) => void;
+  // Asks before deleting, the same way the detail page does
+  onDeleteImage: (image: GeneratedImage) => void;
+  onClearAll: () => void;
+  onDownload: (image: GeneratedImage) => void;
+  onFavorite: (ids: string[], favorite: boolean) => void;
+  onAddTag: (ids: string[], tag: string) => void;
+  onRemoveTag: (id: string, tag: string) => void;
+  // Export everything when no ids are given
+  onExport: (ids?: string[]) => Promise<Blob>;
+  onImport: (file: File) => Promise<{ imported: number; skipped: number }>;
+  // Flagged images are blurred until revealed
+  isHidden: (image: GeneratedImage) => boolean;
+  onReveal: (id: string) => void;
+}
+
+const MAX_IMAGES_OPTIONS = [50, 100, 250, 500, 1000];
+const MAX_AGE_OPTIONS = [7, 30, 90, 365];
+
+function Gallery({
+  darkMode,
+  images,
+  stylePresets,
+  retention,
+  onRetentionChange,
+  downloadFormat,
+  onDownloadFormatChange,
+  onRemix,
+  onUseAsSource,
+  onEdit,
+  onCompare,
+  onDelete,
+  onDeleteImage,
+  onClearAll,
+  onDownload,
+  onFavorite,
+  onAddTag,
+  onRemoveTag,
+  onExport,
+  onImport,
+  isHidden,
+  onReveal
+}: GalleryProps) {
+  const [filter, setFilter] = useState<GalleryFilter>(DEFAULT_GALLERY_FILTER);
+  const [visibleCount, setVisibleCount] = useState<number>(GALLERY_PAGE_SIZE);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [selecting, setSelecting] = useState<boolean>(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tagInput, setTagInput] = useState<string>('');
+  const [transferring, setTransferring] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filteredImages = filterImages(images, filter);
+  const visibleImages = filteredImages.slice(0, visibleCount);
+  const hasMore = visibleCount < filteredImages.length;
+  // Ignore selected images that have since been deleted
+  const selectedIds = images.filter(img => selected.has(img.id)).map(img => img.id);
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const selectClass = `px-3 py-1.5 rounded-md text-sm ${
+    darkMode
+      ? 'bg-gray-600 border border-gray-500 text-white'
+      : 'bg-white border border-gray-200 text-gray-800'
+  }`;
+  const toolbarButtonClass = `flex items-center gap-1 text-sm py-1 px-3 rounded transition-colors ${
+    darkMode
+      ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setVisibleCount(count => count + GALLERY_PAGE_SIZE);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, visibleCount]);
+
+  const changeFilter = (next: GalleryFilter) => {
+    setFilter(next);
+    setVisibleCount(GALLERY_PAGE_SIZE);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+    setTagInput('');
+  };
+
+  const deleteSelected = () => {
+    if (selectedIds.length === 0) return;
+    if (!window.confirm(`Delete ${selectedIds.length} image${selectedIds.length === 1 ? '' : 's'}? This can't be undone.`)) return;
+    onDelete(selectedIds);
+    stopSelecting();
+  };
+
+  const addTagToSelected = () => {
+    if (!tagInput.trim() || selectedIds.length === 0) return;
+    onAddTag(selectedIds, tagInput);
+    setTagInput('');
+  };
+
+  const exportImages = async (ids?: string[]) => {
+    setTransferring(true);
+    setMessage(null);
+    try {
+      const archive = await onExport(ids);
+      downloadBlob(archive, `dreamcanvas-gallery-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      console.error('Error exporting gallery:', err);
+      setMessage('Could not export the gallery.');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setTransferring(true);
+    setMessage(null);
+    try {
+      const { imported, skipped } = await onImport(file);
+      setMessage(
+        `Imported ${imported} image${imported === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} already in the gallery).` : '.')
+      );
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not import the archive.');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const clearAll = () => {
+    if (!window.confirm(`Delete all ${images.length} images, including favorites? This can't be undone.`)) return;
+    stopSelecting();
+    onClearAll();
+  };
+
+  return (
+    <motion.div
+      id="gallery"
+      className={`mt-8 md:mt-12 ${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold">
+          Your Gallery
+          {images.length > 0 && <span className={`ml-2 text-sm font-normal ${mutedText}`}>{images.length} images</span>}
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} disabled={transferring} className={`${toolbarButtonClass} disabled:opacity-50`}>
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/zip,.zip"
+            aria-label="Import gallery archive"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button type="button" onClick={() => setShowSettings(!showSettings)} className={toolbarButtonClass}>
+            <Settings className="h-4 w-4" />
+            Settings
+          </button>
+          {images.length > 0 && (
+            <>
+              <button type="button" onClick={() => void exportImages()} disabled={transferring} className={`${toolbarButtonClass} disabled:opacity-50`}>
+                <Download className="h-4 w-4" />
+                Export
+              </button>
+              <button type="button" onClick={() => (selecting ? stopSelecting() : setSelecting(true))} className={toolbarButtonClass}>
+                <CheckSquare className="h-4 w-4" />
+                {selecting ? 'Done' : 'Select'}
+              </button>
+              <button
+                type="button"
+                onClick={clearAll}
+                className={`text-sm py-1 px-3 rounded ${
+                  darkMode
+                    ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300'
+                    : 'bg-red-100 hover:bg-red-200 text-red-700'
+                } transition-colors`}
+              >
+                Clear All
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {message && <p className={`text-sm mb-4 ${mutedText}`}>{message}</p>}
+
+      {showSettings && (
+        <div className={`mb-4 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          <div className="flex flex-wrap gap-4">
+            <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Keep
+              <select
+                value={retention.maxImages ?? ''}
+                onChange={(e) => onRetentionChange({ ...retention, maxImages: e.target.value ? Number(e.target.value) : null })}
+                className={selectClass}
+              >
+                <option value="">all images</option>
+                {MAX_IMAGES_OPTIONS.map((count) => (
+                  <option key={count} value={count}>the newest {count}</option>
+                ))}
+              </select>
+            </label>
+            <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Delete after
+              <select
+                value={retention.maxAgeDays ?? ''}
+                onChange={(e) => onRetentionChange({ ...retention, maxAgeDays: e.target.value ? Number(e.target.value) : null })}
+                className={selectClass}
+              >
+                <option value="">never</option>
+                {MAX_AGE_OPTIONS.map((days) => (
+                  <option key={days} value={days}>{days} days</option>
+                ))}
+              </select>
+            </label>
+            <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Download as
+              <select
+                value={downloadFormat}
+                onChange={(e) => onDownloadFormatChange(e.target.value as DownloadFormat)}
+                className={selectClass}
+              >
+                {DOWNLOAD_FORMATS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className={`text-xs mt-2 ${mutedText}`}>
+            Older images are deleted automatically. Favorites are always kept.
+            PNG downloads include the prompt and settings.
+          </p>
+        </div>
+      )}
+
+      {images.length > 0 && (
+        <GalleryFilters
+          darkMode={darkMode}
+          filter={filter}
+          onChange={changeFilter}
+          stylePresets={stylePresets}
+          usedPresetIds={[...new Set(images.map(img => img.settings.stylePreset))]}
+          tags={collectTags(images)}
+        />
+      )}
+
+      {selecting && (
+        <div className={`flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          <span className="text-sm font-medium mr-2">{selectedIds.length} selected</span>
+          <button
+            type="button"
+            onClick={() => setSelected(new Set(filteredImages.map(img => img.id)))}
+            className={`text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+          >
+            Select all {filteredImages.length}
+          </button>
+          <div className="flex-1" />
+          <button type="button" onClick={() => onFavorite(selectedIds, true)} disabled={selectedIds.length === 0} className={`${toolbarButtonClass} disabled:opacity-50`}>
+            <Star className="h-4 w-4" />
+            Favorite
+          </button>
+          <button type="button" onClick={() => onFavorite(selectedIds, false)} disabled={selectedIds.length === 0} className={`${toolbarButtonClass} disabled:opacity-50`}>
+            Unfavorite
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              const [a, b] = images.filter(img => selected.has(img.id));
+              onCompare(a, b);
+            }}
+            disabled={selectedIds.length !== 2}
+            title="Select two images to compare"
+            className={`${toolbarButtonClass} disabled:opacity-50`}
+          >
+            <Columns2 className="h-4 w-4" />
+            Compare
+          </button>
+          <input
+            type="text"
+            aria-label="Tag to add"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTagToSelected()}
+            placeholder="Tag"
+            className={`w-28 px-3 py-1 rounded text-sm ${
+              darkMode
+                ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400'
+                : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+            }`}
+          />
+          <button type="button" onClick={addTagToSelected} disabled={selectedIds.length === 0 || !tagInput.trim()} className={`${toolbarButtonClass} disabled:opacity-50`}>
+            <Tag className="h-4 w-4" />
+            Add Tag
+          </button>
+          <button
+            type="button"
+            onClick={() => void exportImages(selectedIds)}
+            disabled={selectedIds.length === 0 || transferring}
+            className={`${toolbarButtonClass} disabled:opacity-50`}
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={deleteSelected}
+            disabled={selectedIds.length === 0}
+            className={`flex items-center gap-1 text-sm py-1 px-3 rounded transition-colors disabled:opacity-50 ${
+              darkMode
+                ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300'
+                : 'bg-red-100 hover:bg-red-200 text-red-700'
+            }`}
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      {images.length === 0 ? (
+        <div className={`flex flex-col items-center justify-center py-12 ${mutedText}`}>
+          <ImagePlus className="h-12 w-12 mb-4 opacity-50" />
+          <p>Your generated images will appear here</p>
+        </div>
+      ) : filteredImages.length === 0 ? (
+        <p className={`text-center py-12 ${mutedText}`}>No images match these filters</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+            {visibleImages.map((image) => (
+              <motion.div
+                key={image.id}
+                layout
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                className={`relative group rounded-lg overflow-hidden ${
+                  darkMode ? 'bg-gray-700' : 'bg-gray-100'
+                } aspect-square ${selecting && selected.has(image.id) ? 'ring-4 ring-purple-500' : ''}`}
+              >
+                <img
+                  src={image.url}
+                  alt={image.prompt}
+                  className={`w-full h-full object-cover ${isHidden(image) ? 'blur-xl scale-110' : ''}`}
+                  loading="lazy"
+                />
+                {selecting ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleSelected(image.id)}
+                    aria-pressed={selected.has(image.id)}
+                    aria-label={`Select ${image.prompt}`}
+                    className="absolute inset-0 flex items-start justify-start p-2 text-white"
+                  >
+                    {selected.has(image.id) ? <CheckSquare className="h-5 w-5 drop-shadow" /> : <Square className="h-5 w-5 drop-shadow" />}
+                  </button>
+                ) : isHidden(image) ? (
+                  <HiddenImageOverlay label={image.flagLabel} onReveal={() => onReveal(image.id)} />
+                ) : (
+                  <>
+                    {image.favorite && (
+                      <Star className="absolute top-2 left-2 h-4 w-4 text-yellow-400 fill-yellow-400 drop-shadow group-hover:opacity-0 group-focus-within:opacity-0 [@media(hover:none)]:opacity-0" />
+                    )}
+                    {/* Shown on hover, while tabbing through its buttons, and always on touch screens */}
+                    <div className={`absolute inset-0 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity duration-200 ${
+                      darkMode ? 'bg-gray-900/70' : 'bg-gray-800/60'
+                    } flex flex-col justify-between p-3`}>
+                      <div className="flex justify-between">
+                        <div className="flex gap-1">
+                          <Link
+                            to={imagePath(image.id)}
+                            className="p-1.5 rounded-full bg-purple-500/80 hover:bg-purple-600 text-white"
+                            title="Details"
+                            aria-label="Details"
+                          >
+                            <Maximize2 className="h-3.5 w-3.5" />
+                          </Link>
+                          <button
+                            onClick={() => onRemix(image)}
+                            className="p-1.5 rounded-full bg-purple-500/80 hover:bg-purple-600 text-white"
+                            title="Remix"
+                            aria-label="Remix"
+                          >
+                            <Repeat className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onUseAsSource(image)}
+                            className="p-1.5 rounded-full bg-purple-500/80 hover:bg-purple-600 text-white"
+                            title="Use as source image"
+                            aria-label="Use as source image"
+                          >
+                            <ImagePlus className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onEdit(image)}
+                            className="p-1.5 rounded-full bg-purple-500/80 hover:bg-purple-600 text-white"
+                            title="Edit"
+                            aria-label="Edit"
+                          >
+                            <SlidersHorizontal className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onFavorite([image.id], !image.favorite)}
+                            className="p-1.5 rounded-full bg-gray-700/80 hover:bg-gray-600 text-white"
+                            title={image.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                            aria-label={image.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                            aria-pressed={image.favorite}
+                          >
+                            <Star className={`h-3.5 w-3.5 ${image.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`} />
+                          </button>
+                        </div>
+                        <button
+                          onClick={() => onDeleteImage(image)}
+                          className="p-1.5 rounded-full bg-red-500/80 hover:bg-red-600 text-white"
+                          title="Delete"
+                          aria-label="Delete"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                      <div>
+                        <p className="text-white text-xs line-clamp-2 mb-1">{image.prompt}</p>
+                        {image.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-1">
+                            {image.tags.map((tag) => (
+                              <span key={tag} className="flex items-center gap-0.5 px-1.5 rounded-full bg-purple-500/60 text-white text-[10px]">
+                                #{tag}
+                                <button onClick={() => onRemoveTag(image.id, tag)} title={`Remove tag ${tag}`} aria-label={`Remove tag ${tag}`}>
+                                  <X className="h-2.5 w-2.5" />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-300 text-xs flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {new Date(image.timestamp).toLocaleDateString()}
+                            {image.originalImageId && ' · Edited'}
+                            {image.generationMs !== undefined && !image.originalImageId && (
+                              <span title="Generation time">&nbsp;· {formatDuration(image.generationMs)}</span>
+                            )}
+                          </span>
+                          <button
+                            onClick={() => onDownload(image)}
+                            className="p-1.5 rounded-full bg-gray-700/80 hover:bg-gray-600 text-white"
+                            title="Download"
+                            aria-label="Download"
+                          >
+                            <Download className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </motion.div>
+            ))}
+          </div>
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center mt-6">
+              <button type="button" onClick={() => setVisibleCount(visibleCount + GALLERY_PAGE_SIZE)} className={toolbarButtonClass}>
+                Show more ({filteredImages.length - visibleCount} left)
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+export default Gallery;
@@ -0,0 +1,139 @@
+import { Search, Star, X } from 'lucide-react';
+import type { AspectRatio, StylePreset } from '../types';
+import { DEFAULT_GALLERY_FILTER, isFilterActive, type DateRange, type GalleryFilter } from '../lib/gallery';
+import { ASPECT_RATIOS } from '../lib/resolution';
+
+interface GalleryFiltersProps {
+  darkMode: boolean;
+  filter: GalleryFilter;
+  onChange: (filter: GalleryFilter) => void;
+  stylePresets: StylePreset[];
+  // Ids used by images that no longer have a matching preset are listed as-is
+  usedPresetIds: string[];
+  tags: string[];
+}
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Past 7 days' },
+  { value: 'month', label: 'Past 30 days' }
+];
+
+function GalleryFilters({ darkMode, filter, onChange, stylePresets, usedPresetIds, tags }: GalleryFiltersProps) {
+  const selectClass = `px-3 py-1.5 rounded-md text-sm ${
+    darkMode
+      ? 'bg-gray-700 border border-gray-600 text-white'
+      : 'bg-gray-50 border border-gray-200 text-gray-800'
+  }`;
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const presetIds = [...new Set([...stylePresets.map(preset => preset.id), ...usedPresetIds])];
+  const presetName = (id: string) => stylePresets.find(preset => preset.id === id)?.name ?? id;
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className={`absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 ${mutedText}`} />
+          <input
+            type="search"
+            aria-label="Search gallery"
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder="Search prompts and tags..."
+            className={`w-full pl-9 pr-3 py-1.5 rounded-md text-sm ${
+              darkMode
+                ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400'
+                : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
+            }`}
+          />
+        </div>
+        <select
+          aria-label="Filter by style preset"
+          value={filter.stylePreset ?? ''}
+          onChange={(e) => onChange({ ...filter, stylePreset: e.target.value || null })}
+          className={selectClass}
+        >
+          <option value="">All styles</option>
+          {presetIds.map((id) => (
+            <option key={id} value={id}>{presetName(id)}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by aspect ratio"
+          value={filter.aspectRatio ?? ''}
+          onChange={(e) => onChange({ ...filter, aspectRatio: (e.target.value || null) as AspectRatio | null })}
+          className={selectClass}
+        >
+          <option value="">All ratios</option>
+          {ASPECT_RATIOS.map((ratio) => (
+            <option key={ratio} value={ratio}>{ratio}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by date"
+          value={filter.dateRange}
+          onChange={(e) => onChange({ ...filter, dateRange: e.target.value as DateRange })}
+          className={selectClass}
+        >
+          {DATE_RANGES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, favoritesOnly: !filter.favoritesOnly })}
+          aria-pressed={filter.favoritesOnly}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm transition-colors ${
+            filter.favoritesOnly
+              ? darkMode
+                ? 'bg-purple-600 text-white'
+                : 'bg-purple-500 text-white'
+              : darkMode
+                ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          <Star className="h-4 w-4" />
+          Favorites
+        </button>
+        {isFilterActive(filter) && (
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_GALLERY_FILTER)}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm ${mutedText} ${darkMode ? 'hover:text-white' : 'hover:text-gray-800'}`}
+          >
+            <X className="h-4 w-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onChange({ ...filter, tag: filter.tag === tag ? null : tag })}
+              aria-pressed={filter.tag === tag}
+              className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                filter.tag === tag
+                  ? darkMode
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-purple-500 text-white'
+                  : darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GalleryFilters;
@@ -0,0 +1,70 @@
+import type { ReactNode } from 'react';
+import type { GeneratedImage } from '../types';
+import type { BackendUser, Workspace } from '../lib/backendTypes';
+import WorkspaceGallery from './WorkspaceGallery';
+
+export type GalleryView = 'local' | 'mine' | 'workspace';
+
+const GALLERY_VIEWS: { id: GalleryView; label: string }[] = [
+  { id: 'local', label: 'This Browser' },
+  { id: 'mine', label: 'Mine' },
+  { id: 'workspace', label: 'Workspace' }
+];
+
+interface GalleryViewsProps {
+  darkMode: boolean;
+  view: GalleryView;
+  onViewChange: (view: GalleryView) => void;
+  // The active workspace while signed in
+  shared: { token: string; user: BackendUser; workspace: Workspace } | null;
+  onRemix: (image: GeneratedImage) => void;
+  // The gallery of this browser
+  children: ReactNode;
+}
+
+// Switches between this browser's gallery and the workspace's images. Without
+// a workspace there is only the browser's gallery.
+function GalleryViews({ darkMode, view, onViewChange, shared, onRemix, children }: GalleryViewsProps) {
+  if (!shared) return <>{children}</>;
+
+  return (
+    <>
+      <div role="group" aria-label="Gallery view" className="flex gap-2 mb-4">
+        {GALLERY_VIEWS.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onViewChange(option.id)}
+            aria-pressed={view === option.id}
+            className={`text-sm py-1.5 px-3 rounded-lg transition-colors ${
+              view === option.id
+                ? darkMode ? 'bg-purple-600 text-white' : 'bg-purple-500 text-white'
+                : darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'local' ? children : (
+        <div className={`${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}>
+          <h2 className="text-xl font-semibold mb-4">
+            {view === 'mine' ? 'My Images' : 'Workspace Images'}
+            <span className={`ml-2 text-sm font-normal ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{shared.workspace.name}</span>
+          </h2>
+          <WorkspaceGallery
+            darkMode={darkMode}
+            token={shared.token}
+            user={shared.user}
+            workspace={shared.workspace}
+            mine={view === 'mine'}
+            onRemix={onRemix}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export default GalleryViews;
@@ -0,0 +1,60 @@
+import { Loader2 } from 'lucide-react';
+import { STAGE_LABELS, formatDuration, remainingMs, stageFraction, type GenerationProgress } from '../lib/progress';
+import { describeRetryReason } from '../lib/retry';
+
+interface GenerationStatusProps {
+  darkMode: boolean;
+  // Missing until the job reports its first stage
+  progress?: GenerationProgress;
+  now: number;
+}
+
+// Stage, progress bar and elapsed/remaining time of a running job
+function GenerationStatus({ darkMode, progress, now }: GenerationStatusProps) {
+  const stage = progress?.stage ?? 'validating';
+  const retry = progress?.retry;
+  const fraction = progress ? stageFraction(progress, now) : null;
+  const remaining = progress ? remainingMs(progress, now) : null;
+  const label = retry
+    ? retry.retryAt > now
+      ? `${describeRetryReason(retry.error)}. Retrying in ${Math.ceil((retry.retryAt - now) / 1000)}s`
+      : 'Retrying...'
+    : STAGE_LABELS[stage];
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full max-w-[16rem]">
+      {!progress?.preview && <Loader2 className={`h-8 w-8 ${darkMode ? 'text-purple-400' : 'text-purple-500'} animate-spin`} />}
+      <p className={darkMode ? 'text-gray-200' : 'text-gray-700'}>
+        {label}
+        {retry && (
+          <span className="block text-xs mt-1">
+            Attempt {retry.attempt + 1} of {retry.maxRetries + 1}
+          </span>
+        )}
+      </p>
+      <div
+        role="progressbar"
+        aria-label={STAGE_LABELS[stage]}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={fraction === null ? undefined : Math.round(fraction * 100)}
+        className={`w-full h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}
+      >
+        <div
+          className={`h-full rounded-full transition-[width] duration-500 ${darkMode ? 'bg-purple-400' : 'bg-purple-500'} ${
+            fraction === null ? 'w-1/3 animate-pulse' : ''
+          }`}
+          style={fraction === null ? undefined : { width: `${fraction * 100}%` }}
+        />
+      </div>
+      {progress && (
+        <p className="text-xs tabular-nums">
+          {formatDuration(Math.max(0, now - progress.startedAt))} elapsed
+          {remaining !== null && ` · about ${formatDuration(remaining)} left`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default GenerationStatus;
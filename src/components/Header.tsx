@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react';
+import { Menu, Moon, Sun, Wand2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import Link from './Link';
+
+interface HeaderProps {
+  darkMode: boolean;
+  onToggleTheme: () => void;
+  // Marks the link of the current page
+  pathname: string;
+}
+
+const NAV_LINKS = [
+  { to: '/#features', label: 'Features' },
+  { to: '/studio', label: 'Studio' },
+  { to: '/gallery', label: 'Gallery' },
+  { to: '/settings', label: 'Settings' }
+];
+
+function Header({ darkMode, onToggleTheme, pathname }: HeaderProps) {
+  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState<boolean>(false);
+  // The open menu keeps the focus, together with the button that closes it
+  const mobileMenuRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(mobileMenuRef, isMobileMenuOpen);
+
+  const navLinks = NAV_LINKS.map(({ to, label }) => {
+    // Image pages belong to the gallery
+    const current = to === pathname || (to === '/gallery' && pathname.startsWith('/gallery/'));
+    return (
+      <Link
+        key={to}
+        to={to}
+        onClick={() => setIsMobileMenuOpen(false)}
+        aria-current={current ? 'page' : undefined}
+        className={`font-medium hover:text-primary-400 transition-colors ${
+          current
+            ? darkMode ? 'text-primary-400' : 'text-primary-600'
+            : darkMode ? 'text-gray-300' : 'text-gray-700'
+        }`}
+      >
+        {label}
+      </Link>
+    );
+  });
+
+  return (
+    <header className="relative z-20">
+      <nav className="container mx-auto px-4 py-4">
+        <div className="flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2">
+            <Wand2 className={`h-8 w-8 ${darkMode ? 'text-primary-400' : 'text-primary-600'}`} />
+            <h1 className="font-display text-xl md:text-2xl font-bold gradient-text">DreamCanvas AI</h1>
+          </Link>
+
+          <div className="hidden md:flex items-center gap-8">
+            {navLinks}
+            <button
+              onClick={onToggleTheme}
+              aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+              className={`p-2 rounded-full ${darkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-100 shadow-md'} transition-colors`}
+            >
+              {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+            </button>
+          </div>
+
+          <div
+            ref={mobileMenuRef}
+            className="md:hidden"
+            onKeyDown={(e) => {
+              if (e.key === 'Escape' && isMobileMenuOpen) setIsMobileMenuOpen(false);
+            }}
+          >
+            <button
+              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+              className="p-2"
+              aria-label="Toggle menu"
+              aria-expanded={isMobileMenuOpen}
+              aria-controls="mobile-menu"
+            >
+              {isMobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
+            </button>
+
+            {/* Mobile Menu; positioned against the header */}
+            <AnimatePresence>
+              {isMobileMenuOpen && (
+                <motion.div
+                  id="mobile-menu"
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className={`absolute top-full left-0 right-0 p-4 ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg rounded-b-lg`}
+                >
+                  <div className="flex flex-col gap-4">
+                    {navLinks}
+                    <button 
+                      onClick={() => {
+                        onToggleTheme();
+                        setIsMobileMenuOpen(false);
+                      }}
+                      className={`flex items-center gap-2 font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                    >
+                      {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                      {darkMode ? 'Light Mode' : 'Dark Mode'}
+                    </button>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+      </nav>
+    </header>
+  );
+}
+
+export default Header;
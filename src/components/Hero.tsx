@@ -0,0 +1,55 @@
+import { ChevronRight } from 'lucide-react';
+import { motion } from 'framer-motion';
+import Link from './Link';
+
+interface HeroProps {
+  darkMode: boolean;
+}
+
+function Hero({ darkMode }: HeroProps) {
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-16 lg:py-24">
+      <div className="grid md:grid-cols-2 gap-8 md:gap-12 items-center">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="text-center md:text-left"
+        >
+          <h2 className="font-display text-3xl md:text-4xl lg:text-6xl font-bold mb-4 md:mb-6 gradient-text">
+            Creativity, Unleashed.
+          </h2>
+          <p className={`text-base md:text-lg lg:text-xl mb-6 md:mb-8 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            Transform your ideas into stunning visuals with our AI-powered image generation platform. Create unique, high-quality images in seconds.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center md:justify-start">
+            <Link to="/studio" className="px-6 py-3 rounded-lg bg-primary-600 hover:bg-primary-700 text-white font-medium transition-colors">
+              Get Started
+            </Link>
+            <a href="#features" className={`px-6 py-3 rounded-lg ${darkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-white hover:bg-gray-100 text-gray-800 shadow-md'} font-medium transition-colors flex items-center justify-center gap-2`}>
+              Learn More <ChevronRight className="h-4 w-4" />
+            </a>
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+          className="relative order-first md:order-last"
+        >
+          <div className="absolute inset-0 bg-gradient-radial from-primary-500/30 to-transparent blur-3xl -z-10" />
+          <div className="rounded-2xl overflow-hidden shadow-2xl">
+            <img
+              src="https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?auto=format&fit=crop&w=1000&q=80"
+              alt="AI Generated Art Example"
+              className="w-full h-auto"
+            />
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export default Hero;
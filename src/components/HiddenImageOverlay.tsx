@@ -0,0 +1,26 @@
+import { EyeOff } from 'lucide-react';
+
+interface HiddenImageOverlayProps {
+  // What the classifier found, if it said
+  label?: string;
+  onReveal: () => void;
+}
+
+// Covers a blurred image the classifier flagged until the user reveals it
+function HiddenImageOverlay({ label, onReveal }: HiddenImageOverlayProps) {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-2 bg-gray-900/40 text-white text-center text-xs">
+      <EyeOff className="h-5 w-5" />
+      <p>Flagged by the image filter{label && ` (${label})`}</p>
+      <button
+        type="button"
+        onClick={onReveal}
+        className="px-2.5 py-1 rounded-md bg-gray-800/80 hover:bg-gray-700 font-medium"
+      >
+        Show image
+      </button>
+    </div>
+  );
+}
+
+export default HiddenImageOverlay;
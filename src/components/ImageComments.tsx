@@ -0,0 +1,98 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { MessageSquare, Send } from 'lucide-react';
+import * as backend from '../lib/backend';
+import { MAX_COMMENT_LENGTH, type ImageComment } from '../lib/backendTypes';
+
+interface ImageCommentsProps {
+  darkMode: boolean;
+  token: string;
+  workspaceId: string;
+  imageId: string;
+  onCountChange: (count: number) => void;
+}
+
+// Discussion of a workspace image, oldest comment first
+function ImageComments({ darkMode, token, workspaceId, imageId, onCountChange }: ImageCommentsProps) {
+  const [comments, setComments] = useState<ImageComment[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  useEffect(() => {
+    let cancelled = false;
+    setComments(null);
+    backend.listComments(token, workspaceId, imageId)
+      .then(listed => {
+        if (!cancelled) setComments(listed);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load comments.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, workspaceId, imageId]);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const added = await backend.addComment(token, workspaceId, imageId, draft);
+      const next = [...(comments ?? []), added];
+      setComments(next);
+      onCountChange(next.length);
+      setDraft('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the comment.');
+    }
+  };
+
+  return (
+    <section aria-label="Comments">
+      <h3 className="flex items-center gap-2 text-sm font-medium mb-2">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+      </h3>
+      {comments === null ? (
+        !error && <p className={`text-sm ${mutedText}`}>Loading comments…</p>
+      ) : comments.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>No comments yet.</p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {comments.map(comment => (
+            <li key={comment.id} className={`text-sm p-2 rounded-md ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+              <p className={`text-xs mb-0.5 ${mutedText}`}>
+                <span className="font-medium">{comment.author.name}</span> · {new Date(comment.timestamp).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap break-words">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={(e) => void submit(e)} className="flex gap-2 mt-2">
+        <input
+          required
+          maxLength={MAX_COMMENT_LENGTH}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a comment"
+          aria-label="Add a comment"
+          className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+            darkMode ? 'bg-gray-700 border border-gray-600 text-white' : 'bg-white border border-gray-200 text-gray-800'
+          }`}
+        />
+        <button
+          type="submit"
+          aria-label="Post comment"
+          className={`p-2 rounded-lg text-white ${darkMode ? 'bg-purple-600 hover:bg-purple-700' : 'bg-purple-500 hover:bg-purple-600'}`}
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+      {error && <p role="alert" className={`text-xs mt-1 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>}
+    </section>
+  );
+}
+
+export default ImageComments;
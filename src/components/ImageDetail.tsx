@@ -0,0 +1,150 @@
+import { ArrowLeft, Download, ImagePlus, Loader2, Repeat, SlidersHorizontal, Star, Trash2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { GeneratedImage, StylePreset } from '../types';
+import { describeImage } from '../lib/compare';
+import { encodeStudioSetup, studioSetupOf } from '../lib/routes';
+import HiddenImageOverlay from './HiddenImageOverlay';
+import CopyLinkButton from './CopyLinkButton';
+import Link from './Link';
+
+interface ImageDetailProps {
+  darkMode: boolean;
+  // Undefined while the gallery loads or when there is no such image
+  image: GeneratedImage | undefined;
+  loaded: boolean;
+  presets: StylePreset[];
+  hidden: boolean;
+  onReveal: () => void;
+  onRemix: (image: GeneratedImage) => void;
+  onUseAsSource: (image: GeneratedImage) => void;
+  onEdit: (image: GeneratedImage) => void;
+  onDownload: (image: GeneratedImage) => void;
+  onFavorite: (ids: string[], favorite: boolean) => void;
+  onDelete: (image: GeneratedImage) => void;
+}
+
+// A gallery image on its own page with everything it was generated with
+function ImageDetail({
+  darkMode,
+  image,
+  loaded,
+  presets,
+  hidden,
+  onReveal,
+  onRemix,
+  onUseAsSource,
+  onEdit,
+  onDownload,
+  onFavorite,
+  onDelete
+}: ImageDetailProps) {
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const linkClass = `flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`;
+  const actionClass = `flex items-center justify-center gap-2 text-sm font-medium py-2 px-3 rounded-lg transition-colors ${
+    darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  return (
+    <motion.div
+      className={`${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Link to="/gallery" className={`${linkClass} mb-4 w-fit`}>
+        <ArrowLeft className="h-4 w-4" />
+        Back to Gallery
+      </Link>
+
+      {!image ? (
+        loaded ? (
+          <div className={`text-center py-12 ${mutedText}`}>
+            <h2 className="text-xl font-semibold mb-2">Image not found</h2>
+            <p>It may have been deleted, or it was generated in another browser. Galleries are stored on each device.</p>
+          </div>
+        ) : (
+          <div className={`flex justify-center py-12 ${mutedText}`}>
+            <Loader2 className="h-8 w-8 animate-spin" aria-label="Loading image" />
+          </div>
+        )
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={`relative rounded-lg overflow-hidden self-start ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+            <img
+              src={image.url}
+              alt={image.prompt}
+              className={`w-full h-auto ${hidden ? 'blur-xl scale-110' : ''}`}
+            />
+            {hidden && <HiddenImageOverlay label={image.flagLabel} onReveal={onReveal} />}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-start gap-4 mb-2">
+              <h2 className="text-xl font-semibold">Image Details</h2>
+              <CopyLinkButton
+                darkMode={darkMode}
+                path={`/studio${encodeStudioSetup(studioSetupOf(image.prompt, image.negativePrompt, image.settings, true))}`}
+                label="Copy Studio Link"
+              />
+            </div>
+            <p className={`text-sm mb-4 ${mutedText}`}>
+              {new Date(image.timestamp).toLocaleString()}
+              {image.tags.length > 0 && ` · ${image.tags.map(tag => `#${tag}`).join(' ')}`}
+            </p>
+
+            <table className="w-full text-sm mb-6">
+              <tbody>
+                {describeImage(image, presets).map(([label, value]) => (
+                  <tr key={label} className={`border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                    <th scope="row" className={`text-left font-medium py-1.5 pr-4 align-top whitespace-nowrap ${mutedText}`}>{label}</th>
+                    <td className="py-1.5 align-top break-words">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              <button type="button" onClick={() => onRemix(image)} className={actionClass}>
+                <Repeat className="h-4 w-4" />
+                Open in Studio
+              </button>
+              <button type="button" onClick={() => onUseAsSource(image)} className={actionClass}>
+                <ImagePlus className="h-4 w-4" />
+                Use as Source
+              </button>
+              <button type="button" onClick={() => onEdit(image)} className={actionClass}>
+                <SlidersHorizontal className="h-4 w-4" />
+                Edit
+              </button>
+              <button type="button" onClick={() => onDownload(image)} className={actionClass}>
+                <Download className="h-4 w-4" />
+                Download
+              </button>
+              <button
+                type="button"
+                onClick={() => onFavorite([image.id], !image.favorite)}
+                aria-pressed={image.favorite}
+                className={actionClass}
+              >
+                <Star className={`h-4 w-4 ${image.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`} />
+                Favorite
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(image)}
+                className={`flex items-center justify-center gap-2 text-sm font-medium py-2 px-3 rounded-lg transition-colors ${
+                  darkMode ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300' : 'bg-red-100 hover:bg-red-200 text-red-700'
+                }`}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default ImageDetail;
@@ -0,0 +1,339 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Loader2, RotateCcw, RotateCw, X } from 'lucide-react';
+import type { AspectRatio, CropRect, GeneratedImage, ImageEdits } from '../types';
+import { ASPECT_RATIOS } from '../lib/resolution';
+import {
+  DEFAULT_EDITS,
+  MAX_OUTPUT_PIXELS,
+  cropToAspectRatio,
+  cssFilter,
+  editedSize,
+  isUnedited,
+  moveCrop,
+  resizeCrop,
+  rotateBy,
+  rotatedSize
+} from '../lib/imageEdits';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+
+interface ImageEditorProps {
+  darkMode: boolean;
+  image: GeneratedImage;
+  initialEdits: ImageEdits;
+  onSave: (edits: ImageEdits) => Promise<void>;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Drag =
+  | { type: 'move'; start: Point; crop: CropRect }
+  | { type: 'resize'; anchor: Point };
+
+type Adjustment = 'brightness' | 'contrast' | 'saturation';
+
+const ADJUSTMENTS: { id: Adjustment; label: string }[] = [
+  { id: 'brightness', label: 'Brightness' },
+  { id: 'contrast', label: 'Contrast' },
+  { id: 'saturation', label: 'Saturation' }
+];
+
+const UPSCALES: ImageEdits['upscale'][] = [1, 2, 4];
+
+// Corner handles; each one resizes around the opposite corner
+const CORNERS = [
+  { id: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { id: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { id: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { id: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' }
+];
+
+// Crops, rotates, adjusts and upscales an image. The preview uses CSS so it
+// stays responsive; the real work happens on a canvas when saving.
+function ImageEditor({ darkMode, image, initialEdits, onSave, onClose }: ImageEditorProps) {
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+  const [ratio, setRatio] = useState<AspectRatio | null>(null);
+  const [naturalSize, setNaturalSize] = useState({ width: image.width, height: image.height });
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, true);
+
+  const rotated = rotatedSize(naturalSize.width, naturalSize.height, edits.rotation);
+  const sideways = edits.rotation % 180 !== 0;
+  const output = editedSize(naturalSize.width, naturalSize.height, edits);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !saving) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, saving]);
+
+  const update = (changes: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...changes }));
+
+  const rotate = (turn: 90 | -90) => {
+    const rotation = rotateBy(edits.rotation, turn);
+    const size = rotatedSize(naturalSize.width, naturalSize.height, rotation);
+    // A crop drawn for the old orientation no longer makes sense
+    update({ rotation, crop: ratio ? cropToAspectRatio(size.width, size.height, ratio) : null });
+  };
+
+  const selectRatio = (next: AspectRatio | null) => {
+    setRatio(next);
+    if (next) update({ crop: cropToAspectRatio(rotated.width, rotated.height, next) });
+  };
+
+  const upscaleFits = (upscale: ImageEdits['upscale']) => {
+    const size = editedSize(naturalSize.width, naturalSize.height, { ...edits, upscale });
+    return size.width * size.height <= MAX_OUTPUT_PIXELS;
+  };
+
+  const toPoint = (e: PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const startDrag = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    const corner = (e.target as HTMLElement).dataset.corner;
+    const crop = edits.crop;
+
+    if (crop && corner) {
+      dragRef.current = {
+        type: 'resize',
+        anchor: {
+          x: corner.includes('w') ? crop.x + crop.width : crop.x,
+          y: corner.includes('n') ? crop.y + crop.height : crop.y
+        }
+      };
+    } else if (crop && (e.target as HTMLElement).dataset.crop) {
+      dragRef.current = { type: 'move', start: point, crop };
+    } else {
+      // Dragging outside the crop draws a new one
+      dragRef.current = { type: 'resize', anchor: point };
+    }
+  };
+
+  const drag = (e: PointerEvent<HTMLDivElement>) => {
+    const current = dragRef.current;
+    if (!current) return;
+    const point = toPoint(e);
+    update({
+      crop: current.type === 'move'
+        ? moveCrop(current.crop, point.x - current.start.x, point.y - current.start.y)
+        : resizeCrop(current.anchor, point, rotated, ratio)
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(edits);
+    } catch (err) {
+      console.error('Error saving edited image:', err);
+      setError(err instanceof Error ? err.message : 'Could not save the edited image');
+      setSaving(false);
+    }
+  };
+
+  const optionButtonClass = (active: boolean) => `px-2.5 py-1 rounded-md text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    active
+      ? darkMode
+        ? 'bg-purple-600 text-white'
+        : 'bg-purple-500 text-white'
+      : darkMode
+        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit image"
+        className={`w-full max-w-3xl max-h-full overflow-y-auto rounded-xl p-4 md:p-6 shadow-xl ${
+          darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-800'
+        }`}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Edit Image</h2>
+          <button type="button" onClick={onClose} disabled={saving} className={mutedText} title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div
+          className="relative mx-auto overflow-hidden rounded-md touch-none select-none cursor-crosshair bg-gray-900"
+          style={{
+            aspectRatio: `${rotated.width} / ${rotated.height}`,
+            width: `min(100%, calc(55vh * ${rotated.width / rotated.height}))`
+          }}
+          onPointerDown={startDrag}
+          onPointerMove={drag}
+          onPointerUp={() => {
+            dragRef.current = null;
+          }}
+          onPointerCancel={() => {
+            dragRef.current = null;
+          }}
+        >
+          <img
+            src={image.url}
+            alt={image.prompt}
+            draggable={false}
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="absolute left-1/2 top-1/2 max-w-none pointer-events-none"
+            style={{
+              // Sized in the unrotated orientation, then turned into place
+              width: `${sideways ? (rotated.height / rotated.width) * 100 : 100}%`,
+              height: `${sideways ? (rotated.width / rotated.height) * 100 : 100}%`,
+              transform: `translate(-50%, -50%) rotate(${edits.rotation}deg)`,
+              filter: cssFilter(edits)
+            }}
+          />
+          {edits.crop && (
+            <div
+              data-crop="true"
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${edits.crop.x * 100}%`,
+                top: `${edits.crop.y * 100}%`,
+                width: `${edits.crop.width * 100}%`,
+                height: `${edits.crop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+              }}
+            >
+              {CORNERS.map(({ id, className }) => (
+                <span
+                  key={id}
+                  data-corner={id}
+                  className={`absolute h-3 w-3 rounded-sm bg-white ${className}`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        <p className={`text-xs mt-2 text-center ${mutedText}`}>
+          Drag on the image to crop. Output: {output.width} × {output.height}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <h3 className="text-sm font-medium mb-2">Crop &amp; Rotate</h3>
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              <button type="button" onClick={() => selectRatio(null)} className={optionButtonClass(ratio === null)}>
+                Free
+              </button>
+              {ASPECT_RATIOS.map((option) => (
+                <button key={option} type="button" onClick={() => selectRatio(option)} className={optionButtonClass(ratio === option)}>
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              <button type="button" onClick={() => rotate(-90)} className={optionButtonClass(false)} title="Rotate left">
+                <RotateCcw className="h-4 w-4" />
+              </button>
+              <button type="button" onClick={() => rotate(90)} className={optionButtonClass(false)} title="Rotate right">
+                <RotateCw className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setRatio(null);
+                  update({ crop: null });
+                }}
+                disabled={!edits.crop}
+                className={optionButtonClass(false)}
+              >
+                Remove crop
+              </button>
+            </div>
+
+            <h3 className="text-sm font-medium mt-4 mb-2">Upscale</h3>
+            <div className="flex gap-1.5">
+              {UPSCALES.map((upscale) => (
+                <button
+                  key={upscale}
+                  type="button"
+                  onClick={() => update({ upscale })}
+                  disabled={!upscaleFits(upscale)}
+                  className={optionButtonClass(edits.upscale === upscale)}
+                >
+                  {upscale}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-2">Adjustments</h3>
+            {ADJUSTMENTS.map(({ id, label }) => (
+              <div key={id} className="mb-2">
+                <div className="flex justify-between text-sm">
+                  <label htmlFor={`edit-${id}`} className={darkMode ? 'text-gray-300' : 'text-gray-700'}>{label}</label>
+                  <span className={mutedText}>{edits[id]}%</span>
+                </div>
+                <input
+                  id={`edit-${id}`}
+                  type="range"
+                  min="0"
+                  max="200"
+                  value={edits[id]}
+                  onChange={(e) => update({ [id]: parseInt(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={() => {
+              setRatio(null);
+              setEdits(DEFAULT_EDITS);
+            }}
+            disabled={saving}
+            className={`mr-auto ${optionButtonClass(false)}`}
+          >
+            Reset
+          </button>
+          <button type="button" onClick={onClose} disabled={saving} className={optionButtonClass(false)}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void save()}
+            disabled={saving || isUnedited(edits)}
+            className={`flex items-center gap-1 py-1 px-3 rounded-md text-sm font-medium text-white disabled:opacity-50 disabled:cursor-not-allowed ${
+              darkMode ? 'bg-purple-600 hover:bg-purple-700' : 'bg-purple-500 hover:bg-purple-600'
+            }`}
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save as New Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImageEditor;
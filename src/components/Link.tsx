@@ -0,0 +1,25 @@
+import type { AnchorHTMLAttributes } from 'react';
+import { isPlainClick, navigate } from '../lib/router';
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+}
+
+// An ordinary link that navigates without reloading the page
+function Link({ to, onClick, target, ...props }: LinkProps) {
+  return (
+    <a
+      {...props}
+      href={to}
+      target={target}
+      onClick={(e) => {
+        onClick?.(e);
+        if (target || !isPlainClick(e)) return;
+        e.preventDefault();
+        navigate(to);
+      }}
+    />
+  );
+}
+
+export default Link;
@@ -0,0 +1,166 @@
+import { useRef, useState, type PointerEvent } from 'react';
+import { Brush, Eraser, Trash2 } from 'lucide-react';
+
+interface MaskEditorProps {
+  darkMode: boolean;
+  image: string;
+  // PNG data URL, white where the image should be repainted; undefined when empty
+  onChange: (mask: string | undefined) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const BRUSH_COLOR = 'rgb(168, 85, 247)';
+
+// Paints a mask over the source image. The canvas matches the image's natural
+// size so the exported mask lines up pixel for pixel.
+function MaskEditor({ darkMode, image, onChange }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const [brushSize, setBrushSize] = useState<number>(32);
+  const [erasing, setErasing] = useState<boolean>(false);
+
+  // Brush size is in screen pixels, so scale it to the canvas resolution
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>): Point & { scale: number } => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const drawStroke = (from: Point, to: Point, scale: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = BRUSH_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const exportMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    if (!painted) {
+      onChange(undefined);
+      return;
+    }
+
+    // Recolour the strokes white and put them on a black background
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputCtx = output.getContext('2d');
+    if (!outputCtx) return;
+    outputCtx.drawImage(canvas, 0, 0);
+    outputCtx.globalCompositeOperation = 'source-in';
+    outputCtx.fillStyle = 'white';
+    outputCtx.fillRect(0, 0, output.width, output.height);
+    outputCtx.globalCompositeOperation = 'destination-over';
+    outputCtx.fillStyle = 'black';
+    outputCtx.fillRect(0, 0, output.width, output.height);
+    onChange(output.toDataURL('image/png'));
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  const toolButtonClass = (active: boolean) => `p-1.5 rounded-md transition-colors ${
+    active
+      ? darkMode
+        ? 'bg-purple-600 text-white'
+        : 'bg-purple-500 text-white'
+      : darkMode
+        ? 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div>
+      <div className="relative">
+        <img
+          src={image}
+          alt="Source"
+          className="w-full h-auto rounded-md select-none"
+          draggable={false}
+          onLoad={(e) => {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+            canvas.width = e.currentTarget.naturalWidth;
+            canvas.height = e.currentTarget.naturalHeight;
+          }}
+        />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair touch-none rounded-md"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const point = toCanvasPoint(e);
+            lastPointRef.current = point;
+            drawStroke(point, point, point.scale);
+          }}
+          onPointerMove={(e) => {
+            if (!lastPointRef.current) return;
+            const point = toCanvasPoint(e);
+            drawStroke(lastPointRef.current, point, point.scale);
+            lastPointRef.current = point;
+          }}
+          onPointerUp={() => {
+            lastPointRef.current = null;
+            exportMask();
+          }}
+          onPointerCancel={() => {
+            lastPointRef.current = null;
+            exportMask();
+          }}
+        />
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <button type="button" onClick={() => setErasing(false)} className={toolButtonClass(!erasing)} title="Brush">
+          <Brush className="h-4 w-4" />
+        </button>
+        <button type="button" onClick={() => setErasing(true)} className={toolButtonClass(erasing)} title="Eraser">
+          <Eraser className="h-4 w-4" />
+        </button>
+        <input
+          type="range"
+          aria-label="Brush size"
+          min="4"
+          max="128"
+          step="4"
+          value={brushSize}
+          onChange={(e) => setBrushSize(parseInt(e.target.value))}
+          className="flex-1"
+        />
+        <button type="button" onClick={clearMask} className={toolButtonClass(false)} title="Clear mask">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+      <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        Paint over the areas to regenerate; the rest of the image is kept
+      </p>
+    </div>
+  );
+}
+
+export default MaskEditor;
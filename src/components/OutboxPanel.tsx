@@ -0,0 +1,67 @@
+import { Inbox, WifiOff, X } from 'lucide-react';
+import { PROVIDERS } from '../lib/providers';
+import type { OutboxEntry } from '../lib/outbox';
+
+interface OutboxPanelProps {
+  darkMode: boolean;
+  online: boolean;
+  entries: OutboxEntry[];
+  onRemove: (ids: string[]) => void;
+}
+
+// Offline notice and the generations waiting to be sent
+function OutboxPanel({ darkMode, online, entries, onRemove }: OutboxPanelProps) {
+  if (online && entries.length === 0) return null;
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div
+      role="status"
+      className={`mt-4 p-3 rounded-lg text-sm ${
+        darkMode ? 'bg-amber-900/30 border border-amber-700 text-amber-100' : 'bg-amber-50 border border-amber-200 text-amber-900'
+      }`}
+    >
+      {!online && (
+        <p className="flex items-center gap-2">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          You're offline. New generations are saved to the outbox and sent when the connection returns.
+        </p>
+      )}
+      {entries.length > 0 && (
+        <div className={online ? '' : 'mt-3'}>
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <p className="flex items-center gap-2 font-medium">
+              <Inbox className="h-4 w-4" />
+              Outbox ({entries.length})
+            </p>
+            <button
+              type="button"
+              onClick={() => onRemove(entries.map(entry => entry.id))}
+              className="text-xs underline"
+            >
+              Remove all
+            </button>
+          </div>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center gap-2">
+                <span className="flex-1 truncate" title={entry.input.prompt}>{entry.input.prompt}</span>
+                <span className={`text-xs ${mutedText}`}>{PROVIDERS[entry.input.providerId].name}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemove([entry.id])}
+                  aria-label={`Remove "${entry.input.prompt}" from the outbox`}
+                  className="p-0.5 rounded hover:bg-black/10"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OutboxPanel;
@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import type { ImageProvider } from '../lib/providers';
+import { hasPromptSyntax, parsePrompt } from '../lib/promptSyntax';
+import { countPromptTokens, hasExactTokenizer, loadClipTokenizer } from '../lib/promptTokens';
+import { applySuggestion, suggestTerms, type VocabularyCategory, type VocabularyTerm } from '../lib/promptAutocomplete';
+
+interface PromptEditorProps {
+  id: string;
+  darkMode: boolean;
+  value: string;
+  onChange: (value: string) => void;
+  rows: number;
+  placeholder: string;
+  className?: string;
+  provider: ImageProvider;
+  // Text the style preset adds around the prompt; it counts toward the token limit
+  prefix?: string;
+  suffix?: string;
+  invalid?: boolean;
+  // Ids of other messages about the prompt
+  describedBy?: string;
+}
+
+const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  artist: 'Artist',
+  medium: 'Medium',
+  lighting: 'Lighting',
+  style: 'Style'
+};
+
+// How much of the kept text is shown before the dropped part
+const CONTEXT_CHARS = 24;
+
+// Prompt textarea with a CLIP token count, emphasis syntax feedback and term
+// autocomplete from the local vocabulary
+function PromptEditor({
+  id,
+  darkMode,
+  value,
+  onChange,
+  rows,
+  placeholder,
+  className = '',
+  provider,
+  prefix = '',
+  suffix = '',
+  invalid,
+  describedBy
+}: PromptEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [exact, setExact] = useState(hasExactTokenizer);
+  const [tokenizerWanted, setTokenizerWanted] = useState(false);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const warningText = darkMode ? 'text-amber-300' : 'text-amber-700';
+
+  const suggestions = focused && !dismissed ? suggestTerms(value, cursor) : null;
+  const active = suggestions ? Math.min(activeIndex, suggestions.terms.length - 1) : 0;
+  const listboxId = `${id}-suggestions`;
+  const optionId = (index: number) => `${id}-suggestion-${index}`;
+
+  const parsed = parsePrompt(value);
+  const emphasized = parsed.segments.filter(segment => segment.weight !== 1 && segment.text.trim());
+  const limit = provider.promptTokenLimit;
+  const tokens = countPromptTokens(`${prefix}${value}${suffix}`, limit);
+  const overflow = limit !== undefined && tokens.overflowIndex !== null ? tokens.overflowIndex - prefix.length : null;
+
+  // Counts are estimated until the real tokenizer has loaded. It is a large
+  // download, so it only loads once someone focuses or types in the prompt.
+  useEffect(() => {
+    if (limit === undefined || exact || !tokenizerWanted) return;
+    let cancelled = false;
+    loadClipTokenizer()
+      .then(() => {
+        if (!cancelled) setExact(true);
+      })
+      .catch(err => console.error('Error loading the CLIP tokenizer:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [limit, exact, tokenizerWanted]);
+
+  // Put the cursor after an accepted suggestion once the new value renders
+  useEffect(() => {
+    if (pendingCursor.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const update = (next: string, nextCursor: number) => {
+    onChange(next);
+    setCursor(nextCursor);
+    setDismissed(false);
+    setActiveIndex(0);
+  };
+
+  const accept = (term: VocabularyTerm) => {
+    if (!suggestions) return;
+    const applied = applySuggestion(value, suggestions, term);
+    pendingCursor.current = applied.cursor;
+    update(applied.value, applied.cursor);
+    // Wait for more typing before suggesting again
+    setDismissed(true);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!suggestions) return;
+    const count = suggestions.terms.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((active + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions.terms[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDismissed(true);
+    }
+  };
+
+  const tokenCountId = `${id}-tokens`;
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          id={id}
+          rows={rows}
+          // A multi-line textbox can't be a combobox, so it only points at the list
+          aria-autocomplete="list"
+          aria-controls={listboxId}
+          aria-activedescendant={suggestions ? optionId(active) : undefined}
+          className={`w-full px-4 py-2 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent focus-visible:outline-none ${
+            darkMode
+              ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400'
+              : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
+          }`}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            setTokenizerWanted(true);
+            update(e.target.value, e.target.selectionStart);
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => {
+            setFocused(true);
+            setTokenizerWanted(true);
+          }}
+          onBlur={() => setFocused(false)}
+          aria-invalid={invalid}
+          aria-describedby={[describedBy, tokenCountId].filter(Boolean).join(' ')}
+        />
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Suggestions"
+          hidden={!suggestions}
+          className={`absolute z-20 left-2 right-2 -mt-1 max-h-60 overflow-auto rounded-lg shadow-lg text-sm ${
+            darkMode ? 'bg-gray-800 border border-gray-600' : 'bg-white border border-gray-200'
+          }`}
+        >
+          {suggestions?.terms.map((term, index) => (
+            <li
+              key={`${term.category}-${term.text}`}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === active}
+              // Keep the focus in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(term)}
+              className={`flex justify-between gap-4 px-3 py-1.5 cursor-pointer ${
+                index === active ? (darkMode ? 'bg-purple-600/40' : 'bg-purple-100') : ''
+              }`}
+            >
+              <span>{term.text}</span>
+              <span className={`text-xs ${mutedText}`}>{CATEGORY_LABELS[term.category]}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex justify-between items-start gap-4 text-xs mt-1">
+        <div className="space-y-0.5">
+          {parsed.errors.map(error => (
+            <p key={error} className={warningText}>{error}</p>
+          ))}
+          {hasPromptSyntax(value) && !provider.capabilities.promptWeighting ? (
+            <p className={mutedText}>{provider.name} doesn't support emphasis, so the words are sent without it.</p>
+          ) : emphasized.length > 0 && (
+            <p className={mutedText}>
+              Emphasis: {emphasized.map(segment => `${segment.text.trim()} ×${segment.weight}`).join(' · ')}
+            </p>
+          )}
+        </div>
+        <p
+          id={tokenCountId}
+          className={`whitespace-nowrap ${overflow !== null ? warningText : mutedText}`}
+          title={exact ? undefined : 'Estimated from how CLIP splits words'}
+        >
+          {exact ? '' : '~'}{tokens.count}{limit !== undefined && ` / ${limit}`} tokens
+        </p>
+      </div>
+
+      {overflow !== null && (
+        <p className={`text-xs mt-1 ${warningText}`}>
+          {!exact ? (
+            // An estimate can't say exactly where the cut falls
+            `This prompt is probably over the ${limit}-token limit, and ${provider.name} drops everything past it.`
+          ) : overflow < value.length ? (
+            <>
+              {provider.name} drops everything past {limit} tokens:{' '}
+              <span className={mutedText}>…{value.slice(Math.max(0, overflow - CONTEXT_CHARS), Math.max(0, overflow))}</span>
+              <mark className={`rounded px-0.5 line-through ${darkMode ? 'bg-amber-500/30 text-amber-200' : 'bg-amber-200 text-amber-900'}`}>
+                {value.slice(Math.max(0, overflow))}
+              </mark>
+            </>
+          ) : (
+            `The end of the style preset is past the ${limit}-token limit and will be dropped.`
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PromptEditor;
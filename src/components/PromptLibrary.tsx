@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Clock, BookmarkPlus, Search, Trash2, X, FileText } from 'lucide-react';
+import { extractVariables } from '../lib/templates';
+import { matchesSearch, type PromptHistoryEntry, type PromptTemplate } from '../lib/promptLibrary';
+
+interface PromptLibraryProps {
+  darkMode: boolean;
+  history: PromptHistoryEntry[];
+  templates: PromptTemplate[];
+  currentPrompt: string;
+  onSelect: (prompt: string, negativePrompt: string) => void;
+  onRemoveHistoryEntry: (id: string) => void;
+  onClearHistory: () => void;
+  onSaveTemplate: (name: string) => void;
+  onDeleteTemplate: (id: string) => void;
+}
+
+type LibraryTab = 'history' | 'templates';
+
+function PromptLibrary({
+  darkMode,
+  history,
+  templates,
+  currentPrompt,
+  onSelect,
+  onRemoveHistoryEntry,
+  onClearHistory,
+  onSaveTemplate,
+  onDeleteTemplate
+}: PromptLibraryProps) {
+  const [tab, setTab] = useState<LibraryTab>('history');
+  const [search, setSearch] = useState<string>('');
+  const [templateName, setTemplateName] = useState<string>('');
+
+  const filteredHistory = history.filter(entry =>
+    matchesSearch(entry.prompt, search) || matchesSearch(entry.negativePrompt, search)
+  );
+  const filteredTemplates = templates.filter(template =>
+    matchesSearch(template.name, search) || matchesSearch(template.prompt, search)
+  );
+
+  const saveTemplate = () => {
+    if (!templateName.trim() || !currentPrompt.trim()) return;
+    onSaveTemplate(templateName.trim());
+    setTemplateName('');
+    setTab('templates');
+  };
+
+  const itemClass = `group flex items-start gap-2 p-2 rounded-md transition-colors ${
+    darkMode ? 'hover:bg-gray-600' : 'hover:bg-gray-200'
+  }`;
+  const itemButtonClass = 'flex flex-1 items-start gap-2 min-w-0 text-left';
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`mt-2 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-3">
+        {(['history', 'templates'] as LibraryTab[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setTab(value)}
+            className={`py-1 px-3 rounded-md text-sm font-medium transition-colors ${
+              tab === value
+                ? darkMode
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-purple-500 text-white'
+                : darkMode
+                  ? 'text-gray-300 hover:bg-gray-600'
+                  : 'text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {value === 'history' ? `History (${history.length})` : `Templates (${templates.length})`}
+          </button>
+        ))}
+        {tab === 'history' && history.length > 0 && (
+          <button
+            type="button"
+            onClick={onClearHistory}
+            className={`ml-auto text-xs ${darkMode ? 'text-red-300 hover:text-red-200' : 'text-red-600 hover:text-red-700'}`}
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+
+      <div className="relative mb-3">
+        <Search className={`absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 ${mutedText}`} />
+        <input
+          type="search"
+          aria-label="Search prompts"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={tab === 'history' ? 'Search history...' : 'Search templates...'}
+          className={`w-full pl-9 pr-3 py-1.5 rounded-md text-sm ${
+            darkMode
+              ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400'
+              : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+          }`}
+        />
+      </div>
+
+      <div className="max-h-48 overflow-y-auto">
+        {tab === 'history' ? (
+          filteredHistory.length === 0 ? (
+            <p className={`text-sm text-center py-4 ${mutedText}`}>
+              {history.length === 0 ? 'Prompts you generate with will show up here' : 'No matching prompts'}
+            </p>
+          ) : (
+            filteredHistory.map((entry) => (
+              <div key={entry.id} className={itemClass}>
+                <button type="button" onClick={() => onSelect(entry.prompt, entry.negativePrompt)} className={itemButtonClass}>
+                  <Clock className={`h-4 w-4 mt-0.5 shrink-0 ${mutedText}`} />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm line-clamp-2">{entry.prompt}</span>
+                    <span className={`block text-xs ${mutedText}`}>{new Date(entry.timestamp).toLocaleString()}</span>
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemoveHistoryEntry(entry.id)}
+                  className={`opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 p-1 rounded ${mutedText} hover:text-red-400`}
+                  title="Remove from history"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))
+          )
+        ) : (
+          filteredTemplates.length === 0 ? (
+            <p className={`text-sm text-center py-4 ${mutedText}`}>
+              {templates.length === 0 ? 'Save a prompt as a template to reuse it. Use {{variable}} for parts that change.' : 'No matching templates'}
+            </p>
+          ) : (
+            filteredTemplates.map((template) => {
+              const variables = extractVariables(template.prompt, template.negativePrompt);
+              return (
+                <div key={template.id} className={itemClass}>
+                  <button type="button" onClick={() => onSelect(template.prompt, template.negativePrompt)} className={itemButtonClass}>
+                    <FileText className={`h-4 w-4 mt-0.5 shrink-0 ${mutedText}`} />
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm font-medium">{template.name}</span>
+                      <span className={`block text-xs line-clamp-1 ${mutedText}`}>{template.prompt}</span>
+                      {variables.length > 0 && (
+                        <span className={`block text-xs ${darkMode ? 'text-purple-300' : 'text-purple-600'}`}>
+                          {variables.map(name => `{{${name}}}`).join(' ')}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDeleteTemplate(template.id)}
+                    className={`opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 p-1 rounded ${mutedText} hover:text-red-400`}
+                    title="Delete template"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })
+          )
+        )}
+      </div>
+
+      <div className={`flex gap-2 mt-3 pt-3 border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+        <input
+          type="text"
+          aria-label="Template name"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveTemplate()}
+          placeholder="Template name"
+          className={`flex-1 min-w-0 px-3 py-1.5 rounded-md text-sm ${
+            darkMode
+              ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400'
+              : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+          }`}
+        />
+        <button
+          type="button"
+          onClick={saveTemplate}
+          disabled={!templateName.trim() || !currentPrompt.trim()}
+          className={`flex items-center gap-1 py-1.5 px-3 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            darkMode
+              ? 'bg-purple-600 hover:bg-purple-700 text-white'
+              : 'bg-purple-500 hover:bg-purple-600 text-white'
+          }`}
+        >
+          <BookmarkPlus className="h-4 w-4" />
+          Save current
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PromptLibrary;
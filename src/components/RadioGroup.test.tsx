@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RadioGroup, { type RadioOption } from './RadioGroup';
+
+const OPTIONS: RadioOption<string>[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'wide', label: 'Wide' },
+  { value: 'tall', label: 'Tall', disabled: true },
+  { value: 'photo', label: 'Photo' }
+];
+
+function Shape({ initial = 'square' }: { initial?: string }) {
+  const [value, setValue] = useState(initial);
+  return (
+    <>
+      <span id="shape-label">Shape</span>
+      <RadioGroup darkMode={false} labelledBy="shape-label" options={OPTIONS} value={value} onChange={setValue} />
+    </>
+  );
+}
+
+const radio = (name: string) => screen.getByRole('radio', { name });
+
+const expectSelected = (name: string) => {
+  expect(radio(name)).toHaveFocus();
+  expect(radio(name)).toBeChecked();
+  expect(screen.getAllByRole('radio', { checked: true })).toHaveLength(1);
+};
+
+describe('RadioGroup', () => {
+  it('is a single tab stop on the selected option', async () => {
+    const user = userEvent.setup();
+    render(<Shape initial="wide" />);
+    expect(screen.getByRole('radiogroup', { name: 'Shape' })).toBeInTheDocument();
+
+    await user.tab();
+    expectSelected('Wide');
+    await user.tab();
+    expect(document.body).toHaveFocus();
+  });
+
+  it('moves the selection with the arrow keys, skipping disabled options and wrapping', async () => {
+    const user = userEvent.setup();
+    render(<Shape />);
+    await user.tab();
+
+    await user.keyboard('{ArrowRight}');
+    expectSelected('Wide');
+    await user.keyboard('{ArrowDown}');
+    expectSelected('Photo');
+    await user.keyboard('{ArrowRight}');
+    expectSelected('Square');
+    await user.keyboard('{ArrowLeft}');
+    expectSelected('Photo');
+    await user.keyboard('{ArrowUp}');
+    expectSelected('Wide');
+  });
+
+  it('jumps to the first and last enabled options with Home and End', async () => {
+    const user = userEvent.setup();
+    render(<Shape initial="wide" />);
+    await user.tab();
+
+    await user.keyboard('{End}');
+    expectSelected('Photo');
+    await user.keyboard('{Home}');
+    expectSelected('Square');
+  });
+});
@@ -0,0 +1,95 @@
+import { useRef, type KeyboardEvent } from 'react';
+
+export interface RadioOption<T extends string> {
+  value: T;
+  label: string;
+  disabled?: boolean;
+  title?: string;
+}
+
+interface RadioGroupProps<T extends string> {
+  darkMode: boolean;
+  // Id of the element that names the group
+  labelledBy: string;
+  options: RadioOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+  className?: string;
+  // Options on a gray panel get lighter backgrounds
+  onPanel?: boolean;
+}
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp'];
+
+// Row of toggle buttons that behaves like radio buttons: one tab stop for
+// the group, and the arrow keys move the selection
+function RadioGroup<T extends string>({
+  darkMode,
+  labelledBy,
+  options,
+  value,
+  onChange,
+  className = '',
+  onPanel = false
+}: RadioGroupProps<T>) {
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const enabled = options.filter(option => !option.disabled);
+  // The selected option takes the tab stop, or the first one if it can't
+  const tabStop = enabled.some(option => option.value === value) ? value : enabled[0]?.value;
+
+  const select = (option: RadioOption<T>) => {
+    onChange(option.value);
+    buttonRefs.current[options.indexOf(option)]?.focus();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, option: RadioOption<T>) => {
+    const index = enabled.indexOf(option);
+    if (NEXT_KEYS.includes(e.key)) {
+      select(enabled[(index + 1) % enabled.length]);
+    } else if (PREVIOUS_KEYS.includes(e.key)) {
+      select(enabled[(index - 1 + enabled.length) % enabled.length]);
+    } else if (e.key === 'Home') {
+      select(enabled[0]);
+    } else if (e.key === 'End') {
+      select(enabled[enabled.length - 1]);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div role="radiogroup" aria-labelledby={labelledBy} className={className}>
+      {options.map((option, index) => (
+        <button
+          key={option.value}
+          ref={(element) => {
+            buttonRefs.current[index] = element;
+          }}
+          type="button"
+          role="radio"
+          aria-checked={option.value === value}
+          tabIndex={option.value === tabStop ? 0 : -1}
+          onClick={() => onChange(option.value)}
+          onKeyDown={(e) => handleKeyDown(e, option)}
+          disabled={option.disabled}
+          title={option.title}
+          className={`py-2 px-3 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            option.value === value
+              ? darkMode
+                ? 'bg-purple-600 text-white'
+                : 'bg-purple-500 text-white'
+              : darkMode
+                ? onPanel ? 'bg-gray-600 text-gray-300 hover:bg-gray-500' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                : onPanel ? 'bg-gray-200 text-gray-700 hover:bg-gray-300' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default RadioGroup;
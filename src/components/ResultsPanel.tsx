@@ -0,0 +1,180 @@
+import { Clock, Download, Image as ImageIcon, SlidersHorizontal, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { GeneratedImage } from '../types';
+import type { GenerationJob } from '../hooks/useGenerationQueue';
+import GenerationStatus from './GenerationStatus';
+import HiddenImageOverlay from './HiddenImageOverlay';
+
+interface ResultsPanelProps {
+  darkMode: boolean;
+  jobs: GenerationJob[];
+  isLoading: boolean;
+  // Ids of images still in the gallery; removed ones have revoked URLs
+  galleryIds: Set<string>;
+  now: number;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onClear: () => void;
+  onDownload: (image: GeneratedImage) => void;
+  onEdit: (image: GeneratedImage) => void;
+  // Flagged images are blurred until revealed
+  isHidden: (image: GeneratedImage) => boolean;
+  onReveal: (id: string) => void;
+}
+
+function ResultsPanel({
+  darkMode,
+  jobs,
+  isLoading,
+  galleryIds,
+  now,
+  onCancel,
+  onCancelAll,
+  onClear,
+  onDownload,
+  onEdit,
+  isHidden,
+  onReveal
+}: ResultsPanelProps) {
+  const queuedIds = jobs.filter(job => job.status === 'queued').map(job => job.id);
+
+  return (
+    <motion.div 
+      className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg flex flex-col`}
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="flex justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold">Generated Images</h2>
+        {isLoading ? (
+          <button
+            onClick={onCancelAll}
+            className={`text-sm py-1 px-3 rounded ${
+              darkMode
+                ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300'
+                : 'bg-red-100 hover:bg-red-200 text-red-700'
+            } transition-colors`}
+          >
+            Cancel All
+          </button>
+        ) : jobs.length > 0 && (
+          <button
+            onClick={onClear}
+            className={`text-sm py-1 px-3 rounded ${
+              darkMode
+                ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            } transition-colors`}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className={`flex-1 flex items-center justify-center rounded-lg overflow-hidden ${
+        darkMode ? 'bg-gray-700/50' : 'bg-gray-100'
+      }`}>
+        {jobs.length > 0 ? (
+          <div className={`grid w-full h-full gap-3 p-3 ${jobs.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+            {jobs.map((job) => (
+              <motion.div
+                key={job.id}
+                className={`relative flex flex-col items-center justify-center rounded-lg overflow-hidden min-h-[160px] ${
+                  darkMode ? 'bg-gray-800/60' : 'bg-white'
+                }`}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                {job.status === 'running' && job.progress?.preview && (
+                  <img
+                    src={job.progress.preview}
+                    alt=""
+                    className="absolute inset-0 w-full h-full object-contain opacity-50"
+                  />
+                )}
+                {job.status === 'done' && job.result && galleryIds.has(job.result.id) ? (
+                  <>
+                    <img 
+                      src={job.result.url} 
+                      alt={job.result.prompt} 
+                      className={`max-w-full object-contain rounded-lg shadow-lg ${jobs.length === 1 ? 'max-h-[400px]' : 'max-h-[240px]'} ${
+                        isHidden(job.result) ? 'blur-xl' : ''
+                      }`}
+                    />
+                    {isHidden(job.result) && (
+                      <HiddenImageOverlay label={job.result.flagLabel} onReveal={() => onReveal(job.result!.id)} />
+                    )}
+                    <button
+                      onClick={() => onEdit(job.result!)}
+                      className={`absolute bottom-3 right-14 p-2 rounded-full transition-colors ${
+                        darkMode
+                          ? 'bg-gray-800/80 hover:bg-gray-700'
+                          : 'bg-white/90 hover:bg-gray-100 shadow-md'
+                      }`}
+                      title="Edit Image"
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => onDownload(job.result!)}
+                      className={`absolute bottom-3 right-3 p-2 rounded-full transition-colors ${
+                        darkMode
+                          ? 'bg-gray-800/80 hover:bg-gray-700'
+                          : 'bg-white/90 hover:bg-gray-100 shadow-md'
+                      }`}
+                      title="Download Image"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <div className={`relative flex flex-col items-center gap-2 p-4 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {job.status === 'running' && (
+                      <GenerationStatus darkMode={darkMode} progress={job.progress} now={now} />
+                    )}
+                    {job.status === 'queued' && (
+                      <>
+                        <Clock className="h-8 w-8" />
+                        <p>
+                          Queued
+                          {queuedIds.length > 1 && (
+                            <span className="block text-xs mt-1">
+                              {queuedIds.indexOf(job.id) + 1} of {queuedIds.length} waiting
+                            </span>
+                          )}
+                        </p>
+                      </>
+                    )}
+                    {job.status === 'failed' && (
+                      <p className={`whitespace-pre-line ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{job.error}</p>
+                    )}
+                    {job.status === 'cancelled' && <p>Cancelled</p>}
+                    {job.status === 'done' && <p>Removed from gallery</p>}
+                    <p className="text-xs line-clamp-2">{job.input.prompt}</p>
+                  </div>
+                )}
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="absolute top-2 right-2 p-1.5 rounded-full bg-red-500/80 hover:bg-red-600 text-white"
+                    title="Cancel"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center p-8">
+            <ImageIcon className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-300'} mb-4`} />
+            <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-center`}>Your generated images will appear here</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default ResultsPanel;
@@ -0,0 +1,107 @@
+import { useRef } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import type { GenerationMode, SourceImage } from '../types';
+import MaskEditor from './MaskEditor';
+
+interface SourceImagePanelProps {
+  darkMode: boolean;
+  mode: Exclude<GenerationMode, 'text-to-image'>;
+  source: SourceImage | null;
+  strength: number;
+  onUpload: (file: File) => void;
+  onClear: () => void;
+  onMaskChange: (mask: string | undefined) => void;
+  onStrengthChange: (strength: number) => void;
+}
+
+function SourceImagePanel({
+  darkMode,
+  mode,
+  source,
+  strength,
+  onUpload,
+  onClear,
+  onMaskChange,
+  onStrengthChange
+}: SourceImagePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`mb-4 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      {source ? (
+        <div className="relative">
+          {mode === 'inpaint' ? (
+            // Remount on a new image so the old mask is dropped
+            <MaskEditor key={source.image} darkMode={darkMode} image={source.image} onChange={onMaskChange} />
+          ) : (
+            <img src={source.image} alt="Source" className="w-full h-auto max-h-64 object-contain rounded-md" />
+          )}
+          <button
+            type="button"
+            onClick={onClear}
+            className="absolute top-2 right-2 p-1.5 rounded-full bg-red-500/80 hover:bg-red-600 text-white"
+            title="Remove source image"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            // Don't let the form treat this as a parameters drop
+            e.stopPropagation();
+            const file = e.dataTransfer.files[0];
+            if (file) onUpload(file);
+          }}
+          className={`w-full flex flex-col items-center justify-center gap-2 py-8 rounded-md border-2 border-dashed transition-colors ${
+            darkMode
+              ? 'border-gray-500 text-gray-400 hover:border-purple-400 hover:text-purple-300'
+              : 'border-gray-300 text-gray-500 hover:border-purple-500 hover:text-purple-600'
+          }`}
+        >
+          <ImagePlus className="h-8 w-8" />
+          <span className="text-sm">Upload a source image or pick one from your gallery</span>
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        aria-label="Upload source image"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(file);
+          e.target.value = '';
+        }}
+      />
+
+      <div className="mt-3">
+        <label htmlFor="strength" className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>
+          Strength: {strength.toFixed(2)}
+        </label>
+        <input
+          id="strength"
+          type="range"
+          min="0.05"
+          max="1"
+          step="0.05"
+          value={strength}
+          onChange={(e) => onStrengthChange(parseFloat(e.target.value))}
+          className="w-full"
+        />
+        <div className={`flex justify-between text-xs mt-1 ${mutedText}`}>
+          <span>Close to source</span>
+          <span>Mostly new</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SourceImagePanel;
@@ -0,0 +1,209 @@
+import { useRef, useState } from 'react';
+import { Copy, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import type { AspectRatio, StylePreset } from '../types';
+import { createPresetId, parseStylePresetsJson, serializeStylePresets } from '../lib/stylePresets';
+import { downloadBlob } from '../lib/download';
+import { ASPECT_RATIOS } from '../lib/resolution';
+
+interface StylePresetManagerProps {
+  darkMode: boolean;
+  presets: StylePreset[];
+  customPresets: StylePreset[];
+  onSave: (preset: StylePreset) => StylePreset;
+  onDelete: (id: string) => void;
+  onImport: (presets: StylePreset[]) => void;
+  onSelect: (preset: StylePreset) => void;
+}
+
+const emptyPreset = (): StylePreset => ({
+  id: '',
+  name: '',
+  promptPrefix: '',
+  promptSuffix: '',
+  negativePrompt: ''
+});
+
+function StylePresetManager({
+  darkMode,
+  presets,
+  customPresets,
+  onSave,
+  onDelete,
+  onImport,
+  onSelect
+}: StylePresetManagerProps) {
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const inputClass = `w-full px-3 py-1.5 rounded-md text-sm ${
+    darkMode
+      ? 'bg-gray-600 border border-gray-500 text-white placeholder-gray-400'
+      : 'bg-white border border-gray-200 text-gray-800 placeholder-gray-500'
+  }`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const iconButtonClass = `p-1 rounded ${mutedText} ${darkMode ? 'hover:text-white' : 'hover:text-gray-800'}`;
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) {
+      setMessage('Give the preset a name first.');
+      return;
+    }
+    const saved = onSave({ ...draft, name: draft.name.trim(), id: draft.id || createPresetId(draft.name) });
+    onSelect(saved);
+    setDraft(null);
+    setMessage(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseStylePresetsJson(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not import presets.');
+    }
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined =>
+    value === '' ? undefined : Number(value);
+
+  return (
+    <div className={`mb-4 p-3 rounded-lg ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      <div className="max-h-40 overflow-y-auto mb-3">
+        {presets.map((preset) => (
+          <div key={preset.id} className="flex items-center gap-2 py-1">
+            <span className="flex-1 text-sm truncate">
+              {preset.name}
+              {preset.builtIn && <span className={`ml-2 text-xs ${mutedText}`}>built-in</span>}
+            </span>
+            {!preset.builtIn && (
+              <button type="button" onClick={() => setDraft(preset)} className={iconButtonClass} title="Edit preset">
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setDraft({ ...preset, id: '', name: `${preset.name} copy`, builtIn: undefined })}
+              className={iconButtonClass}
+              title="Duplicate preset"
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </button>
+            {!preset.builtIn && (
+              <button type="button" onClick={() => onDelete(preset.id)} className={`p-1 rounded ${mutedText} hover:text-red-400`} title="Delete preset">
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className={`pt-3 border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="sm:col-span-2">
+              <label htmlFor="preset-name" className={labelClass}>Name</label>
+              <input id="preset-name" className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <label htmlFor="preset-prefix" className={labelClass}>Prompt prefix</label>
+              <input id="preset-prefix" className={inputClass} placeholder="e.g. studio photo of " value={draft.promptPrefix} onChange={(e) => setDraft({ ...draft, promptPrefix: e.target.value })} />
+            </div>
+            <div>
+              <label htmlFor="preset-suffix" className={labelClass}>Prompt suffix</label>
+              <input id="preset-suffix" className={inputClass} placeholder="e.g. , soft lighting, 85mm" value={draft.promptSuffix} onChange={(e) => setDraft({ ...draft, promptSuffix: e.target.value })} />
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="preset-negative" className={labelClass}>Default negative prompt</label>
+              <input id="preset-negative" className={inputClass} value={draft.negativePrompt} onChange={(e) => setDraft({ ...draft, negativePrompt: e.target.value })} />
+            </div>
+            <div>
+              <label htmlFor="preset-steps" className={labelClass}>Steps</label>
+              <input id="preset-steps" type="number" min="1" max="150" className={inputClass} placeholder="Keep current" value={draft.steps ?? ''} onChange={(e) => setDraft({ ...draft, steps: parseOptionalNumber(e.target.value) })} />
+            </div>
+            <div>
+              <label htmlFor="preset-guidance" className={labelClass}>Guidance</label>
+              <input id="preset-guidance" type="number" min="0" max="30" step="0.5" className={inputClass} placeholder="Keep current" value={draft.guidance ?? ''} onChange={(e) => setDraft({ ...draft, guidance: parseOptionalNumber(e.target.value) })} />
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="preset-aspect" className={labelClass}>Aspect ratio</label>
+              <select
+                id="preset-aspect"
+                className={inputClass}
+                value={draft.aspectRatio ?? ''}
+                onChange={(e) => setDraft({ ...draft, aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+              >
+                <option value="">Keep current</option>
+                {ASPECT_RATIOS.map((ratio) => (
+                  <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className={`py-1.5 px-3 rounded-md text-sm ${darkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={saveDraft}
+              className={`py-1.5 px-3 rounded-md text-sm font-medium text-white ${darkMode ? 'bg-purple-600 hover:bg-purple-700' : 'bg-purple-500 hover:bg-purple-600'}`}
+            >
+              Save Preset
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className={`flex flex-wrap gap-2 pt-3 border-t ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+          <button
+            type="button"
+            onClick={() => setDraft(emptyPreset())}
+            className={`flex items-center gap-1 py-1.5 px-3 rounded-md text-sm font-medium text-white ${darkMode ? 'bg-purple-600 hover:bg-purple-700' : 'bg-purple-500 hover:bg-purple-600'}`}
+          >
+            <Plus className="h-4 w-4" />
+            New Preset
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={`flex items-center gap-1 py-1.5 px-3 rounded-md text-sm ${darkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadBlob(new Blob([serializeStylePresets(customPresets)], { type: 'application/json' }), 'dreamcanvas-presets.json')}
+            disabled={customPresets.length === 0}
+            className={`flex items-center gap-1 py-1.5 px-3 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed ${darkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-200 hover:bg-gray-300'}`}
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import presets"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {message && <p className={`text-xs mt-2 ${mutedText}`}>{message}</p>}
+    </div>
+  );
+}
+
+export default StylePresetManager;
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Columns2, Loader2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { GeneratedImage, StylePreset } from '../types';
+import type { GenerationJob } from '../hooks/useGenerationQueue';
+import { parameterLabel, sweepValueLabel, type SweepAxis } from '../lib/sweep';
+import HiddenImageOverlay from './HiddenImageOverlay';
+
+interface SweepGridProps {
+  darkMode: boolean;
+  x: SweepAxis;
+  y: SweepAxis | null;
+  // Job ids row by row, matching buildSweepInputs
+  jobIds: string[];
+  jobs: GenerationJob[];
+  // Ids of images still in the gallery; removed ones have revoked URLs
+  galleryIds: Set<string>;
+  presets: StylePreset[];
+  onCompare: (a: GeneratedImage, b: GeneratedImage) => void;
+  onClose: () => void;
+  // Flagged images are blurred until revealed
+  isHidden: (image: GeneratedImage) => boolean;
+  onReveal: (id: string) => void;
+}
+
+// Sweep results laid out by axis. Clicking two images compares them.
+function SweepGrid({ darkMode, x, y, jobIds, jobs, galleryIds, presets, onCompare, onClose, isHidden, onReveal }: SweepGridProps) {
+  const [selected, setSelected] = useState<GeneratedImage[]>([]);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const rows = y?.values ?? [null];
+
+  const toggleSelected = (image: GeneratedImage) => {
+    setSelected(prev =>
+      prev.some(img => img.id === image.id)
+        ? prev.filter(img => img.id !== image.id)
+        : [...prev, image].slice(-2)
+    );
+  };
+
+  const renderCell = (index: number) => {
+    const job = jobs.find(j => j.id === jobIds[index]);
+    const image = job?.status === 'done' && job.result && galleryIds.has(job.result.id) ? job.result : null;
+    if (image && isHidden(image)) {
+      return (
+        <div className="relative rounded-md overflow-hidden">
+          <img src={image.url} alt={image.prompt} className="w-full h-auto blur-xl scale-110" />
+          <HiddenImageOverlay label={image.flagLabel} onReveal={() => onReveal(image.id)} />
+        </div>
+      );
+    }
+    if (image) {
+      const isSelected = selected.some(img => img.id === image.id);
+      return (
+        <button
+          type="button"
+          onClick={() => toggleSelected(image)}
+          aria-pressed={isSelected}
+          className={`block w-full rounded-md overflow-hidden ${isSelected ? 'ring-4 ring-purple-500' : ''}`}
+        >
+          <img src={image.url} alt={image.prompt} className="w-full h-auto" />
+        </button>
+      );
+    }
+    return (
+      <div className={`flex items-center justify-center aspect-square rounded-md text-xs text-center p-2 ${
+        darkMode ? 'bg-gray-700' : 'bg-gray-100'
+      } ${mutedText}`}>
+        {!job ? 'Removed' : job.status === 'running' || job.status === 'queued'
+          ? <Loader2 className="h-5 w-5 animate-spin" />
+          : job.status === 'failed' ? job.error ?? 'Failed' : job.status === 'cancelled' ? 'Cancelled' : 'Removed'}
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      className={`mt-8 ${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold">
+          Sweep: {parameterLabel(x.parameter)}{y && ` × ${parameterLabel(y.parameter)}`}
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className={`text-sm ${mutedText}`}>
+            {selected.length === 2 ? '' : 'Pick two images to compare'}
+          </span>
+          <button
+            type="button"
+            onClick={() => onCompare(selected[0], selected[1])}
+            disabled={selected.length !== 2}
+            className={`flex items-center gap-1 text-sm py-1 px-3 rounded transition-colors disabled:opacity-50 ${
+              darkMode ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-purple-500 hover:bg-purple-600 text-white'
+            }`}
+          >
+            <Columns2 className="h-4 w-4" />
+            Compare
+          </button>
+          <button type="button" onClick={onClose} className={mutedText} title="Close sweep">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-2">
+          <thead>
+            <tr>
+              {y && <th className={`text-xs font-medium ${mutedText}`}>{parameterLabel(y.parameter)} \ {parameterLabel(x.parameter)}</th>}
+              {x.values.map((value) => (
+                <th key={value} scope="col" className="text-sm font-medium min-w-[8rem]">
+                  {sweepValueLabel(x.parameter, value, presets)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((yValue, row) => (
+              <tr key={yValue ?? 'row'}>
+                {y && yValue !== null && (
+                  <th scope="row" className="text-sm font-medium text-right pr-2 whitespace-nowrap">
+                    {sweepValueLabel(y.parameter, yValue, presets)}
+                  </th>
+                )}
+                {x.values.map((xValue, column) => (
+                  <td key={xValue} className="align-top w-40">
+                    {renderCell(row * x.values.length + column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
+
+export default SweepGrid;
@@ -0,0 +1,107 @@
+import type { StylePreset } from '../types';
+import {
+  SWEEP_PARAMETERS,
+  parseSweepAxis,
+  type SweepConfig,
+  type SweepParameter
+} from '../lib/sweep';
+
+interface SweepSettingsProps {
+  darkMode: boolean;
+  config: SweepConfig;
+  onChange: (config: SweepConfig) => void;
+  presets: StylePreset[];
+}
+
+// Number of images the sweep will generate, or why it can't run yet
+const previewSweep = (config: SweepConfig, presets: StylePreset[]): string => {
+  try {
+    const x = parseSweepAxis(config.xParameter, config.xValues, presets);
+    const y = config.yParameter ? parseSweepAxis(config.yParameter, config.yValues, presets) : null;
+    if (y && y.parameter === x.parameter) return 'Pick two different parameters for X and Y.';
+    const count = x.values.length * (y?.values.length ?? 1);
+    return `${x.values.length}${y ? ` × ${y.values.length}` : ''} = ${count} image${count === 1 ? '' : 's'}.`;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid values';
+  }
+};
+
+function SweepSettings({ darkMode, config, onChange, presets }: SweepSettingsProps) {
+  const inputClass = `px-3 py-1 rounded-lg text-sm ${
+    darkMode
+      ? 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400'
+      : 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-500'
+  }`;
+  const labelClass = `text-sm font-medium w-4 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  const placeholder = (parameter: SweepParameter) =>
+    SWEEP_PARAMETERS.find(p => p.id === parameter)?.placeholder;
+
+  return (
+    <div className="mb-4">
+      <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          className="rounded accent-purple-500"
+        />
+        Parameter sweep (XY grid)
+      </label>
+
+      {config.enabled && (
+        <div className={`mt-2 p-3 rounded-lg ${darkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+          <div className="flex items-center gap-2 mb-2">
+            <span className={labelClass}>X</span>
+            <select
+              aria-label="X axis parameter"
+              value={config.xParameter}
+              onChange={(e) => onChange({ ...config, xParameter: e.target.value as SweepParameter, xValues: '' })}
+              className={inputClass}
+            >
+              {SWEEP_PARAMETERS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              aria-label="X axis values"
+              value={config.xValues}
+              onChange={(e) => onChange({ ...config, xValues: e.target.value })}
+              placeholder={placeholder(config.xParameter)}
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={labelClass}>Y</span>
+            <select
+              aria-label="Y axis parameter"
+              value={config.yParameter ?? ''}
+              onChange={(e) => onChange({ ...config, yParameter: (e.target.value || null) as SweepParameter | null, yValues: '' })}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {SWEEP_PARAMETERS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              aria-label="Y axis values"
+              value={config.yValues}
+              onChange={(e) => onChange({ ...config, yValues: e.target.value })}
+              placeholder={config.yParameter ? placeholder(config.yParameter) : 'Optional second parameter'}
+              disabled={!config.yParameter}
+              className={`flex-1 min-w-0 disabled:opacity-50 ${inputClass}`}
+            />
+          </div>
+          <p className={`text-xs mt-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {previewSweep(config, presets)} Every image uses the same seed unless seed is an axis.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SweepSettings;
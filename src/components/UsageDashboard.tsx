@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { BarChart3, ChevronDown, Trash2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { PROVIDERS } from '../lib/providers';
+import { formatDuration } from '../lib/progress';
+import {
+  formatCost,
+  periodStart,
+  totalUsage,
+  usageByPeriod,
+  usageByProvider,
+  type Budget,
+  type UsageRecord
+} from '../lib/usage';
+import BudgetSettings from './BudgetSettings';
+
+interface UsageDashboardProps {
+  darkMode: boolean;
+  records: UsageRecord[];
+  budgets: Budget[];
+  onBudgetsChange: (budgets: Budget[]) => void;
+  onClearHistory: () => void;
+}
+
+type TotalsView = 'day' | 'week';
+
+// How many days or weeks the table goes back
+const PERIOD_COUNT: Record<TotalsView, number> = { day: 7, week: 4 };
+
+const periodLabel = (view: TotalsView, start: number, index: number): string => {
+  if (view === 'day') {
+    if (index === 0) return 'Today';
+    if (index === 1) return 'Yesterday';
+    return new Date(start).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+  if (index === 0) return 'This week';
+  if (index === 1) return 'Last week';
+  return `Week of ${new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+};
+
+// Generation history totals and the budgets checked before each request
+function UsageDashboard({ darkMode, records, budgets, onBudgetsChange, onClearHistory }: UsageDashboardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [view, setView] = useState<TotalsView>('day');
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const now = Date.now();
+  const today = totalUsage(records.filter(record => record.timestamp >= periodStart('day', now)));
+  const monthRecords = records.filter(record => record.timestamp >= periodStart('month', now));
+  const month = totalUsage(monthRecords);
+
+  const toggleClass = (active: boolean) => `text-sm py-1 px-3 rounded transition-colors ${
+    active
+      ? darkMode ? 'bg-purple-600 text-white' : 'bg-purple-500 text-white'
+      : darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  const clearHistory = () => {
+    if (!window.confirm('Clear the usage history? Budgets will start counting from zero.')) return;
+    onClearHistory();
+  };
+
+  return (
+    <motion.div
+      id="usage"
+      className={`mt-8 md:mt-12 ${darkMode ? 'bg-gray-800/50' : 'bg-white'} rounded-xl p-4 md:p-6 shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <h2 className="flex items-center gap-2 text-xl font-semibold">
+          <BarChart3 className="h-5 w-5" />
+          Usage
+        </h2>
+        <span className={`text-sm ${mutedText}`}>
+          Today: {today.images} {today.images === 1 ? 'image' : 'images'} · {formatCost(today.cost)}
+        </span>
+        <span className={`text-sm ${mutedText}`}>
+          This month: {month.images} {month.images === 1 ? 'image' : 'images'} · {formatCost(month.cost)}
+        </span>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+          className={`ml-auto flex items-center gap-1 text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-purple-600 hover:text-purple-700'}`}
+        >
+          {expanded ? 'Hide' : 'Show'} Details and Budgets
+          <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <button type="button" onClick={() => setView('day')} aria-pressed={view === 'day'} className={toggleClass(view === 'day')}>
+                Daily
+              </button>
+              <button type="button" onClick={() => setView('week')} aria-pressed={view === 'week'} className={toggleClass(view === 'week')}>
+                Weekly
+              </button>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={mutedText}>
+                  <th className="text-left font-medium py-1 pr-4">Period</th>
+                  <th className="text-right font-medium py-1 pr-4">Images</th>
+                  <th className="text-right font-medium py-1 pr-4">Failed</th>
+                  <th className="text-right font-medium py-1 pr-4">Time</th>
+                  <th className="text-right font-medium py-1">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {usageByPeriod(records, view, PERIOD_COUNT[view], now).map(({ start, totals }, index) => (
+                  <tr key={start} className={`border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                    <th scope="row" className="text-left font-normal py-1 pr-4 whitespace-nowrap">{periodLabel(view, start, index)}</th>
+                    <td className="text-right py-1 pr-4">{totals.images}</td>
+                    <td className="text-right py-1 pr-4">{totals.failed}</td>
+                    <td className="text-right py-1 pr-4">{formatDuration(totals.durationMs)}</td>
+                    <td className="text-right py-1">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3 className="text-sm font-medium mt-4 mb-1">This month by provider</h3>
+            {monthRecords.length === 0 ? (
+              <p className={`text-sm ${mutedText}`}>Nothing generated this month yet.</p>
+            ) : (
+              <ul className="text-sm space-y-0.5">
+                {usageByProvider(monthRecords).map(({ provider, totals }) => (
+                  <li key={provider} className="flex justify-between gap-4">
+                    <span>{PROVIDERS[provider].name}</span>
+                    <span className={`tabular-nums ${mutedText}`}>
+                      {totals.images} ok · {totals.failed} failed · {formatCost(totals.cost)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className={`text-xs mt-2 ${mutedText}`}>Costs are estimates from published prices; check your provider's billing for exact figures.</p>
+            {records.length > 0 && (
+              <button
+                type="button"
+                onClick={clearHistory}
+                className={`mt-3 flex items-center gap-1 text-sm ${darkMode ? 'text-red-400 hover:text-red-300' : 'text-red-600 hover:text-red-700'}`}
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear history
+              </button>
+            )}
+          </div>
+
+          <BudgetSettings
+            darkMode={darkMode}
+            budgets={budgets}
+            records={records}
+            now={now}
+            onChange={onBudgetsChange}
+          />
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default UsageDashboard;
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { ImagePlus, Loader2, MessageSquare, Repeat, Trash2, X } from 'lucide-react';
+import type { GeneratedImage } from '../types';
+import type { BackendUser, Workspace } from '../lib/backendTypes';
+import { useWorkspaceImages, type WorkspaceGalleryImage } from '../hooks/useWorkspaceImages';
+import ImageComments from './ImageComments';
+
+interface WorkspaceGalleryProps {
+  darkMode: boolean;
+  token: string;
+  user: BackendUser;
+  workspace: Workspace;
+  // Only the signed-in user's images
+  mine: boolean;
+  onRemix: (image: GeneratedImage) => void;
+}
+
+const toGeneratedImage = (entry: WorkspaceGalleryImage): GeneratedImage => ({ ...entry.image, url: entry.url });
+
+// Images shared in a workspace, with who made them and their comments
+function WorkspaceGallery({ darkMode, token, user, workspace, mine, onRemix }: WorkspaceGalleryProps) {
+  const { images, loading, error, remove, setCommentCount } = useWorkspaceImages(token, workspace.id, mine);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const selected = images.find(entry => entry.image.id === selectedId);
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const actionClass = `flex items-center justify-center gap-2 text-sm font-medium py-2 px-3 rounded-lg transition-colors ${
+    darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  const deleteImage = async (entry: WorkspaceGalleryImage) => {
+    if (!window.confirm(`Delete this image from ${workspace.name} for everyone?`)) return;
+    setDeleteError(null);
+    try {
+      await remove(entry.image.id);
+      setSelectedId(null);
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Could not delete the image.');
+    }
+  };
+
+  if (error) {
+    return <p role="alert" className={`text-center py-12 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>;
+  }
+  if (loading && images.length === 0) {
+    return (
+      <div className={`flex justify-center py-12 ${mutedText}`}>
+        <Loader2 className="h-8 w-8 animate-spin" aria-label="Loading workspace images" />
+      </div>
+    );
+  }
+  if (images.length === 0) {
+    return (
+      <div className={`flex flex-col items-center justify-center py-12 ${mutedText}`}>
+        <ImagePlus className="h-12 w-12 mb-4 opacity-50" />
+        <p>{mine ? `Images you generate are shared with ${workspace.name}` : `Nobody has shared images in ${workspace.name} yet`}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <ul className={`grid grid-cols-2 sm:grid-cols-3 gap-4 ${selected ? 'lg:col-span-2' : 'lg:col-span-3 lg:grid-cols-5'}`}>
+        {images.map(entry => (
+          <li key={entry.image.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(entry.image.id)}
+              aria-pressed={entry.image.id === selectedId}
+              className={`block w-full text-left rounded-lg overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-100'} ${
+                entry.image.id === selectedId ? 'ring-4 ring-purple-500' : ''
+              }`}
+            >
+              <div className="aspect-square">
+                {entry.url
+                  ? <img src={entry.url} alt={entry.image.prompt} className="w-full h-full object-cover" loading="lazy" />
+                  : <div className="w-full h-full animate-pulse" />}
+              </div>
+              <div className="flex justify-between items-center gap-2 px-2 py-1.5 text-xs">
+                <span className="truncate">{entry.owner.id === user.id ? 'You' : entry.owner.name}</span>
+                <span className={`flex items-center gap-1 ${mutedText}`} title="Comments">
+                  <MessageSquare className="h-3 w-3" />
+                  {entry.commentCount}
+                </span>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-start gap-2">
+            <div>
+              <p className="text-sm font-medium">{selected.image.prompt}</p>
+              <p className={`text-xs ${mutedText}`}>
+                {selected.owner.id === user.id ? 'You' : selected.owner.name} · {new Date(selected.image.timestamp).toLocaleString()}
+              </p>
+            </div>
+            <button type="button" onClick={() => setSelectedId(null)} aria-label="Close details" className={mutedText}>
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {selected.url && <img src={selected.url} alt={selected.image.prompt} className="w-full rounded-lg" />}
+          <div className="grid grid-cols-2 gap-2">
+            <button type="button" onClick={() => onRemix(toGeneratedImage(selected))} className={actionClass}>
+              <Repeat className="h-4 w-4" />
+              Open in Studio
+            </button>
+            {(selected.owner.id === user.id || workspace.role === 'owner') && (
+              <button
+                type="button"
+                onClick={() => void deleteImage(selected)}
+                className={`flex items-center justify-center gap-2 text-sm font-medium py-2 px-3 rounded-lg transition-colors ${
+                  darkMode ? 'bg-red-900/30 hover:bg-red-900/50 text-red-300' : 'bg-red-100 hover:bg-red-200 text-red-700'
+                }`}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </button>
+            )}
+          </div>
+          {deleteError && <p role="alert" className={`text-xs ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{deleteError}</p>}
+          <ImageComments
+            key={selected.image.id}
+            darkMode={darkMode}
+            token={token}
+            workspaceId={workspace.id}
+            imageId={selected.image.id}
+            onCountChange={(count) => setCommentCount(selected.image.id, count)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkspaceGallery;
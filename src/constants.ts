@@ -0,0 +1,20 @@
+import type { ImageSettings } from './types';
+
+export const DEFAULT_SETTINGS: ImageSettings = {
+  aspectRatio: '1:1',
+  stylePreset: 'photographic',
+  quality: 'standard',
+  steps: 30,
+  guidance: 7.5,
+  // Replaced by a random seed on every generation unless the seed is locked
+  seed: 0,
+  strength: 0.75
+};
+
+// Images shown per page of the gallery
+export const GALLERY_PAGE_SIZE = 20;
+
+// Limits for batch generation and retries
+export const MAX_IMAGES_PER_PROMPT = 8;
+export const MAX_CONCURRENCY = 4;
+export const MAX_RETRIES = 10;
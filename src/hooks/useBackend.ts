@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as backend from '../lib/backend';
+import type { LoginBody, SessionResponse, SignupBody } from '../lib/backendTypes';
+
+export type BackendStatus = 'unknown' | 'unavailable' | 'signed-out' | 'signed-in';
+
+const SIGNED_OUT: SessionResponse = { user: null, workspaces: [] };
+
+// Account and workspace state for the optional backend. The server is only
+// asked once there is a stored session or `active` is set (the settings page
+// is open), so local-only installs never send it a request unprompted.
+export const useBackend = (active: boolean) => {
+  const [status, setStatus] = useState<BackendStatus>('unknown');
+  const [token, setToken] = useState<string | null>(backend.loadToken);
+  const [session, setSession] = useState<SessionResponse>(SIGNED_OUT);
+  const [selectedId, setSelectedId] = useState<string | null>(backend.loadWorkspaceId);
+
+  const applySession = useCallback((next: SessionResponse, nextToken: string | null) => {
+    backend.saveToken(next.user ? nextToken : null);
+    setToken(next.user ? nextToken : null);
+    setSession(next);
+    setStatus(next.user ? 'signed-in' : 'signed-out');
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unknown' || (!token && !active)) return;
+    let cancelled = false;
+    backend.fetchSession(token).then(next => {
+      if (cancelled) return;
+      if (next) applySession(next, token);
+      else setStatus('unavailable');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [status, token, active, applySession]);
+
+  // The chosen workspace, or the first one after it was removed
+  const workspace = session.workspaces.find(w => w.id === selectedId) ?? session.workspaces[0] ?? null;
+
+  const selectWorkspace = useCallback((id: string) => {
+    backend.saveWorkspaceId(id);
+    setSelectedId(id);
+  }, []);
+
+  const signIn = async (mode: 'login' | 'signup', body: SignupBody | LoginBody) => {
+    const response = mode === 'signup' ? await backend.signUp(body as SignupBody) : await backend.logIn(body);
+    applySession(response, response.token);
+  };
+
+  const signOut = () => {
+    if (token) backend.logOut(token).catch(err => console.error('Error signing out:', err));
+    applySession(SIGNED_OUT, null);
+  };
+
+  const createWorkspace = async (name: string) => {
+    if (!token) return;
+    const created = await backend.createWorkspace(token, name);
+    setSession(prev => ({ ...prev, workspaces: [...prev.workspaces, created] }));
+    selectWorkspace(created.id);
+  };
+
+  return {
+    status,
+    token,
+    user: session.user,
+    workspaces: session.workspaces,
+    workspace,
+    selectWorkspace,
+    signIn,
+    signOut,
+    createWorkspace,
+    // Asks the server again, e.g. after starting it
+    retry: () => setStatus('unknown')
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  createContentFilter,
+  loadContentFilter,
+  saveContentFilter,
+  type ContentFilterConfig
+} from '../lib/contentFilter';
+
+// Prompt filter settings, persisted to localStorage
+export const useContentFilter = () => {
+  const [config, setConfig] = useState<ContentFilterConfig>(loadContentFilter);
+  const filter = useMemo(() => createContentFilter(config), [config]);
+
+  useEffect(() => {
+    saveContentFilter(config);
+  }, [config]);
+
+  return { config, setConfig, filter };
+};
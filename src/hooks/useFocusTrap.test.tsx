@@ -0,0 +1,58 @@
+import { useRef, useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useFocusTrap } from './useFocusTrap';
+
+function Dialog({ onClose }: { onClose: () => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+  useFocusTrap(ref, true);
+  return (
+    <div ref={ref}>
+      <input aria-label="Name" />
+      <button type="button" disabled>Disabled</button>
+      <span tabIndex={-1}>Not a tab stop</span>
+      <button type="button" onClick={onClose}>Close</button>
+    </div>
+  );
+}
+
+function Page() {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button type="button" onClick={() => setOpen(true)}>Open</button>
+      {open && <Dialog onClose={() => setOpen(false)} />}
+      <button type="button">Outside</button>
+    </>
+  );
+}
+
+describe('useFocusTrap', () => {
+  it('moves focus into the container and wraps Tab and Shift+Tab at its ends', async () => {
+    const user = userEvent.setup();
+    render(<Page />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    expect(screen.getByLabelText('Name')).toHaveFocus();
+
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+    await user.tab();
+    expect(screen.getByLabelText('Name')).toHaveFocus();
+    await user.tab({ shift: true });
+    expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+    await user.tab({ shift: true });
+    expect(screen.getByLabelText('Name')).toHaveFocus();
+  });
+
+  it('gives focus back to where it came from once released', async () => {
+    const user = userEvent.setup();
+    render(<Page />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    await user.click(screen.getByRole('button', { name: 'Close' }));
+    expect(screen.getByRole('button', { name: 'Open' })).toHaveFocus();
+
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Outside' })).toHaveFocus();
+  });
+});
@@ -0,0 +1,44 @@
+import { useEffect, type RefObject } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]';
+
+const focusableIn = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(element => element.tabIndex >= 0);
+
+// Keeps Tab and Shift+Tab inside `containerRef` while `active`. Focus moves
+// into the container unless it's already there, and goes back to where it
+// came from once the trap is released.
+export const useFocusTrap = (containerRef: RefObject<HTMLElement>, active: boolean): void => {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    if (!container.contains(document.activeElement)) focusableIn(container)[0]?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const focusable = focusableIn(container);
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const inside = container.contains(document.activeElement);
+      if (e.shiftKey && (!inside || document.activeElement === first)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (!inside || document.activeElement === last)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      // Only take focus back if it hasn't already moved on elsewhere
+      const current = document.activeElement;
+      if (previous?.isConnected && (!current || current === document.body || container.contains(current))) {
+        previous.focus();
+      }
+    };
+  }, [containerRef, active]);
+};
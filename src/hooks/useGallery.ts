@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GeneratedImage } from '../types';
+import * as imageStore from '../lib/imageStore';
+import { loadRetention, normalizeTag, saveRetention, type GalleryRetention } from '../lib/gallery';
+import { createGalleryArchive, readGalleryArchive } from '../lib/galleryArchive';
+
+type ImageUpdate = (image: GeneratedImage | imageStore.StoredImage) => Partial<Pick<GeneratedImage, 'favorite' | 'tags'>>;
+
+export const toGeneratedImage = ({ blob, ...image }: imageStore.StoredImage): GeneratedImage => ({
+  ...image,
+  url: URL.createObjectURL(blob)
+});
+
+// The full image history backed by IndexedDB. Object URLs are created on
+// load and revoked whenever an image leaves the gallery.
+export const useGallery = () => {
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  // Whether the stored images have been read, so missing ones can be told apart
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [retention, setRetentionState] = useState<GalleryRetention>(loadRetention);
+
+  const removeFromState = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    setImages(prev => {
+      prev.filter(img => removed.has(img.id)).forEach(img => URL.revokeObjectURL(img.url));
+      return prev.filter(img => !removed.has(img.id));
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    imageStore.migrateLegacyImages()
+      .then(() => imageStore.pruneImages(loadRetention()))
+      .then(() => imageStore.loadImages())
+      .then(stored => {
+        if (cancelled) return;
+        setImages(stored.map(toGeneratedImage));
+      })
+      .catch(err => console.error('Error loading gallery:', err))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Adds an image that is already saved to the store, then applies retention
+  const addImage = useCallback(async (storedImage: imageStore.StoredImage): Promise<GeneratedImage> => {
+    const newImage = toGeneratedImage(storedImage);
+    setImages(prev => [newImage, ...prev]);
+    removeFromState(await imageStore.pruneImages(retention));
+    return newImage;
+  }, [retention, removeFromState]);
+
+  const updateImages = (ids: string[], update: ImageUpdate) => {
+    const selected = new Set(ids);
+    setImages(prev => prev.map(img => (selected.has(img.id) ? { ...img, ...update(img) } : img)));
+    imageStore.updateImages(ids, update).catch(err => console.error('Error updating images:', err));
+  };
+
+  const setRetention = (next: GalleryRetention) => {
+    saveRetention(next);
+    setRetentionState(next);
+    imageStore.pruneImages(next)
+      .then(removeFromState)
+      .catch(err => console.error('Error applying retention:', err));
+  };
+
+  const deleteImages = (ids: string[]) => {
+    removeFromState(ids);
+    imageStore.deleteImages(ids).catch(err => console.error('Error deleting images:', err));
+  };
+
+  // Bundles the given images, or the whole gallery, into a ZIP with a manifest
+  const exportImages = async (ids?: string[]): Promise<Blob> => {
+    const stored = await imageStore.loadImages();
+    const selected = ids ? new Set(ids) : null;
+    return createGalleryArchive(selected ? stored.filter(img => selected.has(img.id)) : stored);
+  };
+
+  // Restores images from an exported ZIP. Images already in the gallery are skipped.
+  const importArchive = async (file: Blob): Promise<{ imported: number; skipped: number }> => {
+    const archived = readGalleryArchive(new Uint8Array(await file.arrayBuffer()));
+    const existing = new Set((await imageStore.loadImages()).map(img => img.id));
+    const added = archived.filter(img => !existing.has(img.id));
+    await imageStore.saveImages(added);
+
+    const newImages = added.map(toGeneratedImage);
+    setImages(prev => [...prev, ...newImages].sort((a, b) => b.timestamp - a.timestamp));
+    removeFromState(await imageStore.pruneImages(retention));
+    return { imported: added.length, skipped: archived.length - added.length };
+  };
+
+  const clearImages = () => {
+    images.forEach(img => URL.revokeObjectURL(img.url));
+    setImages([]);
+    imageStore.clearImages().catch(err => console.error('Error clearing gallery:', err));
+  };
+
+  return {
+    images,
+    loaded,
+    retention,
+    setRetention,
+    addImage,
+    deleteImages,
+    clearImages,
+    exportImages,
+    importArchive,
+    setFavorite: (ids: string[], favorite: boolean) => updateImages(ids, () => ({ favorite })),
+    addTag: (ids: string[], tag: string) => {
+      const normalized = normalizeTag(tag);
+      if (!normalized) return;
+      updateImages(ids, img => ({ tags: img.tags.includes(normalized) ? img.tags : [...img.tags, normalized] }));
+    },
+    removeTag: (id: string, tag: string) => updateImages([id], img => ({ tags: img.tags.filter(t => t !== tag) }))
+  };
+};
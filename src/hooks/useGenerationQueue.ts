@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GeneratedImage } from '../types';
+import * as imageStore from '../lib/imageStore';
+import type { StoredImage } from '../lib/imageStore';
+import { createJobQueue, type Job } from '../lib/jobQueue';
+import { runGeneration } from '../lib/generation';
+import type { GenerationInput } from '../lib/generationClient';
+import type { GenerationProgress } from '../lib/progress';
+import type { BudgetReservation, UsageRecord } from '../lib/usage';
+
+export type GenerationJob = Job<GenerationInput, GeneratedImage, GenerationProgress>;
+
+interface GenerationQueueOptions {
+  // Receives each finished image (usually the gallery) and returns the
+  // image shown in the results
+  onGenerated: (image: StoredImage) => Promise<GeneratedImage>;
+  concurrency: number;
+  // Asked for the expected duration when a job starts, so jobs later in a
+  // batch benefit from the timings of earlier ones
+  estimateMs?: (input: GenerationInput) => number | undefined;
+  // Receives the ledger entry of every job that was sent
+  onUsage?: (record: UsageRecord) => void;
+  // Asked right before a job is sent; a blocked budget fails the job
+  // instead. The reservation is released once the job's usage is recorded.
+  reserveBudget?: (input: GenerationInput) => BudgetReservation;
+}
+
+// Queue of generation jobs. The callbacks may change between renders; jobs
+// always use the latest ones.
+export const useGenerationQueue = ({ onGenerated, concurrency, estimateMs, onUsage, reserveBudget }: GenerationQueueOptions) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const callbacksRef = useRef({ onGenerated, estimateMs, onUsage, reserveBudget });
+
+  useEffect(() => {
+    callbacksRef.current = { onGenerated, estimateMs, onUsage, reserveBudget };
+  }, [onGenerated, estimateMs, onUsage, reserveBudget]);
+
+  const [queue] = useState(() => createJobQueue<GenerationInput, GeneratedImage, GenerationProgress>({
+    concurrency,
+    onChange: setJobs,
+    worker: async (input, signal, reportProgress) => {
+      const callbacks = callbacksRef.current;
+      const reservation = callbacks.reserveBudget?.(input);
+      if (reservation && reservation.blocked.length > 0) throw new Error(reservation.blocked[0]);
+      let stored: StoredImage;
+      try {
+        stored = await runGeneration(
+          { ...input, expectedMs: callbacks.estimateMs?.(input) },
+          signal,
+          reportProgress,
+          (record) => {
+            // Swap the reservation for the record in one go
+            reservation?.release();
+            callbacks.onUsage?.(record);
+          }
+        );
+      } finally {
+        reservation?.release();
+      }
+      if (signal.aborted) {
+        // Cancelled once the image was already saved; the job shows as
+        // cancelled, so don't leave the image in the store
+        await imageStore.deleteImages([stored.id]);
+        throw new Error('Generation was cancelled.');
+      }
+      return callbacksRef.current.onGenerated(stored);
+    }
+  }));
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  return {
+    queue,
+    jobs,
+    isLoading: jobs.some(job => job.status === 'queued' || job.status === 'running')
+  };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { LOCATION_CHANGE_EVENT } from '../lib/router';
+
+export interface Location {
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+const readLocation = (): Location => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+  hash: window.location.hash
+});
+
+// The current URL, updated on navigate() and on back and forward
+export const useLocation = (): Location => {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const update = () => setLocation(readLocation());
+    window.addEventListener('popstate', update);
+    window.addEventListener(LOCATION_CHANGE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(LOCATION_CHANGE_EVENT, update);
+    };
+  }, []);
+
+  return location;
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+// Current time that re-renders every `intervalMs` while `active` is true
+export const useNow = (active: boolean, intervalMs = 1000): number => {
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [active, intervalMs]);
+
+  return now;
+};
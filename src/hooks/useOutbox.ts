@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GenerationInput } from '../lib/generationClient';
+import * as outbox from '../lib/outbox';
+
+// Generations waiting for the connection to come back. Whenever the app is
+// online, everything in the outbox is handed to `send` (the generation
+// queue) and removed.
+export const useOutbox = (online: boolean, send: (inputs: GenerationInput[]) => void) => {
+  const [entries, setEntries] = useState<outbox.OutboxEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const sendRef = useRef(send);
+  // Entries already handed over, so a repeated effect can't send them twice
+  const sentIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    sendRef.current = send;
+  }, [send]);
+
+  useEffect(() => {
+    let cancelled = false;
+    outbox.loadOutbox()
+      .then(saved => {
+        if (cancelled) return;
+        setEntries(prev => [...saved, ...prev.filter(entry => !saved.some(s => s.id === entry.id))]);
+        setLoaded(true);
+      })
+      .catch(err => console.error('Error loading outbox:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!online || !loaded) return;
+    const waiting = entries.filter(entry => !sentIds.current.has(entry.id));
+    if (waiting.length === 0) return;
+    waiting.forEach(entry => sentIds.current.add(entry.id));
+    sendRef.current(waiting.map(entry => entry.input));
+    setEntries(prev => prev.filter(entry => !sentIds.current.has(entry.id)));
+    outbox.removeFromOutbox(waiting.map(entry => entry.id))
+      .catch(err => console.error('Error clearing outbox:', err));
+  }, [online, loaded, entries]);
+
+  const add = useCallback((inputs: GenerationInput[]) => {
+    const added = outbox.createOutboxEntries(inputs);
+    setEntries(prev => [...prev, ...added]);
+    outbox.addToOutbox(added).catch(err => console.error('Error saving to outbox:', err));
+  }, []);
+
+  const remove = useCallback((ids: string[]) => {
+    const removed = new Set(ids);
+    setEntries(prev => prev.filter(entry => !removed.has(entry.id)));
+    outbox.removeFromOutbox(ids).catch(err => console.error('Error removing from outbox:', err));
+  }, []);
+
+  return { entries, add, remove };
+};
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import type { Route } from '../lib/routes';
+import type { Location } from './useLocation';
+
+const PAGE_TITLES: Record<Route['page'], string> = {
+  home: 'AI Image Generation',
+  studio: 'Studio',
+  gallery: 'Gallery',
+  image: 'Image',
+  settings: 'Settings',
+  'not-found': 'Page Not Found'
+};
+
+// Keeps the document in step with the page: new pages start at the top, or
+// at the section named in the hash, and the title names the page
+export const usePageNavigation = (location: Location, page: Route['page']) => {
+  useEffect(() => {
+    if (location.hash) {
+      const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+      document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: reduceMotion ? 'auto' : 'smooth' });
+    } else {
+      window.scrollTo(0, 0);
+    }
+  }, [location.pathname, location.hash]);
+
+  useEffect(() => {
+    document.title = `DreamCanvas AI - ${PAGE_TITLES[page]}`;
+  }, [page]);
+};
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import {
+  addHistoryEntry,
+  createLibraryId,
+  loadHistory,
+  loadTemplates,
+  saveHistory,
+  saveTemplates,
+  type PromptHistoryEntry,
+  type PromptTemplate
+} from '../lib/promptLibrary';
+
+export const usePromptLibrary = () => {
+  const [history, setHistory] = useState<PromptHistoryEntry[]>(loadHistory);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
+  return {
+    history,
+    templates,
+    recordPrompt: (prompt: string, negativePrompt: string) => {
+      setHistory(prev => addHistoryEntry(prev, prompt, negativePrompt));
+    },
+    removeHistoryEntry: (id: string) => {
+      setHistory(prev => prev.filter(entry => entry.id !== id));
+    },
+    clearHistory: () => setHistory([]),
+    // Saving under an existing name replaces that template
+    saveTemplate: (name: string, prompt: string, negativePrompt: string) => {
+      setTemplates(prev => [
+        { id: createLibraryId(), name, prompt, negativePrompt, createdAt: Date.now() },
+        ...prev.filter(template => template.name !== name)
+      ]);
+    },
+    deleteTemplate: (id: string) => {
+      setTemplates(prev => prev.filter(template => template.id !== id));
+    }
+  };
+};
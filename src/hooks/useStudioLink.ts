@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { navigate } from '../lib/router';
+import { decodeStudioSetup, encodeStudioSetup, type StudioSetup } from '../lib/routes';
+
+// How long the studio URL waits for typing to pause before following the form
+const URL_SYNC_DELAY_MS = 300;
+
+// Studio links fill in the form through `onOpen`. While the studio is open its
+// URL follows the form's `setup`, so the current setup can be copied or
+// bookmarked at any time. Returns the query string of that setup.
+export const useStudioLink = (
+  active: boolean,
+  search: string,
+  setup: StudioSetup,
+  onOpen: (setup: StudioSetup) => void
+): string => {
+  const syncedSearch = useRef<string | null>(null);
+  const onOpenRef = useRef(onOpen);
+  const studioSearch = encodeStudioSetup(setup);
+
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+  }, [onOpen]);
+
+  useEffect(() => {
+    if (!active || search === syncedSearch.current) return;
+    syncedSearch.current = search;
+    const linked = decodeStudioSetup(search);
+    if (linked) onOpenRef.current(linked);
+  }, [active, search]);
+
+  useEffect(() => {
+    if (!active || studioSearch === search) return;
+    const timer = setTimeout(() => {
+      syncedSearch.current = studioSearch;
+      navigate(`/studio${studioSearch}`, { replace: true });
+    }, URL_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [active, studioSearch, search]);
+
+  return studioSearch;
+};
@@ -0,0 +1,55 @@
+import type { GeneratedImage } from '../types';
+import type { StoredImage } from '../lib/imageStore';
+import { estimateGenerationCost, type GenerationInput } from '../lib/generationClient';
+import { PROVIDERS, type ImageProvider } from '../lib/providers';
+import type { BudgetCheck, PlannedUsage } from '../lib/usage';
+import { useGenerationQueue, type GenerationJob } from './useGenerationQueue';
+import { useOnlineStatus } from './useOnlineStatus';
+import { useOutbox } from './useOutbox';
+import { useUsage } from './useUsage';
+
+const planUsage = (inputs: GenerationInput[]): PlannedUsage[] =>
+  inputs.map(input => ({ provider: input.providerId, cost: estimateGenerationCost(input) }));
+
+interface StudioQueueOptions {
+  onGenerated: (image: StoredImage) => Promise<GeneratedImage>;
+  concurrency: number;
+  estimateMs: (input: GenerationInput) => number | undefined;
+}
+
+// The studio's generation queue together with the usage ledger and the
+// outbox: every job that was sent is recorded, budgets are checked for whole
+// batches before they are queued, and batches submitted offline wait in the
+// outbox until the connection returns.
+export const useStudioQueue = ({ onGenerated, concurrency, estimateMs }: StudioQueueOptions) => {
+  const usage = useUsage();
+  const { queue, jobs, isLoading } = useGenerationQueue({
+    onGenerated,
+    concurrency,
+    estimateMs,
+    onUsage: usage.record,
+    // Hard limits are checked again as each job starts, since earlier jobs
+    // may have used up the budget in the meantime
+    reserveBudget: (input) => usage.reserveBudget(planUsage([input])[0])
+  });
+
+  const online = useOnlineStatus();
+  const outbox = useOutbox(online, queue.enqueue);
+  // Providers that run in the browser work offline
+  const savesToOutbox = (provider: ImageProvider) => !online && !provider.send;
+
+  const checkBudgets = (inputs: GenerationInput[]): BudgetCheck => usage.checkBudgets(planUsage(inputs));
+
+  // Queues a batch in place of the finished jobs, or saves it to the outbox
+  // and returns null
+  const submit = (inputs: GenerationInput[]): GenerationJob[] | null => {
+    if (savesToOutbox(PROVIDERS[inputs[0].providerId])) {
+      outbox.add(inputs);
+      return null;
+    }
+    queue.clearFinished();
+    return queue.enqueue(inputs);
+  };
+
+  return { queue, jobs, isLoading, usage, online, outbox, savesToOutbox, checkBudgets, submit };
+};
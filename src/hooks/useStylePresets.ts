@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import type { StylePreset } from '../types';
+import {
+  BUILT_IN_STYLE_PRESETS,
+  createPresetId,
+  loadCustomPresets,
+  saveCustomPresets
+} from '../lib/stylePresets';
+
+const isBuiltInId = (id: string): boolean => BUILT_IN_STYLE_PRESETS.some(preset => preset.id === id);
+
+export const useStylePresets = () => {
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>(loadCustomPresets);
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  return {
+    presets: [...BUILT_IN_STYLE_PRESETS, ...customPresets],
+    customPresets,
+    // Adds a new preset or replaces the custom preset with the same id
+    savePreset: (preset: StylePreset) => {
+      const saved = isBuiltInId(preset.id) ? { ...preset, id: createPresetId(preset.name) } : preset;
+      setCustomPresets(prev =>
+        prev.some(p => p.id === saved.id)
+          ? prev.map(p => (p.id === saved.id ? saved : p))
+          : [...prev, saved]
+      );
+      return saved;
+    },
+    deletePreset: (id: string) => {
+      setCustomPresets(prev => prev.filter(preset => preset.id !== id));
+    },
+    // Imported presets never replace built-ins; clashing ids get a new one
+    importPresets: (presets: StylePreset[]) => {
+      const imported = presets.map(preset =>
+        isBuiltInId(preset.id) ? { ...preset, id: createPresetId(preset.name) } : preset
+      );
+      setCustomPresets(prev => [
+        ...prev.filter(preset => !imported.some(p => p.id === preset.id)),
+        ...imported
+      ]);
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import type { StylePreset } from '../types';
+import type { GenerationInput } from '../lib/generationClient';
+import { DEFAULT_SWEEP_CONFIG, buildSweepInputs, parseSweepAxis, type SweepAxis, type SweepConfig } from '../lib/sweep';
+
+export interface SweepAxes {
+  x: SweepAxis;
+  y: SweepAxis | null;
+}
+
+// A sweep that was sent; jobIds are the grid cells row by row
+export interface SweepRun extends SweepAxes {
+  jobIds: string[];
+}
+
+// The sweep set up in the studio form and the grid of the last one sent
+export const useSweep = (presets: StylePreset[]) => {
+  const [config, setConfig] = useState<SweepConfig>(DEFAULT_SWEEP_CONFIG);
+  const [run, setRun] = useState<SweepRun | null>(null);
+
+  // Every job of the configured sweep, each a variation of `base`. Throws
+  // with a message for the form when the axis values don't parse.
+  const plan = (base: GenerationInput): { axes: SweepAxes; inputs: GenerationInput[] } => {
+    const x = parseSweepAxis(config.xParameter, config.xValues, presets);
+    const y = config.yParameter ? parseSweepAxis(config.yParameter, config.yValues, presets) : null;
+    return { axes: { x, y }, inputs: buildSweepInputs(base, x, y, presets) };
+  };
+
+  return { config, setConfig, run, setRun, plan };
+};
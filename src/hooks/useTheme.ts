@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+// Dark mode preference, persisted to localStorage and mirrored on <html>
+export const useTheme = () => {
+  const [darkMode, setDarkMode] = useState<boolean>(() => localStorage.getItem('darkMode') !== 'false');
+
+  useEffect(() => {
+    localStorage.setItem('darkMode', String(darkMode));
+    document.documentElement.classList.toggle('dark', darkMode);
+  }, [darkMode]);
+
+  return {
+    darkMode,
+    toggleTheme: () => setDarkMode(prev => !prev)
+  };
+};
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as usage from '../lib/usage';
+
+// The usage ledger from IndexedDB and the budgets from localStorage. The
+// latest records are also kept in a ref, and running jobs reserve their
+// share up front, so budget checks made by jobs that run side by side see
+// each other's usage.
+export const useUsage = () => {
+  const [records, setRecords] = useState<usage.UsageRecord[]>([]);
+  const [budgets, setBudgets] = useState<usage.Budget[]>(usage.loadBudgets);
+  const recordsRef = useRef<usage.UsageRecord[]>([]);
+  const reservedRef = useRef(new Set<usage.PlannedUsage>());
+
+  const updateRecords = useCallback((next: usage.UsageRecord[]) => {
+    recordsRef.current = next;
+    setRecords(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = Date.now() - usage.USAGE_RETENTION_MS;
+
+    usage.pruneUsage(since)
+      .then(() => usage.loadUsage(since))
+      .then(loaded => {
+        if (cancelled) return;
+        // Keep anything recorded while the ledger was loading
+        const loadedIds = new Set(loaded.map(record => record.id));
+        updateRecords([...loaded, ...recordsRef.current.filter(record => !loadedIds.has(record.id))]);
+      })
+      .catch(err => console.error('Error loading usage history:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [updateRecords]);
+
+  useEffect(() => {
+    usage.saveBudgets(budgets);
+  }, [budgets]);
+
+  const record = useCallback((entry: usage.UsageRecord) => {
+    updateRecords([...recordsRef.current, entry]);
+    usage.saveUsageRecord(entry).catch(err => console.error('Error saving usage record:', err));
+  }, [updateRecords]);
+
+  const checkBudgets = useCallback((planned: usage.PlannedUsage[]): usage.BudgetCheck =>
+    usage.checkBudgets(budgets, recordsRef.current, planned, Date.now(), [...reservedRef.current]), [budgets]);
+
+  // Checks one job and, when it fits, holds its share until `release`
+  const reserveBudget = useCallback((planned: usage.PlannedUsage): usage.BudgetReservation => {
+    const check = checkBudgets([planned]);
+    if (check.blocked.length > 0) return { ...check, release: () => {} };
+    // A copy, so reserving the same plan twice holds it twice
+    const held = { ...planned };
+    reservedRef.current.add(held);
+    return { ...check, release: () => reservedRef.current.delete(held) };
+  }, [checkBudgets]);
+
+  const clearHistory = () => {
+    updateRecords([]);
+    usage.clearUsage().catch(err => console.error('Error clearing usage history:', err));
+  };
+
+  return { records, budgets, setBudgets, record, checkBudgets, reserveBudget, clearHistory };
+};
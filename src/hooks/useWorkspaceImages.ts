@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as backend from '../lib/backend';
+import type { WorkspaceImage } from '../lib/backendTypes';
+
+export interface WorkspaceGalleryImage extends WorkspaceImage {
+  // Object URL of the downloaded file; empty until it arrives
+  url: string;
+}
+
+// Images shared in a workspace, all of them or only the signed-in user's.
+// Files need the session token, so they are downloaded and shown through
+// object URLs, which are revoked when the list changes.
+export const useWorkspaceImages = (token: string | null, workspaceId: string | null, mine: boolean) => {
+  const [images, setImages] = useState<WorkspaceGalleryImage[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const urlsRef = useRef<string[]>([]);
+
+  const revokeAll = () => {
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current = [];
+  };
+
+  useEffect(() => {
+    if (!token || !workspaceId) {
+      setImages([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    backend.listWorkspaceImages(token, workspaceId, mine)
+      .then(listed => {
+        if (cancelled) return;
+        revokeAll();
+        setImages(listed.map(entry => ({ ...entry, url: '' })));
+        listed.forEach(entry => {
+          backend.fetchWorkspaceImageFile(token, workspaceId, entry.image.id)
+            .then(blob => {
+              if (cancelled) return;
+              const url = URL.createObjectURL(blob);
+              urlsRef.current.push(url);
+              setImages(prev => prev.map(img => (img.image.id === entry.image.id ? { ...img, url } : img)));
+            })
+            .catch(err => console.error('Error loading workspace image:', err));
+        });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the workspace gallery.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, workspaceId, mine, version]);
+
+  useEffect(() => revokeAll, []);
+
+  const remove = async (imageId: string) => {
+    if (!token || !workspaceId) return;
+    await backend.deleteWorkspaceImage(token, workspaceId, imageId);
+    setImages(prev => prev.filter(img => img.image.id !== imageId));
+  };
+
+  const setCommentCount = useCallback((imageId: string, commentCount: number) => {
+    setImages(prev => prev.map(img => (img.image.id === imageId ? { ...img, commentCount } : img)));
+  }, []);
+
+  return {
+    images,
+    loading,
+    error,
+    remove,
+    setCommentCount,
+    refresh: () => setVersion(v => v + 1)
+  };
+};
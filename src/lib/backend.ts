@@ -0,0 +1,127 @@
+import {
+  BACKEND_API_PATH,
+  BackendError,
+  type AuthResponse,
+  type BackendErrorBody,
+  type ImageComment,
+  type ImageRecord,
+  type LoginBody,
+  type SessionResponse,
+  type SignupBody,
+  type UploadImageBody,
+  type Workspace,
+  type WorkspaceImage,
+  type WorkspaceMember
+} from './backendTypes';
+import { sniffImageType } from './imageFormat';
+import { proxyBaseUrl } from './providers/proxy';
+
+// Client for the optional accounts and workspaces backend in `server/`. The
+// session token and the chosen workspace are kept in localStorage.
+
+const TOKEN_KEY = 'backendToken';
+const WORKSPACE_KEY = 'backendWorkspace';
+
+export const loadToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const saveToken = (token: string | null) => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+export const loadWorkspaceId = (): string | null => localStorage.getItem(WORKSPACE_KEY);
+
+export const saveWorkspaceId = (id: string | null) => {
+  if (id) localStorage.setItem(WORKSPACE_KEY, id);
+  else localStorage.removeItem(WORKSPACE_KEY);
+};
+
+const isJson = (response: Response) => response.headers.get('Content-Type')?.includes('application/json') ?? false;
+
+const send = async (path: string, token: string | null, init: RequestInit = {}): Promise<Response> => {
+  const headers: Record<string, string> = {};
+  if (init.body) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${proxyBaseUrl()}${BACKEND_API_PATH}${path}`, { ...init, headers });
+  } catch (err) {
+    console.error('Backend request failed:', err);
+    throw new BackendError('unknown', 'Could not reach the workspace server. Is it running?');
+  }
+  if (response.ok) return response;
+
+  const body = isJson(response) ? (await response.json().catch(() => null)) as BackendErrorBody | null : null;
+  if (body?.error) throw new BackendError(body.error.code, body.error.message, response.status);
+  throw new BackendError('unknown', `Workspace server failed with status ${response.status}`, response.status);
+};
+
+const request = async <T>(path: string, token: string | null, method = 'GET', body?: unknown): Promise<T> => {
+  const response = await send(path, token, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+  return (await response.json()) as T;
+};
+
+// Providers don't always label their images, so the type comes from the bytes
+const imageDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${sniffImageType(bytes) ?? blob.type};base64,${btoa(binary)}`;
+};
+
+const workspacePath = (workspaceId: string, rest = '') => `/workspaces/${encodeURIComponent(workspaceId)}${rest}`;
+const imagePath = (workspaceId: string, imageId: string, rest = '') =>
+  workspacePath(workspaceId, `/images/${encodeURIComponent(imageId)}${rest}`);
+
+// The current session, or null when no backend is running. Without one the
+// server falls back to the app's HTML, so anything but JSON means "absent".
+export const fetchSession = async (token: string | null): Promise<SessionResponse | null> => {
+  try {
+    const response = await fetch(`${proxyBaseUrl()}${BACKEND_API_PATH}/session`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+    return response.ok && isJson(response) ? (await response.json()) as SessionResponse : null;
+  } catch {
+    return null;
+  }
+};
+
+export const signUp = (body: SignupBody) => request<AuthResponse>('/signup', null, 'POST', body);
+
+export const logIn = (body: LoginBody) => request<AuthResponse>('/login', null, 'POST', body);
+
+export const logOut = (token: string) => request<unknown>('/logout', token, 'POST');
+
+export const createWorkspace = (token: string, name: string) => request<Workspace>('/workspaces', token, 'POST', { name });
+
+export const listMembers = (token: string, workspaceId: string) =>
+  request<WorkspaceMember[]>(workspacePath(workspaceId, '/members'), token);
+
+// Adds an existing account by email and returns the new member list
+export const addMember = (token: string, workspaceId: string, email: string) =>
+  request<WorkspaceMember[]>(workspacePath(workspaceId, '/members'), token, 'POST', { email });
+
+// Newest first; `mine` limits the list to the signed-in user's images
+export const listWorkspaceImages = (token: string, workspaceId: string, mine: boolean) =>
+  request<WorkspaceImage[]>(workspacePath(workspaceId, `/images${mine ? '?owner=me' : ''}`), token);
+
+export const fetchWorkspaceImageFile = async (token: string, workspaceId: string, imageId: string): Promise<Blob> =>
+  (await send(imagePath(workspaceId, imageId, '/file'), token)).blob();
+
+export const uploadWorkspaceImage = async (token: string, workspaceId: string, image: ImageRecord, blob: Blob) =>
+  request<WorkspaceImage>(workspacePath(workspaceId, '/images'), token, 'POST', {
+    image,
+    data: await imageDataUrl(blob)
+  } satisfies UploadImageBody);
+
+export const deleteWorkspaceImage = (token: string, workspaceId: string, imageId: string) =>
+  request<unknown>(imagePath(workspaceId, imageId), token, 'DELETE');
+
+export const listComments = (token: string, workspaceId: string, imageId: string) =>
+  request<ImageComment[]>(imagePath(workspaceId, imageId, '/comments'), token);
+
+export const addComment = (token: string, workspaceId: string, imageId: string, body: string) =>
+  request<ImageComment>(imagePath(workspaceId, imageId, '/comments'), token, 'POST', { body });
@@ -0,0 +1,94 @@
+import type { GeneratedImage } from '../types';
+
+// Wire format of the optional accounts and workspaces backend (`server/`).
+// Requests are JSON and authenticated with `Authorization: Bearer <token>`.
+
+export const BACKEND_API_PATH = '/api/backend';
+
+export type BackendErrorCode = 'bad-request' | 'unauthorized' | 'forbidden' | 'not-found' | 'conflict' | 'rate-limited' | 'unknown';
+
+export class BackendError extends Error {
+  code: BackendErrorCode;
+  status?: number;
+
+  constructor(code: BackendErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'BackendError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface BackendErrorBody {
+  error: {
+    code: BackendErrorCode;
+    message: string;
+  };
+}
+
+export interface BackendUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export type WorkspaceRole = 'owner' | 'member';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // The signed-in user's role
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  user: BackendUser;
+  role: WorkspaceRole;
+}
+
+// GET /session. `user` is null without a valid token.
+export interface SessionResponse {
+  user: BackendUser | null;
+  workspaces: Workspace[];
+}
+
+// POST /signup and POST /login
+export interface SignupBody {
+  email: string;
+  name: string;
+  password: string;
+}
+
+export type LoginBody = Omit<SignupBody, 'name'>;
+
+export interface AuthResponse extends SessionResponse {
+  user: BackendUser;
+  token: string;
+}
+
+// What the server keeps of an image besides its file
+export type ImageRecord = Omit<GeneratedImage, 'url'>;
+
+// POST /workspaces/:id/images, with the file as a data URL
+export interface UploadImageBody {
+  image: ImageRecord;
+  data: string;
+}
+
+// GET /workspaces/:id/images lists these, newest first. The file is at
+// /workspaces/:id/images/:imageId/file.
+export interface WorkspaceImage {
+  image: ImageRecord;
+  owner: Pick<BackendUser, 'id' | 'name'>;
+  commentCount: number;
+}
+
+export interface ImageComment {
+  id: string;
+  author: Pick<BackendUser, 'id' | 'name'>;
+  body: string;
+  timestamp: number;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_COMMENT_LENGTH = 2000;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { clipTokens } from './clipTokenizer';
+
+const ids = (text: string) => clipTokens(text).map(token => token.id);
+
+describe('clipTokens', () => {
+  it('matches the ids of the CLIP tokenizer', () => {
+    expect(ids('a photo of a cat')).toEqual([320, 1125, 539, 320, 2368]);
+    expect(ids('A Photo of a DOG')).toEqual([320, 1125, 539, 320, 1929]);
+    // Every digit is a token of its own
+    expect(ids('1024')).toEqual([272, 271, 273, 275]);
+  });
+
+  it('splits long words into pieces and merges common punctuation', () => {
+    expect(ids('photorealistic')).toEqual([1153, 16157]);
+    expect(ids('castle, dawn!!')).toEqual([3540, 267, 7689, 748]);
+  });
+
+  it('knows where each token came from', () => {
+    const text = 'a castle, 16k';
+    expect(clipTokens(text).map(({ start, end }) => text.slice(start, end))).toEqual(['a', 'castle', ',', '1', '6', 'k']);
+  });
+
+  it('encodes characters outside ASCII as UTF-8 bytes', () => {
+    const tokens = clipTokens('café ☕');
+    expect(tokens.every(token => Number.isInteger(token.id))).toBe(true);
+    expect(tokens[0].start).toBe(0);
+    expect(tokens[tokens.length - 1].end).toBe(6);
+  });
+});
@@ -0,0 +1,41 @@
+import ClipBpe from 'clip-bpe-js';
+import type { TokenSpan } from './promptTokens';
+
+// CLIP's byte-pair tokenizer with its real 49k-entry vocabulary. The merges
+// are a few megabytes, so this module is only loaded through
+// loadClipTokenizer, which puts it in a chunk of its own.
+
+export interface ClipToken extends TokenSpan {
+  id: number;
+}
+
+const END_OF_WORD = '</w>';
+
+const bpe = new ClipBpe();
+const utf8 = new TextEncoder();
+
+// Tokens as Stable Diffusion's text encoder sees them, without the start and
+// end markers. The package's own encode() drops positions and mangles
+// characters outside ASCII, so words are split and byte-encoded here.
+export const clipTokens = (text: string): ClipToken[] =>
+  Array.from(text.matchAll(bpe.pat)).flatMap(match => {
+    const start = match.index ?? 0;
+    // Each byte of the lowercased word, and the source offset it came from
+    const bytes: string[] = [];
+    const offsets: number[] = [];
+    let offset = start;
+    for (const char of match[0]) {
+      for (const byte of utf8.encode(char.toLowerCase())) {
+        bytes.push(bpe.byteEncoder[byte]);
+        offsets.push(offset);
+      }
+      offset += char.length;
+    }
+
+    let byteIndex = 0;
+    return (bpe.bpe(bytes.join('')) as string).split(' ').map(piece => {
+      const tokenStart = offsets[byteIndex];
+      byteIndex += piece.endsWith(END_OF_WORD) ? piece.length - END_OF_WORD.length : piece.length;
+      return { id: bpe.encoder[piece], start: tokenStart, end: offsets[byteIndex] ?? offset };
+    });
+  });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { makeImage } from '../test/images';
+import type { GeneratedImage } from '../types';
+import { BUILT_IN_STYLE_PRESETS } from './stylePresets';
+import { diffSettings } from './compare';
+
+const image = (overrides: Partial<GeneratedImage> = {}): GeneratedImage =>
+  makeImage({ id: 'a', url: 'blob:a', prompt: 'a fox', settings: { ...DEFAULT_SETTINGS, seed: 5 }, ...overrides });
+
+describe('diffSettings', () => {
+  it('marks the settings that differ', () => {
+    const rows = diffSettings(
+      image(),
+      image({ id: 'b', settings: { ...DEFAULT_SETTINGS, seed: 5, steps: 45, stylePreset: 'anime' } }),
+      BUILT_IN_STYLE_PRESETS
+    );
+
+    expect(rows.filter(row => row.changed).map(row => [row.label, row.a, row.b])).toEqual([
+      ['Style preset', 'Photographic', 'Anime'],
+      ['Steps', '30', '45']
+    ]);
+    expect(rows.find(row => row.label === 'Seed')).toMatchObject({ a: '5', b: '5', changed: false });
+  });
+
+  it('includes strength only for image-to-image results', () => {
+    const rows = diffSettings(image(), image({ mode: 'image-to-image' }), BUILT_IN_STYLE_PRESETS);
+    expect(rows.find(row => row.label === 'Strength')).toMatchObject({ a: '—', b: '0.75', changed: true });
+  });
+});
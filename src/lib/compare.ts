@@ -0,0 +1,42 @@
+import type { GeneratedImage, StylePreset } from '../types';
+import { findStylePreset } from './stylePresets';
+import { UNKNOWN_SEED } from './seed';
+import { formatDuration } from './progress';
+
+// Side-by-side listing of what two images were generated with
+
+export interface SettingsDiffRow {
+  label: string;
+  a: string;
+  b: string;
+  changed: boolean;
+}
+
+// What an image was generated with, as label and value pairs
+export const describeImage = (image: GeneratedImage, presets: StylePreset[]): [string, string][] => [
+  ['Prompt', image.prompt],
+  ['Negative prompt', image.negativePrompt || '—'],
+  ['Provider', image.provider],
+  ['Model', image.model],
+  ['Mode', image.mode],
+  ['Style preset', findStylePreset(presets, image.settings.stylePreset).name],
+  ['Steps', String(image.settings.steps)],
+  ['Guidance', String(image.settings.guidance)],
+  ['Seed', image.settings.seed === UNKNOWN_SEED ? 'Unknown' : String(image.settings.seed)],
+  ['Size', `${image.width} × ${image.height}`],
+  ['Quality', image.settings.quality],
+  ...(image.mode !== 'text-to-image' ? [['Strength', String(image.settings.strength)] as [string, string]] : []),
+  ['Edited', image.originalImageId ? 'Yes' : 'No'],
+  ['Generation time', image.generationMs === undefined ? '—' : formatDuration(image.generationMs)]
+];
+
+export const diffSettings = (a: GeneratedImage, b: GeneratedImage, presets: StylePreset[]): SettingsDiffRow[] => {
+  const left = new Map(describeImage(a, presets));
+  const right = new Map(describeImage(b, presets));
+  const labels = [...new Set([...left.keys(), ...right.keys()])];
+  return labels.map(label => {
+    const valueA = left.get(label) ?? '—';
+    const valueB = right.get(label) ?? '—';
+    return { label, a: valueA, b: valueB, changed: valueA !== valueB };
+  });
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_CONTENT_FILTER,
+  createContentFilter,
+  describeViolations,
+  loadContentFilter,
+  saveContentFilter
+} from './contentFilter';
+
+const check = (prompt: string, config = {}) =>
+  createContentFilter({ ...DEFAULT_CONTENT_FILTER, ...config }).check(prompt);
+
+describe('createContentFilter', () => {
+  it('blocks category terms as whole words, plurals included', () => {
+    expect(check('a Gory battle with corpses')).toEqual([
+      { term: 'Gory', source: 'Violence' },
+      { term: 'corpses', source: 'Violence' }
+    ]);
+    expect(check('a scientific method, white   power lines')).toEqual([{ term: 'white   power', source: 'Hate' }]);
+    expect(check('a watercolor of a lighthouse')).toEqual([]);
+  });
+
+  it('only checks enabled categories', () => {
+    expect(check('a gory scene', { categories: ['adult'] })).toEqual([]);
+    expect(check('a gory scene', { enabled: false })).toEqual([]);
+  });
+
+  it('applies the blocklist with words and regular expressions', () => {
+    const config = { blocklist: 'Acme logo\n# a comment\n/project\\s*x\\d+/i' };
+    expect(check('the acme logos next to PROJECT X12', config)).toEqual([
+      { term: 'acme logos', source: 'Blocklist' },
+      { term: 'PROJECT X12', source: 'Blocklist' }
+    ]);
+  });
+
+  it('never blocks allowed text', () => {
+    const config = { allowlist: 'naked mole rat\n/self-harm awareness/' };
+    expect(check('a naked mole rat on a self-harm awareness poster', config)).toEqual([]);
+    expect(check('a naked mole rat and a naked man', config)).toEqual([{ term: 'naked', source: 'Adult' }]);
+  });
+
+  it('reports invalid regular expressions', () => {
+    const filter = createContentFilter({ ...DEFAULT_CONTENT_FILTER, blocklist: '/(unclosed/', allowlist: '/ok/' });
+    expect(filter.errors).toEqual(['/(unclosed/ is not a valid regular expression.']);
+  });
+});
+
+describe('describeViolations', () => {
+  it('names each term and why it was blocked', () => {
+    expect(describeViolations([{ term: 'gore', source: 'Violence' }, { term: 'acme', source: 'Blocklist' }]))
+      .toBe('Blocked by the content filter: "gore" (Violence), "acme" (Blocklist).');
+  });
+});
+
+describe('loadContentFilter', () => {
+  it('round-trips and falls back for unreadable settings', () => {
+    expect(loadContentFilter()).toEqual(DEFAULT_CONTENT_FILTER);
+    saveContentFilter({ ...DEFAULT_CONTENT_FILTER, categories: ['hate'], blocklist: 'acme' });
+    expect(loadContentFilter()).toMatchObject({ categories: ['hate'], blocklist: 'acme' });
+
+    localStorage.setItem('contentFilter', JSON.stringify({ enabled: 'yes', categories: ['hate', 'bogus'] }));
+    expect(loadContentFilter()).toMatchObject({ enabled: true, categories: ['hate'], blocklist: '' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('contentFilter', '{');
+    expect(loadContentFilter()).toEqual(DEFAULT_CONTENT_FILTER);
+  });
+});
@@ -0,0 +1,145 @@
+// Checks prompts against category word lists and the user's own block and
+// allow lists before anything is sent to a provider.
+
+export type FilterCategory = 'adult' | 'violence' | 'hate' | 'self-harm' | 'drugs';
+
+export const FILTER_CATEGORIES: { id: FilterCategory; label: string; terms: string[] }[] = [
+  {
+    id: 'adult',
+    label: 'Adult',
+    terms: ['nsfw', 'nude', 'nudity', 'naked', 'topless', 'explicit', 'porn', 'pornographic', 'erotic', 'sexual', 'lingerie', 'hentai']
+  },
+  {
+    id: 'violence',
+    label: 'Violence',
+    terms: ['gore', 'gory', 'decapitated', 'dismembered', 'mutilated', 'massacre', 'torture', 'corpse', 'bloodbath']
+  },
+  {
+    id: 'hate',
+    label: 'Hate',
+    terms: ['nazi', 'swastika', 'white power', 'kkk', 'ethnic cleansing']
+  },
+  {
+    id: 'self-harm',
+    label: 'Self-harm',
+    terms: ['suicide', 'self-harm', 'self harm', 'overdose']
+  },
+  {
+    id: 'drugs',
+    label: 'Drugs',
+    terms: ['cocaine', 'heroin', 'meth', 'methamphetamine', 'crack pipe']
+  }
+];
+
+export interface ContentFilterConfig {
+  enabled: boolean;
+  categories: FilterCategory[];
+  // One rule per line: a word or phrase, or a /regular expression/flags
+  blocklist: string;
+  // Same syntax; matching text is never blocked ("naked mole rat")
+  allowlist: string;
+  // Blur images the image classifier flags until they are revealed
+  blurFlagged: boolean;
+}
+
+export const DEFAULT_CONTENT_FILTER: ContentFilterConfig = {
+  enabled: true,
+  categories: FILTER_CATEGORIES.map(category => category.id),
+  blocklist: '',
+  allowlist: '',
+  blurFlagged: true
+};
+
+export interface FilterViolation {
+  // The text that matched, as written in the prompt
+  term: string;
+  // Category label, or "Blocklist" for the user's own rules
+  source: string;
+}
+
+export interface ContentFilter {
+  check: (prompt: string) => FilterViolation[];
+  // Rule lines that could not be used, e.g. invalid regular expressions
+  errors: string[];
+}
+
+const CONTENT_FILTER_KEY = 'contentFilter';
+const REGEX_RULE = /^\/(.+)\/([a-z]*)$/;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, with an optional plural, and any whitespace between words
+const termPattern = (term: string): RegExp =>
+  new RegExp(`(?<![\\w-])${term.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?:e?s)?(?![\\w-])`, 'gi');
+
+const parseRules = (text: string, errors: string[]): RegExp[] =>
+  text.split('\n').flatMap(line => {
+    const rule = line.trim();
+    if (!rule || rule.startsWith('#')) return [];
+    const regex = REGEX_RULE.exec(rule);
+    if (!regex) return [termPattern(rule)];
+    try {
+      return [new RegExp(regex[1], regex[2].includes('g') ? regex[2] : `${regex[2]}g`)];
+    } catch {
+      errors.push(`${rule} is not a valid regular expression.`);
+      return [];
+    }
+  });
+
+export const createContentFilter = (config: ContentFilterConfig): ContentFilter => {
+  const errors: string[] = [];
+  const blocked: { source: string; pattern: RegExp }[] = [
+    ...FILTER_CATEGORIES
+      .filter(category => config.categories.includes(category.id))
+      .flatMap(category => category.terms.map(term => ({ source: category.label, pattern: termPattern(term) }))),
+    ...parseRules(config.blocklist, errors).map(pattern => ({ source: 'Blocklist', pattern }))
+  ];
+  const allowed = parseRules(config.allowlist, errors);
+
+  return {
+    errors,
+    check: (prompt) => {
+      if (!config.enabled) return [];
+      // Blank out allowed text so nothing inside it can match
+      const text = allowed.reduce((masked, pattern) =>
+        masked.replace(pattern, match => ' '.repeat(match.length)), prompt);
+      const violations: FilterViolation[] = [];
+      for (const { source, pattern } of blocked) {
+        for (const [term] of text.matchAll(pattern)) {
+          if (!term.trim()) continue;
+          if (!violations.some(v => v.source === source && v.term.toLowerCase() === term.toLowerCase())) {
+            violations.push({ term, source });
+          }
+        }
+      }
+      return violations;
+    }
+  };
+};
+
+export const describeViolations = (violations: FilterViolation[]): string =>
+  `Blocked by the content filter: ${violations.map(({ term, source }) => `"${term}" (${source})`).join(', ')}.`;
+
+const isCategory = (value: unknown): value is FilterCategory =>
+  FILTER_CATEGORIES.some(category => category.id === value);
+
+export const loadContentFilter = (): ContentFilterConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONTENT_FILTER_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_CONTENT_FILTER;
+    return {
+      enabled: typeof saved.enabled === 'boolean' ? saved.enabled : DEFAULT_CONTENT_FILTER.enabled,
+      categories: Array.isArray(saved.categories) ? saved.categories.filter(isCategory) : DEFAULT_CONTENT_FILTER.categories,
+      blocklist: typeof saved.blocklist === 'string' ? saved.blocklist : '',
+      allowlist: typeof saved.allowlist === 'string' ? saved.allowlist : '',
+      blurFlagged: typeof saved.blurFlagged === 'boolean' ? saved.blurFlagged : DEFAULT_CONTENT_FILTER.blurFlagged
+    };
+  } catch (err) {
+    console.warn('Ignoring unreadable content filter settings:', err);
+    return DEFAULT_CONTENT_FILTER;
+  }
+};
+
+export const saveContentFilter = (config: ContentFilterConfig): void => {
+  localStorage.setItem(CONTENT_FILTER_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,55 @@
+// The app's IndexedDB database. Version 1 held the gallery images, version 2
+// added the usage ledger and version 3 the offline outbox.
+
+const DB_NAME = 'dreamcanvas';
+const DB_VERSION = 3;
+export const IMAGES_STORE = 'images';
+export const USAGE_STORE = 'usage';
+export const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Every store is keyed by id with a timestamp index
+        for (const name of [IMAGES_STORE, USAGE_STORE, OUTBOX_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version open in another tab; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
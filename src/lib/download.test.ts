@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { GeneratedImage } from '../types';
+import { prepareImageDownload } from './download';
+import { sniffImageType } from './imageFormat';
+import { readPngText } from './pngMetadata';
+
+const PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+
+const image: GeneratedImage = {
+  id: 'img',
+  url: 'blob:img',
+  prompt: 'a red fox',
+  negativePrompt: '',
+  timestamp: 1700000000000,
+  aspectRatio: '1:1',
+  settings: { ...DEFAULT_SETTINGS, seed: 7 },
+  width: 512,
+  height: 512,
+  provider: 'huggingface',
+  model: 'test-model',
+  mode: 'text-to-image',
+  favorite: false,
+  tags: []
+};
+
+describe('sniffImageType', () => {
+  it('recognizes common image formats', () => {
+    expect(sniffImageType(PNG)).toBe('image/png');
+    expect(sniffImageType(JPEG)).toBe('image/jpeg');
+    expect(sniffImageType(new Uint8Array([...new TextEncoder().encode('RIFF'), 0, 0, 0, 0, ...new TextEncoder().encode('WEBP')]))).toBe('image/webp');
+    expect(sniffImageType(new TextEncoder().encode('<html>'))).toBeNull();
+  });
+});
+
+describe('prepareImageDownload', () => {
+  it('embeds the generation parameters in PNGs', async () => {
+    const { blob, filename } = await prepareImageDownload(new Blob([PNG], { type: 'image/png' }), image);
+
+    expect(filename).toBe('dreamcanvas-1700000000000.png');
+    expect(readPngText(new Uint8Array(await blob.arrayBuffer())).parameters).toContain('a red fox\nSteps: 30, CFG scale: 7.5, Seed: 7');
+  });
+
+  it('names files after their real type, not the reported one', async () => {
+    const { blob, filename } = await prepareImageDownload(new Blob([JPEG], { type: 'image/png' }), image);
+
+    expect(filename).toBe('dreamcanvas-1700000000000.jpg');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(JPEG);
+  });
+
+  it('skips conversion when the image already has the requested format', async () => {
+    const { filename } = await prepareImageDownload(new Blob([PNG]), image, 'png');
+    expect(filename).toBe('dreamcanvas-1700000000000.png');
+  });
+});
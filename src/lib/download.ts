@@ -0,0 +1,57 @@
+import type { GeneratedImage } from '../types';
+import { IMAGE_EXTENSIONS, convertImage, sniffImageType, type DownloadFormat } from './imageFormat';
+import { PARAMETERS_KEY, formatGenerationParameters, writePngText } from './pngMetadata';
+
+export const downloadUrl = (url: string, filename: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const FORMAT_TYPES: Record<Exclude<DownloadFormat, 'original'>, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// Converts the image if asked to, names it after its real type and, for
+// PNGs, embeds the generation parameters
+export const prepareImageDownload = async (
+  blob: Blob,
+  image: GeneratedImage,
+  format: DownloadFormat = 'original'
+): Promise<{ blob: Blob; filename: string }> => {
+  let file = blob;
+  const originalType = sniffImageType(new Uint8Array(await blob.arrayBuffer())) ?? blob.type;
+  if (format !== 'original' && FORMAT_TYPES[format] !== originalType) {
+    file = await convertImage(blob, FORMAT_TYPES[format]);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const type = sniffImageType(bytes) ?? file.type;
+  if (type === 'image/png') {
+    const tagged = writePngText(bytes, { [PARAMETERS_KEY]: formatGenerationParameters(image) });
+    file = new Blob([tagged], { type });
+  }
+
+  return {
+    blob: file,
+    filename: `dreamcanvas-${image.timestamp}.${IMAGE_EXTENSIONS[type] ?? 'png'}`
+  };
+};
+
+export const downloadImage = async (image: GeneratedImage, format: DownloadFormat = 'original'): Promise<void> => {
+  const response = await fetch(image.url);
+  const { blob, filename } = await prepareImageDownload(await response.blob(), image, format);
+  downloadBlob(blob, filename);
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { GeneratedImage } from '../types';
+import {
+  DEFAULT_GALLERY_FILTER,
+  DEFAULT_RETENTION,
+  collectTags,
+  filterImages,
+  isFilterActive,
+  loadRetention,
+  normalizeTag,
+  saveRetention,
+  selectImagesToPrune
+} from './gallery';
+import { makeImage } from '../test/images';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 15, 12).getTime();
+
+const image = (id: string, overrides: Partial<GeneratedImage> = {}): GeneratedImage =>
+  makeImage({ id, url: `blob:${id}`, timestamp: NOW, ...overrides });
+
+const ids = (images: GeneratedImage[]) => images.map(img => img.id);
+
+describe('filterImages', () => {
+  const images = [
+    image('castle', { prompt: 'A castle on a hill at sunset', tags: ['fantasy'] }),
+    image('cat', { prompt: 'A cat wearing a hat', aspectRatio: '16:9', favorite: true }),
+    image('old', { prompt: 'An old castle ruin', timestamp: NOW - 10 * DAY_MS }),
+    image('anime', { prompt: 'Portrait', settings: { ...DEFAULT_SETTINGS, stylePreset: 'anime' } })
+  ];
+
+  it('returns everything for the default filter', () => {
+    expect(ids(filterImages(images, DEFAULT_GALLERY_FILTER, NOW))).toEqual(['castle', 'cat', 'old', 'anime']);
+  });
+
+  it('requires every search word to match, case-insensitively', () => {
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, query: 'CASTLE' }, NOW))).toEqual(['castle', 'old']);
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, query: 'castle sunset' }, NOW))).toEqual(['castle']);
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, query: 'fantasy' }, NOW))).toEqual(['castle']);
+  });
+
+  it('filters by style, aspect ratio, date, favorites and tag', () => {
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, stylePreset: 'anime' }, NOW))).toEqual(['anime']);
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, aspectRatio: '16:9' }, NOW))).toEqual(['cat']);
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, dateRange: 'week' }, NOW))).not.toContain('old');
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, dateRange: 'month' }, NOW))).toContain('old');
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, favoritesOnly: true }, NOW))).toEqual(['cat']);
+    expect(ids(filterImages(images, { ...DEFAULT_GALLERY_FILTER, tag: 'fantasy' }, NOW))).toEqual(['castle']);
+  });
+
+  it('reports whether any filter is set', () => {
+    expect(isFilterActive(DEFAULT_GALLERY_FILTER)).toBe(false);
+    expect(isFilterActive({ ...DEFAULT_GALLERY_FILTER, favoritesOnly: true })).toBe(true);
+  });
+});
+
+describe('tags', () => {
+  it('normalizes case and whitespace', () => {
+    expect(normalizeTag('  Sci   Fi ')).toBe('sci fi');
+  });
+
+  it('collects unique tags in alphabetical order', () => {
+    expect(collectTags([image('a', { tags: ['space', 'cats'] }), image('b', { tags: ['cats'] })])).toEqual(['cats', 'space']);
+  });
+});
+
+describe('selectImagesToPrune', () => {
+  const images = [
+    image('newest', { timestamp: NOW }),
+    image('favorite', { timestamp: NOW - 100 * DAY_MS, favorite: true }),
+    image('middle', { timestamp: NOW - 5 * DAY_MS }),
+    image('oldest', { timestamp: NOW - 40 * DAY_MS })
+  ];
+
+  it('keeps everything by default', () => {
+    expect(selectImagesToPrune(images, DEFAULT_RETENTION, NOW)).toEqual([]);
+  });
+
+  it('keeps the newest non-favorite images up to the limit', () => {
+    expect(selectImagesToPrune(images, { maxImages: 1, maxAgeDays: null }, NOW)).toEqual(['middle', 'oldest']);
+  });
+
+  it('removes images older than the age limit except favorites', () => {
+    expect(selectImagesToPrune(images, { maxImages: null, maxAgeDays: 30 }, NOW)).toEqual(['oldest']);
+  });
+});
+
+describe('retention settings', () => {
+  it('round-trips through localStorage', () => {
+    saveRetention({ maxImages: 100, maxAgeDays: 30 });
+    expect(loadRetention()).toEqual({ maxImages: 100, maxAgeDays: 30 });
+  });
+
+  it('falls back to no limits for missing or invalid values', () => {
+    expect(loadRetention()).toEqual(DEFAULT_RETENTION);
+    localStorage.setItem('galleryRetention', JSON.stringify({ maxImages: -5, maxAgeDays: 'soon' }));
+    expect(loadRetention()).toEqual(DEFAULT_RETENTION);
+    localStorage.setItem('galleryRetention', '{not json');
+    expect(loadRetention()).toEqual(DEFAULT_RETENTION);
+  });
+});
@@ -0,0 +1,127 @@
+import type { AspectRatio, GeneratedImage } from '../types';
+
+// Gallery search, filtering and retention rules
+
+export type DateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface GalleryFilter {
+  // Every word has to appear in the prompt, negative prompt, tags or model
+  query: string;
+  stylePreset: string | null;
+  aspectRatio: AspectRatio | null;
+  dateRange: DateRange;
+  favoritesOnly: boolean;
+  tag: string | null;
+}
+
+export const DEFAULT_GALLERY_FILTER: GalleryFilter = {
+  query: '',
+  stylePreset: null,
+  aspectRatio: null,
+  dateRange: 'all',
+  favoritesOnly: false,
+  tag: null
+};
+
+// How many non-favorite images to keep, and for how long. Null means no limit.
+export interface GalleryRetention {
+  maxImages: number | null;
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_RETENTION: GalleryRetention = {
+  maxImages: null,
+  maxAgeDays: null
+};
+
+const RETENTION_KEY = 'galleryRetention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FilterableImage = Pick<
+  GeneratedImage,
+  'prompt' | 'negativePrompt' | 'model' | 'tags' | 'settings' | 'aspectRatio' | 'timestamp' | 'favorite'
+>;
+
+const startOfRange = (range: DateRange, now: number): number => {
+  switch (range) {
+    case 'today': {
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case 'week': return now - 7 * DAY_MS;
+    case 'month': return now - 30 * DAY_MS;
+    default: return -Infinity;
+  }
+};
+
+const matchesQuery = (image: FilterableImage, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = [image.prompt, image.negativePrompt, image.model, ...image.tags].join(' ').toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+export const filterImages = <T extends FilterableImage>(
+  images: T[],
+  filter: GalleryFilter,
+  now = Date.now()
+): T[] => {
+  const since = startOfRange(filter.dateRange, now);
+  return images.filter(image =>
+    matchesQuery(image, filter.query) &&
+    (filter.stylePreset === null || image.settings.stylePreset === filter.stylePreset) &&
+    (filter.aspectRatio === null || image.aspectRatio === filter.aspectRatio) &&
+    image.timestamp >= since &&
+    (!filter.favoritesOnly || image.favorite) &&
+    (filter.tag === null || image.tags.includes(filter.tag))
+  );
+};
+
+export const isFilterActive = (filter: GalleryFilter): boolean =>
+  JSON.stringify(filter) !== JSON.stringify(DEFAULT_GALLERY_FILTER);
+
+// Tags are case-insensitive single words or short phrases
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const collectTags = (images: Pick<GeneratedImage, 'tags'>[]): string[] =>
+  [...new Set(images.flatMap(image => image.tags))].sort();
+
+// Ids of images the retention rules say should go. Favorites are never
+// pruned and don't count towards the image limit.
+export const selectImagesToPrune = (
+  images: Pick<GeneratedImage, 'id' | 'timestamp' | 'favorite'>[],
+  retention: GalleryRetention,
+  now = Date.now()
+): string[] => {
+  const candidates = images
+    .filter(image => !image.favorite)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const cutoff = retention.maxAgeDays === null ? -Infinity : now - retention.maxAgeDays * DAY_MS;
+
+  return candidates
+    .filter((image, index) =>
+      image.timestamp < cutoff || (retention.maxImages !== null && index >= retention.maxImages)
+    )
+    .map(image => image.id);
+};
+
+const optionalLimit = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+
+export const loadRetention = (): GalleryRetention => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RETENTION_KEY) ?? '{}');
+    return {
+      maxImages: optionalLimit(parsed?.maxImages),
+      maxAgeDays: optionalLimit(parsed?.maxAgeDays)
+    };
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const saveRetention = (retention: GalleryRetention): void => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { DEFAULT_SETTINGS } from '../constants';
+import { makeImage } from '../test/images';
+import type { StoredImage } from './imageStore';
+import { createGalleryArchive, readGalleryArchive } from './galleryArchive';
+
+const storedImage = (id: string, overrides: Partial<StoredImage> = {}): StoredImage => ({
+  ...makeImage({ id, blob: new Blob([`pixels ${id}`], { type: 'image/png' }) }),
+  negativePrompt: 'blurry',
+  timestamp: 1700000000000,
+  aspectRatio: '16:9',
+  settings: { ...DEFAULT_SETTINGS, aspectRatio: '16:9', seed: 1234 },
+  width: 1024,
+  height: 576,
+  favorite: true,
+  tags: ['landscape'],
+  ...overrides
+});
+
+const archiveBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('gallery archive', () => {
+  it('writes the images and a manifest with their metadata', async () => {
+    const archive = await createGalleryArchive([storedImage('a'), storedImage('b', { blob: new Blob(['jpeg'], { type: 'image/jpeg' }) })], 0);
+    const files = unzipSync(await archiveBytes(archive));
+    const manifest = JSON.parse(new TextDecoder().decode(files['manifest.json']));
+
+    expect(manifest.version).toBe(1);
+    expect(manifest.exportedAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(manifest.images.map((entry: { file: string }) => entry.file)).toEqual(['images/0001-a.png', 'images/0002-b.jpg']);
+    expect(manifest.images[0]).toMatchObject({
+      prompt: 'prompt a',
+      negativePrompt: 'blurry',
+      model: 'test-model',
+      timestamp: 1700000000000,
+      settings: { seed: 1234 }
+    });
+    expect(manifest.images[0]).not.toHaveProperty('blob');
+  });
+
+  it('restores exported images with their blobs', async () => {
+    const original = storedImage('a', { sourceImageId: 'parent', mode: 'image-to-image' });
+    const [restored] = readGalleryArchive(await archiveBytes(await createGalleryArchive([original])));
+
+    const { blob, ...metadata } = restored;
+    const { blob: _originalBlob, ...originalMetadata } = original;
+    expect(metadata).toEqual(originalMetadata);
+    expect(blob.type).toBe('image/png');
+    expect(await blob.text()).toBe('pixels a');
+  });
+
+  it('fills in missing fields from hand-written manifests', () => {
+    const archive = zipSync({
+      'manifest.json': strToU8(JSON.stringify({ version: 1, images: [{ id: 'x', file: 'x.webp', prompt: 'fox', tags: ['Forest ', 3] }] })),
+      'x.webp': strToU8('webp')
+    });
+
+    const [image] = readGalleryArchive(archive);
+    expect(image).toMatchObject({
+      id: 'x',
+      prompt: 'fox',
+      negativePrompt: '',
+      aspectRatio: '1:1',
+      settings: DEFAULT_SETTINGS,
+      mode: 'text-to-image',
+      favorite: false,
+      tags: ['forest']
+    });
+    expect(image.blob.type).toBe('image/webp');
+  });
+
+  it('checks every setting instead of trusting the manifest', () => {
+    const hostile = {
+      aspectRatio: '<script>',
+      stylePreset: 42,
+      quality: 'ultra',
+      steps: 100000,
+      guidance: Number.MAX_VALUE,
+      seed: 2 ** 40,
+      strength: -3
+    };
+    const archive = zipSync({
+      'manifest.json': strToU8(JSON.stringify({
+        version: 1,
+        images: [
+          { id: 'x', file: 'x.png', prompt: 'fox', aspectRatio: '16:9', settings: hostile },
+          { id: 'y', file: 'x.png', prompt: 'owl', aspectRatio: '3:2', settings: { steps: 25.5, guidance: '9', seed: -1, strength: 0.4 } }
+        ]
+      })),
+      'x.png': strToU8('png')
+    });
+
+    const [x, y] = readGalleryArchive(archive);
+    expect(x.settings).toEqual({ ...DEFAULT_SETTINGS, aspectRatio: '16:9' });
+    expect(y.settings).toEqual({ ...DEFAULT_SETTINGS, aspectRatio: '3:2', seed: -1, strength: 0.4 });
+  });
+
+  it.each([
+    ['not a zip', strToU8('hello'), 'The file is not a valid ZIP archive.'],
+    ['no manifest', zipSync({ 'a.png': strToU8('png') }), 'The archive has no manifest.json.'],
+    ['a newer manifest', zipSync({ 'manifest.json': strToU8('{"version":2,"images":[]}') }), 'The archive was exported by a newer version and cannot be imported.'],
+    ['a missing image file', zipSync({ 'manifest.json': strToU8('{"version":1,"images":[{"id":"a","file":"a.png","prompt":""}]}') }), 'The image file for "a" is missing from the archive.']
+  ])('rejects %s', (_name, data, message) => {
+    expect(() => readGalleryArchive(data)).toThrow(message);
+  });
+});
@@ -0,0 +1,145 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import type { AspectRatio, GenerationMode, ImageQuality, ImageSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { StoredImage } from './imageStore';
+import { normalizeTag } from './gallery';
+import { IMAGE_EXTENSIONS, sniffImageType } from './imageFormat';
+import { parseImageEdits } from './imageEdits';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from './resolution';
+import { UNKNOWN_SEED, isValidSeed } from './seed';
+
+// Gallery export/import as a ZIP: one file per image plus a manifest.json
+// with everything needed to restore the images and re-run their prompts.
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+const MODES: GenerationMode[] = ['text-to-image', 'image-to-image', 'inpaint'];
+
+// One manifest entry; `file` is the image's path inside the archive
+export type ArchiveEntry = Omit<StoredImage, 'blob'> & { file: string };
+
+export interface ArchiveManifest {
+  version: number;
+  exportedAt: string;
+  images: ArchiveEntry[];
+}
+
+const mimeTypeFor = (file: string): string =>
+  Object.entries(IMAGE_EXTENSIONS).find(([, ext]) => file.toLowerCase().endsWith(`.${ext}`))?.[0] ?? 'image/png';
+
+export const createGalleryArchive = async (images: StoredImage[], now = Date.now()): Promise<Blob> => {
+  const files: Zippable = {};
+  const entries: ArchiveEntry[] = [];
+
+  for (const [index, { blob, ...image }] of images.entries()) {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const type = sniffImageType(bytes) ?? blob.type;
+    const file = `images/${String(index + 1).padStart(4, '0')}-${image.id}.${IMAGE_EXTENSIONS[type] ?? 'png'}`;
+    // Images are already compressed, so they are stored as-is
+    files[file] = [bytes, { level: 0 }];
+    entries.push({ ...image, file });
+  }
+
+  const manifest: ArchiveManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    images: entries
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+const optionalString = (value: unknown, fallback: string): string =>
+  typeof value === 'string' ? value : fallback;
+
+const positiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const numberInRange = (value: unknown, min: number, max: number, integer: boolean): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && (!integer || Number.isInteger(value)) && value >= min && value <= max
+    ? value
+    : undefined;
+
+// Settings from the manifest, with the same limits as studio links. Invalid
+// values fall back to the defaults.
+const parseSettings = (value: unknown, aspectRatio: AspectRatio): ImageSettings => {
+  const data = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return {
+    stylePreset: typeof data.stylePreset === 'string' && data.stylePreset ? data.stylePreset : DEFAULT_SETTINGS.stylePreset,
+    quality: IMAGE_QUALITIES.includes(data.quality as ImageQuality) ? data.quality as ImageQuality : DEFAULT_SETTINGS.quality,
+    steps: numberInRange(data.steps, 1, 150, true) ?? DEFAULT_SETTINGS.steps,
+    guidance: numberInRange(data.guidance, 0, 30, false) ?? DEFAULT_SETTINGS.guidance,
+    seed: typeof data.seed === 'number' && (isValidSeed(data.seed) || data.seed === UNKNOWN_SEED) ? data.seed : DEFAULT_SETTINGS.seed,
+    strength: numberInRange(data.strength, 0, 1, false) ?? DEFAULT_SETTINGS.strength,
+    // The image's own, already checked aspect ratio always wins
+    aspectRatio
+  };
+};
+
+// Validates one manifest entry; throws with a readable message
+const parseEntry = (value: unknown, files: Record<string, Uint8Array>): StoredImage => {
+  if (!value || typeof value !== 'object') throw new Error('The manifest contains an invalid image entry.');
+  const data = value as Record<string, unknown>;
+
+  if (typeof data.id !== 'string' || !data.id) throw new Error('An image in the manifest has no id.');
+  if (typeof data.file !== 'string' || !files[data.file]) {
+    throw new Error(`The image file for "${data.id}" is missing from the archive.`);
+  }
+  if (typeof data.prompt !== 'string') throw new Error(`Image "${data.id}" has no prompt.`);
+
+  const aspectRatio = ASPECT_RATIOS.includes(data.aspectRatio as AspectRatio)
+    ? data.aspectRatio as AspectRatio
+    : DEFAULT_SETTINGS.aspectRatio;
+  const edits = parseImageEdits(data.edits);
+
+  return {
+    id: data.id,
+    blob: new Blob([files[data.file]], { type: sniffImageType(files[data.file]) ?? mimeTypeFor(data.file) }),
+    prompt: data.prompt,
+    negativePrompt: optionalString(data.negativePrompt, ''),
+    timestamp: typeof data.timestamp === 'number' && Number.isFinite(data.timestamp) ? data.timestamp : Date.now(),
+    aspectRatio,
+    settings: parseSettings(data.settings, aspectRatio),
+    width: positiveNumber(data.width, 512),
+    height: positiveNumber(data.height, 512),
+    provider: optionalString(data.provider, 'unknown'),
+    model: optionalString(data.model, 'unknown'),
+    mode: MODES.includes(data.mode as GenerationMode) ? data.mode as GenerationMode : 'text-to-image',
+    ...(typeof data.sourceImageId === 'string' && { sourceImageId: data.sourceImageId }),
+    ...(typeof data.originalImageId === 'string' && { originalImageId: data.originalImageId }),
+    ...(edits && { edits }),
+    ...(typeof data.generationMs === 'number' && Number.isFinite(data.generationMs) && data.generationMs > 0 && {
+      generationMs: data.generationMs
+    }),
+    ...(data.flagged === true && { flagged: true }),
+    ...(typeof data.flagLabel === 'string' && data.flagLabel && { flagLabel: data.flagLabel }),
+    favorite: data.favorite === true,
+    tags: Array.isArray(data.tags)
+      ? [...new Set(data.tags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean))]
+      : []
+  };
+};
+
+export const readGalleryArchive = (data: Uint8Array): StoredImage[] => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('The file is not a valid ZIP archive.');
+  }
+  if (!files[MANIFEST_FILE]) throw new Error('The archive has no manifest.json.');
+
+  let manifest: Partial<ArchiveManifest>;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch {
+    throw new Error('The manifest is not valid JSON.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > MANIFEST_VERSION) {
+    throw new Error('The archive was exported by a newer version and cannot be imported.');
+  }
+  if (!Array.isArray(manifest.images)) throw new Error('The manifest has no image list.');
+
+  return manifest.images.map(entry => parseEntry(entry, files));
+};
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { imageResponse, jsonResponse, mockFetch } from '../test/fetchMocks';
+import * as imageStore from './imageStore';
+import { runGeneration } from './generation';
+import { estimateGenerationCost, type GenerationInput } from './generationClient';
+import { ProviderError } from './providers';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import { setImageClassifier } from './imageSafety';
+
+const input: GenerationInput = {
+  prompt: 'a lighthouse at dusk',
+  negativePrompt: '',
+  settings: { ...DEFAULT_SETTINGS, seed: 7 },
+  stylePreset: DEFAULT_STYLE_PRESET,
+  providerId: 'huggingface',
+  model: '',
+  retryPolicy: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+  mode: 'text-to-image'
+};
+
+describe('runGeneration', () => {
+  afterEach(async () => {
+    setImageClassifier(null);
+    await imageStore.clearImages();
+  });
+
+  it('sends the request through the proxy and saves the image', async () => {
+    const fetchMock = mockFetch(imageResponse());
+
+    const image = await runGeneration(input);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/generate');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      provider: 'huggingface',
+      model: 'CompVis/stable-diffusion-v1-4',
+      request: { prompt: 'a lighthouse at dusk', settings: { seed: 7 } }
+    });
+    expect(image).toMatchObject({ prompt: 'a lighthouse at dusk', width: 512, height: 512, mode: 'text-to-image' });
+
+    // Still there after a reload
+    const [saved] = await imageStore.loadImages();
+    expect(saved.id).toBe(image.id);
+    expect(await saved.blob.arrayBuffer()).toEqual(await image.blob.arrayBuffer());
+  });
+
+  it('surfaces a missing server token as an auth error without retrying', async () => {
+    const fetchMock = mockFetch(jsonResponse({
+      error: { code: 'auth', message: 'Hugging Face API token is not configured.' }
+    }, 500));
+
+    await expect(runGeneration(input)).rejects.toMatchObject({
+      code: 'auth',
+      message: 'Hugging Face API token is not configured.'
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await imageStore.loadImages()).toEqual([]);
+  });
+
+  it('rejects a server response that is not an image', async () => {
+    const fetchMock = mockFetch(new Response('<!doctype html>', { status: 200, headers: { 'Content-Type': 'text/html' } }));
+
+    await expect(runGeneration(input)).rejects.toMatchObject({ code: 'invalid-response' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await imageStore.loadImages()).toEqual([]);
+  });
+
+  it('does not retry bad requests', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: { code: 'bad-request', message: 'Bad request.' } }, 400));
+
+    await expect(runGeneration(input)).rejects.toBeInstanceOf(ProviderError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries while the model is loading', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse({ error: { code: 'model-loading', message: 'Model is loading', retryAfterMs: 1 } }, 503),
+      imageResponse()
+    );
+    const onProgress = vi.fn();
+
+    const image = await runGeneration(input, undefined, onProgress);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const stages = onProgress.mock.calls.map(([progress]) => progress.stage);
+    expect([...new Set(stages)]).toEqual(['validating', 'generating', 'loading-model', 'decoding']);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+      stage: 'loading-model',
+      retry: expect.objectContaining({ attempt: 1, maxRetries: 2 })
+    }));
+    expect(image.generationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports provider progress and previews while generating', async () => {
+    const onProgress = vi.fn();
+
+    await runGeneration({ ...input, providerId: 'mock', settings: { ...input.settings, steps: 40 } }, undefined, onProgress);
+
+    const update = onProgress.mock.calls.map(([progress]) => progress).find(progress => progress.fraction !== undefined);
+    expect(update).toMatchObject({ stage: 'generating', preview: expect.stringMatching(/^data:image\/svg\+xml/) });
+    expect(update.fraction).toBeGreaterThan(0);
+    expect(update.expectedEndAt).toBeGreaterThan(update.stageStartedAt);
+  });
+
+  it('gives up after the retry limit', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: { code: 'model-loading', message: 'Model is loading' } }, 503));
+
+    await expect(runGeneration(input)).rejects.toMatchObject({ code: 'model-loading' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('stores what the image classifier flags', async () => {
+    mockFetch(imageResponse());
+    setImageClassifier(async () => ({ flagged: true, label: 'nsfw 0.97' }));
+
+    const image = await runGeneration(input);
+
+    expect(image).toMatchObject({ flagged: true, flagLabel: 'nsfw 0.97' });
+    expect((await imageStore.loadImages())[0]).toMatchObject({ flagged: true });
+  });
+
+  it('keeps images when the classifier fails', async () => {
+    mockFetch(imageResponse());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setImageClassifier(async () => {
+      throw new Error('model not loaded');
+    });
+
+    const image = await runGeneration(input);
+
+    expect(image.flagged).toBeUndefined();
+  });
+
+  it('records successful jobs in the usage ledger with their estimated cost', async () => {
+    mockFetch(imageResponse());
+    const onUsage = vi.fn();
+    const openAIInput: GenerationInput = { ...input, providerId: 'openai', settings: { ...input.settings, aspectRatio: '16:9', quality: 'hd' } };
+
+    await runGeneration(openAIInput, undefined, undefined, onUsage);
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage.mock.calls[0][0]).toMatchObject({
+      provider: 'openai',
+      model: 'dall-e-3',
+      mode: 'text-to-image',
+      success: true,
+      attempts: 1,
+      cost: 0.12
+    });
+    expect(estimateGenerationCost(openAIInput)).toBe(0.12);
+    expect(estimateGenerationCost(input)).toBe(0);
+  });
+
+  it('records failed jobs with their error and every attempt', async () => {
+    mockFetch(jsonResponse({ error: { code: 'model-loading', message: 'Model is loading' } }, 503));
+    const onUsage = vi.fn();
+
+    await expect(runGeneration(input, undefined, undefined, onUsage)).rejects.toBeInstanceOf(ProviderError);
+
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'huggingface',
+      success: false,
+      error: 'model-loading',
+      attempts: 3,
+      cost: 0
+    }));
+  });
+});
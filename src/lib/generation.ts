@@ -0,0 +1,48 @@
+import type { StoredImage } from './imageStore';
+import * as imageStore from './imageStore';
+import { requestImageViaProxy, requestProgressViaProxy } from './providers/proxy';
+import type { GenerationProgress } from './progress';
+import type { UsageRecord } from './usage';
+import {
+  createDirectTransport,
+  generateImage,
+  type GenerationInput,
+  type GenerationTransport
+} from './generationClient';
+
+// Providers that run in the browser are called directly with no token
+const inBrowserTransport = createDirectTransport((_provider, model) => ({ model }));
+
+// Everything else goes through the proxy so API tokens stay on the server
+export const browserTransport: GenerationTransport = {
+  requestImage: (provider, request, model, generationId, signal, onResponse) => provider.send
+    ? inBrowserTransport.requestImage(provider, request, model, generationId, signal, onResponse)
+    : requestImageViaProxy({
+      provider: provider.id,
+      model,
+      request: {
+        prompt: request.prompt,
+        negativePrompt: request.negativePrompt,
+        settings: request.settings,
+        ...(request.source && { source: request.source })
+      },
+      generationId
+    }, signal, onResponse),
+  requestProgress: (provider, model, generationId, signal) => provider.send
+    ? inBrowserTransport.requestProgress!(provider, model, generationId, signal)
+    : requestProgressViaProxy(provider.id, generationId, signal)
+};
+
+// Generates one image and persists it to the gallery store. `onProgress`
+// receives every change of stage and every provider progress update;
+// `onUsage` receives the ledger entry once the job succeeds or fails.
+export const runGeneration = async (
+  input: GenerationInput,
+  signal?: AbortSignal,
+  onProgress?: (progress: GenerationProgress) => void,
+  onUsage?: (record: UsageRecord) => void
+): Promise<StoredImage> => {
+  const image = await generateImage(input, browserTransport, { signal, onProgress, onUsage });
+  await imageStore.saveImage(image);
+  return image;
+};
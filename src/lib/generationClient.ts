@@ -0,0 +1,247 @@
+import type { GeneratedImage, GenerationMode, ImageSettings, SourceImage, StylePreset } from '../types';
+import {
+  PROVIDERS,
+  ProviderError,
+  createGenerationRequest,
+  requestImage,
+  requestProgress,
+  supportsProgress,
+  type GenerationRequest,
+  type ImageProvider,
+  type ProviderConfig,
+  type ProviderId,
+  type ProviderProgress
+} from './providers';
+import { MAX_SEED } from './seed';
+import { withRetry, type RetryPolicy } from './retry';
+import { applyStylePreset } from './stylePresets';
+import type { GenerationProgress, GenerationStage } from './progress';
+import { classifyImage } from './imageSafety';
+import type { UsageRecord } from './usage';
+
+// The generation client shared by the app and the CLI: builds the provider
+// request, retries, reports progress and usage, and returns the image. How
+// requests reach the provider and where images end up is up to the caller.
+
+// Everything needed to run one generation, captured when it is queued
+export interface GenerationInput {
+  prompt: string;
+  negativePrompt: string;
+  settings: ImageSettings;
+  // Snapshot of the preset named by settings.stylePreset
+  stylePreset: StylePreset;
+  providerId: ProviderId;
+  model: string;
+  retryPolicy: RetryPolicy;
+  mode: GenerationMode;
+  // Required for image-to-image and inpainting
+  source?: SourceImage;
+  sourceImageId?: string;
+  // Typical generation time for this provider and model, used for the ETA
+  expectedMs?: number;
+}
+
+// A generated image with its data, ready to be stored
+export type GenerationResult = Omit<GeneratedImage, 'url'> & { blob: Blob };
+
+// How a generation reaches its provider. Each attempt gets a new
+// `generationId`, and progress is asked for with the same id.
+export interface GenerationTransport {
+  requestImage(
+    provider: ImageProvider,
+    request: GenerationRequest,
+    model: string,
+    generationId: string,
+    signal?: AbortSignal,
+    onResponse?: () => void
+  ): Promise<Blob>;
+  // Without it, progress is never polled
+  requestProgress?(provider: ImageProvider, model: string, generationId: string, signal: AbortSignal): Promise<ProviderProgress | null>;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Receives every change of stage and every provider progress update
+  onProgress?: (progress: GenerationProgress) => void;
+  // Receives the ledger entry once the job succeeds or fails
+  onUsage?: (record: UsageRecord) => void;
+}
+
+// How often providers that report progress are asked for it
+export const PROGRESS_POLL_MS = 1000;
+
+// Seed for the nth image of a batch that started from `seed`
+export const offsetSeed = (seed: number, offset: number): number =>
+  (seed + offset) % (MAX_SEED + 1);
+
+export const createImageId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Calls providers directly with the config returned by `getConfig`
+export const createDirectTransport = (
+  getConfig: (provider: ImageProvider, model: string) => ProviderConfig
+): GenerationTransport => ({
+  requestImage: (provider, request, model, _generationId, signal, onResponse) =>
+    requestImage(provider, request, getConfig(provider, model), signal, onResponse),
+  requestProgress: (provider, model, _generationId, signal) =>
+    requestProgress(provider, getConfig(provider, model), signal)
+});
+
+// The provider request for an input, with the style preset applied
+const prepareRequest = (input: GenerationInput) => {
+  const provider = PROVIDERS[input.providerId];
+  const model = input.model.trim() || provider.defaultModel;
+  const styled = applyStylePreset(input.prompt, input.negativePrompt, input.stylePreset);
+  const source = input.mode === 'text-to-image' ? undefined : input.source;
+  const request = createGenerationRequest(styled.prompt, styled.negativePrompt, input.settings, source);
+  return { provider, model, source, request };
+};
+
+const outputSize = (provider: ImageProvider, request: GenerationRequest) =>
+  provider.outputSize?.(request) ?? { width: request.width, height: request.height };
+
+// Size of the image the provider sends back, which for providers with fixed
+// sizes is the closest one to the settings
+export const getGenerationSize = (input: GenerationInput): { width: number; height: number } => {
+  const { provider, request } = prepareRequest(input);
+  return outputSize(provider, request);
+};
+
+// Estimated price of the image in US dollars, 0 for free providers
+export const estimateGenerationCost = (input: GenerationInput): number => {
+  const { provider, model, request } = prepareRequest(input);
+  return provider.estimateCost?.(request, model) ?? 0;
+};
+
+// Polls `poll` until the returned function is called
+const watchProgress = (
+  poll: (signal: AbortSignal) => Promise<ProviderProgress | null>,
+  onUpdate: (progress: ProviderProgress) => void
+): (() => void) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const tick = async () => {
+    const update = await poll(controller.signal);
+    if (controller.signal.aborted) return;
+    if (update) onUpdate(update);
+    timer = setTimeout(tick, PROGRESS_POLL_MS);
+  };
+  timer = setTimeout(tick, PROGRESS_POLL_MS);
+  return () => {
+    controller.abort();
+    clearTimeout(timer);
+  };
+};
+
+// Generates one image through `transport`
+export const generateImage = async (
+  input: GenerationInput,
+  transport: GenerationTransport,
+  { signal, onProgress, onUsage }: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  const startedAt = Date.now();
+  let progress: GenerationProgress = { stage: 'validating', startedAt, stageStartedAt: startedAt, expectedMs: input.expectedMs };
+  const report = (changes: Partial<GenerationProgress>) => {
+    progress = { ...progress, ...changes };
+    onProgress?.(progress);
+  };
+  const enterStage = (stage: GenerationStage, changes: Partial<GenerationProgress> = {}) => report({
+    stage,
+    stageStartedAt: Date.now(),
+    expectedEndAt: undefined,
+    fraction: undefined,
+    retry: undefined,
+    ...changes
+  });
+  report({});
+
+  const { provider, model, source, request } = prepareRequest(input);
+  const { width, height } = outputSize(provider, request);
+  const onResponse = () => enterStage('decoding');
+
+  let attempts = 0;
+  const recordUsage = (error?: unknown) => onUsage?.({
+    id: createImageId(),
+    timestamp: startedAt,
+    provider: provider.id,
+    model,
+    width,
+    height,
+    mode: input.mode,
+    success: error === undefined,
+    ...(error !== undefined && { error: error instanceof ProviderError ? error.code : 'unknown' }),
+    attempts,
+    durationMs: Date.now() - startedAt,
+    cost: error === undefined ? provider.estimateCost?.(request, model) ?? 0 : 0
+  });
+
+  const attempt = async (): Promise<Blob> => {
+    attempts++;
+    const generationId = createImageId();
+    enterStage('generating', {
+      preview: undefined,
+      ...(input.expectedMs && { expectedEndAt: Date.now() + input.expectedMs })
+    });
+    const stopWatching = transport.requestProgress && supportsProgress(provider)
+      ? watchProgress(
+        pollSignal => transport.requestProgress!(provider, model, generationId, pollSignal),
+        update => {
+          if (progress.stage !== 'generating') return;
+          report({
+            fraction: update.fraction,
+            ...(update.remainingMs !== undefined && { expectedEndAt: Date.now() + update.remainingMs }),
+            ...(update.preview && { preview: update.preview })
+          });
+        }
+      )
+      : () => {};
+
+    try {
+      return await transport.requestImage(provider, request, model, generationId, signal, onResponse);
+    } finally {
+      stopWatching();
+    }
+  };
+
+  let blob: Blob;
+  try {
+    blob = await withRetry(attempt, input.retryPolicy, {
+      signal,
+      onRetry: (retry) => enterStage(retry.error.code === 'model-loading' ? 'loading-model' : 'retrying', {
+        retry,
+        expectedEndAt: retry.retryAt
+      })
+    });
+    if (signal?.aborted) {
+      throw new ProviderError('cancelled', 'Generation was cancelled.');
+    }
+  } catch (err) {
+    recordUsage(err);
+    throw err;
+  }
+  recordUsage();
+  const classification = await classifyImage(blob);
+
+  return {
+    id: createImageId(),
+    blob,
+    prompt: input.prompt,
+    negativePrompt: input.negativePrompt,
+    timestamp: Date.now(),
+    aspectRatio: input.settings.aspectRatio,
+    settings: input.settings,
+    width,
+    height,
+    provider: provider.id,
+    model,
+    mode: input.mode,
+    favorite: false,
+    tags: [],
+    ...(source && input.sourceImageId && { sourceImageId: input.sourceImageId }),
+    generationMs: Date.now() - startedAt,
+    ...(classification?.flagged && {
+      flagged: true,
+      ...(classification.label && { flagLabel: classification.label })
+    })
+  };
+};
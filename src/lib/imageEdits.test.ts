@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EDITS,
+  adjustPixels,
+  cropToAspectRatio,
+  cssFilter,
+  editedSize,
+  isUnedited,
+  moveCrop,
+  parseImageEdits,
+  resizeCrop,
+  rotateBy
+} from './imageEdits';
+
+describe('image edit geometry', () => {
+  it('rotates in quarter turns', () => {
+    expect(rotateBy(0, -90)).toBe(270);
+    expect(rotateBy(270, 90)).toBe(0);
+  });
+
+  it('computes the output size after rotation, crop and upscale', () => {
+    expect(editedSize(768, 512, DEFAULT_EDITS)).toEqual({ width: 768, height: 512 });
+    expect(editedSize(768, 512, {
+      ...DEFAULT_EDITS,
+      rotation: 90,
+      crop: { x: 0, y: 0.25, width: 1, height: 0.5 },
+      upscale: 2
+    })).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('crops to the largest centred region with a given ratio', () => {
+    expect(cropToAspectRatio(1024, 512, '1:1')).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+    const crop = cropToAspectRatio(512, 512, '16:9');
+    expect(crop.width).toBe(1);
+    expect(crop.height * 512).toBeCloseTo(288);
+    expect(crop.y).toBeCloseTo((1 - crop.height) / 2);
+  });
+
+  it('keeps a moved crop inside the image', () => {
+    expect(moveCrop({ x: 0.5, y: 0.5, width: 0.4, height: 0.4 }, 0.3, -0.8)).toEqual({ x: 0.6, y: 0, width: 0.4, height: 0.4 });
+  });
+
+  it('resizes freely around the opposite corner', () => {
+    expect(resizeCrop({ x: 0.5, y: 0.5 }, { x: 0.2, y: 0.9 }, { width: 100, height: 100 }, null))
+      .toEqual({ x: 0.2, y: 0.5, width: 0.3, height: 0.4 });
+  });
+
+  it('keeps the aspect ratio while resizing and stays inside the image', () => {
+    const crop = resizeCrop({ x: 0, y: 0 }, { x: 1, y: 0.1 }, { width: 200, height: 100 }, '1:1');
+    // 1:1 on a 2:1 image: the crop is half as wide as it is tall in fractions
+    expect(crop).toEqual({ x: 0, y: 0, width: 0.5, height: 1 });
+  });
+});
+
+describe('adjustments', () => {
+  const pixel = (r: number, g: number, b: number) => new Uint8ClampedArray([r, g, b, 255]);
+
+  it('leaves pixels alone at 100%', () => {
+    const data = pixel(10, 120, 250);
+    adjustPixels(data, DEFAULT_EDITS);
+    expect([...data]).toEqual([10, 120, 250, 255]);
+  });
+
+  it('matches the CSS filter formulas', () => {
+    const brighter = pixel(100, 200, 50);
+    adjustPixels(brighter, { brightness: 150, contrast: 100, saturation: 100 });
+    expect([...brighter]).toEqual([150, 255, 75, 255]);
+
+    const flat = pixel(0, 255, 128);
+    adjustPixels(flat, { brightness: 100, contrast: 0, saturation: 100 });
+    expect([...flat]).toEqual([128, 128, 128, 255]);
+
+    const grey = pixel(255, 0, 0);
+    adjustPixels(grey, { brightness: 100, contrast: 100, saturation: 0 });
+    expect([...grey]).toEqual([54, 54, 54, 255]);
+  });
+
+  it('describes the same adjustments as a CSS filter for the preview', () => {
+    expect(cssFilter({ brightness: 120, contrast: 90, saturation: 0 })).toBe('brightness(120%) contrast(90%) saturate(0%)');
+  });
+});
+
+describe('parseImageEdits', () => {
+  it('accepts valid edits', () => {
+    const edits = { ...DEFAULT_EDITS, rotation: 180, crop: { x: 0.1, y: 0.1, width: 0.5, height: 0.5 }, upscale: 4 };
+    expect(parseImageEdits(edits)).toEqual(edits);
+  });
+
+  it('replaces invalid values with defaults', () => {
+    expect(parseImageEdits({ rotation: 45, crop: { x: 2 }, brightness: 900, upscale: 3 }))
+      .toEqual({ ...DEFAULT_EDITS, brightness: 200 });
+    expect(parseImageEdits('rotate')).toBeUndefined();
+  });
+
+  it('knows when nothing was changed', () => {
+    expect(isUnedited(DEFAULT_EDITS)).toBe(true);
+    expect(isUnedited({ ...DEFAULT_EDITS, upscale: 2 })).toBe(false);
+  });
+});
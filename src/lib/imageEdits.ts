@@ -0,0 +1,254 @@
+import type { AspectRatio, CropRect, GeneratedImage, ImageEdits, Rotation } from '../types';
+import type { StoredImage } from './imageStore';
+import * as imageStore from './imageStore';
+import { createImageId } from './generationClient';
+import { aspectRatioValue, closestAspectRatio } from './resolution';
+
+// Post-processing done on a canvas in the browser. Edits are always saved as a
+// new gallery image; the original is never changed.
+
+export const DEFAULT_EDITS: ImageEdits = {
+  rotation: 0,
+  crop: null,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  upscale: 1
+};
+
+// Browsers refuse to create larger canvases (Safari's limit is 16.7 megapixels)
+export const MAX_OUTPUT_PIXELS = 4096 * 4096;
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+// Smallest crop side as a fraction of the image
+const MIN_CROP_SIZE = 0.05;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const isUnedited = (edits: ImageEdits): boolean =>
+  edits.rotation === 0 &&
+  edits.crop === null &&
+  edits.brightness === 100 &&
+  edits.contrast === 100 &&
+  edits.saturation === 100 &&
+  edits.upscale === 1;
+
+export const rotateBy = (rotation: Rotation, turn: 90 | -90): Rotation =>
+  ((rotation + turn + 360) % 360) as Rotation;
+
+export const rotatedSize = (width: number, height: number, rotation: Rotation): Size =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+// Pixel size of the cropped region before upscaling
+const croppedSize = (width: number, height: number, edits: ImageEdits): Size => {
+  const rotated = rotatedSize(width, height, edits.rotation);
+  const crop = edits.crop ?? FULL_CROP;
+  return {
+    width: Math.max(1, Math.round(rotated.width * crop.width)),
+    height: Math.max(1, Math.round(rotated.height * crop.height))
+  };
+};
+
+export const editedSize = (width: number, height: number, edits: ImageEdits): Size => {
+  const cropped = croppedSize(width, height, edits);
+  return { width: cropped.width * edits.upscale, height: cropped.height * edits.upscale };
+};
+
+// Largest centred crop with the given aspect ratio; `width` and `height` are
+// the rotated image's size
+export const cropToAspectRatio = (width: number, height: number, ratio: AspectRatio): CropRect => {
+  const target = aspectRatioValue(ratio);
+  if (width / height > target) {
+    const cropWidth = (height * target) / width;
+    return { x: (1 - cropWidth) / 2, y: 0, width: cropWidth, height: 1 };
+  }
+  const cropHeight = width / target / height;
+  return { x: 0, y: (1 - cropHeight) / 2, width: 1, height: cropHeight };
+};
+
+export const moveCrop = (crop: CropRect, dx: number, dy: number): CropRect => ({
+  ...crop,
+  x: clamp(crop.x + dx, 0, 1 - crop.width),
+  y: clamp(crop.y + dy, 0, 1 - crop.height)
+});
+
+// Resizes the crop by dragging one corner to `pointer` while the opposite
+// corner (`anchor`) stays put. With a ratio the crop keeps that shape.
+export const resizeCrop = (
+  anchor: Point,
+  pointer: Point,
+  image: Size,
+  ratio: AspectRatio | null
+): CropRect => {
+  const right = pointer.x >= anchor.x;
+  const down = pointer.y >= anchor.y;
+  const maxWidth = right ? 1 - anchor.x : anchor.x;
+  const maxHeight = down ? 1 - anchor.y : anchor.y;
+  let width = clamp(Math.abs(pointer.x - anchor.x), MIN_CROP_SIZE, maxWidth);
+  let height = clamp(Math.abs(pointer.y - anchor.y), MIN_CROP_SIZE, maxHeight);
+
+  if (ratio) {
+    // Crop height (as a fraction) per unit of crop width for this ratio
+    const heightPerWidth = image.width / (image.height * aspectRatioValue(ratio));
+    // Follow the side the pointer pulls furthest, then shrink to fit
+    if (height < width * heightPerWidth) {
+      height = width * heightPerWidth;
+    } else {
+      width = height / heightPerWidth;
+    }
+    if (width > maxWidth) {
+      width = maxWidth;
+      height = width * heightPerWidth;
+    }
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height / heightPerWidth;
+    }
+  }
+
+  return {
+    x: right ? anchor.x : anchor.x - width,
+    y: down ? anchor.y : anchor.y - height,
+    width,
+    height
+  };
+};
+
+// Same values as the preview's CSS filter, so what you see is what you save
+export const cssFilter = (edits: Pick<ImageEdits, 'brightness' | 'contrast' | 'saturation'>): string =>
+  `brightness(${edits.brightness}%) contrast(${edits.contrast}%) saturate(${edits.saturation}%)`;
+
+const clampByte = (value: number): number => clamp(value, 0, 255);
+
+// Applies brightness, contrast and saturation to RGBA pixel data in place,
+// using the formulas from the CSS filter spec (each step is clamped, like CSS)
+export const adjustPixels = (
+  data: Uint8ClampedArray,
+  { brightness, contrast, saturation }: Pick<ImageEdits, 'brightness' | 'contrast' | 'saturation'>
+): void => {
+  if (brightness === 100 && contrast === 100 && saturation === 100) return;
+  const b = brightness / 100;
+  const c = contrast / 100;
+  const s = saturation / 100;
+  const offset = 127.5 * (1 - c);
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = clampByte(clampByte(data[i] * b) * c + offset);
+    let g = clampByte(clampByte(data[i + 1] * b) * c + offset);
+    let bl = clampByte(clampByte(data[i + 2] * b) * c + offset);
+    if (s !== 1) {
+      [r, g, bl] = [
+        (0.213 + 0.787 * s) * r + (0.715 - 0.715 * s) * g + (0.072 - 0.072 * s) * bl,
+        (0.213 - 0.213 * s) * r + (0.715 + 0.285 * s) * g + (0.072 - 0.072 * s) * bl,
+        (0.213 - 0.213 * s) * r + (0.715 - 0.715 * s) * g + (0.072 + 0.928 * s) * bl
+      ];
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = bl;
+  }
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  return [canvas, ctx];
+};
+
+export const applyEdits = async (blob: Blob, edits: ImageEdits): Promise<{ blob: Blob } & Size> => {
+  const bitmap = await createImageBitmap(blob);
+  const output = editedSize(bitmap.width, bitmap.height, edits);
+  if (output.width * output.height > MAX_OUTPUT_PIXELS) {
+    bitmap.close();
+    throw new Error('The edited image would be too large. Try a smaller upscale.');
+  }
+
+  // Rotate and crop in a single draw
+  const rotated = rotatedSize(bitmap.width, bitmap.height, edits.rotation);
+  const crop = edits.crop ?? FULL_CROP;
+  const cropped = croppedSize(bitmap.width, bitmap.height, edits);
+  const [canvas, ctx] = createCanvas(cropped.width, cropped.height);
+  ctx.translate(-Math.round(crop.x * rotated.width), -Math.round(crop.y * rotated.height));
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  bitmap.close();
+
+  // Adjust before upscaling so there are fewer pixels to process
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  adjustPixels(pixels.data, edits);
+  ctx.putImageData(pixels, 0, 0);
+
+  // Upscaling in 2x steps gives smoother results than one big jump
+  let current = canvas;
+  for (let scale = 1; scale < edits.upscale; scale *= 2) {
+    const [next, nextCtx] = createCanvas(current.width * 2, current.height * 2);
+    nextCtx.imageSmoothingEnabled = true;
+    nextCtx.imageSmoothingQuality = 'high';
+    nextCtx.drawImage(current, 0, 0, next.width, next.height);
+    current = next;
+  }
+
+  const result = await new Promise<Blob | null>(resolve => current.toBlob(resolve, 'image/png'));
+  if (!result) throw new Error('Could not save the edited image');
+  return { blob: result, width: current.width, height: current.height };
+};
+
+// Renders `edits` on top of `original` and stores the result as a new gallery
+// image linked to it
+export const saveEditedVersion = async (original: GeneratedImage, edits: ImageEdits): Promise<StoredImage> => {
+  const response = await fetch(original.url);
+  const { blob, width, height } = await applyEdits(await response.blob(), edits);
+
+  const { url, ...metadata } = original;
+  const version: StoredImage = {
+    ...metadata,
+    id: createImageId(),
+    blob,
+    timestamp: Date.now(),
+    aspectRatio: closestAspectRatio(width, height) ?? original.aspectRatio,
+    width,
+    height,
+    favorite: false,
+    originalImageId: original.id,
+    edits
+  };
+  await imageStore.saveImage(version);
+  return version;
+};
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// Validates edits read from an imported manifest
+export const parseImageEdits = (value: unknown): ImageEdits | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const data = value as Record<string, unknown>;
+  const crop = data.crop as Record<string, unknown> | null | undefined;
+  const percentage = (field: string): number =>
+    typeof data[field] === 'number' && Number.isFinite(data[field]) ? clamp(data[field] as number, 0, 200) : 100;
+
+  return {
+    rotation: [0, 90, 180, 270].includes(data.rotation as number) ? data.rotation as Rotation : 0,
+    crop: crop && isFraction(crop.x) && isFraction(crop.y) && isFraction(crop.width) && isFraction(crop.height)
+      ? { x: crop.x, y: crop.y, width: crop.width, height: crop.height }
+      : null,
+    brightness: percentage('brightness'),
+    contrast: percentage('contrast'),
+    saturation: percentage('saturation'),
+    upscale: data.upscale === 2 || data.upscale === 4 ? data.upscale : 1
+  };
+};
@@ -0,0 +1,54 @@
+// Image type detection and conversion for downloads
+
+export type DownloadFormat = 'original' | 'png' | 'jpeg' | 'webp';
+
+export const DOWNLOAD_FORMATS: { id: DownloadFormat; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' }
+];
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg'
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+// Providers don't always send an accurate Content-Type, so look at the bytes
+export const sniffImageType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  return null;
+};
+
+export const isDownloadFormat = (value: unknown): value is DownloadFormat =>
+  DOWNLOAD_FORMATS.some(format => format.id === value);
+
+// Re-encodes an image in the browser; JPEG has no alpha, so transparent areas turn white
+export const convertImage = async (blob: Blob, type: string, quality = 0.92): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const converted = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  // Browsers fall back to PNG for formats they can't encode
+  if (!converted || converted.type !== type) throw new Error(`This browser cannot save ${IMAGE_EXTENSIONS[type] ?? type} images`);
+  return converted;
+};
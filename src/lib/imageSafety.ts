@@ -0,0 +1,31 @@
+// Extension point for a local image classifier (for example an NSFW model
+// running on TensorFlow.js or ONNX Runtime Web). Nothing is bundled; an
+// embedding app installs one with setImageClassifier, and every generated
+// image is then checked before it reaches the gallery.
+
+export interface ImageClassification {
+  flagged: boolean;
+  // What the classifier found, e.g. "nsfw 0.93"; shown on hidden images
+  label?: string;
+}
+
+export type ImageClassifier = (image: Blob) => Promise<ImageClassification>;
+
+let classifier: ImageClassifier | null = null;
+
+export const setImageClassifier = (next: ImageClassifier | null): void => {
+  classifier = next;
+};
+
+export const hasImageClassifier = (): boolean => classifier !== null;
+
+// A failing classifier never blocks a generation; the image is just unchecked
+export const classifyImage = async (image: Blob): Promise<ImageClassification | null> => {
+  if (!classifier) return null;
+  try {
+    return await classifier(image);
+  } catch (err) {
+    console.warn('Image classifier failed:', err);
+    return null;
+  }
+};
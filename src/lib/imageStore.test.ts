@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { makeImage } from '../test/images';
+import * as imageStore from './imageStore';
+
+const storedImage = (id: string, timestamp: number): imageStore.StoredImage =>
+  makeImage({ id, timestamp, blob: new Blob([id], { type: 'image/png' }) });
+
+describe('imageStore', () => {
+  afterEach(async () => {
+    await imageStore.clearImages();
+  });
+
+  it('loads saved images newest first with their blobs', async () => {
+    await imageStore.saveImage(storedImage('old', 1000));
+    await imageStore.saveImage(storedImage('new', 2000));
+
+    const images = await imageStore.loadImages();
+    expect(images.map(img => img.id)).toEqual(['new', 'old']);
+    expect(await images[0].blob.text()).toBe('new');
+    expect(images[0].blob.type).toBe('image/png');
+  });
+
+  it('deletes and prunes images', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await imageStore.saveImage(storedImage(`img-${i}`, i));
+    }
+    await imageStore.deleteImages(['img-4']);
+    const pruned = await imageStore.pruneImages({ maxImages: 2, maxAgeDays: null });
+
+    expect(pruned).toEqual(['img-1']);
+    expect((await imageStore.loadImages()).map(img => img.id)).toEqual(['img-3', 'img-2']);
+  });
+
+  it('never prunes favorites', async () => {
+    await imageStore.saveImage({ ...storedImage('favorite', 1), favorite: true });
+    await imageStore.saveImage(storedImage('recent', 2));
+    await imageStore.pruneImages({ maxImages: null, maxAgeDays: 1 });
+
+    expect((await imageStore.loadImages()).map(img => img.id)).toEqual(['favorite']);
+  });
+
+  it('updates favorites and tags in place', async () => {
+    await imageStore.saveImage(storedImage('a', 1));
+    await imageStore.saveImage(storedImage('b', 2));
+    await imageStore.updateImages(['a'], image => ({ favorite: true, tags: [...image.tags, 'cats'] }));
+
+    const images = await imageStore.loadImages();
+    expect(images.find(img => img.id === 'a')).toMatchObject({ favorite: true, tags: ['cats'] });
+    expect(images.find(img => img.id === 'b')).toMatchObject({ favorite: false, tags: [] });
+    expect(await images[1].blob.text()).toBe('a');
+  });
+
+  it('fills in fields missing from images saved by older versions', async () => {
+    const legacy: Partial<imageStore.StoredImage> = storedImage('legacy', 1);
+    delete legacy.mode;
+    delete legacy.favorite;
+    delete legacy.tags;
+    await imageStore.saveImage(legacy as imageStore.StoredImage);
+
+    const [image] = await imageStore.loadImages();
+    expect(image).toMatchObject({ mode: 'text-to-image', favorite: false, tags: [] });
+  });
+});
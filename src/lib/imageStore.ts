@@ -0,0 +1,157 @@
+import type { AspectRatio, GeneratedImage } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { UNKNOWN_SEED } from './seed';
+import { selectImagesToPrune, type GalleryRetention } from './gallery';
+import { IMAGES_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// Persistent gallery storage backed by IndexedDB. Images are stored as real
+// blobs so they survive reloads; object URLs are rebuilt by the caller.
+
+const LEGACY_STORAGE_KEY = 'recentImages';
+
+export type StoredImage = Omit<GeneratedImage, 'url'> & { blob: Blob };
+
+interface LegacyImage {
+  id: string;
+  url: string;
+  prompt: string;
+  timestamp: number;
+  aspectRatio: AspectRatio;
+}
+
+export const saveImage = async (image: StoredImage): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  tx.objectStore(IMAGES_STORE).put(image);
+  await transactionDone(tx);
+};
+
+export const saveImages = async (images: StoredImage[]): Promise<void> => {
+  if (images.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGES_STORE);
+  images.forEach(image => store.put(image));
+  await transactionDone(tx);
+};
+
+// Returns all stored images, newest first
+export const loadImages = async (): Promise<StoredImage[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readonly');
+  const images = await requestToPromise(tx.objectStore(IMAGES_STORE).getAll() as IDBRequest<StoredImage[]>);
+  // Fill in fields that images saved by older versions don't have
+  return images
+    .map(img => ({
+      ...img,
+      mode: img.mode ?? 'text-to-image',
+      favorite: img.favorite ?? false,
+      tags: img.tags ?? []
+    }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Applies `update` to each of the given images and saves the result
+export const updateImages = async (
+  ids: string[],
+  update: (image: StoredImage) => Partial<Pick<StoredImage, 'favorite' | 'tags'>>
+): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGES_STORE);
+  ids.forEach(id => {
+    const request = store.get(id) as IDBRequest<StoredImage | undefined>;
+    request.onsuccess = () => {
+      const image = request.result;
+      if (!image) return;
+      // Older records may not have tags or a favorite flag yet
+      const current = { ...image, favorite: image.favorite ?? false, tags: image.tags ?? [] };
+      store.put({ ...current, ...update(current) });
+    };
+  });
+  await transactionDone(tx);
+};
+
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGES_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const clearImages = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readwrite');
+  tx.objectStore(IMAGES_STORE).clear();
+  await transactionDone(tx);
+};
+
+// Deletes images the retention rules no longer keep and returns their ids
+export const pruneImages = async (retention: GalleryRetention): Promise<string[]> => {
+  const ids = selectImagesToPrune(await loadImages(), retention);
+  await deleteImages(ids);
+  return ids;
+};
+
+const fetchLegacyBlob = async (url: string): Promise<Blob | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return blob.type.startsWith('image/') ? blob : null;
+  } catch {
+    // Blob URLs from a previous session are revoked and can't be fetched
+    return null;
+  }
+};
+
+// Moves gallery entries saved by older versions (object URLs in localStorage)
+// into IndexedDB. Entries whose image data can no longer be read are dropped.
+export const migrateLegacyImages = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (saved === null) return 0;
+
+  let legacyImages: LegacyImage[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (Array.isArray(parsed)) legacyImages = parsed;
+  } catch {
+    console.warn('Discarding unreadable legacy gallery data');
+  }
+
+  let migrated = 0;
+  for (const legacy of legacyImages) {
+    if (!legacy || typeof legacy.url !== 'string') continue;
+    const blob = await fetchLegacyBlob(legacy.url);
+    if (!blob) continue;
+
+    await saveImage({
+      id: String(legacy.id),
+      blob,
+      prompt: legacy.prompt ?? '',
+      negativePrompt: '',
+      timestamp: legacy.timestamp ?? Date.now(),
+      aspectRatio: legacy.aspectRatio ?? DEFAULT_SETTINGS.aspectRatio,
+      settings: {
+        ...DEFAULT_SETTINGS,
+        aspectRatio: legacy.aspectRatio ?? DEFAULT_SETTINGS.aspectRatio,
+        seed: UNKNOWN_SEED
+      },
+      // Older versions sent no parameters, so the model rendered at its 512px default
+      width: 512,
+      height: 512,
+      provider: 'huggingface',
+      model: 'CompVis/stable-diffusion-v1-4',
+      mode: 'text-to-image',
+      favorite: false,
+      tags: []
+    });
+    migrated++;
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return migrated;
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue, type Job, type JobStatus } from './jobQueue';
+
+interface Call {
+  input: string;
+  signal: AbortSignal;
+  resolve: (result: string) => void;
+  reject: (err: Error) => void;
+}
+
+// A queue whose worker only settles when the test says so
+const setup = (concurrency: number) => {
+  const calls: Call[] = [];
+  let snapshot: Job<string, string>[] = [];
+  const queue = createJobQueue<string, string>({
+    concurrency,
+    worker: (input, signal) => new Promise((resolve, reject) => {
+      calls.push({ input, signal, resolve, reject });
+    }),
+    onChange: (jobs) => { snapshot = jobs; }
+  });
+  const statuses = (): JobStatus[] => snapshot.map(job => job.status);
+  return { queue, calls, statuses, jobs: () => snapshot };
+};
+
+// Lets the worker's settled promise and the queue's follow-up run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` jobs at a time, starting them in order', async () => {
+    const { queue, calls, statuses } = setup(2);
+    queue.enqueue(['a', 'b', 'c', 'd']);
+
+    expect(calls.map(call => call.input)).toEqual(['a', 'b']);
+    expect(statuses()).toEqual(['running', 'running', 'queued', 'queued']);
+
+    calls[1].resolve('B');
+    await flush();
+    expect(calls.map(call => call.input)).toEqual(['a', 'b', 'c']);
+    expect(statuses()).toEqual(['running', 'done', 'running', 'queued']);
+
+    calls[0].reject(new Error('Out of credits'));
+    await flush();
+    expect(calls.map(call => call.input)).toEqual(['a', 'b', 'c', 'd']);
+    expect(statuses()).toEqual(['failed', 'done', 'running', 'running']);
+  });
+
+  it('records results and errors on the jobs', async () => {
+    const { queue, calls, jobs } = setup(2);
+    queue.enqueue(['a', 'b']);
+    calls[0].resolve('A');
+    calls[1].reject(new Error('Out of credits'));
+    await flush();
+
+    expect(jobs()[0]).toMatchObject({ status: 'done', result: 'A' });
+    expect(jobs()[1]).toMatchObject({ status: 'failed', error: 'Out of credits' });
+  });
+
+  it('starts more jobs when the concurrency is raised', () => {
+    const { queue, calls } = setup(1);
+    queue.enqueue(['a', 'b', 'c']);
+    expect(calls).toHaveLength(1);
+
+    queue.setConcurrency(3);
+    expect(calls.map(call => call.input)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const { queue, calls, statuses } = setup(1);
+    const [, second] = queue.enqueue(['a', 'b', 'c']);
+
+    queue.cancel(second.id);
+    expect(statuses()).toEqual(['running', 'cancelled', 'queued']);
+
+    calls[0].resolve('A');
+    await flush();
+    expect(calls.map(call => call.input)).toEqual(['a', 'c']);
+  });
+
+  it('aborts a running job, ignores its outcome and starts the next', async () => {
+    const { queue, calls, statuses, jobs } = setup(1);
+    const [first] = queue.enqueue(['a', 'b']);
+
+    queue.cancel(first.id);
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(statuses()).toEqual(['cancelled', 'running']);
+
+    calls[0].resolve('A');
+    await flush();
+    expect(jobs()[0].status).toBe('cancelled');
+    expect(jobs()[0].result).toBeUndefined();
+  });
+
+  it('leaves finished jobs alone when cancelled', async () => {
+    const { queue, calls, statuses } = setup(1);
+    const [first] = queue.enqueue(['a']);
+    calls[0].resolve('A');
+    await flush();
+
+    queue.cancel(first.id);
+    queue.cancel('unknown');
+    expect(statuses()).toEqual(['done']);
+  });
+
+  it('cancels every queued and running job at once', async () => {
+    const { queue, calls, statuses } = setup(2);
+    queue.enqueue(['a', 'b', 'c', 'd']);
+    calls[0].resolve('A');
+    await flush();
+
+    queue.cancelAll();
+    expect(statuses()).toEqual(['done', 'cancelled', 'cancelled', 'cancelled']);
+    expect(calls.slice(1).map(call => call.signal.aborted)).toEqual([true, true]);
+
+    await flush();
+    expect(calls).toHaveLength(3);
+  });
+
+  it('clears finished jobs but keeps the active ones', async () => {
+    const { queue, calls, jobs } = setup(1);
+    queue.enqueue(['a', 'b', 'c']);
+    calls[0].resolve('A');
+    await flush();
+
+    queue.clearFinished();
+    expect(jobs().map(job => job.input)).toEqual(['b', 'c']);
+  });
+});
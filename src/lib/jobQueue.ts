@@ -0,0 +1,132 @@
+// Client-side job queue that runs at most `concurrency` jobs at a time.
+// Every job gets its own AbortController so it can be cancelled while
+// queued or running.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job<TInput, TResult, TProgress = unknown> {
+  id: string;
+  input: TInput;
+  status: JobStatus;
+  // Worker-reported detail about a running job
+  progress?: TProgress;
+  result?: TResult;
+  error?: string;
+}
+
+export type JobWorker<TInput, TResult, TProgress = unknown> = (
+  input: TInput,
+  signal: AbortSignal,
+  reportProgress: (progress: TProgress | undefined) => void
+) => Promise<TResult>;
+
+export interface JobQueueOptions<TInput, TResult, TProgress = unknown> {
+  concurrency: number;
+  worker: JobWorker<TInput, TResult, TProgress>;
+  // Called with a fresh snapshot of all jobs whenever any job changes
+  onChange: (jobs: Job<TInput, TResult, TProgress>[]) => void;
+}
+
+export interface JobQueue<TInput, TResult, TProgress = unknown> {
+  enqueue: (inputs: TInput[]) => Job<TInput, TResult, TProgress>[];
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  // Drops finished, failed and cancelled jobs from the list
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getJobs: () => Job<TInput, TResult, TProgress>[];
+}
+
+let nextJobId = 0;
+
+const isActive = (status: JobStatus): boolean => status === 'queued' || status === 'running';
+
+export const createJobQueue = <TInput, TResult, TProgress = unknown>(
+  options: JobQueueOptions<TInput, TResult, TProgress>
+): JobQueue<TInput, TResult, TProgress> => {
+  let jobs: Job<TInput, TResult, TProgress>[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  const controllers = new Map<string, AbortController>();
+
+  const notify = () => options.onChange([...jobs]);
+
+  const update = (id: string, changes: Partial<Job<TInput, TResult, TProgress>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    notify();
+  };
+
+  const run = async (job: Job<TInput, TResult, TProgress>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running' });
+
+    try {
+      const result = await options.worker(job.input, controller.signal, (progress) => {
+        if (!controller.signal.aborted) update(job.id, { progress });
+      });
+      if (controller.signal.aborted) return;
+      update(job.id, { status: 'done', progress: undefined, result });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      update(job.id, {
+        status: 'failed',
+        progress: undefined,
+        error: err instanceof Error ? err.message : 'Job failed'
+      });
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  // Starts queued jobs in order until the concurrency limit is reached
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status !== 'queued') continue;
+      running++;
+      void run(job);
+    }
+  };
+
+  const abort = (id: string): boolean => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isActive(job.status)) return false;
+    controllers.get(id)?.abort();
+    jobs = jobs.map(j => (j.id === id ? { ...j, status: 'cancelled' } : j));
+    return true;
+  };
+
+  return {
+    enqueue: (inputs) => {
+      const newJobs = inputs.map(input => ({
+        id: `job-${++nextJobId}`,
+        input,
+        status: 'queued' as const
+      }));
+      jobs = [...jobs, ...newJobs];
+      notify();
+      pump();
+      return newJobs;
+    },
+    cancel: (id) => {
+      if (!abort(id)) return;
+      notify();
+      pump();
+    },
+    cancelAll: () => {
+      jobs.filter(job => isActive(job.status)).forEach(job => abort(job.id));
+      notify();
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => isActive(job.status));
+      notify();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getJobs: () => [...jobs]
+  };
+};
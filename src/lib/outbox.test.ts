@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import type { GenerationInput } from './generationClient';
+import * as outbox from './outbox';
+
+const input = (prompt: string): GenerationInput => ({
+  prompt,
+  negativePrompt: '',
+  settings: DEFAULT_SETTINGS,
+  stylePreset: DEFAULT_STYLE_PRESET,
+  providerId: 'huggingface',
+  model: '',
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  mode: 'text-to-image'
+});
+
+describe('outbox', () => {
+  afterEach(async () => {
+    await outbox.removeFromOutbox((await outbox.loadOutbox()).map(entry => entry.id));
+  });
+
+  it('keeps entries in submission order until they are removed', async () => {
+    const first = outbox.createOutboxEntries([input('a fox'), input('a hare')], 1000);
+    const second = outbox.createOutboxEntries([input('an owl')], 2000);
+    await outbox.addToOutbox(second);
+    await outbox.addToOutbox(first);
+
+    const saved = await outbox.loadOutbox();
+    expect(saved.map(entry => entry.input.prompt)).toEqual(['a fox', 'a hare', 'an owl']);
+
+    await outbox.removeFromOutbox([first[1].id]);
+    expect((await outbox.loadOutbox()).map(entry => entry.input.prompt)).toEqual(['a fox', 'an owl']);
+  });
+});
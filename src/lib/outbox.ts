@@ -0,0 +1,44 @@
+import type { GenerationInput } from './generationClient';
+import { OUTBOX_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// Generations submitted while offline. They are kept in IndexedDB so they
+// survive a reload and are sent once the connection is back.
+
+export interface OutboxEntry {
+  id: string;
+  // When it was submitted
+  timestamp: number;
+  input: GenerationInput;
+}
+
+export const createOutboxEntries = (inputs: GenerationInput[], timestamp = Date.now()): OutboxEntry[] =>
+  inputs.map((input, index) => ({
+    id: `outbox-${timestamp}-${String(index).padStart(3, '0')}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    input
+  }));
+
+export const addToOutbox = async (entries: OutboxEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
+
+// Returns the waiting entries, oldest first
+export const loadOutbox = async (): Promise<OutboxEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(OUTBOX_STORE).index('timestamp').getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+export const removeFromOutbox = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zlibSync } from 'fflate';
+import { DEFAULT_SETTINGS } from '../constants';
+import {
+  formatGenerationParameters,
+  parseGenerationParameters,
+  readGenerationParameters,
+  readPngText,
+  writePngText
+} from './pngMetadata';
+
+// A 1x1 transparent PNG
+const PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+
+const image = {
+  prompt: 'a lighthouse, stormy sea',
+  negativePrompt: 'blurry, text',
+  settings: { ...DEFAULT_SETTINGS, aspectRatio: '16:9' as const, seed: 42, stylePreset: 'cinematic' },
+  width: 1024,
+  height: 576,
+  provider: 'huggingface',
+  model: 'stabilityai/sdxl',
+  mode: 'text-to-image' as const
+};
+
+// Builds a raw chunk for formats writePngText doesn't produce
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  new DataView(bytes.buffer).setUint32(0, data.length);
+  bytes.set(strToU8(type), 4);
+  bytes.set(data, 8);
+  return bytes;
+};
+
+const insertAfterHeader = (png: Uint8Array, extra: Uint8Array): Uint8Array => {
+  // Signature (8) + IHDR (12 + 13)
+  const split = 33;
+  const result = new Uint8Array(png.length + extra.length);
+  result.set(png.subarray(0, split));
+  result.set(extra, split);
+  result.set(png.subarray(split), split + extra.length);
+  return result;
+};
+
+describe('PNG text chunks', () => {
+  it('writes entries that can be read back', () => {
+    const tagged = writePngText(PNG, { parameters: 'hello', title: 'Überschrift ✨' });
+    expect(readPngText(tagged)).toEqual({ parameters: 'hello', title: 'Überschrift ✨' });
+  });
+
+  it('replaces existing entries instead of duplicating them', () => {
+    const tagged = writePngText(writePngText(PNG, { parameters: 'old' }), { parameters: 'new' });
+    expect(readPngText(tagged)).toEqual({ parameters: 'new' });
+    expect(tagged.length).toBe(writePngText(PNG, { parameters: 'new' }).length);
+  });
+
+  it('reads compressed zTXt and iTXt chunks', () => {
+    const zTXt = chunk('zTXt', new Uint8Array([...strToU8('a'), 0, 0, ...zlibSync(strToU8('zipped'))]));
+    const iTXt = chunk('iTXt', new Uint8Array([...strToU8('b'), 0, 1, 0, 0, 0, ...zlibSync(strToU8('☃ snow'))]));
+    expect(readPngText(insertAfterHeader(PNG, new Uint8Array([...zTXt, ...iTXt])))).toEqual({ a: 'zipped', b: '☃ snow' });
+  });
+});
+
+describe('generation parameters', () => {
+  it('uses the Automatic1111 layout', () => {
+    expect(formatGenerationParameters(image)).toBe([
+      'a lighthouse, stormy sea',
+      'Negative prompt: blurry, text',
+      'Steps: 30, CFG scale: 7.5, Seed: 42, Size: 1024x576, Model: stabilityai/sdxl, Provider: huggingface, Style preset: cinematic'
+    ].join('\n'));
+  });
+
+  it('round-trips through the text format', () => {
+    expect(parseGenerationParameters(formatGenerationParameters({ ...image, model: 'org/model:v2, final' }))).toEqual({
+      prompt: 'a lighthouse, stormy sea',
+      negativePrompt: 'blurry, text',
+      settings: { steps: 30, guidance: 7.5, seed: 42, aspectRatio: '16:9', stylePreset: 'cinematic' },
+      provider: 'huggingface',
+      model: 'org/model:v2, final'
+    });
+  });
+
+  it('reads parameters written by Automatic1111', () => {
+    const text = 'masterpiece, 1girl\nwith a hat\nNegative prompt: lowres\nSteps: 20, Sampler: Euler a, CFG scale: 7, Seed: 123, Size: 512x768, Model hash: abc, Model: anything-v3';
+    expect(parseGenerationParameters(text)).toEqual({
+      prompt: 'masterpiece, 1girl\nwith a hat',
+      negativePrompt: 'lowres',
+      settings: { steps: 20, guidance: 7, seed: 123, aspectRatio: '2:3' },
+      model: 'anything-v3'
+    });
+  });
+
+  it('skips settings outside the ranges the form accepts', () => {
+    const text = 'a cat\nSteps: 100000, CFG scale: NaN, Seed: -5, Denoising strength: 2, Size: 512x512';
+    expect(parseGenerationParameters(text).settings).toEqual({ aspectRatio: '1:1' });
+    expect(parseGenerationParameters('a cat\nSteps: 2.5, CFG scale: 31, Seed: 4294967296').settings).toEqual({});
+  });
+
+  it('treats text without a settings line as a prompt', () => {
+    expect(parseGenerationParameters('just a prompt: nothing else')).toEqual({
+      prompt: 'just a prompt: nothing else',
+      negativePrompt: '',
+      settings: {}
+    });
+  });
+
+  it('reads parameters from a file and ignores other formats', async () => {
+    const tagged = writePngText(PNG, { parameters: formatGenerationParameters(image) });
+    expect((await readGenerationParameters(new Blob([tagged])))?.prompt).toBe(image.prompt);
+    expect(await readGenerationParameters(new Blob([PNG]))).toBeNull();
+    expect(await readGenerationParameters(new Blob([new Uint8Array([0xff, 0xd8, 0xff])]))).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+import { unzlibSync } from 'fflate';
+import type { GeneratedImage, ImageSettings } from '../types';
+import { closestAspectRatio } from './resolution';
+import { MAX_SEED } from './seed';
+
+// Reads and writes PNG text chunks. Generation parameters use the
+// Automatic1111 "parameters" convention so other tools can read them too:
+//
+//   a castle on a hill
+//   Negative prompt: blurry
+//   Steps: 30, CFG scale: 7.5, Seed: 1234, Size: 512x512, Model: ...
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt'];
+export const PARAMETERS_KEY = 'parameters';
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// What an image's metadata tells us about how it was generated
+export interface GenerationParameters {
+  prompt: string;
+  negativePrompt: string;
+  settings: Partial<ImageSettings>;
+  provider?: string;
+  model?: string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const latin1Decode = (bytes: Uint8Array): string => {
+  let text = '';
+  for (const byte of bytes) text += String.fromCharCode(byte);
+  return text;
+};
+
+const latin1Encode = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1Decode(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new Error('Truncated PNG file');
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const encodeChunk = ({ type, data }: PngChunk): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1Encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// Returns [keyword, text] for tEXt, zTXt and iTXt chunks
+const decodeTextChunk = ({ type, data }: PngChunk): [string, string] | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 1) return null;
+  const keyword = latin1Decode(data.subarray(0, keywordEnd));
+
+  if (type === 'tEXt') return [keyword, latin1Decode(data.subarray(keywordEnd + 1))];
+  if (type === 'zTXt') return [keyword, latin1Decode(unzlibSync(data.subarray(keywordEnd + 2)))];
+
+  // iTXt: compression flag, method, language tag\0, translated keyword\0, UTF-8 text
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return null;
+  const text = data.subarray(translatedEnd + 1);
+  return [keyword, new TextDecoder().decode(compressed ? unzlibSync(text) : text)];
+};
+
+// Chunks with corrupt compressed text are skipped
+const tryDecodeTextChunk = (chunk: PngChunk): [string, string] | null => {
+  try {
+    return decodeTextChunk(chunk);
+  } catch {
+    return null;
+  }
+};
+
+const encodeTextChunk = (keyword: string, text: string): PngChunk => {
+  const key = latin1Encode(keyword);
+  // Plain tEXt only holds Latin-1; anything else goes into an uncompressed iTXt
+  if ([...text].every(char => char.charCodeAt(0) > 0 && char.charCodeAt(0) <= 0xff)) {
+    return { type: 'tEXt', data: concat([key, new Uint8Array([0]), latin1Encode(text)]) };
+  }
+  return {
+    type: 'iTXt',
+    data: concat([key, new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)])
+  };
+};
+
+export const readPngText = (bytes: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (const chunk of readChunks(bytes)) {
+    const entry = TEXT_CHUNKS.includes(chunk.type) ? tryDecodeTextChunk(chunk) : null;
+    if (entry) entries[entry[0]] = entry[1];
+  }
+  return entries;
+};
+
+// Returns a copy of the PNG with the given text entries, replacing any
+// existing chunks with the same keywords
+export const writePngText = (bytes: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  const keywords = Object.keys(entries);
+  const chunks = readChunks(bytes).filter(chunk =>
+    !TEXT_CHUNKS.includes(chunk.type) || !keywords.includes(tryDecodeTextChunk(chunk)?.[0] ?? '')
+  );
+  const textChunks = Object.entries(entries).map(([keyword, text]) => encodeTextChunk(keyword, text));
+  // IHDR has to stay first; text chunks may go anywhere before IEND
+  const [header, ...rest] = chunks;
+  return concat([
+    new Uint8Array(PNG_SIGNATURE),
+    ...[header, ...textChunks, ...rest].map(encodeChunk)
+  ]);
+};
+
+// A1111 quotes values that contain commas or quotes as JSON strings
+const formatValue = (value: string | number): string => {
+  const text = String(value);
+  return /[,:"\n]/.test(text) ? JSON.stringify(text) : text;
+};
+
+export const formatGenerationParameters = (
+  image: Pick<GeneratedImage, 'prompt' | 'negativePrompt' | 'settings' | 'width' | 'height' | 'provider' | 'model' | 'mode'>
+): string => {
+  const params: [string, string | number][] = [
+    ['Steps', image.settings.steps],
+    ['CFG scale', image.settings.guidance],
+    ...(image.settings.seed >= 0 ? [['Seed', image.settings.seed] as [string, number]] : []),
+    ['Size', `${image.width}x${image.height}`],
+    ['Model', image.model],
+    ['Provider', image.provider],
+    ['Style preset', image.settings.stylePreset],
+    ...(image.mode !== 'text-to-image' ? [['Denoising strength', image.settings.strength] as [string, number]] : [])
+  ];
+  return [
+    image.prompt,
+    ...(image.negativePrompt ? [`Negative prompt: ${image.negativePrompt}`] : []),
+    params.map(([key, value]) => `${key}: ${formatValue(value)}`).join(', ')
+  ].join('\n');
+};
+
+const PARAM_PATTERN = /\s*([\w ]+):\s*("(?:\\.|[^\\"])+"|[^,]*)(?:,|$)/g;
+
+const parseParamLine = (line: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  for (const [, key, raw] of line.matchAll(PARAM_PATTERN)) {
+    let value = raw.trim();
+    if (value.startsWith('"')) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // Keep the quoted text
+      }
+    }
+    params[key.trim()] = value;
+  }
+  return params;
+};
+
+// Anyone can write these chunks, so values outside the limits studio links
+// accept are skipped
+const numberInRange = (value: string | undefined, min: number, max: number, integer: boolean): number | undefined => {
+  const number = value === undefined || value.trim() === '' ? NaN : Number(value);
+  if (!Number.isFinite(number) || (integer && !Number.isInteger(number)) || number < min || number > max) return undefined;
+  return number;
+};
+
+export const parseGenerationParameters = (text: string): GenerationParameters => {
+  const lines = text.trim().split('\n');
+  // Like A1111, the last line holds the settings if it has at least three "Key: value" pairs
+  const lastParams = parseParamLine(lines[lines.length - 1] ?? '');
+  const hasParams = lines.length > 1 && Object.keys(lastParams).length >= 3;
+  const params = hasParams ? lastParams : {};
+  if (hasParams) lines.pop();
+
+  const negativeIndex = lines.findIndex(line => line.startsWith('Negative prompt:'));
+  const promptLines = negativeIndex < 0 ? lines : lines.slice(0, negativeIndex);
+  const negativeLines = negativeIndex < 0 ? [] : lines.slice(negativeIndex);
+  const [width, height] = (params.Size ?? '').split('x').map(Number);
+  const aspectRatio = width > 0 && height > 0 ? closestAspectRatio(width, height) : undefined;
+
+  const settings: Partial<ImageSettings> = {};
+  const steps = numberInRange(params.Steps, 1, 150, true);
+  const guidance = numberInRange(params['CFG scale'], 0, 30, false);
+  const seed = numberInRange(params.Seed, 0, MAX_SEED, true);
+  const strength = numberInRange(params['Denoising strength'], 0, 1, false);
+  if (steps !== undefined) settings.steps = steps;
+  if (guidance !== undefined) settings.guidance = guidance;
+  if (seed !== undefined) settings.seed = seed;
+  if (strength !== undefined) settings.strength = strength;
+  if (aspectRatio) settings.aspectRatio = aspectRatio;
+  if (params['Style preset']) settings.stylePreset = params['Style preset'];
+
+  return {
+    prompt: promptLines.join('\n').trim(),
+    negativePrompt: negativeLines.join('\n').replace(/^Negative prompt:\s*/, '').trim(),
+    settings,
+    ...(params.Provider && { provider: params.Provider }),
+    ...(params.Model && { model: params.Model })
+  };
+};
+
+// Reads generation parameters from a dropped or uploaded file, if it has any
+export const readGenerationParameters = async (file: Blob): Promise<GenerationParameters | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) return null;
+  const text = readPngText(bytes)[PARAMETERS_KEY];
+  return text ? parseGenerationParameters(text) : null;
+};
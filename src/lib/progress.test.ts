@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { describeQueueStatus, estimateGenerationMs, formatDuration, remainingMs, stageFraction, type GenerationProgress } from './progress';
+
+const progress = (overrides: Partial<GenerationProgress> = {}): GenerationProgress => ({
+  stage: 'generating',
+  startedAt: 0,
+  stageStartedAt: 1000,
+  ...overrides
+});
+
+describe('stageFraction', () => {
+  it('prefers the fraction reported by the provider', () => {
+    expect(stageFraction(progress({ fraction: 0.4, expectedEndAt: 11000 }), 9000)).toBe(0.4);
+  });
+
+  it('estimates from the expected end and stops short of full', () => {
+    expect(stageFraction(progress({ expectedEndAt: 11000 }), 6000)).toBe(0.5);
+    expect(stageFraction(progress({ expectedEndAt: 11000 }), 60000)).toBe(0.95);
+    expect(stageFraction(progress(), 6000)).toBeNull();
+  });
+});
+
+describe('remainingMs', () => {
+  it('counts down to the expected end', () => {
+    expect(remainingMs(progress({ expectedEndAt: 11000 }), 6000)).toBe(5000);
+    expect(remainingMs(progress({ expectedEndAt: 11000 }), 20000)).toBe(0);
+  });
+
+  it('adds the generation still to come while a model loads', () => {
+    const loading = progress({ stage: 'loading-model', expectedEndAt: 11000 });
+    expect(remainingMs({ ...loading, expectedMs: 8000 }, 6000)).toBe(13000);
+    expect(remainingMs(loading, 6000)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it.each([
+    [400, '0s'],
+    [12400, '12s'],
+    [65000, '1m 05s']
+  ])('formats %i ms as %s', (ms, text) => {
+    expect(formatDuration(ms)).toBe(text);
+  });
+});
+
+describe('estimateGenerationMs', () => {
+  const image = (timestamp: number, generationMs?: number, model = 'sd') =>
+    ({ provider: 'huggingface', model, timestamp, generationMs });
+
+  it('takes the median of the latest timings for the model', () => {
+    const images = [image(1, 9000), image(2, 3000), image(3, 4000), image(4, 5000, 'other'), image(5)];
+    expect(estimateGenerationMs(images, 'huggingface', 'sd')).toBe(4000);
+    expect(estimateGenerationMs(images.slice(1), 'huggingface', 'sd')).toBe(3500);
+    expect(estimateGenerationMs(images, 'openai', 'sd')).toBeUndefined();
+  });
+
+  it('ignores edited versions and old timings', () => {
+    const recent = Array.from({ length: 10 }, (_, i) => image(100 + i, 2000));
+    const edited = { ...image(200, 90000), originalImageId: 'a' };
+    expect(estimateGenerationMs([image(1, 60000), ...recent, edited], 'huggingface', 'sd')).toBe(2000);
+  });
+});
+
+describe('describeQueueStatus', () => {
+  it('counts finished jobs while the queue is running', () => {
+    expect(describeQueueStatus([])).toBe('');
+    expect(describeQueueStatus([{ status: 'running' }])).toBe('Generating 1 image');
+    expect(describeQueueStatus([{ status: 'done' }, { status: 'failed' }, { status: 'queued' }])).toBe('Generating 3 images, 2 finished');
+  });
+
+  it('sums up the outcome with the first error once everything has finished', () => {
+    expect(describeQueueStatus([{ status: 'done' }])).toBe('Generation finished: 1 image ready');
+    expect(describeQueueStatus([
+      { status: 'done' },
+      { status: 'failed', error: 'Rate limited.\nTry again later' },
+      { status: 'failed', error: 'Timed out' },
+      { status: 'cancelled' }
+    ])).toBe('Generation finished: 1 image ready, 2 failed, 1 cancelled. Rate limited. Try again later');
+  });
+});
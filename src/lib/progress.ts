@@ -0,0 +1,105 @@
+import type { GeneratedImage } from '../types';
+import type { JobStatus } from './jobQueue';
+import type { RetryInfo } from './retry';
+
+// Status model for a generation job. Queued jobs have no progress yet; a
+// running job moves through the other stages, possibly waiting for a model
+// to load or a retry in between.
+export type GenerationStage = 'validating' | 'queued' | 'loading-model' | 'retrying' | 'generating' | 'decoding';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  // Epoch milliseconds when the job started running
+  startedAt: number;
+  stageStartedAt: number;
+  // When the current stage should be over, if the provider or history says
+  expectedEndAt?: number;
+  // Typical time for the generation itself, from the gallery's timings
+  expectedMs?: number;
+  // 0 to 1, for providers that report progress
+  fraction?: number;
+  // Latest intermediate image as a data URL
+  preview?: string;
+  // Set while waiting for a model to load or a retry
+  retry?: RetryInfo;
+}
+
+export const STAGE_LABELS: Record<GenerationStage, string> = {
+  validating: 'Checking settings',
+  queued: 'Queued',
+  'loading-model': 'Model is loading',
+  retrying: 'Waiting to retry',
+  generating: 'Generating',
+  decoding: 'Processing image'
+};
+
+// How many recent timings the estimate is based on
+const ESTIMATE_SAMPLE_SIZE = 10;
+
+// Estimates run over, so an estimated bar stops short of full
+const MAX_ESTIMATED_FRACTION = 0.95;
+
+const isWaiting = (stage: GenerationStage): boolean => stage === 'loading-model' || stage === 'retrying';
+
+// Share of the current stage that is done, or null when nothing is known
+export const stageFraction = (progress: GenerationProgress, now: number): number | null => {
+  if (progress.fraction !== undefined) return progress.fraction;
+  if (progress.expectedEndAt === undefined) return null;
+  const total = progress.expectedEndAt - progress.stageStartedAt;
+  if (total <= 0) return MAX_ESTIMATED_FRACTION;
+  return Math.min(MAX_ESTIMATED_FRACTION, Math.max(0, (now - progress.stageStartedAt) / total));
+};
+
+// Time until the image should be ready. While waiting for a model or retry
+// that includes the generation still to come, when its length is known.
+export const remainingMs = (progress: GenerationProgress, now: number): number | null => {
+  if (progress.expectedEndAt === undefined) return null;
+  const stageRemaining = Math.max(0, progress.expectedEndAt - now);
+  if (!isWaiting(progress.stage)) return stageRemaining;
+  return progress.expectedMs === undefined ? null : stageRemaining + progress.expectedMs;
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+// Median generation time of the most recent images from this provider and
+// model. Edited versions carry their original's timing, so they are skipped.
+export const estimateGenerationMs = (
+  images: Pick<GeneratedImage, 'provider' | 'model' | 'timestamp' | 'generationMs' | 'originalImageId'>[],
+  provider: string,
+  model: string
+): number | undefined => {
+  const timings = images
+    .filter(image => image.provider === provider && image.model === model && !image.originalImageId && image.generationMs)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, ESTIMATE_SAMPLE_SIZE)
+    .map(image => image.generationMs!)
+    .sort((a, b) => a - b);
+  if (timings.length === 0) return undefined;
+  const middle = Math.floor(timings.length / 2);
+  return timings.length % 2 ? timings[middle] : Math.round((timings[middle - 1] + timings[middle]) / 2);
+};
+
+const images = (count: number) => `${count} image${count === 1 ? '' : 's'}`;
+
+// One-line summary of the queue for screen readers. It only changes when a
+// job changes status, so progress updates don't flood the live region.
+export const describeQueueStatus = (jobs: { status: JobStatus; error?: string }[]): string => {
+  if (jobs.length === 0) return '';
+  const count = (status: JobStatus) => jobs.filter(job => job.status === status).length;
+  const active = count('queued') + count('running');
+  if (active > 0) {
+    const finished = jobs.length - active;
+    return `Generating ${images(jobs.length)}${finished > 0 ? `, ${finished} finished` : ''}`;
+  }
+  const parts = [
+    count('done') > 0 && `${images(count('done'))} ready`,
+    count('failed') > 0 && `${count('failed')} failed`,
+    count('cancelled') > 0 && `${count('cancelled')} cancelled`
+  ].filter(Boolean);
+  const firstError = jobs.find(job => job.status === 'failed')?.error;
+  return `Generation finished: ${parts.join(', ')}${firstError ? `. ${firstError.replace(/\s+/g, ' ')}` : ''}`;
+};
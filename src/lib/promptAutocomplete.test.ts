@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { applySuggestion, suggestTerms } from './promptAutocomplete';
+
+const texts = (text: string, cursor = text.length) => suggestTerms(text, cursor)?.terms.map(term => term.text);
+
+describe('suggestTerms', () => {
+  it('completes the word being typed', () => {
+    expect(texts('a castle, watercol')).toEqual(['watercolor']);
+    expect(suggestTerms('a castle, watercol', 18)).toMatchObject({ start: 10, end: 18 });
+  });
+
+  it('matches later words, accents and case', () => {
+    expect(texts('a portrait by dali')).toEqual(['Salvador Dalí']);
+    expect(texts('HOUR')).toContain('golden hour');
+  });
+
+  it('prefers terms that continue the whole clause', () => {
+    expect(suggestTerms('castle, golden h', 16)).toEqual({ start: 8, end: 16, terms: [{ text: 'golden hour', category: 'lighting' }] });
+  });
+
+  it('stays quiet for short words, complete terms and mid-word cursors', () => {
+    expect(texts('a')).toBeUndefined();
+    expect(texts('sunset')).toBeUndefined();
+    expect(texts('watercolor', 5)).toBeUndefined();
+  });
+
+  it('completes inside emphasis', () => {
+    expect(suggestTerms('(cinematic l', 12)).toMatchObject({ start: 1 });
+  });
+});
+
+describe('applySuggestion', () => {
+  it('replaces the typed part and moves the cursor after the term', () => {
+    const text = 'a fox, golden h, snow';
+    const suggestions = suggestTerms(text, 15)!;
+    expect(applySuggestion(text, suggestions, suggestions.terms[0])).toEqual({ value: 'a fox, golden hour, snow', cursor: 18 });
+  });
+});
@@ -0,0 +1,68 @@
+import vocabulary from './promptVocabulary.json';
+
+// Prompt term suggestions from the local vocabulary in promptVocabulary.json
+
+export type VocabularyCategory = keyof typeof vocabulary;
+
+export interface VocabularyTerm {
+  text: string;
+  category: VocabularyCategory;
+}
+
+export interface TermSuggestions {
+  // Range of the prompt that a chosen suggestion replaces
+  start: number;
+  end: number;
+  terms: VocabularyTerm[];
+}
+
+export const VOCABULARY: VocabularyTerm[] = (Object.keys(vocabulary) as VocabularyCategory[])
+  .flatMap(category => vocabulary[category].map(text => ({ text, category })));
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 8;
+// Terms end at commas, emphasis brackets, weights and line breaks
+const SEPARATORS = /[,()[\]:\n]/;
+
+// Accents and case don't matter when matching
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Terms the clause already ends with are complete, not suggestions
+const matchTerms = (query: string, clause: string, terms: VocabularyTerm[]): VocabularyTerm[] => {
+  const normalized = normalize(query);
+  const typed = normalize(clause);
+  if (normalized.length < MIN_QUERY_LENGTH) return [];
+  return terms.filter(term => {
+    const text = normalize(term.text);
+    return !typed.endsWith(text) && (text.startsWith(normalized) || text.split(/[\s-]+/).some(word => word.startsWith(normalized)));
+  }).slice(0, MAX_SUGGESTIONS);
+};
+
+// Suggestions for the term being typed at `cursor`: first for everything
+// since the last separator, so "golden h" finds "golden hour", then for
+// the last word alone
+export const suggestTerms = (text: string, cursor: number, terms = VOCABULARY): TermSuggestions | null => {
+  const before = text.slice(0, cursor);
+  // Only complete at the end of a word
+  if (/\p{L}|\p{N}/u.test(text.charAt(cursor))) return null;
+
+  let start = before.length;
+  while (start > 0 && !SEPARATORS.test(before[start - 1])) start--;
+  start += before.slice(start).length - before.slice(start).trimStart().length;
+  const clause = before.slice(start);
+
+  if (/\s/.test(clause)) {
+    const clauseMatches = matchTerms(clause, clause, terms.filter(term => /\s/.test(term.text)));
+    if (clauseMatches.length > 0) return { start, end: cursor, terms: clauseMatches };
+  }
+  const wordStart = start + clause.search(/\S+$/);
+  if (wordStart < start) return null;
+  const wordMatches = matchTerms(before.slice(wordStart), clause, terms);
+  return wordMatches.length > 0 ? { start: wordStart, end: cursor, terms: wordMatches } : null;
+};
+
+// The prompt with a suggestion accepted, and where the cursor goes
+export const applySuggestion = (text: string, suggestions: TermSuggestions, term: VocabularyTerm) => {
+  const value = `${text.slice(0, suggestions.start)}${term.text}${text.slice(suggestions.end)}`;
+  return { value, cursor: suggestions.start + term.text.length };
+};
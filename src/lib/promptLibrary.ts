@@ -0,0 +1,57 @@
+// Prompt history and user templates, persisted in localStorage
+
+export interface PromptHistoryEntry {
+  id: string;
+  prompt: string;
+  negativePrompt: string;
+  timestamp: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+  negativePrompt: string;
+  createdAt: number;
+}
+
+const HISTORY_KEY = 'promptHistory';
+const TEMPLATES_KEY = 'promptTemplates';
+export const MAX_HISTORY_ENTRIES = 100;
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createLibraryId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadHistory = (): PromptHistoryEntry[] => readList<PromptHistoryEntry>(HISTORY_KEY);
+
+export const saveHistory = (history: PromptHistoryEntry[]): void => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+};
+
+export const loadTemplates = (): PromptTemplate[] => readList<PromptTemplate>(TEMPLATES_KEY);
+
+export const saveTemplates = (templates: PromptTemplate[]): void => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// Adds a prompt to the top of the history; resubmitting a prompt moves it up
+export const addHistoryEntry = (
+  history: PromptHistoryEntry[],
+  prompt: string,
+  negativePrompt: string
+): PromptHistoryEntry[] => [
+  { id: createLibraryId(), prompt, negativePrompt, timestamp: Date.now() },
+  ...history.filter(entry => entry.prompt !== prompt || entry.negativePrompt !== negativePrompt)
+].slice(0, MAX_HISTORY_ENTRIES);
+
+export const matchesSearch = (text: string, query: string): boolean =>
+  text.toLowerCase().includes(query.trim().toLowerCase());
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrompt, stripPromptWeights } from './promptSyntax';
+
+describe('parsePrompt', () => {
+  it('reads explicit weights and bracket emphasis', () => {
+    expect(parsePrompt('a (castle:1.3) in [fog], ((stars))').segments).toEqual([
+      { text: 'a ', weight: 1 },
+      { text: 'castle', weight: 1.3 },
+      { text: ' in ', weight: 1 },
+      { text: 'fog', weight: 0.9091 },
+      { text: ', ', weight: 1 },
+      { text: 'stars', weight: 1.21 }
+    ]);
+  });
+
+  it('multiplies nested weights', () => {
+    expect(parsePrompt('((red:1.5) boat:1.2)').segments).toEqual([
+      { text: 'red', weight: 1.8 },
+      { text: ' boat', weight: 1.2 }
+    ]);
+  });
+
+  it('keeps escaped brackets as text', () => {
+    const parsed = parsePrompt('a \\(literal\\) bracket');
+    expect(parsed.plain).toBe('a (literal) bracket');
+    expect(parsed.segments).toEqual([{ text: 'a (literal) bracket', weight: 1 }]);
+  });
+
+  it('maps plain text back to the source', () => {
+    const source = 'a (big:1.4) [cat]';
+    const parsed = parsePrompt(source);
+    expect(parsed.plain).toBe('a big cat');
+    expect(parsed.sourceIndex.map(index => source[index]).join('')).toBe(parsed.plain);
+  });
+
+  it('reports unbalanced brackets and applies open ones to the end', () => {
+    const parsed = parsePrompt('a (bright moon, stars) ]');
+    expect(parsed.errors).toEqual(['Unmatched "]" at character 24']);
+
+    const unclosed = parsePrompt('a (bright moon');
+    expect(unclosed.errors).toEqual(['Unclosed "(" at character 3']);
+    expect(unclosed.segments).toEqual([{ text: 'a ', weight: 1 }, { text: 'bright moon', weight: 1.1 }]);
+  });
+});
+
+describe('stripPromptWeights', () => {
+  it('leaves the words', () => {
+    expect(stripPromptWeights('(masterpiece:1.2), a [[blurry]] (fox)')).toBe('masterpiece, a blurry fox');
+    expect(stripPromptWeights('time: 12:30')).toBe('time: 12:30');
+  });
+});
@@ -0,0 +1,92 @@
+// Emphasis syntax as understood by Automatic1111: `(word)` multiplies the
+// attention by 1.1, `[word]` divides it by 1.1, `(word:1.3)` sets it, and
+// brackets nest. `\(` and friends are literal brackets.
+
+export interface PromptSegment {
+  text: string;
+  weight: number;
+}
+
+export interface ParsedPrompt {
+  // Runs of text with the same weight, in order
+  segments: PromptSegment[];
+  // The prompt without any syntax
+  plain: string;
+  // Index in the source of every character of `plain`
+  sourceIndex: number[];
+  // Unbalanced brackets; they are applied up to the end like Automatic1111 does
+  errors: string[];
+}
+
+const ROUND_MULTIPLIER = 1.1;
+const SQUARE_MULTIPLIER = 1 / 1.1;
+
+const TOKEN_PATTERN = /\\[()[\]\\]|\\|\(|\[|:\s*([+-]?[.\d]+)\s*\)|\)|]|[^\\()[\]:]+|:/g;
+
+interface Piece {
+  text: string;
+  weight: number;
+  start: number;
+}
+
+// Weights like 1.1 * 1.1 are kept readable
+const roundWeight = (weight: number) => Math.round(weight * 10000) / 10000;
+
+export const parsePrompt = (source: string): ParsedPrompt => {
+  const pieces: Piece[] = [];
+  // Index into `pieces` where each open bracket started, with its position
+  const round: { piece: number; at: number }[] = [];
+  const square: { piece: number; at: number }[] = [];
+  const errors: string[] = [];
+
+  const multiplyFrom = (piece: number, multiplier: number) => {
+    for (let i = piece; i < pieces.length; i++) pieces[i].weight *= multiplier;
+  };
+
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    const [text, weight] = match;
+    const at = match.index ?? 0;
+    if (text.startsWith('\\') && text.length === 2) {
+      pieces.push({ text: text[1], weight: 1, start: at + 1 });
+    } else if (text === '(') {
+      round.push({ piece: pieces.length, at });
+    } else if (text === '[') {
+      square.push({ piece: pieces.length, at });
+    } else if (weight !== undefined && round.length > 0 && Number.isFinite(Number(weight))) {
+      multiplyFrom(round.pop()!.piece, Number(weight));
+    } else if (text === ')' && round.length > 0) {
+      multiplyFrom(round.pop()!.piece, ROUND_MULTIPLIER);
+    } else if (text === ']' && square.length > 0) {
+      multiplyFrom(square.pop()!.piece, SQUARE_MULTIPLIER);
+    } else {
+      if (text === ')' || text === ']') errors.push(`Unmatched "${text}" at character ${at + 1}`);
+      pieces.push({ text, weight: 1, start: at });
+    }
+  }
+  round.forEach(({ piece, at }) => {
+    errors.push(`Unclosed "(" at character ${at + 1}`);
+    multiplyFrom(piece, ROUND_MULTIPLIER);
+  });
+  square.forEach(({ piece, at }) => {
+    errors.push(`Unclosed "[" at character ${at + 1}`);
+    multiplyFrom(piece, SQUARE_MULTIPLIER);
+  });
+
+  const segments: PromptSegment[] = [];
+  const sourceIndex: number[] = [];
+  pieces.forEach(piece => {
+    const weight = roundWeight(piece.weight);
+    const last = segments[segments.length - 1];
+    if (last && last.weight === weight) last.text += piece.text;
+    else segments.push({ text: piece.text, weight });
+    for (let i = 0; i < piece.text.length; i++) sourceIndex.push(piece.start + i);
+  });
+
+  return { segments, plain: segments.map(segment => segment.text).join(''), sourceIndex, errors };
+};
+
+// What providers without emphasis support get: the words, without brackets
+export const stripPromptWeights = (source: string): string => parsePrompt(source).plain;
+
+// Whether the prompt uses any emphasis, escapes or stray brackets
+export const hasPromptSyntax = (source: string): boolean => /[()[\]\\]/.test(source);
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { countPromptTokens, estimateClipTokens, hasExactTokenizer, loadClipTokenizer, setPromptTokenizer } from './promptTokens';
+
+describe('estimateClipTokens', () => {
+  it('counts words, digits and symbols like CLIP splits them', () => {
+    expect(estimateClipTokens('a red fox')).toHaveLength(3);
+    expect(estimateClipTokens('castle, 1024 stars!')).toHaveLength(8);
+    expect(estimateClipTokens("it's")).toHaveLength(2);
+  });
+
+  it('splits long words into pieces', () => {
+    expect(estimateClipTokens('photorealistic')).toEqual([{ start: 0, end: 7 }, { start: 7, end: 14 }]);
+  });
+});
+
+describe('countPromptTokens', () => {
+  afterEach(() => setPromptTokenizer(null));
+
+  it('ignores emphasis syntax', () => {
+    expect(countPromptTokens('(red:1.4) [fox]')).toEqual({ count: 2, overflowIndex: null });
+  });
+
+  it('finds where the limit cuts the source off', () => {
+    const source = 'one two (three:1.2) four';
+    expect(countPromptTokens(source, 2).overflowIndex).toBe(source.indexOf('three'));
+    expect(countPromptTokens(source, 4).overflowIndex).toBeNull();
+  });
+
+  it('uses an installed tokenizer', () => {
+    setPromptTokenizer(text => Array.from(text, (_, i) => ({ start: i, end: i + 1 })));
+    expect(countPromptTokens('abc').count).toBe(3);
+  });
+
+  it('loads the real CLIP tokenizer on demand', async () => {
+    expect(hasExactTokenizer()).toBe(false);
+    await loadClipTokenizer();
+
+    expect(hasExactTokenizer()).toBe(true);
+    // The estimate counts "!!" as two tokens; CLIP has one for it
+    expect(estimateClipTokens('castle, dawn!!')).toHaveLength(5);
+    expect(countPromptTokens('castle, dawn!!').count).toBe(4);
+    const source = 'a (castle:1.3), golden hour';
+    expect(countPromptTokens(source, 2).overflowIndex).toBe(source.indexOf(','));
+  });
+
+  it('keeps a tokenizer the app installed', async () => {
+    const tokenizer = (text: string) => [{ start: 0, end: text.length }];
+    setPromptTokenizer(tokenizer);
+    await loadClipTokenizer();
+
+    expect(countPromptTokens('a red fox').count).toBe(1);
+  });
+});
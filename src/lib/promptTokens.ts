@@ -0,0 +1,87 @@
+import { parsePrompt } from './promptSyntax';
+
+// CLIP token counting for prompts. Stable Diffusion 1.x encodes at most 77
+// tokens, two of which mark the start and end, and silently drops the rest.
+//
+// The real CLIP tokenizer needs its 49k-entry BPE vocabulary, so
+// loadClipTokenizer fetches it on demand. Until it arrives, tokens are
+// estimated from CLIP's own word splitting: common words are one token, long
+// words a few, every digit and symbol one. An embedding app can install
+// another exact tokenizer with setPromptTokenizer.
+
+export const CLIP_TOKEN_LIMIT = 75;
+
+// A token's position in the text it was read from
+export interface TokenSpan {
+  start: number;
+  end: number;
+}
+
+export type PromptTokenizer = (text: string) => TokenSpan[];
+
+// Contractions, letter runs, single digits and symbol runs, like CLIP's pattern
+const WORD_PATTERN = /'s|'t|'re|'ve|'m|'ll|'d|\p{L}+|\p{N}|[^\s\p{L}\p{N}]+/giu;
+const ONE_TOKEN_WORD_LENGTH = 10;
+const CHARS_PER_WORD_PIECE = 7;
+
+const splitEvenly = (start: number, end: number, count: number): TokenSpan[] =>
+  Array.from({ length: count }, (_, i) => ({
+    start: start + Math.round(((end - start) * i) / count),
+    end: start + Math.round(((end - start) * (i + 1)) / count)
+  }));
+
+export const estimateClipTokens: PromptTokenizer = (text) =>
+  Array.from(text.matchAll(WORD_PATTERN)).flatMap(match => {
+    const [word] = match;
+    const start = match.index ?? 0;
+    const end = start + word.length;
+    if (/^\p{L}/u.test(word)) {
+      return splitEvenly(start, end, word.length <= ONE_TOKEN_WORD_LENGTH ? 1 : Math.ceil(word.length / CHARS_PER_WORD_PIECE));
+    }
+    // Symbols are mostly single tokens; contractions and digits always are
+    return word.startsWith("'") ? [{ start, end }] : splitEvenly(start, end, word.length);
+  });
+
+let tokenizer: PromptTokenizer | null = null;
+
+export const setPromptTokenizer = (next: PromptTokenizer | null): void => {
+  tokenizer = next;
+};
+
+// Whether counts come from an installed tokenizer rather than the estimate
+export const hasExactTokenizer = (): boolean => tokenizer !== null;
+
+let loading: Promise<void> | null = null;
+
+// Installs the real CLIP tokenizer unless another one is installed. Its
+// vocabulary is a few megabytes, so it is kept out of the main bundle.
+export const loadClipTokenizer = (): Promise<void> => {
+  loading ??= import('./clipTokenizer')
+    .then(({ clipTokens }) => {
+      tokenizer ??= clipTokens;
+    })
+    .catch(err => {
+      // Try again next time
+      loading = null;
+      throw err;
+    });
+  return loading;
+};
+
+export interface PromptTokenCount {
+  count: number;
+  // Index in the source of the first character past the limit, or null when
+  // everything fits
+  overflowIndex: number | null;
+}
+
+// Counts the tokens the provider's encoder sees: emphasis syntax is removed first
+export const countPromptTokens = (source: string, limit = CLIP_TOKEN_LIMIT): PromptTokenCount => {
+  const { plain, sourceIndex } = parsePrompt(source);
+  const tokens = (tokenizer ?? estimateClipTokens)(plain);
+  const firstDropped = tokens[limit];
+  return {
+    count: tokens.length,
+    overflowIndex: firstDropped ? sourceIndex[firstDropped.start] ?? source.length : null
+  };
+};
@@ -0,0 +1,108 @@
+import type { ImageProvider } from './types';
+import { ProviderError, readErrorMessage } from './errors';
+import { base64ToBlob, stripDataUrlPrefix, trimTrailingSlash } from './utils';
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:7860';
+
+// Local Stable Diffusion server speaking the Automatic1111 web UI API
+// (`--api` flag). Forge and ComfyUI bridges expose the same route.
+export const automatic1111Provider: ImageProvider = {
+  id: 'automatic1111',
+  name: 'Local server (Automatic1111)',
+  description: 'A self-hosted Stable Diffusion server with the /sdapi/v1 API enabled',
+  defaultModel: '',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresToken: false,
+  capabilities: {
+    negativePrompt: true,
+    steps: true,
+    guidance: true,
+    seed: true,
+    imageToImage: true,
+    inpainting: true,
+    customResolution: true,
+    promptWeighting: true
+  },
+
+  buildRequest({ prompt, negativePrompt, settings, width, height, source }, { apiToken, baseUrl, model }) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiToken) headers.Authorization = `Bearer ${apiToken}`;
+
+    // img2img takes the same parameters plus the source image and an optional mask
+    const sourceParams = source
+      ? {
+        init_images: [stripDataUrlPrefix(source.image)],
+        denoising_strength: settings.strength,
+        ...(source.mask ? {
+          mask: stripDataUrlPrefix(source.mask),
+          mask_blur: 4,
+          inpainting_fill: 1,
+          inpaint_full_res: false
+        } : {}),
+      }
+      : {};
+
+    return {
+      url: `${trimTrailingSlash(baseUrl ?? DEFAULT_BASE_URL)}/sdapi/v1/${source ? 'img2img' : 'txt2img'}`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          ...sourceParams,
+          prompt,
+          negative_prompt: negativePrompt.trim(),
+          steps: settings.steps,
+          cfg_scale: settings.guidance,
+          seed: settings.seed,
+          width,
+          height,
+          // An empty model keeps whatever checkpoint the server has loaded
+          ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+        }),
+      }
+    };
+  },
+
+  buildProgressRequest({ apiToken, baseUrl }) {
+    const headers: Record<string, string> = {};
+    if (apiToken) headers.Authorization = `Bearer ${apiToken}`;
+    return {
+      url: `${trimTrailingSlash(baseUrl ?? DEFAULT_BASE_URL)}/sdapi/v1/progress?skip_current_image=false`,
+      init: { method: 'GET', headers }
+    };
+  },
+
+  // `progress` is 0 when the server is idle; `current_image` is the latest sampler preview
+  async decodeProgress(response) {
+    const body = await response.json() as { progress?: unknown; eta_relative?: unknown; current_image?: unknown } | null;
+    const fraction = typeof body?.progress === 'number' ? body.progress : 0;
+    if (fraction <= 0) return null;
+    return {
+      fraction: Math.min(1, fraction),
+      ...(typeof body?.eta_relative === 'number' && body.eta_relative > 0 && { remainingMs: body.eta_relative * 1000 }),
+      ...(typeof body?.current_image === 'string' && body.current_image && {
+        preview: `data:image/png;base64,${body.current_image}`
+      })
+    };
+  },
+
+  async decodeResponse(response) {
+    const body = await response.json() as { images?: unknown[] } | null;
+    const image = body?.images?.[0];
+    if (typeof image !== 'string') {
+      throw new ProviderError('invalid-response', 'The local server did not return an image.');
+    }
+    return base64ToBlob(image);
+  },
+
+  async normalizeError(response) {
+    const message = await readErrorMessage(response);
+    if (response.status === 404) {
+      return new ProviderError('bad-request', 'The local server does not expose /sdapi/v1/txt2img. Start it with the --api flag.', 404);
+    }
+    if (response.status === 422) {
+      return new ProviderError('bad-request', message ?? 'The local server rejected the request parameters.', 422);
+    }
+    return new ProviderError('unknown', message ?? `Local server request failed with status ${response.status}`, response.status);
+  }
+};
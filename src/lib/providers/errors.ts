@@ -0,0 +1,52 @@
+export type ProviderErrorCode =
+  | 'auth'
+  | 'bad-request'
+  | 'model-loading'
+  | 'rate-limited'
+  | 'network'
+  | 'invalid-response'
+  | 'cancelled'
+  | 'unknown';
+
+export class ProviderError extends Error {
+  code: ProviderErrorCode;
+  status?: number;
+  // How long the provider asked us to wait before retrying, in milliseconds
+  retryAfterMs?: number;
+
+  constructor(code: ProviderErrorCode, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Parses a Retry-After header given either in seconds or as an HTTP date
+export const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Pulls a human readable message out of a JSON or text error body
+export const readErrorMessage = async (response: Response): Promise<string | null> => {
+  try {
+    const text = await response.text();
+    try {
+      const body = JSON.parse(text);
+      const message = body?.error?.message ?? body?.error ?? body?.detail ?? body?.message;
+      return typeof message === 'string' ? message : null;
+    } catch {
+      return text.trim() || null;
+    }
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,107 @@
+import type { ImageProvider } from './types';
+import { ProviderError, parseRetryAfter, readErrorMessage } from './errors';
+import { stripDataUrlPrefix, trimTrailingSlash } from './utils';
+import { CLIP_TOKEN_LIMIT } from '../promptTokens';
+
+const DEFAULT_BASE_URL = 'https://api-inference.huggingface.co';
+
+// Repository ids like "org/name"; the model goes into the URL path, so
+// nothing else may get through
+const MODEL_ID_PATTERN = /^[\w-][\w.-]*(\/[\w-][\w.-]*)?$/;
+
+// A cold model answers 503 with `{ error, estimated_time }`, the seconds until it is loaded
+const readEstimatedTime = async (response: Response): Promise<number | undefined> => {
+  try {
+    const body = await response.json() as { estimated_time?: unknown } | null;
+    return typeof body?.estimated_time === 'number' ? body.estimated_time * 1000 : parseRetryAfter(response);
+  } catch {
+    return parseRetryAfter(response);
+  }
+};
+
+export const huggingFaceProvider: ImageProvider = {
+  id: 'huggingface',
+  name: 'Hugging Face Inference',
+  description: 'Hosted Stable Diffusion models on the Hugging Face Inference API',
+  defaultModel: 'CompVis/stable-diffusion-v1-4',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresToken: true,
+  promptTokenLimit: CLIP_TOKEN_LIMIT,
+  capabilities: {
+    negativePrompt: true,
+    steps: true,
+    guidance: true,
+    seed: true,
+    imageToImage: true,
+    inpainting: false,
+    customResolution: true,
+    promptWeighting: false
+  },
+
+  buildRequest({ prompt, negativePrompt, settings, width, height, source }, { apiToken, baseUrl, model }) {
+    if (!MODEL_ID_PATTERN.test(model)) {
+      throw new ProviderError('bad-request', `"${model}" is not a Hugging Face model id like "org/name".`, 400);
+    }
+    const negative = negativePrompt.trim() ? { negative_prompt: negativePrompt.trim() } : {};
+
+    // The image-to-image task takes the source image as `inputs` and the prompt as a parameter
+    const body = source
+      ? {
+        inputs: stripDataUrlPrefix(source.image),
+        parameters: {
+          prompt,
+          ...negative,
+          strength: settings.strength,
+          num_inference_steps: settings.steps,
+          guidance_scale: settings.guidance,
+          seed: settings.seed,
+        },
+      }
+      : {
+        inputs: prompt,
+        parameters: {
+          ...negative,
+          num_inference_steps: settings.steps,
+          guidance_scale: settings.guidance,
+          seed: settings.seed,
+          width,
+          height,
+        },
+      };
+
+    return {
+      url: `${trimTrailingSlash(baseUrl ?? DEFAULT_BASE_URL)}/models/${model}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiToken}`,
+        },
+        body: JSON.stringify(body),
+      }
+    };
+  },
+
+  async decodeResponse(response) {
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) {
+      throw new ProviderError('invalid-response', 'The model did not return an image.');
+    }
+    return blob;
+  },
+
+  async normalizeError(response) {
+    switch (response.status) {
+      case 401:
+        return new ProviderError('auth', 'Invalid API token. Please check your Hugging Face API token and ensure it has the necessary permissions.', 401);
+      case 503:
+        return new ProviderError('model-loading', 'Model is currently loading. Please try again in a few moments.', 503, await readEstimatedTime(response));
+      case 400:
+        return new ProviderError('bad-request', 'Bad request. Please check your prompt and try again.', 400);
+      case 429:
+        return new ProviderError('rate-limited', 'Too many requests. Please wait a moment and try again.', 429, parseRetryAfter(response));
+    }
+    const message = await readErrorMessage(response);
+    return new ProviderError('unknown', message ?? `API request failed with status ${response.status}`, response.status);
+  }
+};
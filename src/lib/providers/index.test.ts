@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from '../../constants';
+import { imageResponse, jsonResponse, mockFetch } from '../../test/fetchMocks';
+import { PROVIDERS, ProviderError, createGenerationRequest, requestImage } from '.';
+
+const request = createGenerationRequest('a red fox', 'blurry', { ...DEFAULT_SETTINGS, seed: 42 });
+const config = { apiToken: 'hf_test', model: 'stabilityai/test-model' };
+
+const requestError = (promise: Promise<unknown>): Promise<ProviderError> =>
+  promise.then(
+    () => { throw new Error('Expected the request to fail'); },
+    (err: unknown) => {
+      expect(err).toBeInstanceOf(ProviderError);
+      return err as ProviderError;
+    }
+  );
+
+describe('requestImage with Hugging Face', () => {
+  it('posts the prompt and settings and returns the image', async () => {
+    const fetchMock = mockFetch(imageResponse());
+
+    const blob = await requestImage(PROVIDERS.huggingface, request, config);
+
+    expect(blob.type).toBe('image/png');
+    expect(blob.size).toBe(4);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api-inference.huggingface.co/models/stabilityai/test-model');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer hf_test' });
+    expect(JSON.parse(init.body as string)).toEqual({
+      inputs: 'a red fox',
+      parameters: {
+        negative_prompt: 'blurry',
+        num_inference_steps: 30,
+        guidance_scale: 7.5,
+        seed: 42,
+        width: 512,
+        height: 512
+      }
+    });
+  });
+
+  it('maps 400 to a bad request', async () => {
+    mockFetch(jsonResponse({ error: 'bad input' }, 400));
+    const err = await requestError(requestImage(PROVIDERS.huggingface, request, config));
+    expect(err.code).toBe('bad-request');
+    expect(err.status).toBe(400);
+  });
+
+  it('maps 401 to an auth error', async () => {
+    mockFetch(jsonResponse({ error: 'Invalid token' }, 401));
+    const err = await requestError(requestImage(PROVIDERS.huggingface, request, config));
+    expect(err.code).toBe('auth');
+    expect(err.message).toMatch(/API token/);
+  });
+
+  it('maps 503 to model loading with the estimated wait', async () => {
+    mockFetch(jsonResponse({ error: 'Model is loading', estimated_time: 20.5 }, 503));
+    const err = await requestError(requestImage(PROVIDERS.huggingface, request, config));
+    expect(err.code).toBe('model-loading');
+    expect(err.retryAfterMs).toBe(20500);
+  });
+
+  it('rejects responses that are not images', async () => {
+    mockFetch(jsonResponse({ generated_text: 'nope' }, 200));
+    const err = await requestError(requestImage(PROVIDERS.huggingface, request, config));
+    expect(err.code).toBe('invalid-response');
+  });
+
+  it('reports network failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockFetch(new TypeError('Failed to fetch'));
+    const err = await requestError(requestImage(PROVIDERS.huggingface, request, config));
+    expect(err.code).toBe('network');
+  });
+});
+
+describe('requestImage with emphasis syntax', () => {
+  const weighted = createGenerationRequest('a (red:1.3) [fox]', '(blurry)', DEFAULT_SETTINGS);
+  const sentBody = (fetchMock: ReturnType<typeof mockFetch>) =>
+    JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+
+  it('sends plain words to providers without emphasis support', async () => {
+    const fetchMock = mockFetch(imageResponse());
+    await requestImage(PROVIDERS.huggingface, weighted, config);
+    expect(sentBody(fetchMock)).toMatchObject({ inputs: 'a red fox', parameters: { negative_prompt: 'blurry' } });
+  });
+
+  it('passes the syntax through to Automatic1111', async () => {
+    const fetchMock = mockFetch(jsonResponse({ images: ['iVBORw0KGgo='] }, 200));
+    await requestImage(PROVIDERS.automatic1111, weighted, { model: '' });
+    expect(sentBody(fetchMock)).toMatchObject({ prompt: 'a (red:1.3) [fox]', negative_prompt: '(blurry)' });
+  });
+});
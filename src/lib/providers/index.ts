@@ -0,0 +1,123 @@
+import type { GenerationMode, ImageSettings, SourceImage } from '../../types';
+import type { GenerationRequest, ImageProvider, ProviderConfig, ProviderId, ProviderProgress } from './types';
+import { getResolutionFromAspectRatio } from '../resolution';
+import { stripPromptWeights } from '../promptSyntax';
+import { ProviderError } from './errors';
+import { huggingFaceProvider } from './huggingface';
+import { openAIProvider } from './openai';
+import { automatic1111Provider } from './automatic1111';
+import { mockProvider } from './mock';
+
+export type {
+  GenerationRequest,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderConfig,
+  ProviderId,
+  ProviderProgress,
+  ProxyErrorBody,
+  ProxyGenerateBody
+} from './types';
+export { PROXY_GENERATE_PATH, PROXY_PROGRESS_PATH } from './types';
+export { ProviderError, type ProviderErrorCode } from './errors';
+
+export const PROVIDERS: Record<ProviderId, ImageProvider> = {
+  huggingface: huggingFaceProvider,
+  openai: openAIProvider,
+  automatic1111: automatic1111Provider,
+  mock: mockProvider
+};
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'huggingface';
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+export const supportsMode = (provider: ImageProvider, mode: GenerationMode): boolean => {
+  switch (mode) {
+    case 'image-to-image': return provider.capabilities.imageToImage;
+    case 'inpaint': return provider.capabilities.inpainting;
+    default: return true;
+  }
+};
+
+export const createGenerationRequest = (
+  prompt: string,
+  negativePrompt: string,
+  settings: ImageSettings,
+  source?: SourceImage
+): GenerationRequest => ({
+  prompt,
+  negativePrompt,
+  settings,
+  ...getResolutionFromAspectRatio(settings.aspectRatio, settings.quality),
+  ...(source && { source })
+});
+
+// Providers without emphasis support would read the brackets and weights as words
+const adaptPromptSyntax = (provider: ImageProvider, request: GenerationRequest): GenerationRequest =>
+  provider.capabilities.promptWeighting
+    ? request
+    : { ...request, prompt: stripPromptWeights(request.prompt), negativePrompt: stripPromptWeights(request.negativePrompt) };
+
+export const supportsProgress = (provider: ImageProvider): boolean =>
+  Boolean(provider.buildProgressRequest && provider.decodeProgress);
+
+// Runs a single generation against a provider and returns the image data.
+// Failures are always surfaced as ProviderError. `onResponse` is called once
+// the provider has answered, before the image is decoded.
+export const requestImage = async (
+  provider: ImageProvider,
+  request: GenerationRequest,
+  config: ProviderConfig,
+  signal?: AbortSignal,
+  onResponse?: () => void
+): Promise<Blob> => {
+  const builtRequest = provider.buildRequest(adaptPromptSyntax(provider, request), config);
+  const httpRequest = { ...builtRequest, init: { ...builtRequest.init, signal } };
+
+  let response: Response;
+  try {
+    response = provider.send
+      ? await provider.send(httpRequest)
+      : await fetch(httpRequest.url, httpRequest.init);
+  } catch (err) {
+    if (signal?.aborted) {
+      throw new ProviderError('cancelled', 'Generation was cancelled.');
+    }
+    console.error('Provider request failed:', err);
+    throw new ProviderError('network', `Could not reach ${provider.name}. Check your connection and the server URL.`);
+  }
+
+  if (!response.ok) {
+    throw await provider.normalizeError(response);
+  }
+  onResponse?.();
+
+  try {
+    return await provider.decodeResponse(response);
+  } catch (err) {
+    if (err instanceof ProviderError) throw err;
+    throw new ProviderError('invalid-response', `Could not read the image returned by ${provider.name}.`);
+  }
+};
+
+// Asks a provider how far along its current generation is. Progress is a
+// nice-to-have, so failures just mean there is nothing to show.
+export const requestProgress = async (
+  provider: ImageProvider,
+  config: ProviderConfig,
+  signal?: AbortSignal
+): Promise<ProviderProgress | null> => {
+  if (!provider.buildProgressRequest || !provider.decodeProgress) return null;
+  const builtRequest = provider.buildProgressRequest(config);
+  const httpRequest = { ...builtRequest, init: { ...builtRequest.init, signal } };
+  try {
+    const response = provider.send
+      ? await provider.send(httpRequest)
+      : await fetch(httpRequest.url, httpRequest.init);
+    return response.ok ? await provider.decodeProgress(response) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,132 @@
+import type { ImageProvider, ProviderProgress } from './types';
+import { ProviderError } from './errors';
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+// Deterministic hue so the same prompt and seed render the same image
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// `blur` is used for the intermediate previews
+const renderPlaceholder = (prompt: string, seed: number, width: number, height: number, blur = 0): string => {
+  const hue = hashString(`${prompt}:${seed}`) % 360;
+  const caption = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 70%, 55%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 120) % 360}, 70%, 35%)"/>
+    </linearGradient>
+    <filter id="blur"><feGaussianBlur stdDeviation="${blur}"/></filter>
+  </defs>
+  <g filter="url(#blur)">
+    <rect width="100%" height="100%" fill="url(#bg)"/>
+    <text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="${Math.round(width / 28)}" text-anchor="middle">${caption}</text>
+  </g>
+</svg>`;
+};
+
+// Simulated render time per step, so progress and previews are visible
+const MS_PER_STEP = 60;
+
+interface MockRender {
+  prompt: string;
+  seed: number;
+  width: number;
+  height: number;
+  startedAt: number;
+  durationMs: number;
+}
+
+// Like a single local GPU, the mock reports progress for its latest render
+let currentRender: MockRender | null = null;
+
+// Offline provider that renders a placeholder image without any network access
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Renders placeholder images locally for testing the generation flow',
+  defaultModel: 'mock-v1',
+  requiresToken: false,
+  capabilities: {
+    negativePrompt: true,
+    steps: true,
+    guidance: true,
+    seed: true,
+    imageToImage: true,
+    inpainting: true,
+    customResolution: true,
+    promptWeighting: false
+  },
+
+  buildRequest(request, { model }) {
+    return {
+      url: 'mock://generate',
+      init: {
+        method: 'POST',
+        body: JSON.stringify({ ...request, model }),
+      }
+    };
+  },
+
+  buildProgressRequest() {
+    return { url: 'mock://progress', init: { method: 'GET' } };
+  },
+
+  async decodeProgress(response) {
+    return response.status === 200 ? (await response.json()) as ProviderProgress : null;
+  },
+
+  async send({ url, init }) {
+    if (url === 'mock://progress') {
+      if (!currentRender) return new Response(null, { status: 204 });
+      const { prompt, seed, width, height, startedAt, durationMs } = currentRender;
+      const elapsed = Date.now() - startedAt;
+      const fraction = Math.min(1, elapsed / durationMs);
+      const preview = renderPlaceholder(prompt, seed, width, height, Math.round((1 - fraction) * width / 20));
+      return new Response(JSON.stringify({
+        fraction,
+        remainingMs: Math.max(0, durationMs - elapsed),
+        preview: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(preview)}`
+      }), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const { prompt, settings, width, height } = JSON.parse(init.body as string);
+    const render: MockRender = {
+      prompt,
+      seed: settings.seed,
+      width,
+      height,
+      startedAt: Date.now(),
+      durationMs: settings.steps * MS_PER_STEP
+    };
+    currentRender = render;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, render.durationMs);
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    } finally {
+      if (currentRender === render) currentRender = null;
+    }
+    const svg = renderPlaceholder(prompt, settings.seed, width, height);
+    return new Response(new Blob([svg], { type: 'image/svg+xml' }));
+  },
+
+  async decodeResponse(response) {
+    return response.blob();
+  },
+
+  async normalizeError(response) {
+    return new ProviderError('unknown', `Mock provider failed with status ${response.status}`, response.status);
+  }
+};
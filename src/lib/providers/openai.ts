@@ -0,0 +1,103 @@
+import type { ImageQuality } from '../../types';
+import type { ImageProvider } from './types';
+import { ProviderError, parseRetryAfter, readErrorMessage } from './errors';
+import { base64ToBlob, trimTrailingSlash } from './utils';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com';
+
+// The images endpoint only accepts a few fixed sizes; pick the closest shape
+const getImageSize = (width: number, height: number): string => {
+  if (width > height) return '1792x1024';
+  if (height > width) return '1024x1792';
+  return '1024x1024';
+};
+
+// Published per-image prices in US dollars, by quality and shape. Other
+// models on compatible servers are estimated at DALL·E 3 rates.
+const PRICES: Record<string, Record<ImageQuality, { square: number; wide: number }>> = {
+  'dall-e-2': {
+    standard: { square: 0.02, wide: 0.02 },
+    hd: { square: 0.02, wide: 0.02 }
+  },
+  'dall-e-3': {
+    standard: { square: 0.04, wide: 0.08 },
+    hd: { square: 0.08, wide: 0.12 }
+  },
+  'gpt-image-1': {
+    standard: { square: 0.042, wide: 0.063 },
+    hd: { square: 0.167, wide: 0.25 }
+  }
+};
+
+// Any server implementing the OpenAI `/v1/images/generations` endpoint
+export const openAIProvider: ImageProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  description: 'OpenAI images API or any server exposing the same endpoint',
+  defaultModel: 'dall-e-3',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresToken: true,
+  capabilities: {
+    negativePrompt: false,
+    steps: false,
+    guidance: false,
+    seed: false,
+    imageToImage: false,
+    inpainting: false,
+    customResolution: false,
+    promptWeighting: false
+  },
+
+  buildRequest({ prompt, settings, width, height }, { apiToken, baseUrl, model }) {
+    return {
+      url: `${trimTrailingSlash(baseUrl ?? DEFAULT_BASE_URL)}/v1/images/generations`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiToken}`,
+        },
+        body: JSON.stringify({
+          model,
+          prompt,
+          n: 1,
+          size: getImageSize(width, height),
+          quality: settings.quality,
+          response_format: 'b64_json',
+        }),
+      }
+    };
+  },
+
+  outputSize({ width, height }) {
+    const [outputWidth, outputHeight] = getImageSize(width, height).split('x').map(Number);
+    return { width: outputWidth, height: outputHeight };
+  },
+
+  async decodeResponse(response) {
+    const body = await response.json() as { data?: { b64_json?: unknown }[] } | null;
+    const image = body?.data?.[0]?.b64_json;
+    if (typeof image !== 'string') {
+      throw new ProviderError('invalid-response', 'The images endpoint did not return image data.');
+    }
+    return base64ToBlob(image);
+  },
+
+  async normalizeError(response) {
+    const message = await readErrorMessage(response);
+    switch (response.status) {
+      case 401:
+        return new ProviderError('auth', message ?? 'Invalid API key. Please check your API key.', 401);
+      case 400:
+        return new ProviderError('bad-request', message ?? 'Bad request. Please check your prompt and try again.', 400);
+      case 429:
+        return new ProviderError('rate-limited', message ?? 'Rate limit reached. Please wait a moment and try again.', 429, parseRetryAfter(response));
+    }
+    return new ProviderError('unknown', message ?? `API request failed with status ${response.status}`, response.status);
+  },
+
+  estimateCost({ settings, width, height }, model) {
+    const price = (PRICES[model] ?? PRICES['dall-e-3'])[settings.quality];
+    return getImageSize(width, height) === '1024x1024' ? price.square : price.wide;
+  }
+};
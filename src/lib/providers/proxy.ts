@@ -0,0 +1,71 @@
+import {
+  PROXY_GENERATE_PATH,
+  PROXY_PROGRESS_PATH,
+  type ProviderId,
+  type ProviderProgress,
+  type ProxyErrorBody,
+  type ProxyGenerateBody
+} from './types';
+import { ProviderError } from './errors';
+
+// Client for the generation proxy in `server/`, which holds provider tokens
+// so they never reach the browser bundle.
+
+export const proxyBaseUrl = (): string => (import.meta.env?.VITE_API_BASE_URL ?? '').replace(/\/+$/, '');
+
+const readProxyError = async (response: Response): Promise<ProviderError> => {
+  try {
+    const { error } = (await response.json()) as ProxyErrorBody;
+    return new ProviderError(error.code, error.message, response.status, error.retryAfterMs);
+  } catch {
+    return new ProviderError('unknown', `Generation server failed with status ${response.status}`, response.status);
+  }
+};
+
+export const requestImageViaProxy = async (
+  body: ProxyGenerateBody,
+  signal?: AbortSignal,
+  onResponse?: () => void
+): Promise<Blob> => {
+  let response: Response;
+  try {
+    response = await fetch(`${proxyBaseUrl()}${PROXY_GENERATE_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (err) {
+    if (signal?.aborted) {
+      throw new ProviderError('cancelled', 'Generation was cancelled.');
+    }
+    console.error('Proxy request failed:', err);
+    throw new ProviderError('network', 'Could not reach the generation server. Is it running?');
+  }
+
+  if (!response.ok) {
+    throw await readProxyError(response);
+  }
+  onResponse?.();
+  // A misconfigured host can answer with its HTML page instead of the proxy
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new ProviderError('invalid-response', 'The generation server did not return an image.');
+  }
+  return blob;
+};
+
+// Progress of the generation sent with `generationId`, as seen by the server
+export const requestProgressViaProxy = async (
+  provider: ProviderId,
+  generationId: string,
+  signal?: AbortSignal
+): Promise<ProviderProgress | null> => {
+  const query = new URLSearchParams({ provider, generation: generationId });
+  try {
+    const response = await fetch(`${proxyBaseUrl()}${PROXY_PROGRESS_PATH}?${query}`, { signal });
+    return response.status === 200 ? (await response.json()) as ProviderProgress : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,99 @@
+import type { ImageSettings, SourceImage } from '../../types';
+import type { ProviderErrorCode } from './errors';
+
+export type ProviderId = 'huggingface' | 'openai' | 'automatic1111' | 'mock';
+
+export interface ProviderCapabilities {
+  negativePrompt: boolean;
+  steps: boolean;
+  guidance: boolean;
+  seed: boolean;
+  imageToImage: boolean;
+  inpainting: boolean;
+  // Arbitrary width/height; providers without it snap to their own sizes
+  customResolution: boolean;
+  // Understands `(word:1.3)` and `[word]` emphasis; other providers get the plain words
+  promptWeighting: boolean;
+}
+
+export interface ProviderConfig {
+  apiToken?: string;
+  baseUrl?: string;
+  model: string;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  negativePrompt: string;
+  settings: ImageSettings;
+  // Output size resolved from the aspect ratio and quality settings
+  width: number;
+  height: number;
+  // Present for image-to-image and inpainting
+  source?: SourceImage;
+}
+
+// How far along the provider is with the generation it is running
+export interface ProviderProgress {
+  // 0 to 1
+  fraction: number;
+  // What the provider expects the rest to take
+  remainingMs?: number;
+  // Intermediate image as a data URL
+  preview?: string;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresToken: boolean;
+  capabilities: ProviderCapabilities;
+  // Tokens the text encoder reads before dropping the rest (CLIP's 75 for
+  // Stable Diffusion 1.x); unset when prompts aren't cut off
+  promptTokenLimit?: number;
+  buildRequest(request: GenerationRequest, config: ProviderConfig): ProviderHttpRequest;
+  // Size of the image sent back for a request, for providers that only offer
+  // a few fixed sizes; the others return the requested width and height
+  outputSize?(request: GenerationRequest): { width: number; height: number };
+  decodeResponse(response: Response): Promise<Blob>;
+  normalizeError(response: Response): Promise<Error>;
+  // Replaces the network call; used by providers that don't talk HTTP
+  send?(request: ProviderHttpRequest): Promise<Response>;
+  // Providers that report progress are polled with this request while a
+  // generation runs; null means there is nothing to report
+  buildProgressRequest?(config: ProviderConfig): ProviderHttpRequest;
+  decodeProgress?(response: Response): Promise<ProviderProgress | null>;
+  // Estimated price of one image in US dollars; providers without it are
+  // treated as free (local servers, or a flat subscription)
+  estimateCost?(request: GenerationRequest, model: string): number;
+}
+
+// Wire format of the generation proxy (`server/`)
+export const PROXY_GENERATE_PATH = '/api/generate';
+// GET with `?provider=<id>&generation=<id>`; answers 200 with a
+// ProviderProgress while that generation runs, 204 otherwise
+export const PROXY_PROGRESS_PATH = '/api/progress';
+
+export interface ProxyGenerateBody {
+  provider: ProviderId;
+  model: string;
+  request: Pick<GenerationRequest, 'prompt' | 'negativePrompt' | 'settings' | 'source'>;
+  // Lets the client ask for this generation's progress
+  generationId?: string;
+}
+
+export interface ProxyErrorBody {
+  error: {
+    code: ProviderErrorCode;
+    message: string;
+    retryAfterMs?: number;
+  };
+}
@@ -0,0 +1,13 @@
+export const base64ToBlob = (data: string, type = 'image/png'): Blob => {
+  const binary = atob(data.replace(/^data:[^,]*,/, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+// Raw base64 payload of a data URL
+export const stripDataUrlPrefix = (dataUrl: string): string => dataUrl.replace(/^data:[^,]*,/, '');
+
+export const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
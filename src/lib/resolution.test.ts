@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getResolutionFromAspectRatio } from './resolution';
+
+describe('getResolutionFromAspectRatio', () => {
+  it('uses 512px for the short side at standard quality', () => {
+    expect(getResolutionFromAspectRatio('1:1')).toEqual({ width: 512, height: 512 });
+    expect(getResolutionFromAspectRatio('3:2')).toEqual({ width: 768, height: 512 });
+    expect(getResolutionFromAspectRatio('2:3')).toEqual({ width: 512, height: 768 });
+  });
+
+  it('scales up for HD', () => {
+    expect(getResolutionFromAspectRatio('1:1', 'hd')).toEqual({ width: 768, height: 768 });
+    expect(getResolutionFromAspectRatio('4:3', 'hd')).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('rounds every side to a multiple of 8', () => {
+    for (const ratio of ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as const) {
+      for (const quality of ['standard', 'hd'] as const) {
+        const { width, height } = getResolutionFromAspectRatio(ratio, quality);
+        expect(width % 8).toBe(0);
+        expect(height % 8).toBe(0);
+      }
+    }
+    expect(getResolutionFromAspectRatio('16:9')).toEqual({ width: 912, height: 512 });
+  });
+});
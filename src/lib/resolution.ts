@@ -0,0 +1,46 @@
+import type { AspectRatio, ImageQuality } from '../types';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'];
+
+export const IMAGE_QUALITIES: ImageQuality[] = ['standard', 'hd'];
+
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+// Short side in pixels for each quality level. Standard matches the native
+// resolution of SD 1.x models; HD renders at 1.5x for more detail.
+const BASE_SIZES: Record<ImageQuality, number> = {
+  standard: 512,
+  hd: 768
+};
+
+// Diffusion models work on 8x8 latent blocks, so both sides must be multiples of 8
+const roundToMultipleOf8 = (value: number): number => Math.round(value / 8) * 8;
+
+export const getResolutionFromAspectRatio = (ratio: AspectRatio, quality: ImageQuality = 'standard'): Resolution => {
+  const baseSize = BASE_SIZES[quality];
+  
+  switch (ratio) {
+    case '1:1': return { width: baseSize, height: baseSize };
+    case '16:9': return { width: roundToMultipleOf8(baseSize * 16/9), height: baseSize };
+    case '9:16': return { width: baseSize, height: roundToMultipleOf8(baseSize * 16/9) };
+    case '4:3': return { width: roundToMultipleOf8(baseSize * 4/3), height: baseSize };
+    case '3:4': return { width: baseSize, height: roundToMultipleOf8(baseSize * 4/3) };
+    case '3:2': return { width: roundToMultipleOf8(baseSize * 3/2), height: baseSize };
+    case '2:3': return { width: baseSize, height: roundToMultipleOf8(baseSize * 3/2) };
+    default: return { width: baseSize, height: baseSize };
+  }
+};
+
+export const aspectRatioValue = (ratio: AspectRatio): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+};
+
+// The supported ratio within 2% of the given size, if there is one
+export const closestAspectRatio = (width: number, height: number): AspectRatio | undefined => {
+  const ratio = width / height;
+  return ASPECT_RATIOS.find(candidate => Math.abs(aspectRatioValue(candidate) - ratio) / ratio < 0.02);
+};
@@ -0,0 +1,90 @@
+import { ProviderError } from './providers';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  // 1-based number of the retry about to happen
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  // Epoch milliseconds when the retry will be sent
+  retryAt: number;
+  error: ProviderError;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+// Cold starts, rate limits, gateway errors and dropped connections are
+// transient; anything else (bad token, bad request) will fail again.
+export const isRetryable = (err: unknown): err is ProviderError =>
+  err instanceof ProviderError &&
+  (err.code === 'model-loading' ||
+    err.code === 'rate-limited' ||
+    err.code === 'network' ||
+    (err.status !== undefined && [502, 503, 504].includes(err.status)));
+
+// Exponential backoff, but never sooner than the provider asked for
+export const getRetryDelay = (err: ProviderError, attempt: number, policy: RetryPolicy): number => {
+  const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(Math.max(backoff, err.retryAfterMs ?? 0), policy.maxDelayMs);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProviderError('cancelled', 'Generation was cancelled.'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ProviderError('cancelled', 'Generation was cancelled.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (!isRetryable(err) || attempt > policy.maxRetries || options.signal?.aborted) {
+        throw err;
+      }
+      const delayMs = getRetryDelay(err, attempt, policy);
+      options.onRetry?.({
+        attempt,
+        maxRetries: policy.maxRetries,
+        delayMs,
+        retryAt: Date.now() + delayMs,
+        error: err
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+// Short label for why a job is waiting to retry
+export const describeRetryReason = (err: ProviderError): string => {
+  switch (err.code) {
+    case 'model-loading': return 'Model is loading';
+    case 'rate-limited': return 'Rate limited';
+    case 'network': return 'Connection failed';
+    default: return 'Server error';
+  }
+};
@@ -0,0 +1,15 @@
+import type { MouseEvent } from 'react';
+
+// History-based navigation. `navigate` announces the change with an event
+// so useLocation can re-render, the same way back and forward do.
+
+export const LOCATION_CHANGE_EVENT = 'dreamcanvas:locationchange';
+
+export const navigate = (href: string, { replace = false } = {}): void => {
+  window.history[replace ? 'replaceState' : 'pushState'](null, '', href);
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+};
+
+// Clicks that open a new tab or window, or download, are left to the browser
+export const isPlainClick = (e: MouseEvent): boolean =>
+  e.button === 0 && !e.defaultPrevented && !e.metaKey && !e.ctrlKey && !e.shiftKey && !e.altKey;
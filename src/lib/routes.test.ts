@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { decodeStudioSetup, encodeStudioSetup, imagePath, parseRoute, studioSetupOf, type StudioSetup } from './routes';
+
+const setup = (changes: Partial<StudioSetup> = {}): StudioSetup => ({
+  ...studioSetupOf('', '', DEFAULT_SETTINGS, false),
+  ...changes
+});
+
+describe('parseRoute', () => {
+  it.each([
+    ['/', { page: 'home' }],
+    ['/studio', { page: 'studio' }],
+    ['/studio/', { page: 'studio' }],
+    ['/gallery', { page: 'gallery' }],
+    ['/gallery/1700000000000-abc123', { page: 'image', id: '1700000000000-abc123' }],
+    ['/settings', { page: 'settings' }],
+    ['/pricing', { page: 'not-found' }],
+    ['/gallery/a/b', { page: 'not-found' }],
+    ['/gallery/%E0%A4%A', { page: 'not-found' }]
+  ])('parses %s', (pathname, route) => {
+    expect(parseRoute(pathname)).toEqual(route);
+  });
+
+  it('round-trips image paths', () => {
+    expect(parseRoute(imagePath('a b/c'))).toEqual({ page: 'image', id: 'a b/c' });
+  });
+});
+
+describe('studio links', () => {
+  it('leaves defaults out of the query string', () => {
+    expect(encodeStudioSetup(setup())).toBe('');
+    expect(encodeStudioSetup(setup({ prompt: 'a red kite', steps: 40 }))).toBe('?prompt=a+red+kite&steps=40');
+  });
+
+  it('round-trips every field', () => {
+    const shared = setup({
+      prompt: 'a cat & a dog',
+      negativePrompt: 'blurry',
+      stylePreset: 'anime',
+      aspectRatio: '16:9',
+      steps: 45,
+      guidance: 9.5,
+      seed: 42
+    });
+
+    expect(decodeStudioSetup(encodeStudioSetup(shared))).toEqual(shared);
+  });
+
+  it('only includes locked seeds', () => {
+    expect(studioSetupOf('a', '', { ...DEFAULT_SETTINGS, seed: 7 }, false)).not.toHaveProperty('seed');
+    expect(studioSetupOf('a', '', { ...DEFAULT_SETTINGS, seed: 7 }, true)).toHaveProperty('seed', 7);
+  });
+
+  it('falls back to defaults for missing and invalid values', () => {
+    expect(decodeStudioSetup('?prompt=a+fox&aspect=5%3A4&steps=many&guidance=-1&seed=1.5')).toEqual(setup({ prompt: 'a fox' }));
+  });
+
+  it('ignores query strings without a setup', () => {
+    expect(decodeStudioSetup('')).toBeNull();
+    expect(decodeStudioSetup('?utm_source=chat')).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import type { AspectRatio, ImageSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { ASPECT_RATIOS } from './resolution';
+import { isValidSeed } from './seed';
+
+// Client-side routes. The servers and the service worker answer every path
+// with index.html, so each of these can be opened directly or shared.
+
+export type Route =
+  | { page: 'home' }
+  | { page: 'studio' }
+  | { page: 'gallery' }
+  | { page: 'image'; id: string }
+  | { page: 'settings' }
+  | { page: 'not-found' };
+
+export const parseRoute = (pathname: string): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  if (path === '/') return { page: 'home' };
+  if (path === '/studio') return { page: 'studio' };
+  if (path === '/gallery') return { page: 'gallery' };
+  if (path === '/settings') return { page: 'settings' };
+  const image = path.match(/^\/gallery\/([^/]+)$/);
+  if (image) {
+    try {
+      return { page: 'image', id: decodeURIComponent(image[1]) };
+    } catch {
+      // Malformed escape sequence
+    }
+  }
+  return { page: 'not-found' };
+};
+
+export const imagePath = (id: string): string => `/gallery/${encodeURIComponent(id)}`;
+
+// What a studio link pre-fills. Anything else in the form (provider, batch
+// options, source images) stays as the person opening the link has it.
+export interface StudioSetup {
+  prompt: string;
+  negativePrompt: string;
+  stylePreset: string;
+  aspectRatio: AspectRatio;
+  steps: number;
+  guidance: number;
+  // Left out for a random seed on every generation
+  seed?: number;
+}
+
+type SettingsKey = 'stylePreset' | 'aspectRatio' | 'steps' | 'guidance';
+
+// Query parameter names, kept short so links stay readable
+const PARAMS = {
+  prompt: 'prompt',
+  negativePrompt: 'negative',
+  stylePreset: 'preset',
+  aspectRatio: 'aspect',
+  steps: 'steps',
+  guidance: 'guidance',
+  seed: 'seed'
+} as const;
+
+const SETTINGS_KEYS: SettingsKey[] = ['stylePreset', 'aspectRatio', 'steps', 'guidance'];
+
+// Query string for a setup, starting with "?" unless it is empty. Values
+// matching the defaults are left out.
+export const encodeStudioSetup = (setup: StudioSetup): string => {
+  const params = new URLSearchParams();
+  if (setup.prompt) params.set(PARAMS.prompt, setup.prompt);
+  if (setup.negativePrompt) params.set(PARAMS.negativePrompt, setup.negativePrompt);
+  for (const key of SETTINGS_KEYS) {
+    if (setup[key] !== DEFAULT_SETTINGS[key]) params.set(PARAMS[key], String(setup[key]));
+  }
+  if (setup.seed !== undefined) params.set(PARAMS.seed, String(setup.seed));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const readNumber = (params: URLSearchParams, name: string, min: number, max: number, integer: boolean): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) return undefined;
+  return value;
+};
+
+// The setup in a query string, or null when it has none. Missing and invalid
+// values fall back to the defaults, so a link always opens the same setup.
+export const decodeStudioSetup = (search: string): StudioSetup | null => {
+  const params = new URLSearchParams(search);
+  if (!Object.values(PARAMS).some(name => params.has(name))) return null;
+
+  const aspectRatio = params.get(PARAMS.aspectRatio) as AspectRatio | null;
+  const seed = readNumber(params, PARAMS.seed, 0, Infinity, true);
+  return {
+    prompt: params.get(PARAMS.prompt) ?? '',
+    negativePrompt: params.get(PARAMS.negativePrompt) ?? '',
+    stylePreset: params.get(PARAMS.stylePreset) || DEFAULT_SETTINGS.stylePreset,
+    aspectRatio: aspectRatio && ASPECT_RATIOS.includes(aspectRatio) ? aspectRatio : DEFAULT_SETTINGS.aspectRatio,
+    steps: readNumber(params, PARAMS.steps, 1, 150, true) ?? DEFAULT_SETTINGS.steps,
+    guidance: readNumber(params, PARAMS.guidance, 0, 30, false) ?? DEFAULT_SETTINGS.guidance,
+    ...(seed !== undefined && isValidSeed(seed) && { seed })
+  };
+};
+
+// The setup of an existing image or of the form
+export const studioSetupOf = (
+  prompt: string,
+  negativePrompt: string,
+  settings: ImageSettings,
+  seedLocked: boolean
+): StudioSetup => ({
+  prompt,
+  negativePrompt,
+  stylePreset: settings.stylePreset,
+  aspectRatio: settings.aspectRatio,
+  steps: settings.steps,
+  guidance: settings.guidance,
+  ...(seedLocked && isValidSeed(settings.seed) && { seed: settings.seed })
+});
@@ -0,0 +1,10 @@
+// Seeds are unsigned 32-bit integers, the range accepted by diffusers and A1111
+export const MAX_SEED = 4294967295;
+
+// Marks images whose seed wasn't recorded (generated before seeds existed)
+export const UNKNOWN_SEED = -1;
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+export const isValidSeed = (seed: number): boolean =>
+  Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
@@ -0,0 +1,9 @@
+// Registers the service worker that the production build emits (see
+// vite.config.ts). The dev server has none, so nothing is cached there.
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch(err => console.error('Service worker registration failed:', err));
+  });
+};
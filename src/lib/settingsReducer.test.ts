@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { ImageSettings, StylePreset } from '../types';
+import { initialSettingsState, settingsReducer } from './settingsReducer';
+
+describe('settingsReducer', () => {
+  it('merges partial updates', () => {
+    const state = settingsReducer(initialSettingsState, { type: 'update', changes: { steps: 45, quality: 'hd' } });
+    expect(state.settings).toEqual({ ...DEFAULT_SETTINGS, steps: 45, quality: 'hd' });
+    expect(state.seedLocked).toBe(false);
+  });
+
+  it('locks the seed when one is typed in', () => {
+    const state = settingsReducer(initialSettingsState, { type: 'setSeed', seed: 1234 });
+    expect(state.settings.seed).toBe(1234);
+    expect(state.seedLocked).toBe(true);
+    expect(settingsReducer(state, { type: 'toggleSeedLock' }).seedLocked).toBe(false);
+  });
+
+  it('applies preset defaults and keeps settings the preset leaves out', () => {
+    const preset: StylePreset = {
+      id: 'poster',
+      name: 'Poster',
+      promptPrefix: '',
+      promptSuffix: ', poster',
+      negativePrompt: '',
+      steps: 40,
+      aspectRatio: '2:3'
+    };
+    const state = settingsReducer(initialSettingsState, { type: 'applyPreset', preset });
+    expect(state.settings).toEqual({ ...DEFAULT_SETTINGS, stylePreset: 'poster', steps: 40, aspectRatio: '2:3' });
+  });
+
+  it('restores old settings with defaults for missing fields', () => {
+    const oldSettings: Partial<ImageSettings> = { ...DEFAULT_SETTINGS, seed: 42 };
+    delete oldSettings.strength;
+    const state = settingsReducer(initialSettingsState, { type: 'restore', settings: oldSettings });
+    expect(state.settings).toEqual({ ...DEFAULT_SETTINGS, seed: 42 });
+    expect(state.seedLocked).toBe(true);
+  });
+
+  it('does not lock an unknown seed on restore', () => {
+    const state = settingsReducer(initialSettingsState, { type: 'restore', settings: { seed: -1 } });
+    expect(state.seedLocked).toBe(false);
+  });
+
+  it('resets to the defaults', () => {
+    const changed = settingsReducer(initialSettingsState, { type: 'setSeed', seed: 7 });
+    expect(settingsReducer(changed, { type: 'reset' })).toEqual(initialSettingsState);
+  });
+});
@@ -0,0 +1,45 @@
+import type { ImageSettings, StylePreset } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { isValidSeed } from './seed';
+import { applyPresetDefaults } from './stylePresets';
+
+export interface SettingsState {
+  settings: ImageSettings;
+  // A locked seed is reused for every generation instead of rolling a new one
+  seedLocked: boolean;
+}
+
+export type SettingsAction =
+  | { type: 'update'; changes: Partial<ImageSettings> }
+  | { type: 'applyPreset'; preset: StylePreset }
+  // Typing a seed locks it so the next generation uses it
+  | { type: 'setSeed'; seed: number }
+  | { type: 'toggleSeedLock' }
+  // Loads the settings of an existing image, e.g. for a remix
+  | { type: 'restore'; settings: Partial<ImageSettings> }
+  | { type: 'reset' };
+
+export const initialSettingsState: SettingsState = {
+  settings: DEFAULT_SETTINGS,
+  seedLocked: false
+};
+
+export const settingsReducer = (state: SettingsState, action: SettingsAction): SettingsState => {
+  switch (action.type) {
+    case 'update':
+      return { ...state, settings: { ...state.settings, ...action.changes } };
+    case 'applyPreset':
+      return { ...state, settings: applyPresetDefaults(state.settings, action.preset) };
+    case 'setSeed':
+      return { settings: { ...state.settings, seed: action.seed }, seedLocked: true };
+    case 'toggleSeedLock':
+      return { ...state, seedLocked: !state.seedLocked };
+    case 'restore': {
+      // Images from before a setting existed fall back to its default
+      const settings = { ...DEFAULT_SETTINGS, ...action.settings };
+      return { settings, seedLocked: isValidSeed(settings.seed) };
+    }
+    case 'reset':
+      return initialSettingsState;
+  }
+};
@@ -0,0 +1,123 @@
+import type { AspectRatio, ImageSettings, StylePreset } from '../types';
+import { ASPECT_RATIOS } from './resolution';
+
+// Style presets are data: the seven built-ins below ship with the app and
+// users can add their own, which are kept in localStorage.
+
+const CUSTOM_PRESETS_KEY = 'stylePresets';
+
+const builtIn = (id: string, name: string, promptSuffix: string): StylePreset => ({
+  id,
+  name,
+  promptPrefix: '',
+  promptSuffix,
+  negativePrompt: '',
+  builtIn: true
+});
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  builtIn('photographic', 'Photographic', ''),
+  builtIn('digital-art', 'Digital Art', ', digital-art style'),
+  builtIn('anime', 'Anime', ', anime style'),
+  builtIn('cinematic', 'Cinematic', ', cinematic style'),
+  builtIn('fantasy', 'Fantasy', ', fantasy style'),
+  builtIn('neon-punk', 'Neon Punk', ', neon-punk style'),
+  builtIn('abstract', 'Abstract', ', abstract style')
+];
+
+export const DEFAULT_STYLE_PRESET = BUILT_IN_STYLE_PRESETS[0];
+
+export const findStylePreset = (presets: StylePreset[], id: string): StylePreset =>
+  presets.find(preset => preset.id === id) ?? DEFAULT_STYLE_PRESET;
+
+export const createPresetId = (name: string): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset'}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Applies the preset's prompt template and default negative prompt
+export const applyStylePreset = (
+  prompt: string,
+  negativePrompt: string,
+  preset: StylePreset
+): { prompt: string; negativePrompt: string } => ({
+  prompt: `${preset.promptPrefix}${prompt}${preset.promptSuffix}`,
+  negativePrompt: [negativePrompt.trim(), preset.negativePrompt.trim()].filter(Boolean).join(', ')
+});
+
+// Settings after selecting a preset, taking over whichever defaults it defines
+export const applyPresetDefaults = (settings: ImageSettings, preset: StylePreset): ImageSettings => ({
+  ...settings,
+  stylePreset: preset.id,
+  ...(preset.steps !== undefined && { steps: preset.steps }),
+  ...(preset.guidance !== undefined && { guidance: preset.guidance }),
+  ...(preset.aspectRatio !== undefined && { aspectRatio: preset.aspectRatio })
+});
+
+const optionalNumber = (value: unknown, field: string, name: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Preset "${name}" has an invalid ${field}.`);
+  }
+  return value;
+};
+
+// Validates one preset read from JSON; throws with a readable message
+export const parseStylePreset = (value: unknown): StylePreset => {
+  if (!value || typeof value !== 'object') throw new Error('Each preset must be an object.');
+  const data = value as Record<string, unknown>;
+
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new Error('Each preset needs a name.');
+  const name = data.name.trim();
+
+  for (const field of ['promptPrefix', 'promptSuffix', 'negativePrompt']) {
+    if (data[field] !== undefined && typeof data[field] !== 'string') {
+      throw new Error(`Preset "${name}" has an invalid ${field}.`);
+    }
+  }
+  if (data.aspectRatio !== undefined && !ASPECT_RATIOS.includes(data.aspectRatio as AspectRatio)) {
+    throw new Error(`Preset "${name}" has an unsupported aspect ratio.`);
+  }
+
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : createPresetId(name),
+    name,
+    promptPrefix: (data.promptPrefix as string | undefined) ?? '',
+    promptSuffix: (data.promptSuffix as string | undefined) ?? '',
+    negativePrompt: (data.negativePrompt as string | undefined) ?? '',
+    steps: optionalNumber(data.steps, 'steps', name),
+    guidance: optionalNumber(data.guidance, 'guidance', name),
+    aspectRatio: data.aspectRatio as AspectRatio | undefined
+  };
+};
+
+// Accepts a single preset, an array of presets or `{ presets: [...] }`
+export const parseStylePresetsJson = (json: string): StylePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { presets?: unknown }).presets)
+      ? (data as { presets: unknown[] }).presets
+      : [data];
+  return list.map(parseStylePreset);
+};
+
+export const serializeStylePresets = (presets: StylePreset[]): string =>
+  JSON.stringify({ presets: presets.map(({ builtIn, ...preset }) => preset) }, null, 2);
+
+export const loadCustomPresets = (): StylePreset[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CUSTOM_PRESETS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.map(parseStylePreset) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable style presets:', err);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: StylePreset[]): void => {
+  localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { BUILT_IN_STYLE_PRESETS, DEFAULT_STYLE_PRESET } from './stylePresets';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import type { GenerationInput } from './generationClient';
+import { MAX_SWEEP_IMAGES, buildSweepInputs, parseSweepAxis, sweepValueLabel } from './sweep';
+
+const presets = BUILT_IN_STYLE_PRESETS;
+
+const base: GenerationInput = {
+  prompt: 'a lighthouse',
+  negativePrompt: '',
+  settings: { ...DEFAULT_SETTINGS, seed: 99 },
+  stylePreset: DEFAULT_STYLE_PRESET,
+  providerId: 'huggingface',
+  model: '',
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  mode: 'text-to-image'
+};
+
+describe('parseSweepAxis', () => {
+  it('parses lists and ranges of numbers', () => {
+    expect(parseSweepAxis('steps', '20, 30,40', presets).values).toEqual(['20', '30', '40']);
+    expect(parseSweepAxis('steps', '20-50 (+10)', presets).values).toEqual(['20', '30', '40', '50']);
+    expect(parseSweepAxis('guidance', '3.5-4.5 (+0.5), 7', presets).values).toEqual(['3.5', '4', '4.5', '7']);
+  });
+
+  it('drops duplicate values', () => {
+    expect(parseSweepAxis('seed', '1, 2, 1', presets).values).toEqual(['1', '2']);
+  });
+
+  it('matches style presets by name or id', () => {
+    expect(parseSweepAxis('stylePreset', 'anime, Neon Punk', presets).values).toEqual(['anime', 'neon-punk']);
+    expect(sweepValueLabel('stylePreset', 'neon-punk', presets)).toBe('Neon Punk');
+  });
+
+  it.each([
+    ['steps', '', 'Enter at least one steps value.'],
+    ['steps', '20, lots', '"lots" is not a valid steps value.'],
+    ['steps', '25.5', 'Steps must be a whole number between 1 and 150.'],
+    ['guidance', '40', 'Guidance must be between 0 and 30.'],
+    ['seed', '-1', '"-1" is not a valid seed.'],
+    ['steps', '50-20 (+10)', '"50-20 (+10)" is not a valid range.'],
+    ['stylePreset', 'watercolor', 'There is no style preset called "watercolor".']
+  ] as const)('rejects %s values "%s"', (parameter, text, message) => {
+    expect(() => parseSweepAxis(parameter, text, presets)).toThrow(message);
+  });
+});
+
+describe('buildSweepInputs', () => {
+  it('creates one input per cell, row by row, keeping everything else fixed', () => {
+    const x = parseSweepAxis('steps', '20, 40', presets);
+    const y = parseSweepAxis('stylePreset', 'anime, cinematic', presets);
+    const inputs = buildSweepInputs(base, x, y, presets);
+
+    expect(inputs.map(input => [input.settings.stylePreset, input.settings.steps])).toEqual([
+      ['anime', 20], ['anime', 40], ['cinematic', 20], ['cinematic', 40]
+    ]);
+    expect(inputs[3].stylePreset.name).toBe('Cinematic');
+    expect(inputs.every(input => input.settings.seed === 99 && input.prompt === 'a lighthouse')).toBe(true);
+  });
+
+  it('sweeps models and seeds', () => {
+    const inputs = buildSweepInputs(
+      base,
+      parseSweepAxis('model', 'a/one, b/two', presets),
+      parseSweepAxis('seed', '1', presets),
+      presets
+    );
+    expect(inputs.map(input => [input.model, input.settings.seed])).toEqual([['a/one', 1], ['b/two', 1]]);
+  });
+
+  it('rejects sweeps that are too large or use one parameter twice', () => {
+    const steps = parseSweepAxis('steps', '1-37 (+1)', presets);
+    expect(() => buildSweepInputs(base, steps, null, presets))
+      .toThrow(`That sweep would generate 37 images; the limit is ${MAX_SWEEP_IMAGES}.`);
+    const guidance = parseSweepAxis('guidance', '5', presets);
+    expect(() => buildSweepInputs(base, guidance, guidance, presets)).toThrow('Pick two different parameters');
+  });
+});
@@ -0,0 +1,144 @@
+import type { StylePreset } from '../types';
+import type { GenerationInput } from './generationClient';
+import { isValidSeed } from './seed';
+import { findStylePreset } from './stylePresets';
+
+// Parameter sweeps ("XY grids"): every combination of the values given for
+// one or two parameters is generated with everything else held fixed.
+
+export type SweepParameter = 'steps' | 'guidance' | 'stylePreset' | 'seed' | 'model';
+
+export const SWEEP_PARAMETERS: { id: SweepParameter; label: string; placeholder: string }[] = [
+  { id: 'steps', label: 'Steps', placeholder: '20, 30, 40 or 20-50 (+10)' },
+  { id: 'guidance', label: 'Guidance', placeholder: '5, 7.5, 10 or 4-12 (+2)' },
+  { id: 'stylePreset', label: 'Style preset', placeholder: 'Photographic, Anime' },
+  { id: 'seed', label: 'Seed', placeholder: '1, 2, 3' },
+  { id: 'model', label: 'Model', placeholder: 'model-a, model-b' }
+];
+
+// Keeps a sweep from accidentally queueing hundreds of generations
+export const MAX_SWEEP_IMAGES = 36;
+
+// Values are kept as strings: preset ids, model names or formatted numbers
+export interface SweepAxis {
+  parameter: SweepParameter;
+  values: string[];
+}
+
+// What the user typed in the sweep form
+export interface SweepConfig {
+  enabled: boolean;
+  xParameter: SweepParameter;
+  xValues: string;
+  // null for a one-dimensional sweep
+  yParameter: SweepParameter | null;
+  yValues: string;
+}
+
+export const DEFAULT_SWEEP_CONFIG: SweepConfig = {
+  enabled: false,
+  xParameter: 'steps',
+  xValues: '',
+  yParameter: null,
+  yValues: ''
+};
+
+const NUMERIC_LIMITS: Partial<Record<SweepParameter, { min: number; max: number; integer: boolean }>> = {
+  steps: { min: 1, max: 150, integer: true },
+  guidance: { min: 0, max: 30, integer: false }
+};
+
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)\s*\(\s*\+\s*(\d+(?:\.\d+)?)\s*\)$/;
+
+export const parameterLabel = (parameter: SweepParameter): string =>
+  SWEEP_PARAMETERS.find(p => p.id === parameter)?.label ?? parameter;
+
+// "20-50 (+10)" expands to 20, 30, 40, 50
+const expandRange = (token: string): number[] | null => {
+  const match = token.match(RANGE_PATTERN);
+  if (!match) return null;
+  const [start, end, step] = match.slice(1).map(Number);
+  if (step <= 0 || end < start) throw new Error(`"${token}" is not a valid range.`);
+  const values: number[] = [];
+  for (let value = start; value <= end + 1e-9 && values.length <= MAX_SWEEP_IMAGES; value += step) {
+    // Avoid values like 7.499999999 from repeated float addition
+    values.push(Math.round(value * 1e4) / 1e4);
+  }
+  return values;
+};
+
+const checkNumber = (parameter: SweepParameter, value: number, token: string): number => {
+  const label = parameterLabel(parameter);
+  if (!Number.isFinite(value)) throw new Error(`"${token}" is not a valid ${label.toLowerCase()} value.`);
+  if (parameter === 'seed') {
+    if (!isValidSeed(value)) throw new Error(`"${token}" is not a valid seed.`);
+    return value;
+  }
+  const limits = NUMERIC_LIMITS[parameter]!;
+  if ((limits.integer && !Number.isInteger(value)) || value < limits.min || value > limits.max) {
+    throw new Error(`${label} must be ${limits.integer ? 'a whole number ' : ''}between ${limits.min} and ${limits.max}.`);
+  }
+  return value;
+};
+
+const parseNumbers = (parameter: SweepParameter, token: string): number[] =>
+  (expandRange(token) ?? [Number(token)]).map(value => checkNumber(parameter, value, token));
+
+// Turns the comma-separated text for one axis into values; throws with a readable message
+export const parseSweepAxis = (parameter: SweepParameter, text: string, presets: StylePreset[]): SweepAxis => {
+  const tokens = text.split(',').map(token => token.trim()).filter(Boolean);
+  if (tokens.length === 0) throw new Error(`Enter at least one ${parameterLabel(parameter).toLowerCase()} value.`);
+
+  let values: string[];
+  if (parameter === 'stylePreset') {
+    values = tokens.map(token => {
+      const preset = presets.find(p => p.id === token || p.name.toLowerCase() === token.toLowerCase());
+      if (!preset) throw new Error(`There is no style preset called "${token}".`);
+      return preset.id;
+    });
+  } else if (parameter === 'model') {
+    values = tokens;
+  } else {
+    values = tokens.flatMap(token => parseNumbers(parameter, token)).map(String);
+  }
+  return { parameter, values: [...new Set(values)] };
+};
+
+export const sweepValueLabel = (parameter: SweepParameter, value: string, presets: StylePreset[]): string =>
+  parameter === 'stylePreset' ? findStylePreset(presets, value).name : value;
+
+const applySweepValue = (
+  input: GenerationInput,
+  parameter: SweepParameter,
+  value: string,
+  presets: StylePreset[]
+): GenerationInput => {
+  switch (parameter) {
+    case 'steps': return { ...input, settings: { ...input.settings, steps: Number(value) } };
+    case 'guidance': return { ...input, settings: { ...input.settings, guidance: Number(value) } };
+    case 'seed': return { ...input, settings: { ...input.settings, seed: Number(value) } };
+    case 'model': return { ...input, model: value };
+    case 'stylePreset': {
+      const stylePreset = findStylePreset(presets, value);
+      return { ...input, stylePreset, settings: { ...input.settings, stylePreset: stylePreset.id } };
+    }
+  }
+};
+
+// One input per grid cell, row by row (y outer, x inner)
+export const buildSweepInputs = (
+  base: GenerationInput,
+  x: SweepAxis,
+  y: SweepAxis | null,
+  presets: StylePreset[]
+): GenerationInput[] => {
+  if (y && y.parameter === x.parameter) throw new Error('Pick two different parameters for the X and Y axes.');
+  const count = x.values.length * (y?.values.length ?? 1);
+  if (count > MAX_SWEEP_IMAGES) {
+    throw new Error(`That sweep would generate ${count} images; the limit is ${MAX_SWEEP_IMAGES}.`);
+  }
+  return (y?.values ?? [null]).flatMap(yValue => {
+    const row = yValue === null ? base : applySweepValue(base, y!.parameter, yValue, presets);
+    return x.values.map(xValue => applySweepValue(row, x.parameter, xValue, presets));
+  });
+};
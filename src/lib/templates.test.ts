@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { expandVariables, extractVariables, fillTemplate, parseVariableValues } from './templates';
+
+describe('extractVariables', () => {
+  it('lists each name once in order of first appearance', () => {
+    expect(extractVariables('{{ product }} in {{color}}', 'a {{color}} {{product-line}}'))
+      .toEqual(['product', 'color', 'product-line']);
+    expect(extractVariables('no variables, {single} braces')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces every occurrence, allowing spaces inside the braces', () => {
+    expect(fillTemplate('{{color}} mug, {{ color }} handle', { color: 'red' })).toBe('red mug, red handle');
+  });
+
+  it('keeps placeholders that have no value', () => {
+    expect(fillTemplate('{{product}} in {{color}}', { product: 'mug' })).toBe('mug in {{color}}');
+  });
+
+  it('fills empty values and inserts values literally', () => {
+    expect(fillTemplate('a {{color}}mug', { color: '' })).toBe('a mug');
+    expect(fillTemplate('{{price}}', { price: '$& off' })).toBe('$& off');
+  });
+
+  it('leaves malformed placeholders alone', () => {
+    expect(fillTemplate('{{color} {{ }} {{two words}}', { color: 'red' })).toBe('{{color} {{ }} {{two words}}');
+  });
+});
+
+describe('parseVariableValues', () => {
+  it('takes one trimmed value per line and skips blank lines', () => {
+    expect(parseVariableValues(' red \n\n  \nblue\r\n')).toEqual(['red', 'blue']);
+  });
+});
+
+describe('expandVariables', () => {
+  it('gives every combination with the first variable changing slowest', () => {
+    expect(expandVariables({ sku: ['a', 'b'], color: ['red', 'blue'] })).toEqual([
+      { sku: 'a', color: 'red' },
+      { sku: 'a', color: 'blue' },
+      { sku: 'b', color: 'red' },
+      { sku: 'b', color: 'blue' }
+    ]);
+  });
+
+  it('gives a single empty combination when there are no variables', () => {
+    expect(expandVariables({})).toEqual([{}]);
+  });
+
+  it('gives no combinations when a variable has no values', () => {
+    expect(expandVariables({ sku: ['a', 'b'], color: [] })).toEqual([]);
+  });
+});
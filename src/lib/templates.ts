@@ -0,0 +1,30 @@
+// `{{variable}}` placeholders in prompt templates
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Variable names in order of first appearance across all given texts
+export const extractVariables = (...texts: string[]): string[] => {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+};
+
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+// Splits a variable input into its values, one per line
+export const parseVariableValues = (input: string): string[] =>
+  input.split('\n').map(value => value.trim()).filter(Boolean);
+
+// Every combination of values, e.g. { sku: [a, b], color: [red] } gives
+// [{ sku: a, color: red }, { sku: b, color: red }]
+export const expandVariables = (valuesByName: Record<string, string[]>): Record<string, string>[] =>
+  Object.entries(valuesByName).reduce<Record<string, string>[]>(
+    (combinations, [name, values]) =>
+      combinations.flatMap(combination => values.map(value => ({ ...combination, [name]: value }))),
+    [{}]
+  );
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as usage from './usage';
+import type { Budget, UsageRecord } from './usage';
+
+// Wednesday 14 October 2026, 15:00 local time
+const NOW = new Date(2026, 9, 14, 15).getTime();
+const at = (day: number, hour = 12) => new Date(2026, 9, day, hour).getTime();
+
+const record = (id: string, timestamp: number, changes: Partial<UsageRecord> = {}): UsageRecord => ({
+  id,
+  timestamp,
+  provider: 'openai',
+  model: 'dall-e-3',
+  width: 1024,
+  height: 1024,
+  mode: 'text-to-image',
+  success: true,
+  attempts: 1,
+  durationMs: 10_000,
+  cost: 0.04,
+  ...changes
+});
+
+const budget = (changes: Partial<Budget>): Budget => ({
+  id: 'budget',
+  provider: 'all',
+  period: 'day',
+  unit: 'images',
+  soft: null,
+  hard: null,
+  ...changes
+});
+
+describe('periodStart', () => {
+  it('starts days at midnight, weeks on Monday and months on the first', () => {
+    expect(usage.periodStart('day', NOW)).toBe(new Date(2026, 9, 14).getTime());
+    expect(usage.periodStart('week', NOW)).toBe(new Date(2026, 9, 12).getTime());
+    expect(usage.periodStart('month', NOW)).toBe(new Date(2026, 9, 1).getTime());
+    // Sunday still belongs to the week that started on Monday
+    expect(usage.periodStart('week', at(18))).toBe(new Date(2026, 9, 12).getTime());
+  });
+});
+
+describe('usage totals', () => {
+  const records = [
+    record('today', at(14, 9)),
+    record('today-failed', at(14, 10), { success: false, error: 'rate-limited', cost: 0 }),
+    record('monday', at(12), { provider: 'huggingface', cost: 0 }),
+    record('last-week', at(8), { cost: 0.08 })
+  ];
+
+  it('totals images, failures, time and cost per day, newest first', () => {
+    const days = usage.usageByPeriod(records, 'day', 3, NOW);
+
+    expect(days.map(day => day.start)).toEqual([at(14, 0), at(13, 0), at(12, 0)]);
+    expect(days[0].totals).toEqual({ images: 1, failed: 1, cost: 0.04, durationMs: 20_000 });
+    expect(days[1].totals.images).toBe(0);
+    expect(days[2].totals.images).toBe(1);
+  });
+
+  it('totals per week', () => {
+    const weeks = usage.usageByPeriod(records, 'week', 2, NOW);
+
+    expect(weeks.map(week => week.totals.images)).toEqual([2, 1]);
+    expect(weeks[1].totals.cost).toBe(0.08);
+  });
+
+  it('totals per provider, busiest first', () => {
+    expect(usage.usageByProvider(records).map(({ provider, totals }) => [provider, totals.images + totals.failed]))
+      .toEqual([['openai', 3], ['huggingface', 1]]);
+  });
+});
+
+describe('checkBudgets', () => {
+  const records = [record('1', at(14, 9)), record('2', at(14, 10)), record('yesterday', at(13))];
+
+  it('blocks requests that would go over a hard limit', () => {
+    const check = usage.checkBudgets([budget({ hard: 3 })], records, [{ provider: 'openai', cost: 0.04 }, { provider: 'mock', cost: 0 }], NOW);
+
+    expect(check.blocked).toEqual(['Daily image limit of 3 images reached (2 images used, 2 images requested).']);
+    expect(check.warnings).toEqual([]);
+  });
+
+  it('warns about soft limits and only counts matching providers', () => {
+    const budgets = [
+      budget({ id: 'openai', provider: 'openai', unit: 'cost', period: 'week', soft: 0.1, hard: 1 }),
+      budget({ id: 'mock', provider: 'mock', soft: 0 })
+    ];
+
+    const check = usage.checkBudgets(budgets, records, [{ provider: 'openai', cost: 0.04 }], NOW);
+
+    expect(check.blocked).toEqual([]);
+    expect(check.warnings).toEqual([
+      'Weekly spending limit for OpenAI-compatible of $0.10 exceeded ($0.12 used, $0.04 requested).'
+    ]);
+  });
+
+  it('counts what running jobs have reserved as used', () => {
+    const reserved = [{ provider: 'openai' as const, cost: 0.04 }];
+
+    const check = usage.checkBudgets([budget({ hard: 3 })], records, [{ provider: 'openai', cost: 0.04 }], NOW, reserved);
+
+    expect(check.blocked).toEqual(['Daily image limit of 3 images reached (3 images used, 1 image requested).']);
+    expect(usage.checkBudgets([budget({ hard: 4 })], records, [{ provider: 'openai', cost: 0.04 }], NOW, reserved).blocked).toEqual([]);
+  });
+
+  it('allows requests within every limit', () => {
+    const check = usage.checkBudgets([budget({ soft: 3, hard: 5 })], records, [{ provider: 'openai', cost: 0.04 }], NOW);
+
+    expect(check).toEqual({ blocked: [], warnings: [] });
+  });
+});
+
+describe('usage ledger', () => {
+  afterEach(async () => {
+    await usage.clearUsage();
+  });
+
+  it('loads records from a given time and prunes older ones', async () => {
+    await usage.saveUsageRecord(record('old', at(1)));
+    await usage.saveUsageRecord(record('new', at(14)));
+    await usage.saveUsageRecord(record('newer', at(14, 13)));
+
+    expect((await usage.loadUsage(at(10))).map(r => r.id)).toEqual(['new', 'newer']);
+
+    await usage.pruneUsage(at(10));
+    expect((await usage.loadUsage(0)).map(r => r.id)).toEqual(['new', 'newer']);
+  });
+});
+
+describe('budget persistence', () => {
+  it('keeps only valid saved budgets', () => {
+    const valid = budget({ id: 'ok', provider: 'openai', hard: 2 });
+    localStorage.setItem('usageBudgets', JSON.stringify([valid, { ...valid, id: 'bad', provider: 'midjourney' }, { id: 'x' }]));
+
+    expect(usage.loadBudgets()).toEqual([valid]);
+  });
+
+  it('ignores unreadable budgets', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('usageBudgets', '{not json');
+
+    expect(usage.loadBudgets()).toEqual([]);
+  });
+});
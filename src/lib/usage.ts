@@ -0,0 +1,250 @@
+import type { GenerationMode } from '../types';
+import { PROVIDERS, isProviderId, type ProviderErrorCode, type ProviderId } from './providers';
+import { USAGE_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// Ledger of generation jobs and the budgets checked against it. Records live
+// in IndexedDB next to the gallery; budgets are small and go to localStorage.
+
+// One entry per generation job, whether it produced an image or not
+export interface UsageRecord {
+  id: string;
+  // When the job started
+  timestamp: number;
+  provider: ProviderId;
+  model: string;
+  width: number;
+  height: number;
+  mode: GenerationMode;
+  success: boolean;
+  // Why a failed job failed
+  error?: ProviderErrorCode;
+  // Requests sent, including retries
+  attempts: number;
+  durationMs: number;
+  // Estimated price in US dollars; failed jobs are assumed not to be billed
+  cost: number;
+}
+
+export type BudgetPeriod = 'day' | 'week' | 'month';
+export type BudgetUnit = 'images' | 'cost';
+
+export interface Budget {
+  id: string;
+  // 'all' counts every provider together
+  provider: ProviderId | 'all';
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  // Going over asks for confirmation; null for no limit
+  soft: number | null;
+  // Going over is refused
+  hard: number | null;
+}
+
+export interface UsageTotals {
+  // Successful jobs
+  images: number;
+  failed: number;
+  cost: number;
+  durationMs: number;
+}
+
+export interface PeriodUsage {
+  start: number;
+  totals: UsageTotals;
+}
+
+// A job about to be sent, as seen by the budget check
+export interface PlannedUsage {
+  provider: ProviderId;
+  cost: number;
+}
+
+export interface BudgetCheck {
+  // Hard limits the planned jobs would go over
+  blocked: string[];
+  // Soft limits the planned jobs would go over
+  warnings: string[];
+}
+
+// A started job's share of the budgets, held until its usage is recorded.
+// Nothing is held when `blocked` isn't empty.
+export interface BudgetReservation extends BudgetCheck {
+  release: () => void;
+}
+
+export const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly'
+};
+
+// Records older than this are deleted when the ledger is loaded
+export const USAGE_RETENTION_MS = 366 * 24 * 60 * 60 * 1000;
+
+const BUDGETS_KEY = 'usageBudgets';
+
+export const createBudgetId = (): string =>
+  `budget-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Start of the local day, Monday-based week or month containing `now`
+export const periodStart = (period: BudgetPeriod, now: number): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  if (period === 'month') date.setDate(1);
+  return date.getTime();
+};
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    images: totals.images + (record.success ? 1 : 0),
+    failed: totals.failed + (record.success ? 0 : 1),
+    cost: totals.cost + record.cost,
+    durationMs: totals.durationMs + record.durationMs
+  }), { images: 0, failed: 0, cost: 0, durationMs: 0 });
+
+// Totals for the last `count` days or weeks, newest first. Stepping by
+// calendar date keeps periods aligned across daylight saving changes.
+export const usageByPeriod = (
+  records: UsageRecord[],
+  period: 'day' | 'week',
+  count: number,
+  now: number
+): PeriodUsage[] => {
+  const step = period === 'day' ? 1 : 7;
+  const periods: PeriodUsage[] = [];
+  let end = Infinity;
+  const start = new Date(periodStart(period, now));
+  for (let i = 0; i < count; i++) {
+    const from = start.getTime();
+    periods.push({
+      start: from,
+      totals: totalUsage(records.filter(record => record.timestamp >= from && record.timestamp < end))
+    });
+    end = from;
+    start.setDate(start.getDate() - step);
+  }
+  return periods;
+};
+
+// Totals per provider, busiest first
+export const usageByProvider = (records: UsageRecord[]): { provider: ProviderId; totals: UsageTotals }[] =>
+  (Object.keys(PROVIDERS) as ProviderId[])
+    .map(provider => ({ provider, totals: totalUsage(records.filter(record => record.provider === provider)) }))
+    .filter(({ totals }) => totals.images + totals.failed > 0)
+    .sort((a, b) => (b.totals.images + b.totals.failed) - (a.totals.images + a.totals.failed));
+
+// How much of the budget the current period has used
+export const budgetUsed = (budget: Budget, records: UsageRecord[], now: number): number => {
+  const from = periodStart(budget.period, now);
+  const totals = totalUsage(records.filter(record =>
+    record.timestamp >= from && (budget.provider === 'all' || record.provider === budget.provider)));
+  return budget.unit === 'images' ? totals.images : totals.cost;
+};
+
+export const formatCost = (dollars: number): string => `$${dollars.toFixed(2)}`;
+
+export const formatBudgetAmount = (unit: BudgetUnit, amount: number): string =>
+  unit === 'cost' ? formatCost(amount) : `${amount} ${amount === 1 ? 'image' : 'images'}`;
+
+const describeBudget = (budget: Budget): string =>
+  `${PERIOD_LABELS[budget.period]} ${budget.unit === 'cost' ? 'spending' : 'image'} limit${
+    budget.provider === 'all' ? '' : ` for ${PROVIDERS[budget.provider].name}`
+  }`;
+
+// What `jobs` would take from a budget, in its unit
+const budgetShare = (budget: Budget, jobs: PlannedUsage[]): number => {
+  const matching = jobs.filter(job => budget.provider === 'all' || job.provider === budget.provider);
+  return budget.unit === 'images' ? matching.length : matching.reduce((sum, job) => sum + job.cost, 0);
+};
+
+// Checks whether the planned jobs fit in every budget that applies to them.
+// Budgets count what is already used, what running jobs have reserved and
+// everything planned.
+export const checkBudgets = (
+  budgets: Budget[],
+  records: UsageRecord[],
+  planned: PlannedUsage[],
+  now: number,
+  reserved: PlannedUsage[] = []
+): BudgetCheck => {
+  const check: BudgetCheck = { blocked: [], warnings: [] };
+  for (const budget of budgets) {
+    const requested = budgetShare(budget, planned);
+    if (requested === 0) continue;
+    const used = budgetUsed(budget, records, now) + budgetShare(budget, reserved);
+    const projected = used + requested;
+    const detail = `${formatBudgetAmount(budget.unit, used)} used, ${formatBudgetAmount(budget.unit, requested)} requested`;
+    if (budget.hard !== null && projected > budget.hard) {
+      check.blocked.push(`${describeBudget(budget)} of ${formatBudgetAmount(budget.unit, budget.hard)} reached (${detail}).`);
+    } else if (budget.soft !== null && projected > budget.soft) {
+      check.warnings.push(`${describeBudget(budget)} of ${formatBudgetAmount(budget.unit, budget.soft)} exceeded (${detail}).`);
+    }
+  }
+  return check;
+};
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(record);
+  await transactionDone(tx);
+};
+
+// Returns records from `since` onwards, oldest first
+export const loadUsage = async (since: number): Promise<UsageRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readonly');
+  const index = tx.objectStore(USAGE_STORE).index('timestamp');
+  return requestToPromise(index.getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<UsageRecord[]>);
+};
+
+// Deletes records older than `before`
+export const pruneUsage = async (before: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  const index = tx.objectStore(USAGE_STORE).index('timestamp');
+  const request = index.openCursor(IDBKeyRange.upperBound(before, true));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+export const clearUsage = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
+
+const isLimit = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+const isBudget = (value: unknown): value is Budget => {
+  if (!value || typeof value !== 'object') return false;
+  const budget = value as Record<string, unknown>;
+  return typeof budget.id === 'string'
+    && (budget.provider === 'all' || isProviderId(budget.provider))
+    && (budget.period === 'day' || budget.period === 'week' || budget.period === 'month')
+    && (budget.unit === 'images' || budget.unit === 'cost')
+    && isLimit(budget.soft)
+    && isLimit(budget.hard);
+};
+
+export const loadBudgets = (): Budget[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUDGETS_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isBudget) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable usage budgets:', err);
+    return [];
+  }
+};
+
+export const saveBudgets = (budgets: Budget[]): void => {
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+};
@@ -0,0 +1,67 @@
+// Service worker. This file is a template: the build (see vite.config.ts)
+// fills in BUILD with the version and list of files it produced.
+
+const BUILD = self.__BUILD__;
+const SHELL_CACHE = `dreamcanvas-shell-${BUILD.version}`;
+const RUNTIME_CACHE = 'dreamcanvas-runtime';
+
+// Files in public/ that the build doesn't list
+const STATIC_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+// Third-party hosts whose responses are kept after the first visit: the web
+// fonts and the hero image
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'images.unsplash.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(['/', ...BUILD.files, ...STATIC_FILES]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drops the app shell of earlier builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('dreamcanvas-shell-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Images loaded without CORS come back opaque, which is fine to replay
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Generation and progress requests always need the network
+    if (url.pathname.startsWith('/api/')) return;
+    // Pages come from the network when possible so a new build shows up,
+    // and from the cached shell when offline
+    if (request.mode === 'navigate') {
+      event.respondWith(fetch(request).catch(() => caches.match('/')));
+      return;
+    }
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
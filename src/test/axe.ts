@@ -0,0 +1,13 @@
+import axe from 'axe-core';
+
+// Accessibility rule violations inside `container`, one readable line each,
+// so a failing test shows what broke and where
+export const axeViolations = async (container: Element): Promise<string[]> => {
+  const results = await axe.run(container, {
+    // jsdom doesn't render, so there are no colors to check contrast against
+    rules: { 'color-contrast': { enabled: false } }
+  });
+  return results.violations.flatMap(violation =>
+    violation.nodes.map(node => `${violation.id}: ${violation.help} (${node.target.join(' ')})`)
+  );
+};
@@ -0,0 +1,21 @@
+import { vi } from 'vitest';
+
+// Helpers for tests that stub the global fetch
+
+export const imageResponse = (bytes = [137, 80, 78, 71], type = 'image/png'): Response =>
+  new Response(new Uint8Array(bytes), { status: 200, headers: { 'Content-Type': type } });
+
+export const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Stubs fetch with responses returned in order; the last one repeats
+export const mockFetch = (...responses: (Response | Error)[]) => {
+  let call = 0;
+  const fetchMock = vi.fn<typeof fetch>(async () => {
+    const next = responses[Math.min(call++, responses.length - 1)];
+    if (next instanceof Error) throw next;
+    return next.clone();
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
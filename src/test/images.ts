@@ -0,0 +1,23 @@
+import { DEFAULT_SETTINGS } from '../constants';
+import type { ImageRecord } from '../lib/backendTypes';
+import type { StoredImage } from '../lib/imageStore';
+import type { GeneratedImage } from '../types';
+
+// Image metadata for tests, with the given fields replaced. Pass `url` for a
+// gallery image or `blob` for a stored one.
+export const makeImage = <T extends Partial<GeneratedImage & StoredImage>>(overrides = {} as T): ImageRecord & T => ({
+  id: 'image',
+  prompt: `prompt ${overrides.id ?? 'image'}`,
+  negativePrompt: '',
+  timestamp: 0,
+  aspectRatio: '1:1',
+  settings: DEFAULT_SETTINGS,
+  width: 512,
+  height: 512,
+  provider: 'huggingface',
+  model: 'test-model',
+  mode: 'text-to-image',
+  favorite: false,
+  tags: [],
+  ...overrides
+});
@@ -0,0 +1,25 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { Blob as NodeBlob } from 'node:buffer';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom's Blob can't be structured-cloned into IndexedDB and isn't what
+// fetch responses return, so use Node's everywhere
+globalThis.Blob = NodeBlob as typeof Blob;
+
+// jsdom implements neither object URLs nor scrolling. Server tests run in
+// the node environment, where there is no DOM to patch.
+if (typeof window !== 'undefined') {
+  let nextObjectUrl = 0;
+  URL.createObjectURL = vi.fn(() => `blob:test/${++nextObjectUrl}`);
+  URL.revokeObjectURL = vi.fn();
+  Element.prototype.scrollIntoView = vi.fn();
+  window.scrollTo = vi.fn() as typeof window.scrollTo;
+}
+
+afterEach(() => {
+  cleanup();
+  globalThis.localStorage?.clear();
+  vi.unstubAllGlobals();
+});
@@ -0,0 +1,90 @@
+// Shared types
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4' | '3:2' | '2:3';
+export type ImageQuality = 'standard' | 'hd';
+export type GenerationMode = 'text-to-image' | 'image-to-image' | 'inpaint';
+
+// Starting point for image-to-image and inpainting, as base64 data URLs
+export interface SourceImage {
+  image: string;
+  // White areas are repainted, black areas are kept
+  mask?: string;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  // Wrapped around the user's prompt
+  promptPrefix: string;
+  promptSuffix: string;
+  // Added to the user's negative prompt
+  negativePrompt: string;
+  // Settings applied when the preset is selected; unset values are left alone
+  steps?: number;
+  guidance?: number;
+  aspectRatio?: AspectRatio;
+  builtIn?: boolean;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Crop rectangle as fractions of the (rotated) image size
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Post-processing applied in the browser. Adjustments are percentages where
+// 100 leaves the image unchanged, matching CSS filter values.
+export interface ImageEdits {
+  rotation: Rotation;
+  crop: CropRect | null;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  upscale: 1 | 2 | 4;
+}
+
+export interface ImageSettings {
+  aspectRatio: AspectRatio;
+  // Id of a StylePreset
+  stylePreset: string;
+  quality: ImageQuality;
+  steps: number;
+  guidance: number;
+  seed: number;
+  // How far image-to-image may move away from the source (0 keeps it, 1 ignores it)
+  strength: number;
+}
+
+export interface GeneratedImage {
+  id: string;
+  // Object URL created from the stored blob; only valid for the current page session
+  url: string;
+  prompt: string;
+  negativePrompt: string;
+  timestamp: number;
+  aspectRatio: AspectRatio;
+  settings: ImageSettings;
+  // Resolution requested from the provider
+  width: number;
+  height: number;
+  provider: string;
+  model: string;
+  mode: GenerationMode;
+  // Gallery image the generation started from, if any
+  sourceImageId?: string;
+  // Favorites are never removed by gallery retention
+  favorite: boolean;
+  tags: string[];
+  // Set on edited versions: the untouched image they were made from and what
+  // was done to it. Width and height are then the edited image's size.
+  originalImageId?: string;
+  edits?: ImageEdits;
+  // How long the generation took, from starting to run until the image arrived
+  generationMs?: number;
+  // Set when the image classifier flagged the image; the UI hides it until revealed
+  flagged?: boolean;
+  flagLabel?: string;
+}
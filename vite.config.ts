@@ -1,10 +1,82 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createBackendHandler } from './server/backendHandler';
+import { createGenerateHandler } from './server/generateHandler';
 
-// https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
+// Serves the generation proxy from the dev and preview servers so provider
+// tokens stay in the Node process instead of the client bundle.
+const generationProxy = (env: Record<string, string>): Plugin => {
+  const handler = createGenerateHandler({
+    env,
+    rateLimit: Number(env.RATE_LIMIT_PER_MINUTE) || undefined
+  });
+  return {
+    name: 'dreamcanvas-generation-proxy',
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+};
+
+// Serves the accounts and workspaces API when DATABASE_PATH is set. The
+// store, and with it the optional native SQLite module, is only loaded once a
+// server starts with a database, never for builds or tests.
+const backend = (env: Record<string, string>): Plugin => {
+  const handler = async () => {
+    const { openStore } = await import('./server/store');
+    return createBackendHandler({ store: openStore(env.DATABASE_PATH) });
+  };
+  return {
+    name: 'dreamcanvas-backend',
+    async configureServer(server) {
+      if (env.DATABASE_PATH) server.middlewares.use(await handler());
+    },
+    async configurePreviewServer(server) {
+      if (env.DATABASE_PATH) server.middlewares.use(await handler());
+    },
+  };
+};
+
+// Emits the service worker with the files of this build to precache. The
+// list changes with every build that changes a file, so browsers install the
+// new worker and drop the old app shell. Chunks loaded on demand, like the
+// CLIP vocabulary, are left to the runtime cache so installs stay small.
+const serviceWorker = (): Plugin => ({
+  name: 'dreamcanvas-service-worker',
+  apply: 'build',
+  async generateBundle(_options, bundle) {
+    const template = await readFile(new URL('./src/sw.js', import.meta.url), 'utf8');
+    const files = Object.values(bundle)
+      .filter(output => output.type === 'asset' || !output.isDynamicEntry)
+      .map(output => `/${output.fileName}`)
+      .sort();
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template.replace('self.__BUILD__', JSON.stringify({ version, files }))
+    });
   },
 });
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  return {
+    plugins: [react(), generationProxy(env), backend(env), serviceWorker()],
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+    test: {
+      environment: 'jsdom',
+      environmentMatchGlobs: [['server/**', 'node'], ['cli/**', 'node']],
+      setupFiles: ['./src/test/setup.ts'],
+    },
+  };
+});